@@ -1,37 +1,80 @@
 import './bootstrap';
 import {
   loadConfig,
-  steamAdapter,
-  playniteAdapter,
-  heroicAdapter,
-  createProtonDBAdapter,
-  createGamePassAdapter,
-  igdbAdapter,
   createNotionClient,
-  processRawGames,
-  loadOverrides,
-  normalizeGameName,
-  generateMergeSuggestions,
-  saveMergeSuggestions,
-  loadOwnedXboxGames,
-  processGamePassAvailability,
-  saveUnavailableGames,
-  getInterestGamesToSync,
-  shouldSyncToNotion,
-  resolveXboxSource,
+  createSyncPipeline,
+  createSyncPlan,
+  getSourceBreakdown,
+  loadSyncPlan,
+  parseSyncArgs,
+  saveSyncPlan,
+  summarizeSyncPlan,
+  Config,
+  SyncCommand,
+  SyncPlan,
+  SYNC_USAGE,
 } from '@gamekeeper/core';
-import type { RawGameData, UnifiedGame, Source } from '@gamekeeper/core';
-import fs from 'fs/promises';
+
+const formatSummary = (summary: Record<string, number>) =>
+  Object.entries(summary)
+    .map(([type, count]) => `${count} ${type}`)
+    .join(', ');
+
+/**
+ * Carry out a saved plan without running the pipeline
+ */
+const applyPlan = async (config: Config, planPath: string) => {
+  const plan = await loadSyncPlan(planPath);
+  console.log(
+    `📋 Applying ${planPath} from ${plan.createdAt}: ${formatSummary(summarizeSyncPlan(plan))}`,
+  );
+
+  const notionClient = createNotionClient(
+    config.notion.apiKey,
+    config.notion.databaseId,
+    config.notion.titleProperty,
+    config.notion.syncProperties,
+    { relationDatabases: config.notion.relationDatabases },
+  );
+  try {
+    const result = await notionClient.applyPlan(plan);
+    console.log(`\n✅ Plan applied: ${formatSummary(result)}`);
+    if (result.errors > 0) process.exitCode = 1;
+  } catch (error) {
+    console.error('\n❌ Plan not applied:', error);
+    process.exit(1);
+  }
+};
 
 /**
  * Main orchestration function
- * Coordinates the entire sync process
+ * Drives the core sync pipeline and prints a summary
  */
 const main = async () => {
+  let args: SyncCommand;
+  try {
+    args = parseSyncArgs(process.argv.slice(2));
+  } catch (error) {
+    console.error(`❌ ${(error as Error).message}\n\n${SYNC_USAGE}`);
+    process.exit(1);
+  }
+
   // 1. Load configuration
-  const config = loadConfig();
+  let config = loadConfig();
   console.log('📋 Configuration loaded');
 
+  if (args.command === 'apply') {
+    await applyPlan(config, args.planPath);
+    return;
+  }
+
+  // A plan is a dry run that records what it would write
+  let plan: SyncPlan | undefined;
+  if (args.command === 'plan') {
+    config = { ...config, dryRun: true };
+    plan = createSyncPlan();
+  }
+
   console.log('🎮 GameKeeper - Starting sync...\n');
   if (config.dryRun) {
     console.log('🏃 DRY RUN MODE — Notion will not be modified\n');
@@ -40,409 +83,51 @@ const main = async () => {
     console.log('[DEBUG] Debug logging enabled\n');
   }
 
-  try {
-    // 2. Load manual overrides
-    await loadOverrides('./data/overrides.json');
-
-    // 3. Initialize adapters
-    console.log('🔧 Initializing adapters...');
-    const protonDbAdapter = createProtonDBAdapter(
-      '.cache/protondb',
-      config.protondb.cacheDays,
-    );
-    const gamePassAdapter = createGamePassAdapter(
-      '.cache/gamepass',
-      7, // Cache for 7 days
-    );
-    const notionClient = createNotionClient(
-      config.notion.apiKey,
-      config.notion.databaseId,
-      config.notion.titleProperty,
-      config.notion.syncProperties,
-      config.dryRun,
-    );
-
-    await protonDbAdapter.init();
-    await igdbAdapter.initialize();
-    console.log('✅ Adapters initialized\n');
-
-    // 4. Verify Notion database access
-    console.log('🔍 Verifying Notion database...');
-    const notionAccessible = await notionClient.verifyDatabase();
-    if (!notionAccessible) {
-      throw new Error(
-        'Cannot access Notion database. Check your API key and database ID.',
-      );
-    }
-    console.log('✅ Notion database verified\n');
-
-    // 5. Fetch games from all sources
-    console.log('📥 Fetching games from sources...\n');
-
-    const rawGames: RawGameData[] = [];
-
-    // Fetch Steam games
-    console.log('⚙️  Fetching from Steam...');
-    try {
-      const steamGames = await steamAdapter.fetchOwnedGames(
-        config.steam.apiKey,
-        config.steam.userId,
-      );
-      rawGames.push(...steamGames);
-      console.log(`✅ Steam: ${steamGames.length} games\n`);
-    } catch (error) {
-      console.error('❌ Failed to fetch Steam games:', error);
-      console.log('Continuing without Steam data...\n');
-    }
-
-    // Load non-Steam games (Heroic or Playnite) + Xbox/Game Pass
-    console.log(
-      config.playniteEnabled
-        ? '📦 Loading Playnite snapshot...'
-        : '📦 Loading Heroic libraries...',
-    );
-    let gamePassData:
-      | { sourceGames: RawGameData[]; gamePassCatalog: any[] }
-      | undefined;
-    let gamePassCatalogTitles: Set<string> | undefined;
-    try {
-      // Load Game Pass catalog (always needed)
-      console.log('🎮 Loading Game Pass catalog...');
-      const gamePassCatalog = await gamePassAdapter.getCatalog();
-      console.log(`✅ Game Pass: ${gamePassCatalog.length} games available`);
-
-      // Build normalized set of catalog titles for removal detection.
-      // Each title contributes two keys: its normalized form AND its word-sorted
-      // form, so titles with swapped main/subtitle (e.g. "Hellblade II: Senua's
-      // Saga" vs "Senua's Saga: Hellblade II") still match.
-      gamePassCatalogTitles = new Set(
-        gamePassCatalog
-          .filter((g: any) => g.available)
-          .flatMap((g: any) => {
-            const norm = normalizeGameName(g.title);
-            const sorted = norm.split(' ').filter(Boolean).sort().join(' ');
-            return [norm, sorted];
-          }),
-      );
-
-      // Load Game Pass interests
-      let gamePassInterests: string[] = [];
-      try {
-        const interestsContent = await fs.readFile(
-          './data/gamepass-interests.json',
-          'utf-8',
-        );
-        const interestsData = JSON.parse(interestsContent);
-        gamePassInterests = interestsData.wantToPlay || [];
-        console.log(
-          `📝 Loaded ${gamePassInterests.length} Game Pass interests`,
-        );
-      } catch {
-        console.warn('⚠️  No Game Pass interests file found');
-      }
-
-      // Load owned Xbox games (always needed)
-      const ownedXboxGames = await loadOwnedXboxGames();
-      console.log(`🎯 Loaded ${ownedXboxGames.size} owned Xbox games`);
-
-      let sourceGames: RawGameData[] = [];
-
-      if (config.playniteEnabled) {
-        // ── Playnite path (legacy) ─────────────────────────────────────────
-        const gamePassFilter = async (gameTitle: string): Promise<boolean> => {
-          const isInterested = gamePassInterests.some(
-            interest =>
-              interest.toLowerCase().trim() === gameTitle.toLowerCase().trim(),
-          );
-          if (!isInterested) return false;
-          return gamePassAdapter.isGameAvailable(gameTitle);
-        };
-
-        const playniteGames = await playniteAdapter.loadSnapshot(
-          './data/playnite.json',
-          gamePassFilter,
-        );
+  // Ctrl+C cancels the pipeline between stages/batches instead of killing it mid-write
+  const abortController = new AbortController();
+  process.once('SIGINT', () => {
+    console.log('\n🛑 Cancelling sync...');
+    abortController.abort();
+  });
 
-        const filteredPlayniteGames: RawGameData[] = [];
-        for (const game of playniteGames) {
-          if (game.source === 'xbox') {
-            const resolvedSource = await resolveXboxSource(
-              game.name,
-              gamePassCatalog,
-            );
-            game.source = resolvedSource;
-          }
-          const shouldSync = await shouldSyncToNotion(game, gamePassCatalog);
-          if (shouldSync) filteredPlayniteGames.push(game);
-        }
-
-        sourceGames = filteredPlayniteGames;
-        console.log(
-          `✅ Playnite: ${filteredPlayniteGames.length} games (${
-            playniteGames.length - filteredPlayniteGames.length
-          } filtered out)\n`,
-        );
-
-        // Add owned Xbox games not present in Playnite
-        const playniteGameNames = new Set(
-          playniteGames.map(g => g.name.toLowerCase().trim()),
-        );
-        const ownedXboxFile = await fs.readFile(
-          './data/owned-xbox-games.json',
-          'utf-8',
-        );
-        const ownedXboxData = JSON.parse(ownedXboxFile);
-        const ownedGamesNames: string[] = ownedXboxData.ownedGames || [];
-        for (const gameName of ownedGamesNames) {
-          if (!playniteGameNames.has(gameName.toLowerCase().trim())) {
-            sourceGames.push({
-              name: gameName,
-              source: 'xbox',
-              externalId: `xbox-owned-${gameName
-                .toLowerCase()
-                .replace(/\s+/g, '-')}`,
-              playtimeHours: 0,
-            });
-          }
-        }
-      } else {
-        // ── Heroic path ────────────────────────────────────────────────────
-        sourceGames = await heroicAdapter.loadAllLibraries(
-          config.heroic.storeCachePath,
-        );
-
-        // All owned Xbox games (Heroic doesn't cover Xbox)
-        try {
-          const ownedXboxFile = await fs.readFile(
-            './data/owned-xbox-games.json',
-            'utf-8',
-          );
-          const ownedXboxData = JSON.parse(ownedXboxFile);
-          const ownedGamesNames: string[] = ownedXboxData.ownedGames || [];
-          for (const gameName of ownedGamesNames) {
-            sourceGames.push({
-              name: gameName,
-              source: 'xbox',
-              externalId: `xbox-owned-${gameName
-                .toLowerCase()
-                .replace(/\s+/g, '-')}`,
-              playtimeHours: 0,
-            });
-          }
-        } catch {
-          console.warn('⚠️  No owned Xbox games file found');
-        }
-      }
-
-      rawGames.push(...sourceGames);
-
-      // Add interest games from Game Pass (always)
-      const interestGames = await getInterestGamesToSync(
-        gamePassCatalog,
-        sourceGames,
-      );
-      if (interestGames.length > 0) {
-        console.log(
-          `➕ Adding ${interestGames.length} Game Pass interest games`,
-        );
-        rawGames.push(...interestGames);
-      }
-
-      gamePassData = { sourceGames, gamePassCatalog };
-    } catch (error) {
-      console.error('❌ Failed to load game libraries:', error);
-      console.log('Continuing without library data...\n');
-    }
+  try {
+    // 2. Run fetch → dedupe → enrich → Notion → snapshot
+    const pipeline = createSyncPipeline({
+      config,
+      signal: abortController.signal,
+      plan,
+    });
+    const { status, results } = await pipeline.run();
 
-    if (rawGames.length === 0) {
-      console.warn('⚠️  No games found from any source. Exiting.');
+    if (status === 'no-games') {
       return;
     }
 
-    console.log(`📊 Total raw games: ${rawGames.length}\n`);
-
-    // 6. Deduplicate and merge games
-    console.log('🔄 Deduplicating and merging games...');
-    const unifiedGames = processRawGames(rawGames);
-    console.log(`✅ Unified into ${unifiedGames.length} games\n`);
-
-    // 7. Generate merge suggestions
-    console.log('💡 Generating merge suggestions...');
-    const suggestions = generateMergeSuggestions(rawGames);
-    await saveMergeSuggestions(suggestions);
-    console.log();
-
-    // 8. Enrich PC games with IGDB and ProtonDB data
-    console.log('🔍 Enriching PC games...');
-    // PC platforms: Steam (has steamAppId), Epic, GOG, Amazon
-    // Include if owned on ANY PC platform, even if also owned on Xbox/Game Pass
-    const pcGames = unifiedGames.filter(g => {
-      // Has Steam App ID
-      if (g.steamAppId) return true;
-
-      // Owned on any PC platform (Epic, GOG, Amazon)
-      const pcPlatforms: Source[] = ['epic', 'gog', 'amazon'];
-      return g.ownedSources.some(source => pcPlatforms.includes(source));
-    });
-    console.log(`Found ${pcGames.length} PC games to enrich`);
-
-    // Step 1: Find Steam App IDs for non-Steam games using IGDB
-    console.log('🔍 Looking up Steam App IDs for non-Steam games...');
-    const nonSteamPcGames = pcGames.filter(g => !g.steamAppId);
-    let igdbMatchCount = 0;
-
-    if (nonSteamPcGames.length > 0) {
-      const IGDB_BATCH_SIZE = 2; // Each game makes 2 API calls (search + external_games), so 2 games = 4 req/sec
-      const IGDB_DELAY = 1000; // 1 second delay between batches
-
-      for (let i = 0; i < nonSteamPcGames.length; i += IGDB_BATCH_SIZE) {
-        const batch = nonSteamPcGames.slice(i, i + IGDB_BATCH_SIZE);
-
-        // Process batch in parallel
-        await Promise.all(
-          batch.map(async game => {
-            try {
-              const steamAppId = await igdbAdapter.findSteamAppId(game.name);
-              if (steamAppId) {
-                game.steamAppId = steamAppId;
-                igdbMatchCount++;
-                if (config.logLevel === 'debug') {
-                  console.log(
-                    `[DEBUG] IGDB matched "${game.name}" → Steam App ID ${steamAppId}`,
-                  );
-                }
-              }
-            } catch (error) {
-              // Silently continue - lookup is best-effort
-            }
-          }),
-        );
-
-        // Progress indicator and rate limiting
-        const processed = Math.min(i + IGDB_BATCH_SIZE, nonSteamPcGames.length);
-        if (processed % 20 === 0 || processed === nonSteamPcGames.length) {
-          console.log(
-            `  Progress: ${processed}/${nonSteamPcGames.length} non-Steam games checked...`,
-          );
-        }
-
-        // Rate limiting: wait between batches (except for the last one)
-        if (i + IGDB_BATCH_SIZE < nonSteamPcGames.length) {
-          await new Promise(resolve => setTimeout(resolve, IGDB_DELAY));
-        }
-      }
-
+    if (plan && args.command === 'plan') {
+      const { planPath } = args;
+      await saveSyncPlan(planPath, plan);
       console.log(
-        `✅ Found Steam App IDs for ${igdbMatchCount}/${nonSteamPcGames.length} non-Steam games\n`,
+        `\n📝 Plan saved to ${planPath}: ${formatSummary(summarizeSyncPlan(plan))}`,
       );
-
-      // Show cache stats
-      const cacheStats = igdbAdapter.getCacheStats();
-      console.log(
-        `📊 IGDB Cache: ${cacheStats.totalEntries} entries (${cacheStats.foundEntries} matches, ${cacheStats.notFoundEntries} not found)`,
-      );
-      if (cacheStats.retriableEntries > 0) {
-        console.log(
-          `   ⏰ ${cacheStats.retriableEntries} old failures were retried this run`,
-        );
-      }
-      console.log();
+      console.log(`   Review it, then run: pnpm sync:apply ${planPath}`);
     }
 
-    // Step 2: Enrich games with ProtonDB data
-    console.log('🐧 Fetching ProtonDB compatibility data...');
-    const gamesWithSteamId = pcGames.filter(g => g.steamAppId);
-    let enrichedCount = 0;
-    const BATCH_SIZE = 20; // Process 20 games at a time (safe for cache reads)
-
-    for (let i = 0; i < gamesWithSteamId.length; i += BATCH_SIZE) {
-      const batch = gamesWithSteamId.slice(i, i + BATCH_SIZE);
-
-      // Process batch in parallel
-      await Promise.all(
-        batch.map(async game => {
-          try {
-            if (!game.steamAppId) {
-              return;
-            }
-
-            const protonInfo = await protonDbAdapter.fetchCompatibility(
-              game.steamAppId,
-            );
-            if (protonInfo) {
-              game.proton = protonInfo;
-              enrichedCount++;
-            }
-          } catch (error) {
-            console.warn(
-              `Failed to fetch ProtonDB data for "${game.name}":`,
-              error,
-            );
-          }
-        }),
-      );
-
-      // Progress indicator every batch
-      const processed = Math.min(i + BATCH_SIZE, gamesWithSteamId.length);
-      if (processed % 20 === 0 || processed === gamesWithSteamId.length) {
-        console.log(
-          `  Progress: ${processed}/${gamesWithSteamId.length} games enriched...`,
-        );
-      }
-    }
-
-    console.log(`✅ Enriched ${enrichedCount} games with ProtonDB data\n`);
-
-    // // 9. Clean expired ProtonDB cache
-    // console.log('🧹 Cleaning expired ProtonDB cache...');
-    // await protonDbAdapter.cleanCache();
-    // console.log('✅ Cache cleaned\n');
-
-    // 10. Sync to Notion
-    console.log('☁️  Syncing to Notion...');
-
-    await notionClient.syncGames(unifiedGames, gamePassCatalogTitles);
-    console.log('✅ Sync to Notion complete\n');
+    // 3. Summary
+    const unifiedGames = results.dedupe?.unifiedGames ?? [];
+    const enrich = results.enrich;
 
-    // 11. Save local library snapshot
-    console.log('💾 Saving local library snapshot...');
-    await saveLibrarySnapshot(unifiedGames);
-    console.log('✅ Saved to data/library.json\n');
-
-    // 12. Generate Game Pass availability report
-    if (gamePassData) {
-      console.log('📊 Processing Game Pass availability...');
-      const { unavailable, returned } = await processGamePassAvailability(
-        gamePassData.sourceGames,
-        gamePassData.gamePassCatalog,
+    console.log('\n📈 Summary:');
+    console.log(`   • Total unique games: ${unifiedGames.length}`);
+    if (enrich) {
+      console.log(
+        `   • IGDB matches: ${enrich.igdbMatches}/${enrich.igdbCandidates} non-Steam games`,
       );
-
-      if (returned.length > 0) {
-        console.log(
-          `🎉 ${returned.length} games returned to Game Pass: ${returned.join(
-            ', ',
-          )}`,
-        );
-      }
-
-      if (unavailable.length > 0) {
-        await saveUnavailableGames(unavailable);
-        console.log(
-          `⚠️  ${unavailable.length} games no longer available on Game Pass (see gamepass-unavailable.json)`,
-        );
-      } else {
-        console.log(`✅ All played/interest games are available`);
+      console.log(`   • Games with ProtonDB data: ${enrich.protonEnriched}`);
+      if (enrich.franchiseMatches !== undefined) {
+        console.log(`   • Games with a franchise: ${enrich.franchiseMatches}`);
       }
     }
 
-    // 13. Summary
-    console.log('\n📈 Summary:');
-    console.log(`   • Total unique games: ${unifiedGames.length}`);
-    console.log(
-      `   • IGDB matches: ${igdbMatchCount}/${nonSteamPcGames.length} non-Steam games`,
-    );
-    console.log(`   • Games with ProtonDB data: ${enrichedCount}`);
-
     const sourceBreakdown = getSourceBreakdown(unifiedGames);
     console.log(`   • Source breakdown:`);
     for (const [source, count] of Object.entries(sourceBreakdown)) {
@@ -451,47 +136,15 @@ const main = async () => {
 
     console.log('\n✅ GameKeeper sync completed successfully!');
   } catch (error) {
-    console.error('\n❌ Error during sync:', error);
+    if (abortController.signal.aborted) {
+      console.error('\n🛑 Sync cancelled');
+    } else {
+      console.error('\n❌ Error during sync:', error);
+    }
     process.exit(1);
   }
 };
 
-/**
- * Save unified game library to data/library.json
- */
-const saveLibrarySnapshot = async (games: UnifiedGame[]): Promise<void> => {
-  const snapshot = {
-    lastSynced: new Date().toISOString(),
-    gameCount: games.length,
-    games,
-  };
-  await fs.writeFile(
-    './data/library.json',
-    JSON.stringify(snapshot, null, 2),
-    'utf-8',
-  );
-};
-
-/**
- * Get breakdown of games by primary source
- */
-const getSourceBreakdown = (games: UnifiedGame[]): Record<string, number> => {
-  const breakdown: Record<string, number> = {};
-
-  for (const game of games) {
-    breakdown[game.primarySource] = (breakdown[game.primarySource] || 0) + 1;
-  }
-
-  return breakdown;
-};
-
-/**
- * Sleep helper
- */
-const sleep = (ms: number): Promise<void> => {
-  return new Promise(resolve => setTimeout(resolve, ms));
-};
-
 // Run main function
 main().catch(error => {
   console.error('Fatal error:', error);
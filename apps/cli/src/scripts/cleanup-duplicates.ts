@@ -1,6 +1,6 @@
 import '../bootstrap';
 import { Client } from '@notionhq/client';
-import { loadConfig } from '@gamekeeper/core';
+import { loadConfig, resolvePropertyNames } from '@gamekeeper/core';
 
 /**
  * Cleanup script to remove duplicate game entries from Notion
@@ -17,7 +17,10 @@ const cleanupDuplicates = async () => {
   const config = loadConfig();
   const client = new Client({ auth: config.notion.apiKey });
   const databaseId = config.notion.databaseId;
-  const titleProperty = config.notion.titleProperty;
+  const names = resolvePropertyNames(
+    config.notion.titleProperty,
+    config.notion.propertyNames
+  );
 
   // Fetch all pages
   console.log('📥 Fetching all pages from Notion...');
@@ -48,12 +51,12 @@ const cleanupDuplicates = async () => {
     let identifier: string | null = null;
 
     // Try Canonical ID first
-    const canonicalIdProp = page.properties['Canonical ID'];
+    const canonicalIdProp = page.properties[names.canonicalId];
     if (canonicalIdProp?.rich_text?.[0]?.text?.content) {
       identifier = canonicalIdProp.rich_text[0].text.content;
     } else {
       // Fallback to title
-      const titleProp = page.properties[titleProperty];
+      const titleProp = page.properties[names.title];
       if (titleProp?.title?.[0]?.text?.content) {
         identifier = titleProp.title[0].text.content;
       }
@@ -0,0 +1,25 @@
+import { REPO_ROOT } from '../bootstrap';
+import fs from 'fs/promises';
+import path from 'path';
+import { buildOverridesJsonSchema } from '@gamekeeper/core';
+
+/**
+ * Regenerate the JSON Schema for data/overrides.json from the Zod schema
+ *
+ * Usage: tsx src/scripts/generate-overrides-schema.ts
+ */
+const OUTPUT_PATH = path.join(
+  REPO_ROOT,
+  'packages/core/src/types/overrides.schema.json',
+);
+
+const main = async () => {
+  const schema = buildOverridesJsonSchema();
+  await fs.writeFile(OUTPUT_PATH, JSON.stringify(schema, null, 2) + '\n');
+  console.log(`✅ Wrote ${path.relative(REPO_ROOT, OUTPUT_PATH)}`);
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
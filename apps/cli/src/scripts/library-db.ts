@@ -0,0 +1,53 @@
+import '../bootstrap';
+import {
+  createLibraryDb,
+  exportJsonFiles,
+  importJsonFiles,
+  loadConfig,
+  JsonIoSummary,
+} from '@gamekeeper/core';
+
+/**
+ * Move data/library.json and the cached Game Pass catalog into the local
+ * library database, or write data/library.json back out of it
+ *
+ * Usage: tsx src/scripts/library-db.ts import|export
+ */
+const printSummary = (summary: JsonIoSummary) => {
+  for (const [file, count] of Object.entries(summary)) {
+    console.log(`  ${file.padEnd(28)} ${count}`);
+  }
+};
+
+const main = async () => {
+  const command = process.argv[2];
+  if (command !== 'import' && command !== 'export') {
+    console.error('Usage: library-db.ts import|export');
+    process.exit(1);
+  }
+
+  const config = loadConfig();
+  const dbPath = config.database?.path ?? './data/gamekeeper.db';
+  const db = createLibraryDb(dbPath);
+
+  try {
+    if (command === 'import') {
+      console.log(`📥 Importing JSON files into ${dbPath}...\n`);
+      printSummary(await importJsonFiles(db));
+    } else {
+      console.log(`📤 Exporting ${dbPath} to data/...\n`);
+      printSummary(await exportJsonFiles(db));
+    }
+    console.log('\n✅ Done');
+  } catch (error) {
+    console.error(`❌ ${command} failed:`, error);
+    process.exitCode = 1;
+  } finally {
+    db.close();
+  }
+};
+
+main().catch(error => {
+  console.error(error);
+  process.exit(1);
+});
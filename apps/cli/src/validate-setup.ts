@@ -7,7 +7,11 @@
 
 import './bootstrap';
 import fs from 'fs/promises';
-import { steamAdapter } from '@gamekeeper/core';
+import {
+  steamAdapter,
+  loadConfig,
+  createDefaultSourceRegistry,
+} from '@gamekeeper/core';
 
 const validate = async () => {
   console.log('🔍 GameKeeper Setup Validation\n');
@@ -68,6 +72,33 @@ const validate = async () => {
 
   console.log();
 
+  // Check library sources
+  console.log('🎮 Checking library sources...');
+
+  try {
+    const config = loadConfig();
+    const report = await createDefaultSourceRegistry().checkHealth({
+      config,
+      dataDir: './data',
+    });
+
+    for (const source of report) {
+      if (!source.enabled) {
+        console.log(`   ➖ ${source.name} (${source.id}) is disabled`);
+      } else if (source.ok) {
+        console.log(`   ✅ ${source.name}: ${source.message}`);
+      } else {
+        console.log(`   ❌ ${source.name}: ${source.message}`);
+        hasErrors = true;
+      }
+    }
+  } catch (error) {
+    console.log(`   ❌ Could not load configuration: ${error}`);
+    hasErrors = true;
+  }
+
+  console.log();
+
   // Check cache directory
   console.log('📦 Checking cache directory...');
 
@@ -1,7 +1,12 @@
 import './bootstrap';
 import Fastify from 'fastify';
 import cors from '@fastify/cors';
-import { createGamePassAdapter } from '@gamekeeper/core';
+import {
+  createGamePassAdapter,
+  createSyncPipeline,
+  loadConfig,
+} from '@gamekeeper/core';
+import type { SyncStage, SyncPipelineResult } from '@gamekeeper/core';
 import fs from 'fs/promises';
 import path from 'path';
 
@@ -75,6 +80,83 @@ server.delete<{ Params: { name: string } }>(
   },
 );
 
+// ── sync ─────────────────────────────────────────────────────────────────────
+
+type SyncStatus = {
+  state: 'idle' | 'running' | 'completed' | 'cancelled' | 'failed';
+  startedAt?: string;
+  finishedAt?: string;
+  stage?: SyncStage;
+  progress?: { processed: number; total: number };
+  result?: SyncPipelineResult['status'];
+  error?: string;
+};
+
+let syncStatus: SyncStatus = { state: 'idle' };
+let syncAbortController: AbortController | null = null;
+
+/** GET /api/sync — current sync status */
+server.get('/api/sync', async (_req, reply) => reply.send(syncStatus));
+
+/** POST /api/sync — start a sync run { dryRun?: boolean } */
+server.post<{ Body: { dryRun?: boolean } | undefined }>(
+  '/api/sync',
+  async (req, reply) => {
+    if (syncStatus.state === 'running') {
+      return reply.status(409).send({ error: 'A sync is already running' });
+    }
+
+    let config;
+    try {
+      config = { ...loadConfig(), dryRun: req.body?.dryRun === true };
+    } catch (error) {
+      return reply.status(400).send({ error: `Invalid configuration: ${error}` });
+    }
+
+    const abortController = new AbortController();
+    syncAbortController = abortController;
+    syncStatus = { state: 'running', startedAt: new Date().toISOString() };
+
+    const pipeline = createSyncPipeline({
+      config,
+      signal: abortController.signal,
+      onStageStart: stage => {
+        syncStatus = { ...syncStatus, stage, progress: undefined };
+      },
+      onProgress: ({ processed, total }) => {
+        syncStatus = { ...syncStatus, progress: { processed, total } };
+      },
+    });
+
+    // Run in the background; clients poll GET /api/sync
+    pipeline
+      .run()
+      .then(({ status }) => {
+        syncStatus = { ...syncStatus, state: 'completed', result: status };
+      })
+      .catch(error => {
+        syncStatus = abortController.signal.aborted
+          ? { ...syncStatus, state: 'cancelled' }
+          : { ...syncStatus, state: 'failed', error: String(error) };
+      })
+      .finally(() => {
+        syncStatus = { ...syncStatus, finishedAt: new Date().toISOString() };
+        syncAbortController = null;
+      });
+
+    return reply.status(202).send(syncStatus);
+  },
+);
+
+/** DELETE /api/sync — cancel the running sync */
+server.delete('/api/sync', async (_req, reply) => {
+  if (!syncAbortController) {
+    return reply.status(404).send({ error: 'No sync is running' });
+  }
+  syncAbortController.abort();
+  return reply.send({ cancelled: true });
+});
+
 // ── helpers ──────────────────────────────────────────────────────────────────
 
 async function readInterests(): Promise<{
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { heroicAdapter } from './heroic.adapter';
+import { heroicAdapter, parseInstallSize } from './heroic.adapter';
 
 // ── Hoisted mocks ──────────────────────────────────────────────────────────────
 
@@ -162,6 +162,51 @@ describe('heroicAdapter', () => {
     });
   });
 
+  describe('install state', () => {
+    it('maps install path and size for installed games', async () => {
+      mockLibraries({
+        gog: [
+          gogGame({
+            is_installed: true,
+            install: {
+              is_dlc: false,
+              install_path: '/games/Fallout 2',
+              install_size: '1.5 GiB',
+            },
+          }),
+        ],
+        epic: [],
+        amazon: [],
+      });
+
+      const games = await heroicAdapter.loadAllLibraries(CACHE_PATH);
+
+      expect(games[0]).toMatchObject({
+        installed: true,
+        installPath: '/games/Fallout 2',
+        installSizeBytes: 1.5 * 1024 ** 3,
+      });
+    });
+
+    it('marks games without an install as not installed', async () => {
+      mockLibraries({ epic: [], amazon: [] });
+
+      const games = await heroicAdapter.loadAllLibraries(CACHE_PATH);
+
+      expect(games[0].installed).toBe(false);
+      expect(games[0].installPath).toBeUndefined();
+      expect(games[0].installSizeBytes).toBeUndefined();
+    });
+
+    it('parses human readable install sizes', () => {
+      expect(parseInstallSize('512 MiB')).toBe(512 * 1024 ** 2);
+      expect(parseInstallSize('2 GB')).toBe(2e9);
+      expect(parseInstallSize('1234')).toBe(1234);
+      expect(parseInstallSize('unknown')).toBeUndefined();
+      expect(parseInstallSize(undefined)).toBeUndefined();
+    });
+  });
+
   describe('DLC filtering', () => {
     it('filters out GOG DLCs', async () => {
       mockLibraries({
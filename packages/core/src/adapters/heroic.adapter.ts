@@ -10,23 +10,61 @@ type HeroicGame = {
   title: string;
   runner: string;
   art_cover?: string;
-  install?: { is_dlc?: boolean };
+  is_installed?: boolean;
+  install?: {
+    is_dlc?: boolean;
+    install_path?: string;
+    install_size?: string; // Human readable, e.g. "29.47 GiB"
+  };
   extra?: {
     genres?: string[];
     releaseDate?: string;
   };
 };
 
-const mapHeroicGame = (game: HeroicGame, source: Source): RawGameData => ({
-  source,
-  externalId: game.app_name,
-  name: game.title,
-  coverImageUrl: game.art_cover,
-  genres: game.extra?.genres?.length ? game.extra.genres : undefined,
-  releaseDate: game.extra?.releaseDate
-    ? new Date(game.extra.releaseDate)
-    : undefined,
-});
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1e3,
+  mb: 1e6,
+  gb: 1e9,
+  tb: 1e12,
+  kib: 1024,
+  mib: 1024 ** 2,
+  gib: 1024 ** 3,
+  tib: 1024 ** 4,
+};
+
+/**
+ * Parse Heroic's human readable install size ("29.47 GiB") into bytes.
+ * Exported for testing.
+ */
+export const parseInstallSize = (size?: string): number | undefined => {
+  const match = size?.trim().match(/^([\d.]+)\s*([a-z]+)?$/i);
+  if (!match) return undefined;
+  const unit = SIZE_UNITS[(match[2] || 'b').toLowerCase()];
+  const value = parseFloat(match[1]);
+  return unit && !isNaN(value) ? Math.round(value * unit) : undefined;
+};
+
+const mapHeroicGame = (game: HeroicGame, source: Source): RawGameData => {
+  const installed = game.is_installed ?? !!game.install?.install_path;
+
+  return {
+    source,
+    externalId: game.app_name,
+    name: game.title,
+    coverImageUrl: game.art_cover,
+    genres: game.extra?.genres?.length ? game.extra.genres : undefined,
+    releaseDate: game.extra?.releaseDate
+      ? new Date(game.extra.releaseDate)
+      : undefined,
+    installed,
+    installPath: installed ? game.install?.install_path : undefined,
+    installSizeBytes: installed
+      ? parseInstallSize(game.install?.install_size)
+      : undefined,
+  };
+};
 
 const loadLibraryFile = async (
   filePath: string,
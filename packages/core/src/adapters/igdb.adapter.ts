@@ -3,7 +3,7 @@ import fs from 'fs/promises';
 import path from 'path';
 
 /**
- * IGDB API adapter for matching games to Steam App IDs
+ * IGDB API adapter for matching games to Steam App IDs and franchises
  * Uses Twitch OAuth for authentication
  * Free tier: 4 requests/second, no monthly limit
  */
@@ -26,6 +26,9 @@ interface IGDBGame {
     category: number; // 13 = Steam
     url: string; // Steam store URL
   }>;
+  franchise?: { name: string }; // Main franchise
+  franchises?: Array<{ name: string }>;
+  collections?: Array<{ name: string }>; // Series
 }
 
 interface CacheEntry {
@@ -35,15 +38,24 @@ interface CacheEntry {
 
 type SteamAppIdCache = Record<string, number | null | CacheEntry>;
 
+interface FranchiseCacheEntry {
+  franchises: string[];
+  lastChecked: number; // timestamp
+}
+
+type FranchiseCache = Record<string, FranchiseCacheEntry>;
+
 const TWITCH_CLIENT_ID = process.env.IGDB_CLIENT_ID || '';
 const TWITCH_CLIENT_SECRET = process.env.IGDB_CLIENT_SECRET || '';
 const IGDB_API_URL = 'https://api.igdb.com/v4';
 const TOKEN_CACHE_PATH = './.cache/igdb-token.json';
 const STEAM_APP_ID_CACHE_PATH = './.cache/steam-appid-cache.json';
+const FRANCHISE_CACHE_PATH = './.cache/igdb-franchise-cache.json';
 const RETRY_FAILED_AFTER_DAYS = 30; // Retry null entries after 30 days
 
 let authToken: IGDBAuthToken | null = null;
 let steamAppIdCache: SteamAppIdCache = {};
+let franchiseCache: FranchiseCache = {};
 
 /**
  * Load cached authentication token
@@ -442,11 +454,113 @@ const findSteamAppId = async (gameName: string): Promise<number | null> => {
   }
 };
 
+/**
+ * Load franchise cache
+ */
+const loadFranchiseCache = async (): Promise<void> => {
+  try {
+    const content = await fs.readFile(FRANCHISE_CACHE_PATH, 'utf-8');
+    franchiseCache = JSON.parse(content);
+  } catch {
+    franchiseCache = {};
+  }
+};
+
+/**
+ * Save franchise cache
+ */
+const saveFranchiseCache = async (): Promise<void> => {
+  await fs.mkdir(path.dirname(FRANCHISE_CACHE_PATH), { recursive: true });
+  await fs.writeFile(
+    FRANCHISE_CACHE_PATH,
+    JSON.stringify(franchiseCache, null, 2)
+  );
+};
+
+/**
+ * Cached franchises for a game, or undefined when it needs a lookup
+ * (never looked up, or found nothing RETRY_FAILED_AFTER_DAYS ago)
+ */
+const getCachedFranchises = (gameName: string): string[] | undefined => {
+  const entry = franchiseCache[gameName.toLowerCase().trim()];
+  if (!entry) return undefined;
+  const daysSinceCheck =
+    (Date.now() - entry.lastChecked) / (1000 * 60 * 60 * 24);
+  return entry.franchises.length === 0 &&
+    daysSinceCheck >= RETRY_FAILED_AFTER_DAYS
+    ? undefined
+    : entry.franchises;
+};
+
+/**
+ * Search for a game on IGDB and return its franchises. Games in no
+ * franchise fall back to their series (IGDB collections).
+ */
+const findFranchises = async (gameName: string): Promise<string[]> => {
+  const cached = getCachedFranchises(gameName);
+  if (cached) return cached;
+
+  try {
+    const token = await authenticate();
+    const searchTerm = removeEditionSuffix(gameName);
+    const response = await axios.post<IGDBGame[]>(
+      `${IGDB_API_URL}/games`,
+      `search "${searchTerm}"; fields id, name, franchise.name, franchises.name, collections.name; limit 10;`,
+      {
+        headers: {
+          'Client-ID': TWITCH_CLIENT_ID,
+          Authorization: `Bearer ${token}`,
+        },
+      }
+    );
+
+    // Prefer the result whose name matches, else the top search result
+    const normalizedSearch = normalizeForMatching(searchTerm);
+    const game =
+      response.data?.find(
+        g =>
+          normalizeForMatching(removeEditionSuffix(g.name)) ===
+          normalizedSearch
+      ) ?? response.data?.[0];
+
+    const franchiseNames = [
+      game?.franchise?.name,
+      ...(game?.franchises ?? []).map(f => f.name),
+    ].filter((name): name is string => Boolean(name));
+    const franchises = Array.from(
+      new Set(
+        franchiseNames.length > 0
+          ? franchiseNames
+          : (game?.collections ?? []).map(c => c.name)
+      )
+    );
+
+    franchiseCache[gameName.toLowerCase().trim()] = {
+      franchises,
+      lastChecked: Date.now(),
+    };
+    await saveFranchiseCache();
+    return franchises;
+  } catch (error) {
+    if (axios.isAxiosError(error)) {
+      console.warn(
+        `IGDB API error for "${gameName}":`,
+        error.response?.status,
+        error.response?.data
+      );
+    } else {
+      console.warn(`Failed to find franchises for "${gameName}":`, error);
+    }
+    return [];
+  }
+};
+
 /**
  * Initialize the IGDB adapter
  */
 const initialize = async (): Promise<void> => {
   await loadSteamAppIdCache();
+  await loadFranchiseCache();
 
   // Test authentication
   try {
@@ -490,6 +604,8 @@ const clearCache = async (): Promise<void> => {
 export const igdbAdapter = {
   initialize,
   findSteamAppId,
+  findFranchises,
+  getCachedFranchises,
   getCacheStats,
   clearCache,
 };
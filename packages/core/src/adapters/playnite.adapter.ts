@@ -20,6 +20,8 @@ type PlayniteGame = {
 
   // Additional fields
   IsInstalled?: boolean;
+  InstallDirectory?: string;
+  InstallSize?: number; // in bytes
 };
 
 // Support both wrapped and unwrapped formats
@@ -95,6 +97,9 @@ const mapPlayniteGameToRaw = (
     coverImageUrl: game.CoverImage,
     releaseDate,
     genres,
+    installed: game.IsInstalled,
+    installPath: game.IsInstalled ? game.InstallDirectory : undefined,
+    installSizeBytes: game.IsInstalled ? game.InstallSize : undefined,
   };
 };
 
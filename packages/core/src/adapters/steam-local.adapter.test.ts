@@ -0,0 +1,226 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import path from 'path';
+import { steamLocalAdapter, parseVdf } from './steam-local.adapter';
+
+// ── Hoisted mocks ──────────────────────────────────────────────────────────────
+
+const { mockReadFile, mockReaddir } = vi.hoisted(() => ({
+  mockReadFile: vi.fn(),
+  mockReaddir: vi.fn(),
+}));
+
+vi.mock('fs/promises', () => ({
+  default: { readFile: mockReadFile, readdir: mockReaddir },
+}));
+
+// ── Fixtures ───────────────────────────────────────────────────────────────────
+
+const STEAM_PATH = '/home/user/.steam/steam';
+const EXTRA_LIBRARY = '/mnt/games/SteamLibrary';
+const STEAM_ID64 = '76561197960265738'; // account ID 10
+
+const libraryFolders = `
+"libraryfolders"
+{
+  "0"
+  {
+    "path"    "${STEAM_PATH}"
+    "apps" { "620" "12345" }
+  }
+  "1"
+  {
+    "path"    "${EXTRA_LIBRARY}"
+  }
+}`;
+
+const appManifest = (appId: number, name: string) => `
+"AppState"
+{
+  "appid"       "${appId}"
+  "name"        "${name}"
+  "installdir"  "${name}"
+  "SizeOnDisk"  "12884901888"
+}`;
+
+const localConfig = `
+"UserLocalConfigStore"
+{
+  "Software"
+  {
+    "valve"
+    {
+      "Steam"
+      {
+        "apps"
+        {
+          "620"
+          {
+            "LastPlayed"    "1700000000"
+            "Playtime"      "90"
+          }
+          "1245620"
+          {
+            "Playtime"      "0"
+          }
+        }
+      }
+    }
+  }
+}`;
+
+const enoent = () =>
+  Promise.reject(Object.assign(new Error('Not found'), { code: 'ENOENT' }));
+
+const files: Record<string, string> = {
+  [path.join(STEAM_PATH, 'steamapps', 'libraryfolders.vdf')]: libraryFolders,
+  [path.join(STEAM_PATH, 'steamapps', 'appmanifest_620.acf')]: appManifest(
+    620,
+    'Portal 2',
+  ),
+  [path.join(STEAM_PATH, 'steamapps', 'appmanifest_228980.acf')]: appManifest(
+    228980,
+    'Steamworks Common Redistributables',
+  ),
+  [path.join(EXTRA_LIBRARY, 'steamapps', 'appmanifest_1245620.acf')]:
+    appManifest(1245620, 'ELDEN RING'),
+  [path.join(STEAM_PATH, 'userdata', '10', 'config', 'localconfig.vdf')]:
+    localConfig,
+};
+
+const dirs: Record<string, string[]> = {
+  [path.join(STEAM_PATH, 'steamapps')]: [
+    'libraryfolders.vdf',
+    'appmanifest_620.acf',
+    'appmanifest_228980.acf',
+    'common',
+  ],
+  [path.join(EXTRA_LIBRARY, 'steamapps')]: ['appmanifest_1245620.acf'],
+  [path.join(STEAM_PATH, 'userdata')]: ['0', '10'],
+};
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('steamLocalAdapter', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockReadFile.mockImplementation((filePath: string) =>
+      filePath in files ? Promise.resolve(files[filePath]) : enoent(),
+    );
+    mockReaddir.mockImplementation((dirPath: string) =>
+      dirPath in dirs ? Promise.resolve(dirs[dirPath]) : enoent(),
+    );
+  });
+
+  describe('parseVdf', () => {
+    it('parses nested objects and string values', () => {
+      expect(parseVdf('"a" { "b" "1" "c" { "d" "x y" } }')).toEqual({
+        a: { b: '1', c: { d: 'x y' } },
+      });
+    });
+
+    it('handles escapes, comments and unquoted tokens', () => {
+      const vdf = `
+        // comment
+        "root"
+        {
+          "path"  "C:\\\\Program Files (x86)\\\\Steam"
+          key     value
+          "cond"  "1"  [$WIN32]
+        }`;
+
+      expect(parseVdf(vdf)).toEqual({
+        root: {
+          path: 'C:\\Program Files (x86)\\Steam',
+          key: 'value',
+          cond: '1',
+        },
+      });
+    });
+
+    it('throws on a missing value', () => {
+      expect(() => parseVdf('"a"')).toThrow('Missing value for VDF key "a"');
+    });
+  });
+
+  describe('loadLibrary', () => {
+    it('reads installed apps from every library folder', async () => {
+      const games = await steamLocalAdapter.loadLibrary(STEAM_PATH, STEAM_ID64);
+
+      expect(games.map(g => g.name)).toEqual(['Portal 2', 'ELDEN RING']);
+    });
+
+    it('maps manifest and localconfig fields to raw Steam games', async () => {
+      const games = await steamLocalAdapter.loadLibrary(STEAM_PATH, STEAM_ID64);
+
+      expect(games[0]).toMatchObject({
+        source: 'steam',
+        externalId: '620',
+        name: 'Portal 2',
+        steamAppId: 620,
+        playtimeHours: 1.5,
+        coverImageUrl:
+          'https://steamcdn-a.akamaihd.net/steam/apps/620/header.jpg',
+      });
+      expect(games[0].lastPlayedAt).toEqual(new Date(1700000000 * 1000));
+    });
+
+    it('maps install location and size from the manifest', async () => {
+      const games = await steamLocalAdapter.loadLibrary(STEAM_PATH, STEAM_ID64);
+
+      expect(games[1]).toMatchObject({
+        installed: true,
+        installPath: path.join(
+          EXTRA_LIBRARY,
+          'steamapps',
+          'common',
+          'ELDEN RING',
+        ),
+        installSizeBytes: 12884901888,
+      });
+    });
+
+    it('leaves playtime undefined for apps that were never played', async () => {
+      const games = await steamLocalAdapter.loadLibrary(STEAM_PATH, STEAM_ID64);
+
+      expect(games[1].playtimeHours).toBeUndefined();
+      expect(games[1].lastPlayedAt).toBeUndefined();
+    });
+
+    it('skips Steam runtimes and redistributables', async () => {
+      const games = await steamLocalAdapter.loadLibrary(STEAM_PATH, STEAM_ID64);
+
+      expect(games.find(g => g.steamAppId === 228980)).toBeUndefined();
+    });
+
+    it('returns installed games without playtime when no userdata matches', async () => {
+      mockReaddir.mockImplementation((dirPath: string) =>
+        dirPath.endsWith('userdata')
+          ? Promise.resolve([])
+          : dirPath in dirs
+            ? Promise.resolve(dirs[dirPath])
+            : enoent(),
+      );
+
+      const games = await steamLocalAdapter.loadLibrary(STEAM_PATH);
+
+      expect(games).toHaveLength(2);
+      expect(games.every(g => g.playtimeHours === undefined)).toBe(true);
+    });
+
+    it('falls back to the Steam root when libraryfolders.vdf is missing', async () => {
+      mockReadFile.mockImplementation((filePath: string) =>
+        filePath.endsWith('libraryfolders.vdf')
+          ? enoent()
+          : filePath in files
+            ? Promise.resolve(files[filePath])
+            : enoent(),
+      );
+
+      const games = await steamLocalAdapter.loadLibrary(STEAM_PATH, STEAM_ID64);
+
+      expect(games.map(g => g.name)).toEqual(['Portal 2']);
+    });
+  });
+});
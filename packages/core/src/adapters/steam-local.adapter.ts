@@ -0,0 +1,333 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { RawGameData } from '../types/game';
+
+/**
+ * Parsed Valve KeyValues (VDF/ACF) document
+ */
+export type VdfValue = string | VdfObject;
+export type VdfObject = { [key: string]: VdfValue };
+
+/**
+ * Per-app usage stats from userdata/<id>/config/localconfig.vdf
+ */
+type LocalAppStats = {
+  playtimeMinutes?: number;
+  lastPlayed?: number; // Unix timestamp
+};
+
+// Offset between a 64-bit SteamID and the 32-bit account ID used for userdata/ folders
+const STEAM_ID64_BASE = BigInt('76561197960265728');
+
+// Runtimes and tools that show up as installed apps but aren't games
+const TOOL_APP_IDS = new Set([228980, 1070560, 1391110, 1628350]);
+const TOOL_NAME_PATTERN =
+  /^(proton\b|steam linux runtime|steamworks common redistributables)/i;
+
+type VdfToken = { type: 'string' | 'open' | 'close'; value: string };
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', '\\': '\\', '"': '"' };
+
+/**
+ * Split VDF text into quoted/unquoted strings and braces.
+ * Skips // comments and platform conditionals like [$WIN32].
+ */
+const tokenizeVdf = (content: string): VdfToken[] => {
+  const tokens: VdfToken[] = [];
+  let i = 0;
+
+  while (i < content.length) {
+    const char = content[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '/' && content[i + 1] === '/') {
+      while (i < content.length && content[i] !== '\n') i++;
+    } else if (char === '[') {
+      while (i < content.length && content[i] !== ']') i++;
+      i++;
+    } else if (char === '{') {
+      tokens.push({ type: 'open', value: char });
+      i++;
+    } else if (char === '}') {
+      tokens.push({ type: 'close', value: char });
+      i++;
+    } else if (char === '"') {
+      let value = '';
+      i++;
+      while (i < content.length && content[i] !== '"') {
+        if (content[i] === '\\' && i + 1 < content.length) {
+          const next = content[i + 1];
+          value += ESCAPES[next] ?? `\\${next}`;
+          i += 2;
+        } else {
+          value += content[i++];
+        }
+      }
+      i++; // closing quote
+      tokens.push({ type: 'string', value });
+    } else {
+      let value = '';
+      while (i < content.length && !/[\s{}"]/.test(content[i])) {
+        value += content[i++];
+      }
+      tokens.push({ type: 'string', value });
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Parse Valve KeyValues text (libraryfolders.vdf, appmanifest_*.acf, localconfig.vdf).
+ * Exported for testing.
+ */
+export const parseVdf = (content: string): VdfObject => {
+  const tokens = tokenizeVdf(content);
+  let pos = 0;
+
+  const parseObject = (): VdfObject => {
+    const obj: VdfObject = {};
+
+    while (pos < tokens.length) {
+      const keyToken = tokens[pos++];
+      if (keyToken.type === 'close') return obj;
+      if (keyToken.type !== 'string') {
+        throw new Error(`Unexpected "${keyToken.value}" in VDF document`);
+      }
+
+      const valueToken = tokens[pos++];
+      if (!valueToken) {
+        throw new Error(`Missing value for VDF key "${keyToken.value}"`);
+      }
+      obj[keyToken.value] =
+        valueToken.type === 'open' ? parseObject() : valueToken.value;
+    }
+
+    return obj;
+  };
+
+  return parseObject();
+};
+
+/**
+ * Case-insensitive key lookup (Valve files mix "Software"/"software", "apps"/"Apps")
+ */
+const getKey = (obj: VdfValue | undefined, key: string): VdfValue | undefined => {
+  if (!obj || typeof obj === 'string') return undefined;
+  const match = Object.keys(obj).find(k => k.toLowerCase() === key.toLowerCase());
+  return match !== undefined ? obj[match] : undefined;
+};
+
+const getPath = (obj: VdfValue | undefined, keys: string[]) =>
+  keys.reduce<VdfValue | undefined>((current, key) => getKey(current, key), obj);
+
+const toNumber = (value: VdfValue | undefined): number | undefined => {
+  if (typeof value !== 'string') return undefined;
+  const parsed = parseInt(value, 10);
+  return isNaN(parsed) ? undefined : parsed;
+};
+
+const readVdf = async (filePath: string): Promise<VdfObject> =>
+  parseVdf(await fs.readFile(filePath, 'utf-8'));
+
+/**
+ * Resolve all Steam library folders from steamapps/libraryfolders.vdf.
+ * Supports both the current format ("0" { "path" "..." }) and the legacy
+ * one ("1" "D:\\SteamLibrary"). The Steam root is always included.
+ */
+const getLibraryFolders = async (steamPath: string): Promise<string[]> => {
+  const folders = new Set<string>([steamPath]);
+
+  try {
+    const vdf = await readVdf(
+      path.join(steamPath, 'steamapps', 'libraryfolders.vdf'),
+    );
+    const root = getKey(vdf, 'libraryfolders');
+
+    if (root && typeof root !== 'string') {
+      for (const [key, value] of Object.entries(root)) {
+        if (!/^\d+$/.test(key)) continue;
+        const folder = typeof value === 'string' ? value : getKey(value, 'path');
+        if (typeof folder === 'string' && folder) folders.add(folder);
+      }
+    }
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    console.warn(`  ⚠️  libraryfolders.vdf not found under ${steamPath}`);
+  }
+
+  return Array.from(folders);
+};
+
+/**
+ * Read all appmanifest_*.acf files in a library folder
+ */
+const loadAppManifests = async (libraryPath: string): Promise<VdfObject[]> => {
+  const steamappsDir = path.join(libraryPath, 'steamapps');
+
+  let files: string[];
+  try {
+    files = await fs.readdir(steamappsDir);
+  } catch {
+    console.warn(`  ⚠️  Steam library folder not accessible: ${libraryPath}`);
+    return [];
+  }
+
+  const manifests: VdfObject[] = [];
+  for (const file of files.filter(f => /^appmanifest_\d+\.acf$/.test(f))) {
+    try {
+      const vdf = await readVdf(path.join(steamappsDir, file));
+      const appState = getKey(vdf, 'AppState');
+      if (appState && typeof appState !== 'string') manifests.push(appState);
+    } catch (error) {
+      console.warn(`  ⚠️  Failed to parse ${file}:`, error);
+    }
+  }
+  return manifests;
+};
+
+/**
+ * Find the userdata/<accountId> folder for the configured user.
+ * Falls back to the first user folder when the ID is missing or doesn't match.
+ */
+const findUserDataDir = async (
+  steamPath: string,
+  steamUserId?: string,
+): Promise<string | null> => {
+  const userDataRoot = path.join(steamPath, 'userdata');
+
+  let entries: string[];
+  try {
+    entries = (await fs.readdir(userDataRoot)).filter(e => /^\d+$/.test(e));
+  } catch {
+    return null;
+  }
+
+  if (steamUserId && /^\d{17}$/.test(steamUserId)) {
+    const accountId = (BigInt(steamUserId) - STEAM_ID64_BASE).toString();
+    if (entries.includes(accountId)) return path.join(userDataRoot, accountId);
+  }
+
+  return entries.length > 0 ? path.join(userDataRoot, entries[0]) : null;
+};
+
+/**
+ * Read per-app playtime and last played time from localconfig.vdf
+ */
+const loadLocalAppStats = async (
+  steamPath: string,
+  steamUserId?: string,
+): Promise<Map<number, LocalAppStats>> => {
+  const stats = new Map<number, LocalAppStats>();
+
+  const userDataDir = await findUserDataDir(steamPath, steamUserId);
+  if (!userDataDir) {
+    console.warn('  ⚠️  No Steam userdata folder found, playtime unavailable');
+    return stats;
+  }
+
+  try {
+    const vdf = await readVdf(path.join(userDataDir, 'config', 'localconfig.vdf'));
+    const apps = getPath(vdf, [
+      'UserLocalConfigStore',
+      'Software',
+      'Valve',
+      'Steam',
+      'apps',
+    ]);
+
+    if (apps && typeof apps !== 'string') {
+      for (const [appId, entry] of Object.entries(apps)) {
+        stats.set(parseInt(appId, 10), {
+          playtimeMinutes: toNumber(getKey(entry, 'Playtime')),
+          lastPlayed: toNumber(getKey(entry, 'LastPlayed')),
+        });
+      }
+    }
+  } catch (error) {
+    console.warn('  ⚠️  Failed to read Steam localconfig.vdf:', error);
+  }
+
+  return stats;
+};
+
+/**
+ * Map an app manifest plus local stats to our internal raw format
+ */
+const mapManifestToRaw = (
+  manifest: VdfObject,
+  libraryPath: string,
+  stats?: LocalAppStats,
+): RawGameData | null => {
+  const appId = toNumber(getKey(manifest, 'appid'));
+  const name = getKey(manifest, 'name');
+  if (!appId || typeof name !== 'string' || !name) return null;
+  if (TOOL_APP_IDS.has(appId) || TOOL_NAME_PATTERN.test(name)) return null;
+
+  const installDir = getKey(manifest, 'installdir');
+
+  return {
+    source: 'steam',
+    externalId: appId.toString(),
+    name,
+    steamAppId: appId,
+    playtimeHours:
+      stats?.playtimeMinutes && stats.playtimeMinutes > 0
+        ? stats.playtimeMinutes / 60
+        : undefined,
+    lastPlayedAt: stats?.lastPlayed
+      ? new Date(stats.lastPlayed * 1000)
+      : undefined,
+    coverImageUrl: `https://steamcdn-a.akamaihd.net/steam/apps/${appId}/header.jpg`,
+    installed: true,
+    installPath:
+      typeof installDir === 'string'
+        ? path.join(libraryPath, 'steamapps', 'common', installDir)
+        : undefined,
+    installSizeBytes: toNumber(getKey(manifest, 'SizeOnDisk')),
+  };
+};
+
+/**
+ * Load installed Steam games from the local Steam installation
+ * No API key or network access required
+ */
+const loadLibrary = async (
+  steamPath: string,
+  steamUserId?: string,
+): Promise<RawGameData[]> => {
+  console.log(`📦 Loading local Steam library from ${steamPath}...`);
+
+  const folders = await getLibraryFolders(steamPath);
+  const stats = await loadLocalAppStats(steamPath, steamUserId);
+
+  const seen = new Set<number>();
+  const games: RawGameData[] = [];
+
+  for (const folder of folders) {
+    for (const manifest of await loadAppManifests(folder)) {
+      const game = mapManifestToRaw(
+        manifest,
+        folder,
+        stats.get(toNumber(getKey(manifest, 'appid')) ?? 0),
+      );
+      if (!game || seen.has(game.steamAppId!)) continue;
+      seen.add(game.steamAppId!);
+      games.push(game);
+    }
+  }
+
+  console.log(
+    `✅ Local Steam: ${games.length} installed games across ${folders.length} library folders\n`,
+  );
+  return games;
+};
+
+/**
+ * Local Steam adapter
+ * Reads libraryfolders.vdf, appmanifest_*.acf and localconfig.vdf
+ */
+export const steamLocalAdapter = {
+  loadLibrary,
+};
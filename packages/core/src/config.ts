@@ -16,14 +16,71 @@ const defaultHeroicStoreCachePath = (): string => {
   return path.join(os.homedir(), '.config/heroic/store_cache');
 };
 
+const defaultSteamInstallPath = (): string => {
+  if (process.platform === 'darwin') {
+    return path.join(os.homedir(), 'Library/Application Support/Steam');
+  }
+  if (process.platform === 'win32') {
+    return 'C:\\Program Files (x86)\\Steam';
+  }
+  // Linux fallback
+  return path.join(os.homedir(), '.steam/steam');
+};
+
+/**
+ * Library sources enabled when LIBRARY_SOURCES is not set.
+ * PLAYNITE_ENABLED swaps Heroic for the legacy Playnite export.
+ */
+const defaultLibrarySources = (playniteEnabled: boolean): string[] => [
+  'steam',
+  playniteEnabled ? 'playnite' : 'heroic',
+  'xbox-owned',
+];
+
+/**
+ * Parse a JSON object env var, e.g. NOTION_PROPERTY_NAMES='{"playtime":"Hours"}'
+ */
+const parseJsonObject = (name: string): Record<string, unknown> => {
+  const value = process.env[name];
+  if (!value) return {};
+  try {
+    return JSON.parse(value);
+  } catch {
+    throw new Error(`${name} must be a JSON object: ${value}`);
+  }
+};
+
+/**
+ * Parse a JSON array env var, e.g. NOTION_TARGETS='[{"name":"Deck",...}]'
+ */
+const parseJsonArray = (name: string): unknown[] => {
+  const value = process.env[name];
+  if (!value) return [];
+  try {
+    const parsed = JSON.parse(value);
+    if (Array.isArray(parsed)) return parsed;
+  } catch {
+    // Reported below
+  }
+  throw new Error(`${name} must be a JSON array: ${value}`);
+};
+
+const parseList = (value: string): string[] =>
+  value
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+
 /**
  * Load and validate configuration from environment variables
  */
 export const loadConfig = (): Config => {
+  const playniteEnabled = process.env.PLAYNITE_ENABLED === 'true';
   const config = {
     steam: {
       apiKey: process.env.STEAM_API_KEY || '',
       userId: process.env.STEAM_USER_ID || '',
+      installPath: process.env.STEAM_INSTALL_PATH || defaultSteamInstallPath(),
     },
     notion: {
       apiKey: process.env.NOTION_API_KEY || '',
@@ -40,7 +97,41 @@ export const loadConfig = (): Config => {
         steamDeck: process.env.NOTION_SYNC_STEAM_DECK !== 'false',
         coverImage: process.env.NOTION_SYNC_COVER_IMAGE !== 'false',
         libraryStatus: process.env.NOTION_SYNC_LIBRARY_STATUS !== 'false',
+        // Opt-in: these columns don't exist in older databases
+        installed: process.env.NOTION_SYNC_INSTALLED === 'true',
+        installSize: process.env.NOTION_SYNC_INSTALL_SIZE === 'true',
+        playtimeBySource:
+          process.env.NOTION_SYNC_PLAYTIME_BY_SOURCE === 'true',
+        franchise: process.env.NOTION_SYNC_FRANCHISE === 'true',
+        platform: process.env.NOTION_SYNC_PLATFORM === 'true',
       },
+      // Opt-in: user fields pulled back from Notion
+      pullProperties: {
+        status: process.env.NOTION_PULL_STATUS === 'true',
+        rating: process.env.NOTION_PULL_RATING === 'true',
+        notes: process.env.NOTION_PULL_NOTES === 'true',
+        interest: process.env.NOTION_PULL_INTEREST === 'true',
+      },
+      propertyNames: parseJsonObject('NOTION_PROPERTY_NAMES'),
+      removal: {
+        strategy: process.env.NOTION_REMOVAL_STRATEGY || 'status',
+        graceDays: parseInt(process.env.NOTION_REMOVAL_GRACE_DAYS || '3', 10),
+        archiveAfterDays: parseInt(
+          process.env.NOTION_ARCHIVE_AFTER_DAYS || '30',
+          10,
+        ),
+        graveyardDatabaseId:
+          process.env.NOTION_GRAVEYARD_DATABASE_ID || undefined,
+      },
+      pageBody: parseList(process.env.NOTION_PAGE_BODY || ''),
+      pageCover: process.env.NOTION_PAGE_COVER === 'true',
+      pageIcon: process.env.NOTION_PAGE_ICON === 'true',
+      relationDatabases: {
+        franchise: process.env.NOTION_FRANCHISE_DATABASE_ID || undefined,
+        platform: process.env.NOTION_PLATFORM_DATABASE_ID || undefined,
+      },
+      targets: parseJsonArray('NOTION_TARGETS'),
+      fixSchema: process.argv.includes('--fix-schema'),
     },
     protondb: {
       cacheDays: parseInt(process.env.PROTONDB_CACHE_DAYS || '30', 10),
@@ -49,11 +140,24 @@ export const loadConfig = (): Config => {
       | 'debug'
       | 'info',
     dryRun: process.argv.includes('--dry-run'),
-    playniteEnabled: process.env.PLAYNITE_ENABLED === 'true',
+    playniteEnabled,
     heroic: {
       storeCachePath:
         process.env.HEROIC_STORE_CACHE_PATH || defaultHeroicStoreCachePath(),
     },
+    sources: {
+      enabled: process.env.LIBRARY_SOURCES
+        ? parseList(process.env.LIBRARY_SOURCES)
+        : defaultLibrarySources(playniteEnabled),
+    },
+    database: {
+      enabled: process.env.LIBRARY_DB_ENABLED === 'true',
+      path: process.env.LIBRARY_DB_PATH || './data/gamekeeper.db',
+    },
+    suggestions: {
+      threshold: parseFloat(process.env.MERGE_SUGGESTION_THRESHOLD || '0.85'),
+      scorer: process.env.MERGE_SUGGESTION_SCORER || 'levenshtein',
+    },
   };
 
   return ConfigSchema.parse(config);
@@ -0,0 +1,112 @@
+/**
+ * Character trigrams of a normalized name, padded so that short names and
+ * word boundaries at the start/end still produce trigrams
+ */
+export const getTrigrams = (key: string): Set<string> => {
+  const padded = `  ${key} `;
+  const trigrams = new Set<string>();
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    trigrams.add(padded.slice(i, i + 3));
+  }
+  return trigrams;
+};
+
+/**
+ * Smallest trigram overlap that can still reach the given edit-distance
+ * similarity. Each edit changes at most 3 trigrams of the shorter name, and
+ * a similarity of t allows at most (1 - t) / t edits per character of it.
+ */
+export const minTrigramOverlap = (threshold: number): number =>
+  Math.max(0, 1 - (3 * (1 - threshold)) / threshold);
+
+/**
+ * Trigram blocking index over normalized names.
+ * Returns the index pairs [i, j] (i < j) whose trigram overlap — shared
+ * trigrams over the trigrams of the shorter name — is at least minOverlap,
+ * so only plausible pairs get scored instead of all n² of them.
+ */
+export const findCandidatePairs = (
+  keys: string[],
+  minOverlap: number,
+): Array<[number, number]> => {
+  const trigrams = keys.map(getTrigrams);
+  const postings = new Map<string, number[]>();
+
+  trigrams.forEach((grams, index) => {
+    for (const gram of grams) {
+      const list = postings.get(gram);
+      if (list) list.push(index);
+      else postings.set(gram, [index]);
+    }
+  });
+
+  const pairs: Array<[number, number]> = [];
+  const shared = new Map<number, number>();
+
+  trigrams.forEach((grams, i) => {
+    shared.clear();
+    for (const gram of grams) {
+      for (const j of postings.get(gram)!) {
+        if (j > i) shared.set(j, (shared.get(j) ?? 0) + 1);
+      }
+    }
+
+    for (const [j, count] of shared) {
+      const smaller = Math.min(grams.size, trigrams[j].size);
+      if (count / smaller >= minOverlap) pairs.push([i, j]);
+    }
+  });
+
+  return pairs;
+};
+
+// Keys shared by more names than this ("edition", "2") say little about a
+// match, and scoring all of their pairs would be quadratic again
+const MAX_BLOCK_SIZE = 50;
+
+/**
+ * Blocking keys of a normalized name for scorers without an edit-distance
+ * bound: its words, the letters of each word in sorted order (so transposed
+ * letters still meet) and its first three characters
+ */
+export const getBlockingKeys = (key: string): Set<string> => {
+  const keys = new Set<string>([`prefix:${key.slice(0, 3)}`]);
+  for (const word of key.split(' ').filter(Boolean)) {
+    keys.add(`word:${word}`);
+    keys.add(`letters:${[...word].sort().join('')}`);
+  }
+  return keys;
+};
+
+/**
+ * Token blocking index over normalized names.
+ * Returns the index pairs [i, j] (i < j) that share a blocking key, leaving
+ * out keys shared by more than maxBlockSize names.
+ */
+export const findSharedKeyPairs = (
+  keys: string[],
+  maxBlockSize: number = MAX_BLOCK_SIZE,
+): Array<[number, number]> => {
+  const blocks = new Map<string, number[]>();
+  keys.forEach((key, index) => {
+    for (const blockingKey of getBlockingKeys(key)) {
+      const block = blocks.get(blockingKey);
+      if (block) block.push(index);
+      else blocks.set(blockingKey, [index]);
+    }
+  });
+
+  const partners = keys.map(() => new Set<number>());
+  for (const block of blocks.values()) {
+    if (block.length > maxBlockSize) continue;
+    for (let a = 0; a < block.length; a++) {
+      for (let b = a + 1; b < block.length; b++) {
+        partners[block[a]].add(block[b]);
+      }
+    }
+  }
+
+  return partners.flatMap((others, i) =>
+    [...others].sort((x, y) => x - y).map((j): [number, number] => [i, j]),
+  );
+};
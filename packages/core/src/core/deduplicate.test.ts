@@ -4,17 +4,44 @@ import {
   mergeGameGroup,
   processRawGames,
 } from './deduplicate';
+import { createNameIndex } from './name-index';
 import type { RawGameData, Source } from '../types/game';
 
 vi.mock('../config', () => ({
   getConfig: () => ({ logLevel: 'info' }),
 }));
 
+const { mockGetNameIndex, mockApplyPropertyOverrides, setLookups } =
+  vi.hoisted(() => ({
+    mockGetNameIndex: vi.fn(),
+    mockApplyPropertyOverrides: vi.fn(),
+    setLookups: { count: 0 },
+  }));
+
 vi.mock('./overrides', () => ({
   shouldForceMerge: () => false,
   getCanonicalNameFromVariant: () => null,
+  getNameIndex: mockGetNameIndex,
+  applyPropertyOverrides: mockApplyPropertyOverrides,
 }));
 
+// Count set lookups, which grow with the number of pairs compared
+vi.mock('./disjoint-set', async importOriginal => {
+  const actual = await importOriginal<typeof import('./disjoint-set')>();
+  return {
+    createDisjointSet: (size: number) => {
+      const sets = actual.createDisjointSet(size);
+      return {
+        ...sets,
+        find: (x: number) => {
+          setLookups.count++;
+          return sets.find(x);
+        },
+      };
+    },
+  };
+});
+
 const createGame = (
   name: string,
   source: Source,
@@ -27,6 +54,11 @@ const createGame = (
 });
 
 describe('deduplicate', () => {
+  beforeEach(() => {
+    mockGetNameIndex.mockReturnValue(createNameIndex());
+    mockApplyPropertyOverrides.mockReset().mockImplementation(game => game);
+  });
+
   describe('deduplicateGames', () => {
     it('groups games with same Steam App ID', () => {
       const games: RawGameData[] = [
@@ -67,6 +99,162 @@ describe('deduplicate', () => {
       expect(groups.get('steam:620')?.length).toBe(1);
     });
 
+    it('joins a name-only game to a Steam AppID group in any order', () => {
+      const steam = createGame('Hades', 'steam', { steamAppId: 1145360 });
+      const gog = createGame('Hades', 'gog');
+
+      for (const games of [
+        [steam, gog],
+        [gog, steam],
+      ]) {
+        const groups = deduplicateGames(games);
+
+        expect(groups.size).toBe(1);
+        expect(groups.get('steam:1145360')).toHaveLength(2);
+      }
+    });
+
+    it('groups transitively across AppID and name links', () => {
+      // A~B share an AppID, B~C share a name, A and C have nothing in common
+      const games: RawGameData[] = [
+        createGame('Foo', 'steam', { steamAppId: 1 }),
+        createGame('Foo: Director\'s Cut', 'epic', { steamAppId: 1 }),
+        createGame('Foo - Director\'s Cut', 'gog'),
+      ];
+
+      const groups = deduplicateGames(games);
+
+      expect(groups.size).toBe(1);
+      expect(groups.get('steam:1')).toHaveLength(3);
+    });
+
+    it('matches titles with swapped subtitle and main title', () => {
+      const games: RawGameData[] = [
+        createGame("Senua's Saga: Hellblade II", 'steam', {
+          steamAppId: 2461850,
+        }),
+        createGame("Hellblade II: Senua's Saga", 'xbox'),
+      ];
+
+      expect(deduplicateGames(games).size).toBe(1);
+    });
+
+    it('links games through forceMerge rules', () => {
+      mockGetNameIndex.mockReturnValue(
+        createNameIndex([
+          {
+            games: [
+              'Kerbal Space Program',
+              'Kerbal Space Program Enhanced Edition',
+            ],
+          },
+        ])
+      );
+
+      const groups = deduplicateGames([
+        createGame('Kerbal Space Program', 'steam', { steamAppId: 220200 }),
+        createGame('Kerbal Space Program Enhanced Edition', 'xbox'),
+      ]);
+
+      expect(groups.size).toBe(1);
+    });
+
+    it('never merges different Steam AppIDs by name', () => {
+      const games: RawGameData[] = [
+        createGame('DOOM', 'steam', { steamAppId: 379720 }),
+        createGame('Doom', 'steam', { steamAppId: 2280 }),
+        createGame('Doom', 'gog'),
+      ];
+
+      const groups = deduplicateGames(games);
+
+      expect(groups.size).toBe(2);
+      expect(
+        [...groups.values()].reduce((sum, group) => sum + group.length, 0)
+      ).toBe(3);
+    });
+
+    it('keeps games apart that a forceSeparate rule separates', () => {
+      mockGetNameIndex.mockReturnValue(
+        createNameIndex([], [{ games: [379720, 'epic:doom-1993'] }])
+      );
+
+      const groups = deduplicateGames([
+        createGame('DOOM', 'steam', { steamAppId: 379720 }),
+        createGame('DOOM', 'epic', { externalId: 'doom-1993' }),
+        createGame('DOOM', 'gog'),
+      ]);
+
+      expect(groups.size).toBe(2);
+      expect(groups.get('steam:379720')?.map(g => g.source)).toEqual([
+        'steam',
+        'gog',
+      ]);
+    });
+
+    it('separates games sharing a bad Steam AppID by external ID', () => {
+      mockGetNameIndex.mockReturnValue(
+        createNameIndex([], [{ games: ['Control', 'epic:not-control'] }])
+      );
+
+      const groups = deduplicateGames([
+        createGame('Control', 'steam', { steamAppId: 870780 }),
+        createGame('Contra', 'epic', {
+          externalId: 'not-control',
+          steamAppId: 870780,
+        }),
+      ]);
+
+      expect(groups.size).toBe(2);
+    });
+
+    it('lets forceSeparate win over forceMerge', () => {
+      mockGetNameIndex.mockReturnValue(
+        createNameIndex(
+          [{ games: ['Halo', 'Halo: Combat Evolved'] }],
+          [{ games: ['Halo', 'Halo: Combat Evolved'] }]
+        )
+      );
+
+      const groups = deduplicateGames([
+        createGame('Halo', 'xbox'),
+        createGame('Halo: Combat Evolved', 'steam'),
+      ]);
+
+      expect(groups.size).toBe(2);
+    });
+
+    it('produces the same groups for every input order', () => {
+      const games: RawGameData[] = [
+        createGame('Foo', 'steam', { steamAppId: 1 }),
+        createGame('Foo: Director\'s Cut', 'epic', { steamAppId: 1 }),
+        createGame('Foo - Director\'s Cut', 'gog'),
+        createGame('Bar', 'xbox'),
+        createGame('The Bar', 'amazon'),
+        createGame('DOOM', 'steam', { steamAppId: 379720 }),
+        createGame('Doom', 'steam', { steamAppId: 2280 }),
+        createGame('Doom', 'gog'),
+      ];
+
+      const describeGroups = (input: RawGameData[]) =>
+        [...deduplicateGames(input).entries()].map(([key, group]) => [
+          key,
+          group.map(g => g.externalId),
+        ]);
+
+      const expected = describeGroups(games);
+      const permutations = [
+        [7, 6, 5, 4, 3, 2, 1, 0],
+        [7, 2, 4, 0, 6, 1, 5, 3],
+        [2, 3, 7, 6, 5, 4, 1, 0],
+      ];
+
+      expect(expected).toHaveLength(4);
+      for (const order of permutations) {
+        expect(describeGroups(order.map(i => games[i]))).toEqual(expected);
+      }
+    });
+
     it('handles games with and without Steam App IDs', () => {
       const games: RawGameData[] = [
         createGame('Portal', 'steam', { steamAppId: 400 }),
@@ -104,6 +292,15 @@ describe('deduplicate', () => {
       expect(unified.coverImageUrl).toBe('steam-cover.jpg');
     });
 
+    it('takes the cover from another source when the primary has none', () => {
+      const games: RawGameData[] = [
+        createGame('Test Game', 'epic', { coverImageUrl: 'epic-cover.jpg' }),
+        createGame('Test Game', 'steam', { steamAppId: 12345 }),
+      ];
+
+      expect(mergeGameGroup(games).coverImageUrl).toBe('epic-cover.jpg');
+    });
+
     it('tracks all owned sources', () => {
       const games: RawGameData[] = [
         createGame('Multi-Platform Game', 'steam', { steamAppId: 12345 }),
@@ -156,6 +353,100 @@ describe('deduplicate', () => {
       expect(unified.playtimeHours).toBe(15);
     });
 
+    it('does not double count playtime reported twice by the same source', () => {
+      const games: RawGameData[] = [
+        createGame('Portal 2', 'steam', { steamAppId: 620, playtimeHours: 12 }),
+        createGame('Portal 2', 'steam', { steamAppId: 620, playtimeHours: 10 }),
+        createGame('Portal 2', 'epic', { playtimeHours: 3 }),
+      ];
+
+      const unified = mergeGameGroup(games);
+
+      expect(unified.playtimeHours).toBe(15);
+    });
+
+    it('marks the game installed when any source has it installed', () => {
+      const games: RawGameData[] = [
+        createGame('Hades', 'steam', { installed: false }),
+        createGame('Hades', 'epic', {
+          installed: true,
+          installPath: '/games/Hades',
+          installSizeBytes: 10,
+        }),
+      ];
+
+      const unified = mergeGameGroup(games);
+
+      expect(unified.installed).toBe(true);
+      expect(unified.installPath).toBe('/games/Hades');
+      expect(unified.installSizeBytes).toBe(10);
+    });
+
+    it('sums install size across sources but not within one source', () => {
+      const games: RawGameData[] = [
+        createGame('Portal 2', 'steam', {
+          installed: true,
+          installSizeBytes: 100,
+        }),
+        createGame('Portal 2', 'steam', {
+          installed: true,
+          installSizeBytes: 90,
+        }),
+        createGame('Portal 2', 'gog', {
+          installed: true,
+          installSizeBytes: 50,
+        }),
+        createGame('Portal 2', 'epic', {
+          installed: false,
+          installSizeBytes: 70,
+        }),
+      ];
+
+      const unified = mergeGameGroup(games);
+
+      expect(unified.installSizeBytes).toBe(150);
+    });
+
+    it('leaves install state undefined when no source reports it', () => {
+      const unified = mergeGameGroup([createGame('Game', 'steam')]);
+
+      expect(unified.installed).toBeUndefined();
+      expect(unified.installSizeBytes).toBeUndefined();
+    });
+
+    it('keeps playtime and last played per source', () => {
+      const steamDate = new Date('2024-03-01');
+      const epicDate = new Date('2024-06-01');
+      const games: RawGameData[] = [
+        createGame('Hades', 'steam', {
+          playtimeHours: 12,
+          lastPlayedAt: steamDate,
+        }),
+        createGame('Hades', 'epic', {
+          playtimeHours: 3,
+          lastPlayedAt: epicDate,
+        }),
+        createGame('Hades', 'gog'),
+      ];
+
+      const unified = mergeGameGroup(games);
+
+      expect(unified.playtimeBySource).toEqual({ steam: 12, epic: 3 });
+      expect(unified.lastPlayedBySource).toEqual({
+        steam: steamDate,
+        epic: epicDate,
+      });
+      expect(unified.playtimeHours).toBe(15);
+      expect(unified.lastPlayedAt).toEqual(epicDate);
+    });
+
+    it('leaves per-source maps undefined when no source reports playtime', () => {
+      const unified = mergeGameGroup([createGame('Game', 'steam')]);
+
+      expect(unified.playtimeBySource).toBeUndefined();
+      expect(unified.lastPlayedBySource).toBeUndefined();
+    });
+
     it('uses most recent last played date', () => {
       const oldDate = new Date('2024-01-01');
       const newDate = new Date('2024-12-01');
@@ -209,6 +500,93 @@ describe('deduplicate', () => {
       expect(unified.map(g => g.name).sort()).toEqual(['Half-Life', 'Portal']);
     });
 
+    it('keeps canonical IDs unique for separated games', () => {
+      mockGetNameIndex.mockReturnValue(
+        createNameIndex([], [{ games: ['epic:doom-2016', 'gog:doom-1993'] }])
+      );
+
+      const unified = processRawGames([
+        createGame('DOOM', 'epic', { externalId: 'doom-2016' }),
+        createGame('DOOM', 'gog', { externalId: 'doom-1993' }),
+      ]);
+
+      expect(unified.map(g => g.canonicalId).sort()).toEqual([
+        'doom',
+        'doom:gog:doom-1993',
+      ]);
+    });
+
+    it('applies property overrides to merged games', () => {
+      mockApplyPropertyOverrides.mockImplementation(game => ({
+        ...game,
+        interest: 'want-to-play',
+      }));
+
+      const unified = processRawGames([
+        createGame('Portal', 'steam', { steamAppId: 400 }),
+        createGame('Portal', 'epic', { steamAppId: 400 }),
+      ]);
+
+      expect(mockApplyPropertyOverrides).toHaveBeenCalledTimes(1);
+      expect(mockApplyPropertyOverrides.mock.calls[0][0]).toMatchObject({
+        canonicalId: 'steam:400',
+        ownedSources: ['steam', 'epic'],
+      });
+      expect(unified[0].interest).toBe('want-to-play');
+    });
+
+    it('moves a game to the canonical ID of an overridden Steam AppID or name', () => {
+      mockApplyPropertyOverrides.mockImplementation(game =>
+        game.name === 'Portal'
+          ? { ...game, steamAppId: 620 }
+          : { ...game, name: 'Celeste Classic' }
+      );
+
+      const unified = processRawGames([
+        createGame('Portal', 'steam', { steamAppId: 400 }),
+        createGame('Celeste', 'epic'),
+      ]);
+
+      expect(unified.map(game => game.canonicalId).sort()).toEqual([
+        'celeste-classic',
+        'steam:620',
+      ]);
+    });
+
+    it('keeps canonical IDs unique when overrides give games the same one', () => {
+      mockApplyPropertyOverrides.mockImplementation(game => ({
+        ...game,
+        steamAppId: 400,
+      }));
+
+      const unified = processRawGames([
+        createGame('Portal', 'steam', { steamAppId: 400 }),
+        createGame('Portal Demo', 'epic'),
+      ]);
+
+      const ids = unified.map(game => game.canonicalId);
+      expect(new Set(ids).size).toBe(2);
+      expect(ids).toContain('steam:400');
+    });
+
+    it('puts an overridden primary source first in the owned sources', () => {
+      mockApplyPropertyOverrides.mockImplementation(game => ({
+        ...game,
+        primarySource: 'gog',
+      }));
+
+      const unified = processRawGames([
+        createGame('Portal', 'steam', { steamAppId: 400 }),
+        createGame('Portal', 'epic', { steamAppId: 400 }),
+      ]);
+
+      expect(unified[0]).toMatchObject({
+        canonicalId: 'steam:400',
+        primarySource: 'gog',
+        ownedSources: ['gog', 'steam', 'epic'],
+      });
+    });
+
     it('handles empty input', () => {
       const unified = processRawGames([]);
 
@@ -305,3 +683,37 @@ describe('deduplicate', () => {
     });
   });
 });
+
+describe('deduplicate performance', () => {
+  beforeEach(() => {
+    mockGetNameIndex.mockReturnValue(
+      createNameIndex([{ games: ['Game 1', 'Game 1: Remastered'] }])
+    );
+  });
+
+  // Synthetic 20k-entry library: 8k Steam games, 6k Epic copies of those
+  // (matched by name only) and 6k unique Xbox titles
+  const buildLibrary = (): RawGameData[] => [
+    ...Array.from({ length: 8000 }, (_, i) =>
+      createGame(`Game ${i + 1}`, 'steam', { steamAppId: i + 1 })
+    ),
+    ...Array.from({ length: 6000 }, (_, i) =>
+      createGame(`Game ${i + 1}™`, 'epic')
+    ),
+    ...Array.from({ length: 6000 }, (_, i) =>
+      createGame(`Xbox Title ${i + 1}: Edition`, 'xbox')
+    ),
+  ];
+
+  it('groups a 20k-entry library without comparing every pair', () => {
+    const library = buildLibrary();
+    setLookups.count = 0;
+
+    const groups = deduplicateGames(library);
+
+    expect(groups.size).toBe(14000);
+    expect(groups.get('steam:1')).toHaveLength(2);
+    // Comparing every pair would take about 200 million lookups
+    expect(setLookups.count).toBeLessThan(library.length * 10);
+  });
+});
@@ -1,10 +1,18 @@
-import { RawGameData, UnifiedGame, PLATFORM_PRIORITY } from '../types/game';
 import {
-  normalizeGameName,
-  generateCanonicalId,
-  areNamesMatching,
-} from './normalize';
-import { shouldForceMerge, getCanonicalNameFromVariant } from './overrides';
+  RawGameData,
+  Source,
+  UnifiedGame,
+  PLATFORM_PRIORITY,
+} from '../types/game';
+import { generateCanonicalId } from './normalize';
+import {
+  shouldForceMerge,
+  getCanonicalNameFromVariant,
+  getNameIndex,
+  applyPropertyOverrides,
+} from './overrides';
+import { createDisjointSet } from './disjoint-set';
+import { NameIndex, SeparateLabel, labelsConflict } from './name-index';
 import { getConfig } from '../config';
 
 const debug = (message: string, ...args: any[]) => {
@@ -13,50 +21,182 @@ const debug = (message: string, ...args: any[]) => {
   }
 };
 
+/**
+ * Stable ordering for raw games so grouping doesn't depend on input order:
+ * platform priority, then Steam AppID, name and external ID
+ */
+const compareRawGames = (a: RawGameData, b: RawGameData): number =>
+  PLATFORM_PRIORITY[a.source] - PLATFORM_PRIORITY[b.source] ||
+  a.source.localeCompare(b.source) ||
+  (a.steamAppId ?? Infinity) - (b.steamAppId ?? Infinity) ||
+  a.name.localeCompare(b.name) ||
+  a.externalId.localeCompare(b.externalId);
+
+/**
+ * Keys that link games into the same group, strongest first.
+ * forceMerge rules are explicit, so they may join different Steam AppIDs;
+ * name-based keys may not.
+ */
+const getGroupingKeys = (
+  game: RawGameData,
+  nameIndex: NameIndex
+): Array<{ key: string; allowAppIdConflict: boolean }> => {
+  const keys: Array<{ key: string; allowAppIdConflict: boolean }> = [];
+  const { normalized, wordSorted } = nameIndex.getKeys(game.name);
+
+  if (game.steamAppId) {
+    keys.push({ key: `steam:${game.steamAppId}`, allowAppIdConflict: false });
+  }
+
+  for (const ruleId of nameIndex.getMergeRuleIds(game.name)) {
+    keys.push({ key: `merge:${ruleId}`, allowAppIdConflict: true });
+  }
+
+  if (normalized) {
+    keys.push({ key: `name:${normalized}`, allowAppIdConflict: false });
+    keys.push({ key: `words:${wordSorted}`, allowAppIdConflict: false });
+  }
+
+  return keys;
+};
+
 /**
  * Deduplicate raw games from multiple sources
- * Applies platform priority: Steam > Xbox > Epic > GOG > Game Pass > Manual
+ * Games are linked when they share a Steam AppID, normalized name,
+ * word-sorted name or forceMerge rule, and links are transitive
+ * (A~B and B~C puts A, B and C in one group). Name matches never join two
+ * different Steam AppIDs, and nothing joins games a forceSeparate rule
+ * keeps apart. The result doesn't depend on input order.
  */
 export const deduplicateGames = (
   rawGames: RawGameData[]
 ): Map<string, RawGameData[]> => {
-  const gameGroups = new Map<string, RawGameData[]>();
+  const nameIndex = getNameIndex();
+  const games = [...rawGames].sort(compareRawGames);
+  const sets = createDisjointSet(games.length);
 
-  for (const game of rawGames) {
-    // First, try to group by Steam AppID (most reliable)
-    if (game.steamAppId) {
-      const key = `steam:${game.steamAppId}`;
-      if (!gameGroups.has(key)) {
-        gameGroups.set(key, []);
-      }
-      gameGroups.get(key)!.push(game);
-      continue;
+  // Steam AppIDs in each set, tracked on the root
+  const appIdsByRoot = new Map<number, Set<number>>();
+  games.forEach((game, i) => {
+    if (game.steamAppId) appIdsByRoot.set(i, new Set([game.steamAppId]));
+  });
+
+  const hasAppIdConflict = (a: number, b: number): boolean => {
+    const idsA = appIdsByRoot.get(sets.find(a));
+    const idsB = appIdsByRoot.get(sets.find(b));
+    if (!idsA || !idsB) return false;
+    return ![...idsA].some(id => idsB.has(id));
+  };
+
+  // forceSeparate entries matched by each set, tracked on the root
+  const separateByRoot = new Map<number, SeparateLabel[]>();
+  games.forEach((game, i) => {
+    const labels = nameIndex.getSeparateLabels(game);
+    if (labels.length > 0) separateByRoot.set(i, labels);
+  });
+
+  const isSeparated = (a: number, b: number): boolean => {
+    const labelsA = separateByRoot.get(sets.find(a));
+    const labelsB = separateByRoot.get(sets.find(b));
+    if (!labelsA || !labelsB) return false;
+    return labelsConflict(labelsA, labelsB);
+  };
+
+  const link = (a: number, b: number) => {
+    const rootA = sets.find(a);
+    const rootB = sets.find(b);
+    if (rootA === rootB) return;
+
+    const ids = new Set([
+      ...(appIdsByRoot.get(rootA) ?? []),
+      ...(appIdsByRoot.get(rootB) ?? []),
+    ]);
+    const labels = [
+      ...(separateByRoot.get(rootA) ?? []),
+      ...(separateByRoot.get(rootB) ?? []),
+    ];
+    appIdsByRoot.delete(rootA);
+    appIdsByRoot.delete(rootB);
+    separateByRoot.delete(rootA);
+    separateByRoot.delete(rootB);
+    const root = sets.union(rootA, rootB);
+    if (ids.size > 0) appIdsByRoot.set(root, ids);
+    if (labels.length > 0) separateByRoot.set(root, labels);
+  };
+
+  // Collect members per key, then link key by key, strongest keys first
+  const members = new Map<string, number[]>();
+  const allowConflict = new Map<string, boolean>();
+  games.forEach((game, i) => {
+    for (const { key, allowAppIdConflict } of getGroupingKeys(
+      game,
+      nameIndex
+    )) {
+      if (!members.has(key)) members.set(key, []);
+      members.get(key)!.push(i);
+      allowConflict.set(key, allowAppIdConflict);
     }
+  });
 
-    // Otherwise, try to find a matching group by name
-    let matched = false;
-    for (const [existingKey, existingGames] of gameGroups.entries()) {
-      const existingGame = existingGames[0];
-
-      // Check both normal name matching and forced merge overrides
-      if (
-        areNamesMatching(game.name, existingGame.name) ||
-        shouldForceMerge(game.name, existingGame.name)
-      ) {
-        gameGroups.get(existingKey)!.push(game);
-        matched = true;
-        break;
-      }
+  const keyRank = (key: string) =>
+    ['steam', 'merge', 'name', 'words'].indexOf(key.split(':')[0]);
+  const orderedKeys = [...members.keys()].sort(
+    (a, b) => keyRank(a) - keyRank(b)
+  );
+
+  // Each member joins the first earlier member it may be linked with, so a
+  // blocked pair doesn't stop the rest of the key from grouping
+  for (const key of orderedKeys) {
+    const [first, ...rest] = members.get(key)!;
+    const linked = [first];
+    for (const other of rest) {
+      const target = linked.find(member => {
+        if (isSeparated(member, other)) {
+          debug(
+            `Not merging "${games[other].name}" into "${games[member].name}": forceSeparate rule`
+          );
+          return false;
+        }
+        if (!allowConflict.get(key) && hasAppIdConflict(member, other)) {
+          debug(
+            `Not merging "${games[other].name}" into "${games[member].name}": different Steam AppIDs`
+          );
+          return false;
+        }
+        return true;
+      });
+      if (target !== undefined) link(target, other);
+      linked.push(other);
     }
+  }
+
+  // Build groups; games are already in priority order, so the first member
+  // of each set names the group
+  const groupsByRoot = new Map<number, RawGameData[]>();
+  games.forEach((game, i) => {
+    const root = sets.find(i);
+    if (!groupsByRoot.has(root)) groupsByRoot.set(root, []);
+    groupsByRoot.get(root)!.push(game);
+  });
+
+  const gameGroups = new Map<string, RawGameData[]>();
+  for (const group of groupsByRoot.values()) {
+    const withAppId = group.find(g => g.steamAppId);
+    let key = withAppId
+      ? `steam:${withAppId.steamAppId}`
+      : `name:${generateCanonicalId(group[0].name)}`;
 
-    // If no match found, create a new group
-    if (!matched) {
-      const key = `name:${generateCanonicalId(game.name)}`;
-      gameGroups.set(key, [game]);
+    // Two groups can share a key when matches were blocked by conflicting
+    // AppIDs or forceSeparate rules; keep them apart
+    if (gameGroups.has(key)) {
+      key = `${key}:${group[0].source}:${group[0].externalId}`;
     }
+    gameGroups.set(key, group);
   }
 
-  return gameGroups;
+  return new Map(
+    [...gameGroups.entries()].sort(([a], [b]) => a.localeCompare(b))
+  );
 };
 
 /**
@@ -109,21 +249,49 @@ export const mergeGameGroup = (games: RawGameData[]): UnifiedGame => {
     ? `steam:${primary.steamAppId}`
     : generateCanonicalId(gameName);
 
-  // Merge playtime (sum across all sources)
-  const totalPlaytime = games.reduce((sum, game) => {
-    return sum + (game.playtimeHours || 0);
-  }, 0);
-
-  // Use most recent last played date
-  const lastPlayedDates = games
-    .map(g => g.lastPlayedAt)
-    .filter((d): d is Date => d !== undefined);
+  // Per-source playtime and last played. Entries from the same source
+  // (e.g. Steam Web API and local Steam files) report the same counter,
+  // so only the highest value per source is kept
+  const playtimeBySource: Partial<Record<Source, number>> = {};
+  const lastPlayedBySource: Partial<Record<Source, Date>> = {};
+  for (const game of sorted) {
+    if (game.playtimeHours && game.playtimeHours > 0) {
+      playtimeBySource[game.source] = Math.max(
+        playtimeBySource[game.source] || 0,
+        game.playtimeHours
+      );
+    }
+    const lastPlayed = lastPlayedBySource[game.source];
+    if (game.lastPlayedAt && (!lastPlayed || game.lastPlayedAt > lastPlayed)) {
+      lastPlayedBySource[game.source] = game.lastPlayedAt;
+    }
+  }
 
+  // Totals are derived from the per-source values
+  const totalPlaytime = Object.values(playtimeBySource).reduce(
+    (sum, hours) => sum + hours,
+    0
+  );
+  const lastPlayedDates = Object.values(lastPlayedBySource);
   const lastPlayedAt =
     lastPlayedDates.length > 0
       ? new Date(Math.max(...lastPlayedDates.map(d => d.getTime())))
       : undefined;
 
+  // Install state: installed if any source has it installed. Each store
+  // keeps its own copy on disk, so sizes add up across sources (one per source)
+  const installedGames = sorted.filter(g => g.installed);
+  const knownInstallState = games.some(g => g.installed !== undefined);
+  const installSizeBySource = new Map<string, number>();
+  for (const game of installedGames) {
+    if (game.installSizeBytes === undefined) continue;
+    const current = installSizeBySource.get(game.source) || 0;
+    installSizeBySource.set(
+      game.source,
+      Math.max(current, game.installSizeBytes)
+    );
+  }
+
   const now = new Date();
 
   // gameName was already determined above (before generating canonical ID)
@@ -136,9 +304,24 @@ export const mergeGameGroup = (games: RawGameData[]): UnifiedGame => {
     steamAppId: primary.steamAppId,
     playtimeHours: totalPlaytime > 0 ? totalPlaytime : undefined,
     lastPlayedAt,
-    coverImageUrl: primary.coverImageUrl,
+    playtimeBySource:
+      Object.keys(playtimeBySource).length > 0 ? playtimeBySource : undefined,
+    lastPlayedBySource:
+      Object.keys(lastPlayedBySource).length > 0
+        ? lastPlayedBySource
+        : undefined,
+    coverImageUrl: sorted.find(g => g.coverImageUrl)?.coverImageUrl,
     releaseDate: primary.releaseDate,
     genres: primary.genres,
+    installed: knownInstallState ? installedGames.length > 0 : undefined,
+    installPath: installedGames.find(g => g.installPath)?.installPath,
+    installSizeBytes:
+      installSizeBySource.size > 0
+        ? [...installSizeBySource.values()].reduce(
+            (sum, size) => sum + size,
+            0
+          )
+        : undefined,
     createdAt: now,
     updatedAt: now,
   };
@@ -146,6 +329,30 @@ export const mergeGameGroup = (games: RawGameData[]): UnifiedGame => {
   return unified;
 };
 
+/**
+ * Recompute what mergeGameGroup derives from fields an override may change:
+ * the canonical ID follows an overridden Steam AppID (or the name, without
+ * one), and an overridden primary source leads the owned sources
+ */
+const refreshDerivedFields = (
+  merged: UnifiedGame,
+  game: UnifiedGame
+): UnifiedGame => {
+  let { canonicalId, ownedSources } = game;
+  if (game.steamAppId !== merged.steamAppId || game.name !== merged.name) {
+    canonicalId = game.steamAppId
+      ? `steam:${game.steamAppId}`
+      : generateCanonicalId(game.name);
+  }
+  if (game.primarySource !== merged.primarySource) {
+    ownedSources = [
+      game.primarySource,
+      ...ownedSources.filter(source => source !== game.primarySource),
+    ];
+  }
+  return { ...game, canonicalId, ownedSources };
+};
+
 /**
  * Process raw games from multiple sources into deduplicated unified games
  */
@@ -156,10 +363,33 @@ export const processRawGames = (rawGames: RawGameData[]): UnifiedGame[] => {
   console.log(`Deduplicated into ${gameGroups.size} unique games`);
 
   const unifiedGames: UnifiedGame[] = [];
+  const canonicalIds = new Set<string>();
+
+  // Groups kept apart by forceSeparate can share a (bad) Steam AppID or a
+  // name, as can games an override gives the same one; suffix the later one
+  // so canonical IDs stay unique
+  const makeUnique = (game: UnifiedGame, games: RawGameData[]) => {
+    if (canonicalIds.has(game.canonicalId)) {
+      const primary =
+        games.find(g => g.source === game.primarySource) ?? games[0];
+      game.canonicalId = `${game.canonicalId}:${primary.source}:${primary.externalId}`;
+    }
+    canonicalIds.add(game.canonicalId);
+  };
 
   for (const [key, games] of gameGroups.entries()) {
     try {
-      const unified = mergeGameGroup(games);
+      const merged = mergeGameGroup(games);
+      makeUnique(merged, games);
+
+      const unified = refreshDerivedFields(
+        merged,
+        applyPropertyOverrides(merged)
+      );
+      if (unified.canonicalId !== merged.canonicalId) {
+        canonicalIds.delete(merged.canonicalId);
+        makeUnique(unified, games);
+      }
       unifiedGames.push(unified);
 
       // Only log merge if there are multiple different sources
@@ -0,0 +1,45 @@
+/**
+ * Disjoint-set (union-find) over the integers 0..size-1
+ * Uses path compression and union by size.
+ */
+export const createDisjointSet = (size: number) => {
+  const parent = Array.from({ length: size }, (_, i) => i);
+  const setSize = new Array<number>(size).fill(1);
+
+  const find = (x: number): number => {
+    let root = x;
+    while (parent[root] !== root) root = parent[root];
+
+    // Path compression
+    while (parent[x] !== root) {
+      const next = parent[x];
+      parent[x] = root;
+      x = next;
+    }
+    return root;
+  };
+
+  /**
+   * Merge the sets containing a and b. Returns the new root.
+   */
+  const union = (a: number, b: number): number => {
+    let rootA = find(a);
+    let rootB = find(b);
+    if (rootA === rootB) return rootA;
+
+    if (setSize[rootA] < setSize[rootB]) [rootA, rootB] = [rootB, rootA];
+    parent[rootB] = rootA;
+    setSize[rootA] += setSize[rootB];
+    return rootA;
+  };
+
+  const connected = (a: number, b: number): boolean => find(a) === find(b);
+
+  return {
+    find,
+    union,
+    connected,
+  };
+};
+
+export type DisjointSet = ReturnType<typeof createDisjointSet>;
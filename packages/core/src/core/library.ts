@@ -0,0 +1,59 @@
+import fs from 'fs/promises';
+import { UnifiedGame } from '../types/game';
+import { reviveUnifiedGame } from '../db/library-db';
+
+/**
+ * Local library snapshot written after every sync
+ */
+export type LibrarySnapshot = {
+  lastSynced: string;
+  gameCount: number;
+  games: UnifiedGame[];
+};
+
+/**
+ * Save unified game library to data/library.json
+ */
+export const saveLibrarySnapshot = async (
+  games: UnifiedGame[],
+  filePath: string = './data/library.json',
+): Promise<void> => {
+  const snapshot: LibrarySnapshot = {
+    lastSynced: new Date().toISOString(),
+    gameCount: games.length,
+    games,
+  };
+  await fs.writeFile(filePath, JSON.stringify(snapshot, null, 2), 'utf-8');
+};
+
+/**
+ * Load the games of a library snapshot, none when it doesn't exist yet
+ */
+export const loadLibrarySnapshot = async (
+  filePath: string = './data/library.json',
+): Promise<UnifiedGame[]> => {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+  const snapshot: LibrarySnapshot = JSON.parse(content);
+  return snapshot.games.map(reviveUnifiedGame);
+};
+
+/**
+ * Get breakdown of games by primary source
+ */
+export const getSourceBreakdown = (
+  games: UnifiedGame[],
+): Record<string, number> => {
+  const breakdown: Record<string, number> = {};
+
+  for (const game of games) {
+    breakdown[game.primarySource] = (breakdown[game.primarySource] || 0) + 1;
+  }
+
+  return breakdown;
+};
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { createNameIndex } from './name-index';
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('name-index', () => {
+  const index = createNameIndex([
+    {
+      games: ['Disco Elysium', 'Disco Elysium - The Final Cut'],
+      canonicalName: 'Disco Elysium',
+    },
+    { games: ['Hollow Knight', 'Hollow Knight (Windows)'] },
+  ]);
+
+  it('returns normalized and word-sorted keys', () => {
+    expect(index.getKeys("Hellblade II: Senua's Saga")).toEqual({
+      normalized: 'hellblade ii senua s saga',
+      wordSorted: 'hellblade ii s saga senua',
+    });
+  });
+
+  it('finds the rule listing both names', () => {
+    expect(
+      index.findForceMerge('Disco Elysium™', 'Disco Elysium: The Final Cut'),
+    ).toBe('Disco Elysium');
+    expect(index.findForceMerge('Disco Elysium', 'Hollow Knight')).toBeNull();
+  });
+
+  it('falls back to the first game when a rule has no canonical name', () => {
+    expect(index.findCanonicalName('Hollow Knight (Windows)')).toBe(
+      'Hollow Knight',
+    );
+  });
+
+  it('only matches exact normalized names', () => {
+    expect(index.findCanonicalName('Hollow Knight: Silksong')).toBeNull();
+    expect(index.getMergeRuleIds('Hollow Knight: Silksong')).toEqual([]);
+  });
+
+  describe('forceSeparate', () => {
+    const separate = createNameIndex(
+      [],
+      [
+        { games: ['DOOM', 'epic:doom-1993'] },
+        { games: [379720, 'Metro: Last Light'] },
+      ],
+    );
+
+    it('matches entries by name, source:externalId and Steam AppID', () => {
+      expect(separate.getSeparateLabels('Doom')).toEqual([
+        { ruleId: 0, entry: 0 },
+      ]);
+      expect(
+        separate.getSeparateLabels({
+          name: 'Doom (1993)',
+          source: 'epic',
+          externalId: 'doom-1993',
+        }),
+      ).toEqual([{ ruleId: 0, entry: 1 }]);
+      expect(
+        separate.getSeparateLabels({ name: 'Anything', steamAppId: 379720 }),
+      ).toEqual([{ ruleId: 1, entry: 0 }]);
+    });
+
+    it('treats a colon after an unknown prefix as part of a name', () => {
+      expect(separate.getSeparateLabels('Metro Last Light')).toEqual([
+        { ruleId: 1, entry: 1 },
+      ]);
+    });
+
+    it('separates games matched by different entries of a rule', () => {
+      expect(
+        separate.isSeparated('DOOM', {
+          name: 'DOOM',
+          source: 'epic',
+          externalId: 'doom-1993',
+        }),
+      ).toBe(true);
+      expect(separate.isSeparated('DOOM', 'Doom')).toBe(false);
+      expect(separate.isSeparated('DOOM', 'Metro: Last Light')).toBe(false);
+    });
+  });
+});
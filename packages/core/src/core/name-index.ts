@@ -0,0 +1,174 @@
+import { ForceMergeRule, ForceSeparateRule } from '../types/overrides';
+import { RawGameData, SourceSchema } from '../types/game';
+import { normalizeGameName, wordSortedKey } from './normalize';
+
+/**
+ * Normalized lookup keys for a game name
+ */
+export type NameKeys = {
+  normalized: string;
+  wordSorted: string;
+};
+
+/**
+ * A game as seen by forceSeparate rules: a bare name, or a raw game that can
+ * also be matched by external ID and Steam AppID
+ */
+export type GameRef =
+  | string
+  | (Pick<RawGameData, 'name'> &
+      Partial<Pick<RawGameData, 'source' | 'externalId' | 'steamAppId'>>);
+
+/**
+ * Entry of a forceSeparate rule that matched a game
+ */
+export type SeparateLabel = {
+  ruleId: number;
+  entry: number;
+};
+
+/**
+ * True when two label sets hold different entries of the same rule
+ */
+export const labelsConflict = (
+  labels1: SeparateLabel[],
+  labels2: SeparateLabel[]
+): boolean =>
+  labels1.some(a =>
+    labels2.some(b => a.ruleId === b.ruleId && a.entry !== b.entry)
+  );
+
+const SOURCES = new Set<string>(SourceSchema.options);
+
+/**
+ * Index of normalized game names, built once per overrides load.
+ * Caches name normalization and maps normalized names to the forceMerge
+ * rules that list them, so matching doesn't re-normalize every rule for
+ * every game. forceSeparate entries are indexed by name, external ID and
+ * Steam AppID the same way.
+ */
+export const createNameIndex = (
+  forceMerge: ForceMergeRule[] = [],
+  forceSeparate: ForceSeparateRule[] = []
+) => {
+  const keyCache = new Map<string, NameKeys>();
+  const rulesByName = new Map<string, number[]>();
+  const separateByName = new Map<string, SeparateLabel[]>();
+  const separateByExternalId = new Map<string, SeparateLabel[]>();
+  const separateByAppId = new Map<number, SeparateLabel[]>();
+
+  /**
+   * Normalized and word-sorted keys for a name (memoized)
+   */
+  const getKeys = (name: string): NameKeys => {
+    let keys = keyCache.get(name);
+    if (!keys) {
+      keys = {
+        normalized: normalizeGameName(name),
+        wordSorted: wordSortedKey(name),
+      };
+      keyCache.set(name, keys);
+    }
+    return keys;
+  };
+
+  const normalize = (name: string): string => getKeys(name).normalized;
+
+  forceMerge.forEach((rule, index) => {
+    for (const name of rule.games) {
+      const normalized = normalize(name);
+      const rules = rulesByName.get(normalized) ?? [];
+      if (!rules.includes(index)) rules.push(index);
+      rulesByName.set(normalized, rules);
+    }
+  });
+
+  /**
+   * Indexes of the forceMerge rules that list this name (exact normalized match)
+   */
+  const getMergeRuleIds = (name: string): number[] =>
+    rulesByName.get(normalize(name)) ?? [];
+
+  const addLabel = <K>(
+    map: Map<K, SeparateLabel[]>,
+    key: K,
+    label: SeparateLabel
+  ) => {
+    const labels = map.get(key);
+    if (labels) labels.push(label);
+    else map.set(key, [label]);
+  };
+
+  forceSeparate.forEach((rule, ruleId) => {
+    rule.games.forEach((entry, index) => {
+      const label = { ruleId, entry: index };
+      if (typeof entry === 'number') {
+        addLabel(separateByAppId, entry, label);
+        return;
+      }
+
+      // "source:externalId" when the prefix is a known source, otherwise a
+      // name (so "Metro: Last Light" is still a name)
+      const separator = entry.indexOf(':');
+      if (separator > 0 && SOURCES.has(entry.slice(0, separator))) {
+        addLabel(separateByExternalId, entry, label);
+      } else {
+        addLabel(separateByName, normalize(entry), label);
+      }
+    });
+  });
+
+  /**
+   * forceSeparate entries that match a game, by name, external ID or AppID
+   */
+  const getSeparateLabels = (game: GameRef): SeparateLabel[] => {
+    if (forceSeparate.length === 0) return [];
+    if (typeof game === 'string') return separateByName.get(normalize(game)) ?? [];
+
+    return [
+      ...(separateByName.get(normalize(game.name)) ?? []),
+      ...(game.source && game.externalId
+        ? separateByExternalId.get(`${game.source}:${game.externalId}`) ?? []
+        : []),
+      ...(game.steamAppId ? separateByAppId.get(game.steamAppId) ?? [] : []),
+    ];
+  };
+
+  /**
+   * True when a forceSeparate rule keeps these two games apart
+   */
+  const isSeparated = (game1: GameRef, game2: GameRef): boolean =>
+    labelsConflict(getSeparateLabels(game1), getSeparateLabels(game2));
+
+  const getCanonicalName = (rule: ForceMergeRule): string =>
+    rule.canonicalName || rule.games[0];
+
+  /**
+   * Canonical name of the first rule listing both names, null if none
+   */
+  const findForceMerge = (name1: string, name2: string): string | null => {
+    const rules2 = getMergeRuleIds(name2);
+    const shared = getMergeRuleIds(name1).find(id => rules2.includes(id));
+    return shared !== undefined ? getCanonicalName(forceMerge[shared]) : null;
+  };
+
+  /**
+   * Canonical name of the first rule listing this name, null if none
+   */
+  const findCanonicalName = (name: string): string | null => {
+    const [first] = getMergeRuleIds(name);
+    return first !== undefined ? getCanonicalName(forceMerge[first]) : null;
+  };
+
+  return {
+    getKeys,
+    normalize,
+    getMergeRuleIds,
+    findForceMerge,
+    findCanonicalName,
+    getSeparateLabels,
+    isSeparated,
+  };
+};
+
+export type NameIndex = ReturnType<typeof createNameIndex>;
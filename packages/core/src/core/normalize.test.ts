@@ -1,10 +1,15 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'fs/promises';
 import {
   normalizeGameName,
   generateCanonicalId,
   calculateNameSimilarity,
+  calculateJaroWinklerSimilarity,
   areNamesMatching,
 } from './normalize';
+import { loadOverrides } from './overrides';
+
+vi.mock('fs/promises');
 
 describe('normalize', () => {
   describe('normalizeGameName', () => {
@@ -119,6 +124,37 @@ describe('normalize', () => {
     });
   });
 
+  describe('calculateJaroWinklerSimilarity', () => {
+    it('returns 1.0 for identical normalized names', () => {
+      expect(calculateJaroWinklerSimilarity('Portal™', 'Portal')).toBe(1.0);
+    });
+
+    it('matches the reference Jaro-Winkler scores', () => {
+      expect(calculateJaroWinklerSimilarity('MARTHA', 'MARHTA')).toBeCloseTo(
+        0.961,
+        3,
+      );
+      expect(calculateJaroWinklerSimilarity('DIXON', 'DICKSONX')).toBeCloseTo(
+        0.813,
+        3,
+      );
+    });
+
+    it('scores shared prefixes higher than edit distance does', () => {
+      const jaroWinkler = calculateJaroWinklerSimilarity(
+        'Borderlands 2',
+        'Borderlands II',
+      );
+      expect(jaroWinkler).toBeGreaterThan(
+        calculateNameSimilarity('Borderlands 2', 'Borderlands II'),
+      );
+    });
+
+    it('returns 0 for names with nothing in common', () => {
+      expect(calculateJaroWinklerSimilarity('abc', 'xyz')).toBe(0);
+    });
+  });
+
   describe('areNamesMatching', () => {
     it('matches identical normalized names', () => {
       expect(areNamesMatching('Half-Life', 'Half-Life')).toBe(true);
@@ -148,6 +184,27 @@ describe('normalize', () => {
         areNamesMatching('Metro: Last Light', 'Metro: Last Light Redux'),
       ).toBe(false);
     });
+
+    describe('with forceSeparate overrides', () => {
+      afterEach(async () => {
+        vi.mocked(fs.readFile).mockResolvedValue('{}');
+        await loadOverrides();
+      });
+
+      it('does not match names a forceSeparate rule keeps apart', async () => {
+        vi.spyOn(console, 'log').mockImplementation(() => {});
+        vi.mocked(fs.readFile).mockResolvedValue(
+          JSON.stringify({
+            forceMerge: [{ games: ['Prey', 'Prey (2006)'] }],
+            forceSeparate: [{ games: ['Prey', 'Prey (2006)'] }],
+          }),
+        );
+        await loadOverrides();
+
+        expect(areNamesMatching('Prey', 'Prey (2006)')).toBe(false);
+        expect(areNamesMatching('Prey', 'PREY')).toBe(true);
+      });
+    });
   });
 
   describe('Integration: Name matching workflow', () => {
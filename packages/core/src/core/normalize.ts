@@ -1,4 +1,4 @@
-import { shouldForceMerge } from './overrides';
+import { shouldForceMerge, shouldForceSeparate } from './overrides';
 
 /**
  * Calculate similarity between two game names
@@ -36,6 +36,36 @@ export const calculateNameSimilarity = (
   return 1 - distance / maxLength;
 };
 
+/**
+ * Jaro-Winkler similarity between two game names (normalized first)
+ * Rewards shared prefixes, so it is more lenient than edit distance with
+ * appended subtitles. Returns a score from 0 to 1, where 1 is identical
+ */
+export const calculateJaroWinklerSimilarity = (
+  name1: string,
+  name2: string,
+): number => {
+  const normalized1 = normalizeGameName(name1);
+  const normalized2 = normalizeGameName(name2);
+
+  if (normalized1 === normalized2) {
+    return 1.0;
+  }
+
+  const jaro = jaroSimilarity(normalized1, normalized2);
+
+  // Winkler boost for a common prefix of up to 4 characters
+  let prefix = 0;
+  while (
+    prefix < Math.min(4, normalized1.length, normalized2.length) &&
+    normalized1[prefix] === normalized2[prefix]
+  ) {
+    prefix++;
+  }
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+};
+
 /**
  * Normalize game name for matching
  * Removes special characters, extra whitespace, and common suffixes
@@ -79,7 +109,11 @@ export const generateCanonicalId = (name: string): string => {
  * Uses fuzzy matching to account for minor variations
  */
 export const areNamesMatching = (name1: string, name2: string): boolean => {
-  // Check manual overrides first
+  // Check manual overrides first; forceSeparate wins over forceMerge
+  if (shouldForceSeparate(name1, name2)) {
+    return false;
+  }
+
   const forcedMerge = shouldForceMerge(name1, name2);
   if (forcedMerge) {
     return true;
@@ -127,3 +161,49 @@ const levenshteinDistance = (str1: string, str2: string): number => {
 
   return matrix[str2.length][str1.length];
 };
+
+/**
+ * Calculate Jaro similarity between two strings
+ */
+const jaroSimilarity = (str1: string, str2: string): number => {
+  if (str1.length === 0 || str2.length === 0) return 0;
+
+  const matchWindow = Math.max(
+    0,
+    Math.floor(Math.max(str1.length, str2.length) / 2) - 1,
+  );
+  const matched1 = new Array<boolean>(str1.length).fill(false);
+  const matched2 = new Array<boolean>(str2.length).fill(false);
+
+  let matches = 0;
+  for (let i = 0; i < str1.length; i++) {
+    const start = Math.max(0, i - matchWindow);
+    const end = Math.min(str2.length - 1, i + matchWindow);
+    for (let j = start; j <= end; j++) {
+      if (matched2[j] || str1[i] !== str2[j]) continue;
+      matched1[i] = true;
+      matched2[j] = true;
+      matches++;
+      break;
+    }
+  }
+
+  if (matches === 0) return 0;
+
+  // Count matched characters that appear in a different order
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < str1.length; i++) {
+    if (!matched1[i]) continue;
+    while (!matched2[k]) k++;
+    if (str1[i] !== str2[k]) transpositions++;
+    k++;
+  }
+
+  return (
+    (matches / str1.length +
+      matches / str2.length +
+      (matches - transpositions / 2) / matches) /
+    3
+  );
+};
@@ -0,0 +1,217 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'fs/promises';
+import {
+  loadOverrides,
+  parseOverrides,
+  getOverrides,
+  applyPropertyOverrides,
+} from './overrides';
+import { buildOverridesJsonSchema } from '../types/overrides';
+import type { UnifiedGame } from '../types/game';
+import schemaFile from '../types/overrides.schema.json';
+
+vi.mock('fs/promises');
+
+const createUnifiedGame = (
+  name: string,
+  options: Partial<UnifiedGame> = {},
+): UnifiedGame => ({
+  canonicalId: name.toLowerCase().replace(/\s+/g, '-'),
+  name,
+  primarySource: 'steam',
+  ownedSources: ['steam'],
+  createdAt: new Date('2024-01-01'),
+  updatedAt: new Date('2024-01-01'),
+  ...options,
+});
+
+const loadPropertyOverrides = async (propertyOverrides: unknown[]) => {
+  vi.mocked(fs.readFile).mockResolvedValue(
+    JSON.stringify({ propertyOverrides }),
+  );
+  await loadOverrides();
+};
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('overrides', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  describe('loadOverrides', () => {
+    it('falls back to empty overrides when the file is missing', async () => {
+      vi.mocked(fs.readFile).mockRejectedValue(
+        Object.assign(new Error('ENOENT'), { code: 'ENOENT' }),
+      );
+
+      const overrides = await loadOverrides('./data/overrides.json');
+
+      expect(overrides).toEqual({
+        forceMerge: [],
+        forceSeparate: [],
+        propertyOverrides: [],
+      });
+    });
+
+    it('loads valid overrides without the $schema key', async () => {
+      vi.mocked(fs.readFile).mockResolvedValue(
+        JSON.stringify({
+          $schema: '../packages/core/src/types/overrides.schema.json',
+          forceMerge: [{ games: ['A', 'A: GOTY'], canonicalName: 'A' }],
+        }),
+      );
+
+      await loadOverrides('./data/overrides.json');
+
+      expect(getOverrides()).toEqual({
+        forceMerge: [{ games: ['A', 'A: GOTY'], canonicalName: 'A' }],
+      });
+    });
+
+    it('fails on invalid JSON instead of using defaults', async () => {
+      vi.mocked(fs.readFile).mockResolvedValue('{ "forceMerge": [ }');
+
+      await expect(loadOverrides('./data/overrides.json')).rejects.toThrow(
+        'Invalid overrides file ./data/overrides.json',
+      );
+    });
+
+    it('rethrows read errors other than a missing file', async () => {
+      vi.mocked(fs.readFile).mockRejectedValue(
+        Object.assign(new Error('EACCES'), { code: 'EACCES' }),
+      );
+
+      await expect(loadOverrides()).rejects.toThrow('EACCES');
+    });
+  });
+
+  describe('parseOverrides', () => {
+    it('reports the path of each invalid rule', () => {
+      const content = JSON.stringify({
+        forceMerge: [{ games: ['Only One'] }],
+        forceSeparate: [{ games: ['A', true] }],
+        propertyOverrides: [{ properties: {} }],
+      });
+
+      let message = '';
+      try {
+        parseOverrides(content, 'overrides.json');
+      } catch (error) {
+        message = (error as Error).message;
+      }
+
+      expect(message).toContain('Invalid overrides file overrides.json');
+      expect(message).toContain('forceMerge[0].games');
+      expect(message).toContain('forceSeparate[0].games[1]');
+      expect(message).toContain('propertyOverrides[0].match');
+    });
+
+    it('accepts Steam AppIDs and source:externalId entries in forceSeparate', () => {
+      const overrides = parseOverrides(
+        JSON.stringify({
+          forceSeparate: [{ games: [379720, 'gog:doom-1993'], comment: 'DOOM' }],
+        }),
+      );
+
+      expect(overrides.forceSeparate?.[0].games).toEqual([
+        379720,
+        'gog:doom-1993',
+      ]);
+    });
+  });
+
+  describe('applyPropertyOverrides', () => {
+    it('matches bare names exactly, not by substring', async () => {
+      await loadPropertyOverrides([
+        { match: 'Portal', properties: { genres: ['Puzzle'] } },
+      ]);
+
+      expect(applyPropertyOverrides(createUnifiedGame('Portal™')).genres).toEqual(
+        ['Puzzle'],
+      );
+      expect(
+        applyPropertyOverrides(createUnifiedGame('Portal 2')).genres,
+      ).toBeUndefined();
+    });
+
+    it('matches by name, canonicalId, steamAppId and regex', async () => {
+      await loadPropertyOverrides([
+        { match: { name: 'The Witcher 3' }, properties: { interest: 'none' } },
+        { match: { canonicalId: 'steam:400' }, properties: { name: 'Portal' } },
+        { match: { steamAppId: 620 }, properties: { coverImageUrl: 'p2.jpg' } },
+        { match: { regex: '^hades' }, properties: { genres: ['Roguelike'] } },
+      ]);
+
+      expect(
+        applyPropertyOverrides(createUnifiedGame('Witcher 3')).interest,
+      ).toBe('none');
+      expect(
+        applyPropertyOverrides(
+          createUnifiedGame('Portal (2007)', { canonicalId: 'steam:400' }),
+        ).name,
+      ).toBe('Portal');
+      expect(
+        applyPropertyOverrides(createUnifiedGame('Portal 2', { steamAppId: 620 }))
+          .coverImageUrl,
+      ).toBe('p2.jpg');
+      expect(applyPropertyOverrides(createUnifiedGame('HADES II')).genres).toEqual(
+        ['Roguelike'],
+      );
+    });
+
+    it('applies every matching rule with later rules winning', async () => {
+      await loadPropertyOverrides([
+        {
+          match: { regex: 'hades' },
+          properties: { genres: ['Action'], interest: 'none' },
+        },
+        { match: 'Hades', properties: { genres: ['Roguelike'] } },
+      ]);
+
+      const game = applyPropertyOverrides(createUnifiedGame('Hades'));
+
+      expect(game.genres).toEqual(['Roguelike']);
+      expect(game.interest).toBe('none');
+    });
+
+    it('converts release dates to Date objects', async () => {
+      await loadPropertyOverrides([
+        { match: 'Celeste', properties: { releaseDate: '2018-01-25' } },
+      ]);
+
+      expect(
+        applyPropertyOverrides(createUnifiedGame('Celeste')).releaseDate,
+      ).toEqual(new Date('2018-01-25'));
+    });
+
+    it('returns the game unchanged when nothing matches', async () => {
+      await loadPropertyOverrides([
+        { match: 'Celeste', properties: { interest: 'none' } },
+      ]);
+      const game = createUnifiedGame('Hollow Knight');
+
+      expect(applyPropertyOverrides(game)).toBe(game);
+    });
+
+    it('rejects unknown properties and invalid regexes', () => {
+      const content = JSON.stringify({
+        propertyOverrides: [
+          { match: 'Celeste', properties: { playtime: 10 } },
+          { match: { regex: '(' }, properties: { interest: 'none' } },
+        ],
+      });
+
+      expect(() => parseOverrides(content)).toThrow(
+        /propertyOverrides\[0\]\.properties[\s\S]*propertyOverrides\[1\]\.match/,
+      );
+    });
+  });
+
+  describe('overrides.schema.json', () => {
+    it('matches the schema generated from the Zod schema', () => {
+      // Regenerate with: pnpm overrides:schema
+      expect(schemaFile).toEqual(buildOverridesJsonSchema());
+    });
+  });
+});
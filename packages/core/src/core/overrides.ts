@@ -1,25 +1,74 @@
 import fs from 'fs/promises';
-import { GameOverrides } from '../types/overrides';
-import { normalizeGameName } from './normalize';
+import { z } from 'zod/v4';
+import {
+  GameOverrides,
+  GameOverridesSchema,
+  PropertyOverrideMatch,
+  OverridableProperties,
+} from '../types/overrides';
+import { UnifiedGame } from '../types/game';
+import { createNameIndex, GameRef, NameIndex } from './name-index';
 
 let overrides: GameOverrides | null = null;
+// Built lazily: name-index and this module import each other via normalize
+let nameIndex: NameIndex | null = null;
+let propertyMatchers: Array<{
+  matches: (game: UnifiedGame) => boolean;
+  properties: OverridableProperties;
+}> | null = null;
 
 /**
  * Load overrides from JSON file
+ * A missing file falls back to empty overrides; invalid JSON or rules that
+ * don't match the schema throw, listing each problem with its path.
  */
 export const loadOverrides = async (
   filePath: string = './data/overrides.json'
 ): Promise<GameOverrides> => {
+  let content: string;
   try {
-    const content = await fs.readFile(filePath, 'utf-8');
-    overrides = JSON.parse(content);
-    console.log('✅ Loaded manual overrides');
-    return overrides!;
+    content = await fs.readFile(filePath, 'utf-8');
   } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
     console.log('⚠️  No overrides file found, using defaults');
-    overrides = { forceMerge: [], propertyOverrides: [] };
+    overrides = { forceMerge: [], forceSeparate: [], propertyOverrides: [] };
+    nameIndex = null;
+    propertyMatchers = null;
     return overrides;
   }
+
+  overrides = parseOverrides(content, filePath);
+  nameIndex = null;
+  propertyMatchers = null;
+  console.log('✅ Loaded manual overrides');
+  return overrides;
+};
+
+/**
+ * Parse and validate the contents of an overrides file
+ */
+export const parseOverrides = (
+  content: string,
+  filePath: string = 'overrides.json'
+): GameOverrides => {
+  let json: unknown;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    throw new Error(
+      `Invalid overrides file ${filePath}: ${(error as Error).message}`
+    );
+  }
+
+  const result = GameOverridesSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error(
+      `Invalid overrides file ${filePath}:\n${z.prettifyError(result.error)}`
+    );
+  }
+
+  const { $schema, ...rules } = result.data;
+  return rules;
 };
 
 /**
@@ -32,47 +81,69 @@ export const shouldForceMerge = (
 ): string | null => {
   if (!overrides?.forceMerge) return null;
 
-  const norm1 = normalizeGameName(name1);
-  const norm2 = normalizeGameName(name2);
+  // Exact normalized matching only (no substring matching to avoid false
+  // positives like "Hollow Knight: Silksong" matching "Hollow Knight")
+  return getNameIndex().findForceMerge(name1, name2);
+};
 
-  for (const rule of overrides.forceMerge) {
-    const normalizedGames = rule.games.map(g => normalizeGameName(g));
+/**
+ * Check if a forceSeparate rule keeps two games apart
+ * Bare names only match name entries; raw games also match by
+ * "source:externalId" and Steam AppID
+ */
+export const shouldForceSeparate = (game1: GameRef, game2: GameRef): boolean => {
+  if (!overrides?.forceSeparate) return false;
 
-    // Use exact matching only (no substring matching to avoid false positives like
-    // "Hollow Knight: Silksong" incorrectly matching "Hollow Knight")
-    const has1 = normalizedGames.some(g => g === norm1);
-    const has2 = normalizedGames.some(g => g === norm2);
+  return getNameIndex().isSeparated(game1, game2);
+};
 
-    if (has1 && has2) {
-      const canonical = rule.canonicalName || rule.games[0];
-      return canonical;
-    }
+/**
+ * Build a predicate for a property override's match rule
+ */
+const createMatcher = (
+  match: PropertyOverrideMatch
+): ((game: UnifiedGame) => boolean) => {
+  const index = getNameIndex();
+
+  if (typeof match === 'string' || 'name' in match) {
+    const name = index.normalize(typeof match === 'string' ? match : match.name);
+    return game => index.normalize(game.name) === name;
   }
-
-  return null;
+  if ('canonicalId' in match) {
+    return game => game.canonicalId === match.canonicalId;
+  }
+  if ('steamAppId' in match) {
+    return game => game.steamAppId === match.steamAppId;
+  }
+  const regex = new RegExp(match.regex, 'i');
+  return game => regex.test(game.name);
 };
 
 /**
- * Apply property overrides to a game
+ * Apply property overrides to a merged game
+ * Every matching rule is applied in file order, so later rules win.
  */
-export const applyPropertyOverrides = (game: any): any => {
-  if (!overrides?.propertyOverrides) return game;
-
-  const normalizedName = normalizeGameName(game.name);
-
-  for (const override of overrides.propertyOverrides) {
-    const matchNormalized = normalizeGameName(override.match);
-
-    if (
-      normalizedName === matchNormalized ||
-      normalizedName.includes(matchNormalized) ||
-      matchNormalized.includes(normalizedName)
-    ) {
-      return { ...game, ...override.properties };
-    }
+export const applyPropertyOverrides = (game: UnifiedGame): UnifiedGame => {
+  if (!overrides?.propertyOverrides?.length) return game;
+
+  propertyMatchers ??= overrides.propertyOverrides.map(override => ({
+    matches: createMatcher(override.match),
+    properties: override.properties,
+  }));
+
+  let result = game;
+  for (const { matches, properties } of propertyMatchers) {
+    if (!matches(game)) continue;
+
+    const { releaseDate, ...rest } = properties;
+    result = {
+      ...result,
+      ...rest,
+      ...(releaseDate && { releaseDate: new Date(releaseDate) }),
+    };
   }
 
-  return game;
+  return result;
 };
 
 /**
@@ -82,20 +153,16 @@ export const applyPropertyOverrides = (game: any): any => {
 export const getCanonicalNameFromVariant = (title: string): string | null => {
   if (!overrides?.forceMerge) return null;
 
-  const normalized = normalizeGameName(title);
-
-  for (const rule of overrides.forceMerge) {
-    const normalizedGames = rule.games.map(g => normalizeGameName(g));
-
-    // Check for exact match only (no substring matching)
-    const matches = normalizedGames.some(g => g === normalized);
-
-    if (matches) {
-      return rule.canonicalName || rule.games[0];
-    }
-  }
-
-  return null;
+  return getNameIndex().findCanonicalName(title);
 };
 
+/**
+ * Normalized-name index for the loaded overrides, shared with deduplication
+ */
+export const getNameIndex = (): NameIndex =>
+  (nameIndex ??= createNameIndex(
+    overrides?.forceMerge,
+    overrides?.forceSeparate
+  ));
+
 export const getOverrides = (): GameOverrides | null => overrides;
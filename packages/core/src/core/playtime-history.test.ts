@@ -0,0 +1,213 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  buildHistoryEntries,
+  getDailyPlaytime,
+  getMonthlyPlaytime,
+  getWeeklyPlaytime,
+  loadPlaytimeHistory,
+  recordPlaytimeHistory,
+  PlaytimeHistoryEntry,
+} from './playtime-history';
+import type { UnifiedGame } from '../types/game';
+
+// ── Hoisted mocks ──────────────────────────────────────────────────────────────
+
+const { mockReadFile, mockAppendFile } = vi.hoisted(() => ({
+  mockReadFile: vi.fn(),
+  mockAppendFile: vi.fn(),
+}));
+
+vi.mock('fs/promises', () => ({
+  default: { readFile: mockReadFile, appendFile: mockAppendFile },
+}));
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+const makeGame = (
+  canonicalId: string,
+  overrides: Partial<UnifiedGame> = {},
+): UnifiedGame => ({
+  canonicalId,
+  name: canonicalId,
+  primarySource: 'steam',
+  ownedSources: ['steam'],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const entry = (
+  recordedAt: string,
+  canonicalId: string,
+  source: PlaytimeHistoryEntry['source'],
+  deltaHours: number,
+  totalHours = deltaHours,
+): PlaytimeHistoryEntry => ({
+  recordedAt,
+  canonicalId,
+  name: canonicalId,
+  source,
+  totalHours,
+  deltaHours,
+});
+
+const enoent = () =>
+  Promise.reject(Object.assign(new Error('Not found'), { code: 'ENOENT' }));
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('playtime-history', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockAppendFile.mockResolvedValue(undefined);
+  });
+
+  describe('buildHistoryEntries', () => {
+    const syncTime = new Date('2024-06-10T12:00:00Z');
+
+    it('records a zero-delta baseline the first time a game is seen', () => {
+      const games = [makeGame('hades', { playtimeBySource: { steam: 12 } })];
+
+      const entries = buildHistoryEntries(games, [], syncTime);
+
+      expect(entries).toEqual([
+        {
+          recordedAt: syncTime.toISOString(),
+          canonicalId: 'hades',
+          name: 'hades',
+          source: 'steam',
+          totalHours: 12,
+          deltaHours: 0,
+          lastPlayedAt: undefined,
+        },
+      ]);
+    });
+
+    it('records the increase since the latest entry per source', () => {
+      const history = [
+        entry('2024-06-01T00:00:00Z', 'hades', 'steam', 0, 10),
+        entry('2024-06-05T00:00:00Z', 'hades', 'steam', 2, 12),
+        entry('2024-06-05T00:00:00Z', 'hades', 'epic', 0, 1),
+      ];
+      const games = [
+        makeGame('hades', { playtimeBySource: { steam: 14.5, epic: 1 } }),
+      ];
+
+      const entries = buildHistoryEntries(games, history, syncTime);
+
+      expect(entries).toHaveLength(1);
+      expect(entries[0]).toMatchObject({ source: 'steam', deltaHours: 2.5 });
+    });
+
+    it('records a new last played date even without new playtime', () => {
+      const lastPlayed = new Date('2024-06-09T20:00:00Z');
+      const history = [entry('2024-06-01T00:00:00Z', 'hades', 'epic', 0, 1)];
+      const games = [
+        makeGame('hades', {
+          playtimeBySource: { epic: 1 },
+          lastPlayedBySource: { epic: lastPlayed },
+        }),
+      ];
+
+      const entries = buildHistoryEntries(games, history, syncTime);
+
+      expect(entries[0]).toMatchObject({
+        deltaHours: 0,
+        lastPlayedAt: lastPlayed.toISOString(),
+      });
+    });
+
+    it('never records a negative delta when a counter goes down', () => {
+      const history = [entry('2024-06-01T00:00:00Z', 'hades', 'steam', 0, 10)];
+      const games = [makeGame('hades', { playtimeBySource: { steam: 4 } })];
+
+      const entries = buildHistoryEntries(games, history, syncTime);
+
+      expect(entries[0]).toMatchObject({ totalHours: 4, deltaHours: 0 });
+    });
+  });
+
+  describe('recordPlaytimeHistory', () => {
+    it('appends new entries as JSON lines', async () => {
+      mockReadFile.mockImplementation(enoent);
+
+      await recordPlaytimeHistory(
+        [makeGame('hades', { playtimeBySource: { steam: 1 } })],
+        '/data/history.jsonl',
+      );
+
+      const [filePath, content] = mockAppendFile.mock.calls[0];
+      expect(filePath).toBe('/data/history.jsonl');
+      expect(content.trim().split('\n')).toHaveLength(1);
+      expect(JSON.parse(content)).toMatchObject({ canonicalId: 'hades' });
+    });
+
+    it('does not touch the file when nothing changed', async () => {
+      mockReadFile.mockResolvedValue(
+        JSON.stringify(entry('2024-06-01T00:00:00Z', 'hades', 'steam', 0, 1)) +
+          '\n',
+      );
+
+      const entries = await recordPlaytimeHistory([
+        makeGame('hades', { playtimeBySource: { steam: 1 } }),
+      ]);
+
+      expect(entries).toEqual([]);
+      expect(mockAppendFile).not.toHaveBeenCalled();
+    });
+
+    it('treats a missing history file as empty', async () => {
+      mockReadFile.mockImplementation(enoent);
+
+      expect(await loadPlaytimeHistory()).toEqual([]);
+    });
+  });
+
+  describe('period queries', () => {
+    const history = [
+      entry('2024-06-03T10:00:00Z', 'hades', 'steam', 2), // Monday
+      entry('2024-06-03T22:00:00Z', 'hades', 'epic', 1),
+      entry('2024-06-09T10:00:00Z', 'celeste', 'steam', 3), // Sunday
+      entry('2024-06-10T10:00:00Z', 'hades', 'steam', 4), // next Monday
+      entry('2024-07-01T10:00:00Z', 'hades', 'steam', 5),
+    ];
+
+    it('sums playtime per day with a per-source breakdown', () => {
+      expect(getDailyPlaytime(history)[0]).toEqual({
+        period: '2024-06-03',
+        hours: 3,
+        bySource: { steam: 2, epic: 1 },
+      });
+    });
+
+    it('groups weeks starting on Monday', () => {
+      expect(
+        getWeeklyPlaytime(history).map(b => [b.period, b.hours]),
+      ).toEqual([
+        ['2024-06-03', 6],
+        ['2024-06-10', 4],
+        ['2024-07-01', 5],
+      ]);
+    });
+
+    it('filters monthly playtime by game and source', () => {
+      expect(
+        getMonthlyPlaytime(history, { canonicalId: 'hades', source: 'steam' }),
+      ).toEqual([
+        { period: '2024-06', hours: 6, bySource: { steam: 6 } },
+        { period: '2024-07', hours: 5, bySource: { steam: 5 } },
+      ]);
+    });
+
+    it('limits results to a date range', () => {
+      const buckets = getMonthlyPlaytime(history, {
+        from: new Date('2024-06-05T00:00:00Z'),
+        to: new Date('2024-06-30T00:00:00Z'),
+      });
+
+      expect(buckets).toEqual([
+        { period: '2024-06', hours: 7, bySource: { steam: 7 } },
+      ]);
+    });
+  });
+});
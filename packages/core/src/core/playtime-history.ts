@@ -0,0 +1,200 @@
+import fs from 'fs/promises';
+import { Source, UnifiedGame } from '../types/game';
+
+/**
+ * One line of data/playtime-history.jsonl.
+ * Written whenever a source reports new playtime or a new last played date.
+ */
+export type PlaytimeHistoryEntry = {
+  recordedAt: string; // Sync time (ISO)
+  canonicalId: string;
+  name: string;
+  source: Source;
+  totalHours: number; // Playtime counter reported by the source
+  deltaHours: number; // Increase since the previous entry for this game + source
+  lastPlayedAt?: string;
+};
+
+export type HistoryPeriod = 'day' | 'week' | 'month';
+
+/**
+ * Playtime played within one day, week (starting Monday) or month
+ */
+export type PlaytimeBucket = {
+  period: string; // YYYY-MM-DD (day/week start) or YYYY-MM (month)
+  hours: number;
+  bySource: Partial<Record<Source, number>>;
+};
+
+export type PlaytimeQuery = {
+  canonicalId?: string;
+  source?: Source;
+  from?: Date;
+  to?: Date;
+};
+
+const DEFAULT_HISTORY_PATH = './data/playtime-history.jsonl';
+
+const entryKey = (canonicalId: string, source: string) =>
+  `${canonicalId}|${source}`;
+
+const roundHours = (hours: number) => Math.round(hours * 1000) / 1000;
+
+/**
+ * Read all history entries. A missing file means no history yet.
+ */
+export const loadPlaytimeHistory = async (
+  filePath: string = DEFAULT_HISTORY_PATH,
+): Promise<PlaytimeHistoryEntry[]> => {
+  let content: string;
+  try {
+    content = await fs.readFile(filePath, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw error;
+  }
+
+  return content
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line) as PlaytimeHistoryEntry);
+};
+
+/**
+ * Build history entries for this sync by comparing each game's per-source
+ * playtime with the latest recorded values. The first time a game/source is
+ * seen its current playtime becomes the baseline (delta 0), since we can't
+ * tell when that time was played.
+ */
+export const buildHistoryEntries = (
+  games: UnifiedGame[],
+  history: PlaytimeHistoryEntry[],
+  recordedAt: Date = new Date(),
+): PlaytimeHistoryEntry[] => {
+  const latest = new Map<string, PlaytimeHistoryEntry>();
+  for (const entry of history) {
+    latest.set(entryKey(entry.canonicalId, entry.source), entry);
+  }
+
+  const entries: PlaytimeHistoryEntry[] = [];
+
+  for (const game of games) {
+    const sources = new Set<Source>([
+      ...(Object.keys(game.playtimeBySource ?? {}) as Source[]),
+      ...(Object.keys(game.lastPlayedBySource ?? {}) as Source[]),
+    ]);
+
+    for (const source of sources) {
+      const totalHours = roundHours(game.playtimeBySource?.[source] ?? 0);
+      const lastPlayedAt = game.lastPlayedBySource?.[source]?.toISOString();
+      const previous = latest.get(entryKey(game.canonicalId, source));
+
+      if (
+        previous &&
+        previous.totalHours === totalHours &&
+        previous.lastPlayedAt === lastPlayedAt
+      ) {
+        continue;
+      }
+
+      entries.push({
+        recordedAt: recordedAt.toISOString(),
+        canonicalId: game.canonicalId,
+        name: game.name,
+        source,
+        totalHours,
+        // Counters can go down (e.g. a reinstalled store); don't count that
+        deltaHours: previous
+          ? roundHours(Math.max(0, totalHours - previous.totalHours))
+          : 0,
+        lastPlayedAt,
+      });
+    }
+  }
+
+  return entries;
+};
+
+/**
+ * Append this sync's playtime changes to data/playtime-history.jsonl
+ */
+export const recordPlaytimeHistory = async (
+  games: UnifiedGame[],
+  filePath: string = DEFAULT_HISTORY_PATH,
+  recordedAt: Date = new Date(),
+): Promise<PlaytimeHistoryEntry[]> => {
+  const history = await loadPlaytimeHistory(filePath);
+  const entries = buildHistoryEntries(games, history, recordedAt);
+
+  if (entries.length > 0) {
+    await fs.appendFile(
+      filePath,
+      entries.map(entry => JSON.stringify(entry)).join('\n') + '\n',
+      'utf-8',
+    );
+  }
+
+  return entries;
+};
+
+/**
+ * Key of the day, week (Monday) or month a date falls in, in UTC
+ */
+const getPeriodKey = (date: Date, period: HistoryPeriod): string => {
+  if (period === 'month') return date.toISOString().slice(0, 7);
+
+  const day = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()),
+  );
+  if (period === 'week') {
+    day.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+  }
+  return day.toISOString().slice(0, 10);
+};
+
+/**
+ * Sum playtime deltas into day/week/month buckets, oldest first.
+ * Filter by canonicalId for a single game and by source for a single store.
+ */
+export const getPlaytimeByPeriod = (
+  history: PlaytimeHistoryEntry[],
+  period: HistoryPeriod,
+  query: PlaytimeQuery = {},
+): PlaytimeBucket[] => {
+  const buckets = new Map<string, PlaytimeBucket>();
+
+  for (const entry of history) {
+    if (entry.deltaHours <= 0) continue;
+    if (query.canonicalId && entry.canonicalId !== query.canonicalId) continue;
+    if (query.source && entry.source !== query.source) continue;
+
+    const recordedAt = new Date(entry.recordedAt);
+    if (query.from && recordedAt < query.from) continue;
+    if (query.to && recordedAt > query.to) continue;
+
+    const key = getPeriodKey(recordedAt, period);
+    const bucket = buckets.get(key) ?? { period: key, hours: 0, bySource: {} };
+    bucket.hours = roundHours(bucket.hours + entry.deltaHours);
+    bucket.bySource[entry.source] = roundHours(
+      (bucket.bySource[entry.source] ?? 0) + entry.deltaHours,
+    );
+    buckets.set(key, bucket);
+  }
+
+  return [...buckets.values()].sort((a, b) => a.period.localeCompare(b.period));
+};
+
+export const getDailyPlaytime = (
+  history: PlaytimeHistoryEntry[],
+  query?: PlaytimeQuery,
+) => getPlaytimeByPeriod(history, 'day', query);
+
+export const getWeeklyPlaytime = (
+  history: PlaytimeHistoryEntry[],
+  query?: PlaytimeQuery,
+) => getPlaytimeByPeriod(history, 'week', query);
+
+export const getMonthlyPlaytime = (
+  history: PlaytimeHistoryEntry[],
+  query?: PlaytimeQuery,
+) => getPlaytimeByPeriod(history, 'month', query);
@@ -1,5 +1,12 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { generateMergeSuggestions, saveMergeSuggestions } from './suggestions';
+import {
+  findCandidatePairs,
+  findSharedKeyPairs,
+  minTrigramOverlap,
+} from './candidate-index';
+import { calculateNameSimilarity } from './normalize';
+import { loadOverrides } from './overrides';
 import { RawGameData, Source } from '../types/game';
 import fs from 'fs/promises';
 
@@ -170,6 +177,193 @@ describe('suggestions', () => {
 
       expect(suggestions).toHaveLength(0);
     });
+
+    it('uses a configurable threshold', () => {
+      const games: RawGameData[] = [
+        createGame('Borderlands 2', 'steam'),
+        createGame('Borderlands II', 'gog'),
+      ];
+
+      expect(generateMergeSuggestions(games, { threshold: 0.9 })).toHaveLength(0);
+      expect(generateMergeSuggestions(games, { threshold: 0.8 })).toHaveLength(1);
+    });
+
+    it('skips pairs kept apart by forceSeparate rules', async () => {
+      vi.spyOn(console, 'log').mockImplementation(() => {});
+      vi.mocked(fs.readFile).mockResolvedValue(
+        JSON.stringify({
+          forceSeparate: [
+            { games: ['steam:resident-evil-village', 'epic:re-gold'] },
+          ],
+        })
+      );
+      await loadOverrides();
+
+      const suggestions = generateMergeSuggestions([
+        createGame('Resident Evil Village', 'steam', {
+          externalId: 'resident-evil-village',
+        }),
+        createGame('Resident Evil Village Gold Edition', 'epic', {
+          externalId: 're-gold',
+        }),
+      ]);
+
+      expect(suggestions).toHaveLength(0);
+
+      vi.mocked(fs.readFile).mockResolvedValue('{}');
+      await loadOverrides();
+    });
+
+    it('supports the jaro-winkler scorer', () => {
+      const games: RawGameData[] = [
+        createGame('Borderlands 2', 'steam'),
+        createGame('Borderlands II', 'gog'),
+      ];
+
+      const suggestions = generateMergeSuggestions(games, {
+        threshold: 0.9,
+        scorer: 'jaro-winkler',
+      });
+
+      expect(suggestions).toHaveLength(1);
+      expect(suggestions[0].similarity).toBeGreaterThanOrEqual(0.9);
+    });
+
+    it('only scores names sharing a word or prefix with a custom scorer', () => {
+      const scorer = vi.fn(() => 0.9);
+      const games: RawGameData[] = [
+        createGame('Hollow Knight', 'steam'),
+        createGame('Hollow Knight: Silksong', 'epic'),
+        createGame('Stardew Valley', 'gog'),
+        createGame('Celeste', 'xbox'),
+      ];
+
+      const suggestions = generateMergeSuggestions(games, { scorer });
+
+      expect(scorer).toHaveBeenCalledTimes(1);
+      expect(suggestions[0].games).toEqual([
+        'Hollow Knight',
+        'Hollow Knight: Silksong',
+      ]);
+    });
+
+    it('scores far fewer than every pair of a large library with other scorers', () => {
+      const scorer = vi.fn(() => 0);
+      const words = ['Shadow', 'Dragon', 'Legend', 'Star', 'Knight', 'Quest'];
+      const games = Array.from({ length: 2000 }, (_, i) =>
+        createGame(
+          `${words[i % 6]} ${words[(i >> 3) % 6]} Saga ${i}`,
+          i % 2 ? 'steam' : 'epic'
+        )
+      );
+
+      generateMergeSuggestions(games, { scorer });
+
+      // Scoring every pair would take about 2 million calls
+      expect(scorer.mock.calls.length).toBeLessThan(games.length * 10);
+    });
+
+    it('finds transposed short names with the jaro-winkler scorer', () => {
+      const pairs = [
+        ['Hitman', 'Hitamn'],
+        ['Tetris', 'Tetirs'],
+        ['Hades', 'Haeds'],
+        ['Limbo', 'Lmibo'],
+      ];
+      const games = pairs.flatMap(([a, b]) => [
+        createGame(a, 'steam'),
+        createGame(b, 'epic'),
+      ]);
+
+      const suggestions = generateMergeSuggestions(games, {
+        scorer: 'jaro-winkler',
+      });
+
+      expect(suggestions.map(s => s.games).sort()).toEqual(pairs.sort());
+    });
+
+    it('finds the same pairs as scoring every pair', () => {
+      const names = [
+        'Metro: Last Light',
+        'Metro Last Light Redux',
+        'Borderlands 2',
+        'Borderlands II',
+        'Resident Evil Village',
+        'Resident Evil Village Gold Edition',
+        'Dark Souls',
+        'Dark Souls III',
+        'Portal',
+        'Half-Life',
+      ];
+      const sources: Source[] = ['steam', 'epic', 'gog'];
+      const games = names.map((name, i) => createGame(name, sources[i % 3]));
+
+      const expected = games.flatMap((game1, i) =>
+        games
+          .slice(i + 1)
+          .filter(game2 => {
+            const similarity = calculateNameSimilarity(game1.name, game2.name);
+            return (
+              game1.source !== game2.source &&
+              similarity >= 0.85 &&
+              similarity < 1
+            );
+          })
+          .map(game2 => `${game1.name}|${game2.name}`)
+      );
+
+      const actual = generateMergeSuggestions(games).map(s => s.games.join('|'));
+
+      expect(actual.sort()).toEqual(expected.sort());
+    });
+  });
+
+  describe('findCandidatePairs', () => {
+    it('pairs names that share enough trigrams', () => {
+      const pairs = findCandidatePairs(
+        ['hollow knight', 'hollow knight silksong', 'celeste'],
+        0.5
+      );
+
+      expect(pairs).toEqual([[0, 1]]);
+    });
+
+    it('pairs every name sharing a trigram at overlap 0', () => {
+      const pairs = findCandidatePairs(['abc', 'abd', 'xyz'], 0);
+
+      expect(pairs).toEqual([[0, 1]]);
+    });
+
+    it('lowers the required overlap as the threshold drops', () => {
+      expect(minTrigramOverlap(0.85)).toBeGreaterThan(minTrigramOverlap(0.8));
+      expect(minTrigramOverlap(0.5)).toBe(0);
+    });
+  });
+
+  describe('findSharedKeyPairs', () => {
+    it('pairs names sharing a word, word letters or prefix', () => {
+      const pairs = findSharedKeyPairs([
+        'hollow knight',
+        'hollow knight silksong',
+        'limbo',
+        'lmibo',
+        'celeste',
+        'celestial',
+        'portal',
+      ]);
+
+      expect(pairs).toEqual([
+        [0, 1],
+        [2, 3],
+        [4, 5],
+      ]);
+    });
+
+    it('skips keys shared by more names than the block size', () => {
+      const pairs = findSharedKeyPairs(['dark souls', 'dart', 'darn'], 2);
+
+      expect(pairs).toEqual([]);
+    });
   });
 
   describe('saveMergeSuggestions', () => {
@@ -1,6 +1,15 @@
 import fs from 'fs/promises';
 import { RawGameData } from '../types/game';
-import { calculateNameSimilarity, normalizeGameName } from './normalize';
+import {
+  calculateJaroWinklerSimilarity,
+  calculateNameSimilarity,
+} from './normalize';
+import { getNameIndex } from './overrides';
+import {
+  findCandidatePairs,
+  findSharedKeyPairs,
+  minTrigramOverlap,
+} from './candidate-index';
 
 export type MergeSuggestion = {
   games: string[];
@@ -9,56 +18,100 @@ export type MergeSuggestion = {
   reason: string;
 };
 
+/**
+ * Scores two game names from 0 to 1, where 1 is identical
+ */
+export type NameSimilarityScorer = (name1: string, name2: string) => number;
+
+export const NAME_SIMILARITY_SCORERS = {
+  levenshtein: calculateNameSimilarity,
+  'jaro-winkler': calculateJaroWinklerSimilarity,
+} satisfies Record<string, NameSimilarityScorer>;
+
+export type NameSimilarityScorerId = keyof typeof NAME_SIMILARITY_SCORERS;
+
+export const DEFAULT_SUGGESTION_THRESHOLD = 0.85;
+
+export type MergeSuggestionOptions = {
+  threshold?: number; // Minimum similarity to suggest a merge (default 0.85)
+  scorer?: NameSimilarityScorerId | NameSimilarityScorer;
+};
+
+const getReason = (similarity: number): string => {
+  if (similarity >= 0.95) {
+    return 'Substring match - likely same game with different edition name';
+  }
+  if (similarity >= 0.9) {
+    return 'Very high similarity - likely same game with minor name variation';
+  }
+  return 'High similarity - possibly same game or related (e.g., sequel)';
+};
+
 /**
  * Generate merge suggestions for similar games
+ * Names are blocked first, so only plausible pairs are scored: by shared
+ * trigrams with the Levenshtein scorer, whose edit distance bounds the
+ * overlap, and by shared words, word letters or prefix with other scorers
+ * (Jaro-Winkler, custom).
  */
 export const generateMergeSuggestions = (
-  rawGames: RawGameData[]
+  rawGames: RawGameData[],
+  {
+    threshold = DEFAULT_SUGGESTION_THRESHOLD,
+    scorer = 'levenshtein',
+  }: MergeSuggestionOptions = {},
 ): MergeSuggestion[] => {
-  const suggestions: MergeSuggestion[] = [];
-  const processed = new Set<string>();
+  const score =
+    typeof scorer === 'function' ? scorer : NAME_SIMILARITY_SCORERS[scorer];
+  const nameIndex = getNameIndex();
 
-  for (let i = 0; i < rawGames.length; i++) {
-    const game1 = rawGames[i];
-    const key1 = `${game1.name}|${game1.source}`;
-
-    if (processed.has(key1)) continue;
-
-    for (let j = i + 1; j < rawGames.length; j++) {
-      const game2 = rawGames[j];
-      const key2 = `${game2.name}|${game2.source}`;
-
-      if (processed.has(key2)) continue;
-
-      // Skip if same source (likely already handled by Steam AppID)
-      if (game1.source === game2.source) continue;
-
-      const similarity = calculateNameSimilarity(game1.name, game2.name);
-
-      // Suggest merges for high similarity (but not exact matches, those are auto-merged)
-      if (similarity >= 0.85 && similarity < 1.0) {
-        let reason = '';
-
-        if (similarity >= 0.95) {
-          reason =
-            'Substring match - likely same game with different edition name';
-        } else if (similarity >= 0.9) {
-          reason =
-            'Very high similarity - likely same game with minor name variation';
-        } else {
-          reason =
-            'High similarity - possibly same game or related (e.g., sequel)';
-        }
-
-        suggestions.push({
-          games: [game1.name, game2.name],
-          sources: [game1.source, game2.source],
-          similarity: Math.round(similarity * 100) / 100,
-          reason,
-        });
+  // Group games by normalized name; identical names are auto-merged already
+  const gamesByKey = new Map<string, number[]>();
+  rawGames.forEach((game, index) => {
+    const key = nameIndex.normalize(game.name);
+    const indexes = gamesByKey.get(key);
+    if (indexes) indexes.push(index);
+    else gamesByKey.set(key, [index]);
+  });
+
+  const keys = [...gamesByKey.keys()];
+  const keyPairs =
+    score === calculateNameSimilarity
+      ? findCandidatePairs(keys, minTrigramOverlap(threshold))
+      : findSharedKeyPairs(keys);
+  const candidates: Array<[number, number]> = [];
+  for (const [a, b] of keyPairs) {
+    for (const i of gamesByKey.get(keys[a])!) {
+      for (const j of gamesByKey.get(keys[b])!) {
+        candidates.push(i < j ? [i, j] : [j, i]);
       }
     }
   }
+  candidates.sort((x, y) => x[0] - y[0] || x[1] - y[1]);
+
+  const suggestions: MergeSuggestion[] = [];
+  for (const [i, j] of candidates) {
+    const game1 = rawGames[i];
+    const game2 = rawGames[j];
+
+    // Skip if same source (likely already handled by Steam AppID)
+    if (game1.source === game2.source) continue;
+
+    // Skip pairs a forceSeparate rule already keeps apart
+    if (nameIndex.isSeparated(game1, game2)) continue;
+
+    const similarity = score(game1.name, game2.name);
+
+    // Suggest merges for high similarity (but not exact matches, those are auto-merged)
+    if (similarity >= threshold && similarity < 1.0) {
+      suggestions.push({
+        games: [game1.name, game2.name],
+        sources: [game1.source, game2.source],
+        similarity: Math.round(similarity * 100) / 100,
+        reason: getReason(similarity),
+      });
+    }
+  }
 
   // Sort by similarity (highest first)
   return suggestions.sort((a, b) => b.similarity - a.similarity);
@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PLAN_PATH, parseSyncArgs } from './sync-command';
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('sync-command', () => {
+  it('runs a regular sync without a command', () => {
+    expect(parseSyncArgs([])).toEqual({ command: 'sync' });
+    expect(parseSyncArgs(['--dry-run', '--fix-schema'])).toEqual({
+      command: 'sync',
+    });
+    expect(parseSyncArgs(['sync', '--dry-run'])).toEqual({ command: 'sync' });
+  });
+
+  it('accepts plan and apply with or without a leading sync', () => {
+    expect(parseSyncArgs(['plan'])).toEqual({
+      command: 'plan',
+      planPath: DEFAULT_PLAN_PATH,
+    });
+    expect(parseSyncArgs(['sync', 'plan'])).toEqual({
+      command: 'plan',
+      planPath: DEFAULT_PLAN_PATH,
+    });
+    expect(parseSyncArgs(['sync', 'apply', 'data/friday.json'])).toEqual({
+      command: 'apply',
+      planPath: 'data/friday.json',
+    });
+  });
+
+  it('rejects unknown commands instead of syncing', () => {
+    expect(() => parseSyncArgs(['aply'])).toThrow('Unknown command "aply"');
+    expect(() => parseSyncArgs(['sync', 'sync'])).toThrow('Unknown command');
+  });
+
+  it('rejects extra arguments', () => {
+    expect(() => parseSyncArgs(['apply', 'a.json', 'b.json'])).toThrow(
+      'Unexpected arguments: b.json',
+    );
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * What the sync CLI was asked to do
+ * - sync: a regular sync (--dry-run and --fix-schema are read by loadConfig)
+ * - plan: a dry run that saves its Notion writes to planPath
+ * - apply: carry out the plan saved at planPath
+ */
+export type SyncCommand =
+  | { command: 'sync' }
+  | { command: 'plan' | 'apply'; planPath: string };
+
+export const DEFAULT_PLAN_PATH = './data/sync-plan.json';
+
+export const SYNC_USAGE = `Usage:
+  sync [--dry-run] [--fix-schema]   Sync the library to Notion
+  sync plan [file]                  Save the Notion changes to a plan file
+  sync apply [file]                 Carry out a plan file
+Plan files default to ${DEFAULT_PLAN_PATH}.`;
+
+/**
+ * Parse the sync CLI arguments (without the node and script paths). A leading
+ * 'sync' is optional, so `sync plan` and `plan` are the same. Throws on an
+ * unknown command or extra arguments, so a typo never runs a live sync.
+ */
+export const parseSyncArgs = (args: string[]): SyncCommand => {
+  const words = args.filter(arg => !arg.startsWith('--'));
+  if (words[0] === 'sync') words.shift();
+  const [command, planPath, ...rest] = words;
+
+  if (command === undefined) return { command: 'sync' };
+  if (command !== 'plan' && command !== 'apply') {
+    throw new Error(`Unknown command "${command}"`);
+  }
+  if (rest.length > 0) {
+    throw new Error(`Unexpected arguments: ${rest.join(' ')}`);
+  }
+  return { command, planPath: planPath ?? DEFAULT_PLAN_PATH };
+};
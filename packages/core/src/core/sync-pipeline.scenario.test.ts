@@ -0,0 +1,580 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { APIErrorCode } from '@notionhq/client';
+import { createSyncPipeline } from './sync-pipeline';
+import { createSourceRegistry, LibrarySource } from '../sources/library-source';
+import {
+  getExpectedProperties,
+  resolvePropertyNames,
+} from '../notion/notion.schema';
+import { createNotionClient } from '../notion/notion.client';
+import { NOTES_MARKER } from '../notion/page-body';
+import { createSyncPlan, summarizeSyncPlan } from '../notion/sync-plan';
+import {
+  createFakeNotion,
+  createNotionError,
+  FakeNotion,
+} from '../testing/fake-notion';
+import { Config, ConfigSchema, RawGameData } from '../types/game';
+
+// End-to-end sync runs against the in-memory Notion database. Library
+// sources, enrichment adapters and files are stubbed; everything between
+// them and the Notion API is the real code.
+
+// ── Hoisted state ──────────────────────────────────────────────────────────────
+
+const state = vi.hoisted(() => ({
+  notion: null as unknown,
+  files: new Map<string, string>(),
+}));
+
+// ── Module mocks ───────────────────────────────────────────────────────────────
+
+vi.mock('@notionhq/client', async importOriginal => ({
+  ...(await importOriginal<typeof import('@notionhq/client')>()),
+  Client: vi.fn().mockImplementation(function () {
+    return state.notion;
+  }),
+}));
+
+// Keep the scheduler's retry logic but without real-time pacing
+vi.mock('../notion/request-scheduler', async importOriginal => {
+  const actual =
+    await importOriginal<typeof import('../notion/request-scheduler')>();
+  return {
+    ...actual,
+    createRequestScheduler: () =>
+      actual.createRequestScheduler({
+        requestsPerSecond: 1000,
+        burst: 1000,
+        baseDelayMs: 1,
+      }),
+  };
+});
+
+vi.mock('fs/promises', () => {
+  const missing = (filePath: string) =>
+    Object.assign(new Error(`ENOENT: ${filePath}`), { code: 'ENOENT' });
+  const exists = async (filePath: string) => {
+    if (!state.files.has(filePath)) throw missing(filePath);
+  };
+
+  return {
+    default: {
+      readFile: vi.fn(async (filePath: string) => {
+        await exists(filePath);
+        return state.files.get(filePath);
+      }),
+      writeFile: vi.fn(async (filePath: string, content: string) => {
+        state.files.set(filePath, content);
+      }),
+      appendFile: vi.fn(async (filePath: string, content: string) => {
+        state.files.set(filePath, (state.files.get(filePath) ?? '') + content);
+      }),
+      mkdir: vi.fn().mockResolvedValue(undefined),
+      access: vi.fn(exists),
+      stat: vi.fn(async (filePath: string) => {
+        await exists(filePath);
+        return { mtime: new Date() };
+      }),
+    },
+  };
+});
+
+vi.mock('../config', () => ({
+  getConfig: () => ({ logLevel: 'info' }),
+}));
+
+vi.mock('../adapters/gamepass.adapter', () => ({
+  createGamePassAdapter: () => ({
+    getCatalog: vi.fn().mockResolvedValue([]),
+    isGameAvailable: vi.fn(),
+  }),
+}));
+
+vi.mock('../adapters/protondb.adapter', () => ({
+  createProtonDBAdapter: () => ({
+    init: vi.fn().mockResolvedValue(undefined),
+    fetchCompatibility: vi.fn().mockResolvedValue(null),
+  }),
+}));
+
+vi.mock('../adapters/igdb.adapter', () => ({
+  igdbAdapter: {
+    initialize: vi.fn().mockResolvedValue(undefined),
+    findSteamAppId: vi.fn().mockResolvedValue(null),
+    getCacheStats: () => ({
+      totalEntries: 0,
+      foundEntries: 0,
+      notFoundEntries: 0,
+      retriableEntries: 0,
+    }),
+  },
+}));
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+const syncProperties = {
+  canonicalId: true,
+  primarySource: true,
+  ownedOn: true,
+  steamAppId: true,
+  playtime: true,
+  lastPlayed: true,
+  protonTier: true,
+  steamDeck: true,
+  coverImage: true,
+  libraryStatus: true,
+  installed: false,
+  installSize: false,
+  playtimeBySource: false,
+  franchise: false,
+  platform: false,
+};
+
+// Parsed so the settings a test doesn't set get their defaults
+const config: Config = ConfigSchema.parse({
+  steam: {
+    apiKey: 'key',
+    userId: '76561198000000000',
+    installPath: '/fake/steam',
+  },
+  notion: {
+    apiKey: 'notion-key',
+    databaseId: 'fake-db',
+    titleProperty: 'Name',
+    syncProperties,
+    propertyNames: {},
+    pullProperties: {
+      status: false,
+      rating: false,
+      notes: false,
+      interest: false,
+    },
+    removal: { graceDays: 0 }, // Flag removed games on the first missing sync
+    fixSchema: false,
+  },
+  protondb: { cacheDays: 30 },
+  logLevel: 'info',
+  dryRun: false,
+  playniteEnabled: false,
+  heroic: { storeCachePath: '/fake/heroic' },
+  sources: { enabled: ['steam'] },
+});
+
+const names = resolvePropertyNames('Name');
+
+let library: RawGameData[] = [];
+
+const librarySource: LibrarySource = {
+  id: 'steam',
+  name: 'Steam',
+  isConfigured: () => true,
+  fetch: async () => library,
+  healthCheck: async () => ({ ok: true, message: 'in memory' }),
+};
+
+const steamGame = (
+  name: string,
+  appId: number,
+  playtimeHours = 1,
+): RawGameData => ({
+  source: 'steam',
+  externalId: String(appId),
+  name,
+  steamAppId: appId,
+  playtimeHours,
+});
+
+const runSync = async (overrides: Partial<Config['notion']> = {}) => {
+  const { results } = await createSyncPipeline({
+    config: { ...config, notion: { ...config.notion, ...overrides } },
+    sources: createSourceRegistry([librarySource]),
+  }).run();
+  return results.notion!;
+};
+
+/**
+ * Move the clock on between syncs, so edit times differ
+ */
+const later = (hours: number) =>
+  vi.setSystemTime(new Date(Date.UTC(2026, 2, 1, 10 + hours)));
+
+const text = (property: any) =>
+  property[property.type].map((item: any) => item.plain_text).join('');
+
+const blockText = (block: any) =>
+  block[block.type].rich_text.map((item: any) => item.plain_text).join('');
+
+const createTitled = (notion: FakeNotion, title: string) =>
+  notion.addPage({
+    [names.title]: { title: [{ text: { content: title } }] },
+  });
+
+let notion: FakeNotion;
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('sync-pipeline scenarios', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.useFakeTimers({ toFake: ['Date'] });
+    later(0);
+
+    state.files.clear();
+    notion = createFakeNotion({
+      properties: getExpectedProperties(names, syncProperties),
+    });
+    state.notion = notion;
+    library = [steamGame('Hades', 1145360, 40), steamGame('Celeste', 504230)];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('creates a page for every game on the first sync', async () => {
+    const result = await runSync();
+
+    expect(result).toMatchObject({ created: 2, errors: 0 });
+    const hades = notion.findPage('Hades')!;
+    expect(text(hades.properties['Canonical ID'])).toBe('steam:1145360');
+    expect(hades.properties['Primary Source'].select.name).toBe('Steam');
+    expect(hades.properties['Playtime (hours)'].number).toBe(40);
+    expect(hades.properties['Steam App ID'].number).toBe(1145360);
+  });
+
+  it('writes nothing and reads only recently edited pages once in sync', async () => {
+    await runSync();
+    later(1);
+    await runSync(); // Refetches the pages it created
+    later(2);
+    notion.clearRequests();
+
+    const result = await runSync();
+
+    expect(result).toMatchObject({ skipped: 2, created: 0, updated: 0 });
+    const [query] = notion.getRequests('databases.query');
+    expect(query.args.filter.timestamp).toBe('last_edited_time');
+    expect(notion.getRequests('pages.create')).toEqual([]);
+    expect(notion.getRequests('pages.update')).toEqual([]);
+  });
+
+  it('updates only the game whose properties changed', async () => {
+    await runSync();
+    later(1);
+    library = [steamGame('Hades', 1145360, 55), steamGame('Celeste', 504230)];
+    notion.clearRequests();
+
+    const result = await runSync();
+
+    expect(result).toMatchObject({ updated: 1, skipped: 1 });
+    const [update] = notion.getRequests('pages.update');
+    expect(update.args.page_id).toBe(notion.findPage('Hades')!.id);
+    expect(
+      notion.findPage('Hades')!.properties['Playtime (hours)'].number,
+    ).toBe(55);
+  });
+
+  it('picks up pages edited in Notion since the last sync', async () => {
+    await runSync();
+    later(1);
+    await notion.pages.update({
+      page_id: notion.findPage('Celeste')!.id,
+      properties: { 'Playtime (hours)': { number: 999 } },
+    });
+    later(2);
+
+    const result = await runSync();
+
+    expect(result.updated).toBe(1);
+    expect(
+      notion.findPage('Celeste')!.properties['Playtime (hours)'].number,
+    ).toBe(1);
+  });
+
+  it('creates a page again when it was deleted in Notion', async () => {
+    await runSync();
+    later(1);
+    await runSync(); // Indexes the pages it created
+    later(2);
+    await notion.pages.update({
+      page_id: notion.findPage('Celeste')!.id,
+      archived: true,
+    });
+    later(3);
+
+    const result = await runSync();
+
+    expect(result).toMatchObject({ created: 1, skipped: 1 });
+    expect(notion.findPage('Celeste')).toBeDefined();
+  });
+
+  it('marks games that left the library as removed and restores them when they return', async () => {
+    await runSync();
+    later(1);
+    library = [steamGame('Hades', 1145360, 40)];
+
+    const removal = await runSync();
+
+    expect(removal.removed).toBe(1);
+    expect(
+      notion.findPage('Celeste')!.properties['Library Status'].select.name,
+    ).toBe('⚠️ Removed');
+
+    later(2);
+    library = [steamGame('Hades', 1145360, 40), steamGame('Celeste', 504230)];
+
+    const restore = await runSync();
+
+    expect(restore).toMatchObject({ updated: 1, removed: 0 });
+    expect(
+      notion.findPage('Celeste')!.properties['Library Status'].select,
+    ).toBeNull();
+  });
+
+  it('archives a removed game after the grace period and archive delay', async () => {
+    const removal = {
+      strategy: 'archive' as const,
+      graceDays: 3,
+      archiveAfterDays: 30,
+    };
+    await runSync({ removal });
+    library = [steamGame('Hades', 1145360, 40)];
+    later(24);
+
+    const waiting = await runSync({ removal });
+
+    expect(waiting.removed).toBe(0);
+    expect(
+      notion.findPage('Celeste')!.properties['Library Status'].select,
+    ).toBeNull();
+
+    later(24 * 4);
+    const marked = await runSync({ removal });
+
+    expect(marked.removed).toBe(1);
+
+    later(24 * 35);
+    const archived = await runSync({ removal });
+
+    expect(archived.archived).toBe(1);
+    expect(notion.findPage('Celeste')).toBeUndefined();
+    expect(notion.getPages().find(page => page.archived)).toBeDefined();
+    expect(JSON.parse(state.files.get('./data/removed-games.json')!)).toEqual(
+      {},
+    );
+  });
+
+  it('marks edition pages as removed once their merged game syncs', async () => {
+    state.files.set(
+      './data/overrides.json',
+      JSON.stringify({
+        forceMerge: [
+          {
+            games: ['Sniper Elite 4', 'Sniper Elite 4 Digital Deluxe Edition'],
+            canonicalName: 'Sniper Elite 4',
+          },
+        ],
+      }),
+    );
+    createTitled(notion, 'Sniper Elite 4');
+    createTitled(notion, 'Sniper Elite 4 Digital Deluxe Edition');
+    library = [steamGame('Sniper Elite 4', 312660)];
+
+    const result = await runSync();
+
+    expect(result).toMatchObject({ created: 0, updated: 1, errors: 0 });
+    expect(
+      notion.findPage('Sniper Elite 4 Digital Deluxe Edition')!.properties[
+        'Library Status'
+      ].select.name,
+    ).toBe('⚠️ Removed');
+    expect(
+      notion.findPage('Sniper Elite 4')!.properties['Library Status'].select,
+    ).toBeNull();
+  });
+
+  it('keeps the page body up to date without touching the notes below the marker', async () => {
+    const pageBody = ['links' as const, 'playtime' as const];
+    await runSync({ pageBody });
+    const hades = notion.findPage('Hades')!;
+    const [marker] = notion
+      .getBlocks(hades.id)
+      .filter(block => blockText(block) === NOTES_MARKER);
+    await notion.blocks.children.append({
+      block_id: hades.id,
+      children: [
+        {
+          type: 'paragraph',
+          paragraph: { rich_text: [{ text: { content: 'Beat Hades!' } }] },
+        },
+      ],
+    });
+    later(1);
+    library = [steamGame('Hades', 1145360, 55), steamGame('Celeste', 504230)];
+
+    await runSync({ pageBody });
+
+    expect(notion.getBlocks(hades.id).map(blockText)).toEqual([
+      '🔗 Store links',
+      'Steam',
+      '⏱️ Playtime',
+      'Steam: 55h',
+      NOTES_MARKER,
+      'Beat Hades!',
+    ]);
+    expect(notion.getBlocks(hades.id)[4].id).toBe(marker.id);
+
+    later(2);
+    notion.clearRequests();
+    await runSync({ pageBody });
+
+    expect(notion.getRequests('blocks.children.list')).toEqual([]);
+  });
+
+  it('rides out rate limits and server errors without losing games', async () => {
+    // More rate limits than the scheduler retries: the game is re-queued
+    notion.failNext(
+      'pages.create',
+      createNotionError(429, APIErrorCode.RateLimited, 'Rate limited', {
+        'retry-after': '0',
+      }),
+      6,
+    );
+    notion.failNext(
+      'databases.query',
+      createNotionError(502, APIErrorCode.InternalServerError, 'Bad Gateway'),
+    );
+
+    const result = await runSync();
+
+    expect(result).toMatchObject({ created: 2, errors: 0 });
+    expect(notion.findPage('Hades')).toBeDefined();
+    expect(notion.findPage('Celeste')).toBeDefined();
+  });
+
+  it('does not create a page twice when a create response is lost', async () => {
+    notion.loseNextResponse(
+      'pages.create',
+      createNotionError(502, APIErrorCode.InternalServerError, 'Bad Gateway'),
+    );
+
+    const result = await runSync();
+
+    expect(result).toMatchObject({ created: 1, errors: 0 });
+    expect(notion.getPages()).toHaveLength(2);
+    expect(notion.getRequests('pages.create')).toHaveLength(2);
+  });
+
+  it('applies a reviewed plan and refuses one made before a Notion edit', async () => {
+    await runSync();
+    later(1);
+    library = [steamGame('Hades', 1145360, 55), steamGame('Tunic', 553420)];
+    const makePlan = async () => {
+      const plan = createSyncPlan();
+      await createSyncPipeline({
+        config: { ...config, dryRun: true },
+        sources: createSourceRegistry([librarySource]),
+        plan,
+      }).run();
+      return plan;
+    };
+    const client = createNotionClient(
+      'notion-key',
+      'fake-db',
+      'Name',
+      syncProperties,
+    );
+    notion.clearRequests();
+
+    const plan = await makePlan();
+
+    expect(notion.getRequests('pages.create')).toEqual([]);
+    expect(notion.getRequests('pages.update')).toEqual([]);
+    expect(summarizeSyncPlan(plan)).toMatchObject({
+      create: 1,
+      update: 1,
+      remove: 1,
+    });
+    expect(plan.operations.find(op => op.type === 'update')).toMatchObject({
+      title: 'Hades',
+      changes: [{ property: 'Playtime (hours)', before: 40, after: 55 }],
+    });
+
+    later(2);
+    const stale = await makePlan();
+    await client.applyPlan(plan);
+
+    expect(notion.findPage('Tunic')).toBeDefined();
+    expect(
+      notion.findPage('Hades')!.properties['Playtime (hours)'].number,
+    ).toBe(55);
+    expect(
+      notion.findPage('Celeste')!.properties['Library Status'].select.name,
+    ).toBe('⚠️ Removed');
+    await expect(client.applyPlan(stale)).rejects.toThrow('Make a new plan');
+  });
+
+  it('plans page body rewrites and saves the sync state when applied', async () => {
+    const notionConfig = { ...config.notion, pageBody: ['playtime' as const] };
+    await runSync(notionConfig);
+    later(1);
+    library = [steamGame('Hades', 1145360, 55), steamGame('Celeste', 504230)];
+    state.files.delete('.cache/notion/page-index.json');
+    const plan = createSyncPlan();
+    notion.clearRequests();
+
+    await createSyncPipeline({
+      config: { ...config, dryRun: true, notion: notionConfig },
+      sources: createSourceRegistry([librarySource]),
+      plan,
+    }).run();
+
+    expect(notion.getRequests('blocks.children.append')).toEqual([]);
+    expect(plan.operations.find(op => op.type === 'body')).toMatchObject({
+      title: 'Hades',
+    });
+    expect(state.files.has('.cache/notion/page-index.json')).toBe(false);
+
+    later(2);
+    await createNotionClient('notion-key', 'fake-db', 'Name', syncProperties)
+      .applyPlan(plan);
+
+    expect(
+      notion.getBlocks(notion.findPage('Hades')!.id).map(blockText),
+    ).toContain('Steam: 55h');
+    expect(state.files.has('.cache/notion/page-index.json')).toBe(true);
+
+    later(3);
+    notion.clearRequests();
+    const result = await runSync(notionConfig);
+
+    expect(result).toMatchObject({ skipped: 2, updated: 0 });
+    const [query] = notion.getRequests('databases.query');
+    expect(query.args.filter.timestamp).toBe('last_edited_time');
+    expect(notion.getRequests('blocks.children.append')).toEqual([]);
+  });
+
+  it('refuses to sync into a database missing a property until --fix-schema', async () => {
+    notion = createFakeNotion({
+      properties: getExpectedProperties(names, syncProperties).filter(
+        property => property.name !== 'Steam App ID',
+      ),
+    });
+    state.notion = notion;
+
+    await expect(runSync()).rejects.toThrow('Steam App ID');
+    expect(notion.getRequests('pages.create')).toEqual([]);
+
+    const result = await runSync({ fixSchema: true });
+
+    expect(result.created).toBe(2);
+    expect(notion.findPage('Hades')!.properties['Steam App ID'].number).toBe(
+      1145360,
+    );
+  });
+});
@@ -0,0 +1,578 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import fs from 'fs/promises';
+import { createSyncPipeline, SyncStage } from './sync-pipeline';
+import { createNameIndex } from './name-index';
+import { createSyncPlan } from '../notion/sync-plan';
+import {
+  Config,
+  ConfigSchema,
+  RawGameData,
+  UnifiedGame,
+} from '../types/game';
+
+// ── Hoisted mocks ──────────────────────────────────────────────────────────────
+
+const {
+  mockFetchOwnedGames,
+  mockLoadAllLibraries,
+  mockGetCatalog,
+  mockSyncGames,
+  mockVerifyDatabase,
+  mockEnsureSchema,
+  mockFetchCompatibility,
+  mockFindSteamAppId,
+  mockFindFranchises,
+  mockGetCachedFranchises,
+} = vi.hoisted(() => ({
+  mockFetchOwnedGames: vi.fn(),
+  mockLoadAllLibraries: vi.fn(),
+  mockGetCatalog: vi.fn(),
+  mockSyncGames: vi.fn(),
+  mockVerifyDatabase: vi.fn(),
+  mockEnsureSchema: vi.fn(),
+  mockFetchCompatibility: vi.fn(),
+  mockFindSteamAppId: vi.fn(),
+  mockFindFranchises: vi.fn(),
+  mockGetCachedFranchises: vi.fn(),
+}));
+
+// ── Module mocks ───────────────────────────────────────────────────────────────
+
+vi.mock('fs/promises', () => ({
+  default: {
+    readFile: vi
+      .fn()
+      .mockRejectedValue(Object.assign(new Error('ENOENT'), { code: 'ENOENT' })),
+    writeFile: vi.fn().mockResolvedValue(undefined),
+    appendFile: vi.fn().mockResolvedValue(undefined),
+    stat: vi.fn().mockResolvedValue({ mtime: new Date('2026-03-01') }),
+  },
+}));
+
+vi.mock('../config', () => ({
+  getConfig: () => ({ logLevel: 'info' }),
+}));
+
+vi.mock('./overrides', () => ({
+  loadOverrides: vi.fn().mockResolvedValue({}),
+  shouldForceMerge: () => null,
+  getCanonicalNameFromVariant: () => null,
+  getNameIndex: () => createNameIndex(),
+  applyPropertyOverrides: (game: unknown) => game,
+}));
+
+vi.mock('../adapters/steam.adapter', () => ({
+  steamAdapter: { fetchOwnedGames: mockFetchOwnedGames },
+}));
+
+vi.mock('../adapters/heroic.adapter', () => ({
+  heroicAdapter: { loadAllLibraries: mockLoadAllLibraries },
+}));
+
+vi.mock('../adapters/playnite.adapter', () => ({
+  playniteAdapter: { loadSnapshot: vi.fn().mockResolvedValue([]) },
+}));
+
+vi.mock('../adapters/gamepass.adapter', () => ({
+  createGamePassAdapter: () => ({
+    getCatalog: mockGetCatalog,
+    isGameAvailable: vi.fn(),
+  }),
+}));
+
+vi.mock('../adapters/protondb.adapter', () => ({
+  createProtonDBAdapter: () => ({
+    init: vi.fn().mockResolvedValue(undefined),
+    fetchCompatibility: mockFetchCompatibility,
+  }),
+}));
+
+vi.mock('../adapters/igdb.adapter', () => ({
+  igdbAdapter: {
+    initialize: vi.fn().mockResolvedValue(undefined),
+    findSteamAppId: mockFindSteamAppId,
+    findFranchises: mockFindFranchises,
+    getCachedFranchises: mockGetCachedFranchises,
+    getCacheStats: () => ({
+      totalEntries: 0,
+      foundEntries: 0,
+      notFoundEntries: 0,
+      retriableEntries: 0,
+    }),
+  },
+}));
+
+vi.mock('../notion/notion.client', () => ({
+  createNotionClient: () => ({
+    syncGames: mockSyncGames,
+    verifyDatabase: mockVerifyDatabase,
+    ensureSchema: mockEnsureSchema,
+  }),
+}));
+
+const { mockGetInterestGamesToSync } = vi.hoisted(() => ({
+  mockGetInterestGamesToSync: vi.fn(),
+}));
+
+const { mockGetGames, mockSaveGames } = vi.hoisted(() => ({
+  mockGetGames: vi.fn(),
+  mockSaveGames: vi.fn(),
+}));
+
+vi.mock('../db/library-db', async importOriginal => ({
+  ...(await importOriginal<typeof import('../db/library-db')>()),
+  createLibraryDb: () => ({
+    getGames: mockGetGames,
+    saveGames: mockSaveGames,
+    recordCatalog: () => ({ added: [], removed: [] }),
+    close: vi.fn(),
+  }),
+}));
+
+vi.mock('./xbox-gamepass', () => ({
+  loadOwnedXboxGames: vi.fn().mockResolvedValue(new Set()),
+  processGamePassAvailability: vi
+    .fn()
+    .mockResolvedValue({ unavailable: [], returned: [] }),
+  saveUnavailableGames: vi.fn(),
+  getInterestGamesToSync: mockGetInterestGamesToSync,
+  shouldSyncToNotion: vi.fn().mockResolvedValue(true),
+  resolveXboxSource: vi.fn(),
+}));
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+// Parsed so the settings a test doesn't set get their defaults
+const config: Config = ConfigSchema.parse({
+  steam: {
+    apiKey: 'key',
+    userId: '76561198000000000',
+    installPath: '/fake/steam',
+  },
+  notion: {
+    apiKey: 'notion-key',
+    databaseId: 'db',
+    titleProperty: 'Name',
+    syncProperties: {
+      canonicalId: true,
+      primarySource: true,
+      ownedOn: true,
+      steamAppId: true,
+      playtime: true,
+      lastPlayed: true,
+      protonTier: true,
+      steamDeck: true,
+      coverImage: true,
+      libraryStatus: true,
+      installed: false,
+      installSize: false,
+      playtimeBySource: false,
+      franchise: false,
+      platform: false,
+    },
+    fixSchema: false,
+  },
+  protondb: { cacheDays: 30 },
+  logLevel: 'info',
+  dryRun: false,
+  playniteEnabled: false,
+  heroic: { storeCachePath: '/fake/heroic' },
+  sources: { enabled: ['steam', 'heroic', 'xbox-owned'] },
+});
+
+const steamGame = (name: string, appId: number): RawGameData => ({
+  source: 'steam',
+  externalId: String(appId),
+  name,
+  steamAppId: appId,
+});
+
+// Portal as the previous sync left it, marked as playing in Notion
+const previousPortal = {
+  canonicalId: 'steam:400',
+  name: 'Portal',
+  primarySource: 'steam',
+  ownedSources: ['steam'],
+  status: 'Playing',
+  createdAt: new Date('2026-02-01'),
+  updatedAt: new Date('2026-02-01'),
+} as UnifiedGame;
+
+// Pulls statuses, keeping the library in the database
+const databaseConfig = {
+  ...config,
+  notion: { ...config.notion, pullProperties: { status: true } },
+  database: { enabled: true, path: '/data/gamekeeper.db' },
+} as Config;
+
+const schemaResult = {
+  missingProperties: [],
+  missingOptions: [],
+  typeMismatches: [],
+  fixed: false,
+};
+
+const notionResult = {
+  created: 1,
+  updated: 0,
+  skipped: 0,
+  errors: 0,
+  removed: 0,
+  pulled: 0,
+  conflicts: 0,
+};
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('sync-pipeline', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockVerifyDatabase.mockResolvedValue(true);
+    mockEnsureSchema.mockResolvedValue(schemaResult);
+    mockFetchOwnedGames.mockResolvedValue([steamGame('Portal', 400)]);
+    mockLoadAllLibraries.mockResolvedValue([]);
+    mockGetCatalog.mockResolvedValue([]);
+    mockSyncGames.mockResolvedValue(notionResult);
+    mockFetchCompatibility.mockResolvedValue(null);
+    mockGetInterestGamesToSync.mockResolvedValue([]);
+    vi.mocked(fs.readFile).mockRejectedValue(
+      Object.assign(new Error('ENOENT'), { code: 'ENOENT' }),
+    );
+  });
+
+  it('runs every stage in order and reports typed results', async () => {
+    const started: SyncStage[] = [];
+    const completed: SyncStage[] = [];
+
+    const { status, results } = await createSyncPipeline({
+      config,
+      onStageStart: stage => started.push(stage),
+      onStageComplete: ({ stage }) => completed.push(stage),
+    }).run();
+
+    expect(status).toBe('completed');
+    expect(started).toEqual([
+      'prepare',
+      'fetch',
+      'dedupe',
+      'suggestions',
+      'enrich',
+      'notion',
+      'snapshot',
+      'gamepass',
+    ]);
+    expect(completed).toEqual(started);
+    expect(results.dedupe?.unifiedGames.map(g => g.name)).toEqual(['Portal']);
+    expect(results.notion).toEqual(notionResult);
+  });
+
+  it('stops after fetch when no source returns games', async () => {
+    mockFetchOwnedGames.mockResolvedValue([]);
+
+    const { status, results } = await createSyncPipeline({ config }).run();
+
+    expect(status).toBe('no-games');
+    expect(results.dedupe).toBeUndefined();
+    expect(mockSyncGames).not.toHaveBeenCalled();
+  });
+
+  it('fails the prepare stage when Notion is not accessible', async () => {
+    mockVerifyDatabase.mockResolvedValue(false);
+
+    await expect(createSyncPipeline({ config }).run()).rejects.toThrow(
+      'Cannot access Notion database',
+    );
+    expect(mockFetchOwnedGames).not.toHaveBeenCalled();
+  });
+
+  it('fails the prepare stage when the Notion schema has drifted', async () => {
+    mockEnsureSchema.mockResolvedValue({
+      ...schemaResult,
+      missingProperties: [{ name: 'Proton Tier', type: 'select' }],
+      typeMismatches: [
+        { name: 'Steam App ID', expected: 'number', actual: 'rich_text' },
+      ],
+    });
+
+    await expect(createSyncPipeline({ config }).run()).rejects.toThrow(
+      'Proton Tier, Steam App ID',
+    );
+    expect(mockEnsureSchema).toHaveBeenCalledWith({ fix: false });
+    expect(mockFetchOwnedGames).not.toHaveBeenCalled();
+  });
+
+  it('continues once --fix-schema created the missing properties', async () => {
+    mockEnsureSchema.mockResolvedValue({
+      ...schemaResult,
+      missingProperties: [{ name: 'Proton Tier', type: 'select' }],
+      fixed: true,
+    });
+
+    const { status, results } = await createSyncPipeline({
+      config: { ...config, notion: { ...config.notion, fixSchema: true } },
+    }).run();
+
+    expect(mockEnsureSchema).toHaveBeenCalledWith({ fix: true });
+    expect(status).toBe('completed');
+    expect(results.prepare?.schema.fixed).toBe(true);
+  });
+
+  it('only warns about schema drift in a dry run', async () => {
+    mockEnsureSchema.mockResolvedValue({
+      ...schemaResult,
+      missingProperties: [{ name: 'Proton Tier', type: 'select' }],
+    });
+
+    const { status } = await createSyncPipeline({
+      config: { ...config, dryRun: true },
+    }).run();
+
+    expect(status).toBe('completed');
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining('Proton Tier'),
+    );
+  });
+
+  it('fills a sync plan in a dry run', async () => {
+    const plan = createSyncPlan();
+
+    await createSyncPipeline({
+      config: { ...config, dryRun: true },
+      plan,
+    }).run();
+
+    expect(mockSyncGames.mock.calls[0][1].plan).toBe(plan);
+  });
+
+  it('saves no snapshot or playtime history while making a plan', async () => {
+    await createSyncPipeline({
+      config: { ...config, dryRun: true },
+      dataDir: '/data',
+      plan: createSyncPlan(),
+    }).run();
+
+    expect(fs.writeFile).not.toHaveBeenCalledWith(
+      '/data/library.json',
+      expect.anything(),
+      expect.anything(),
+    );
+    expect(fs.appendFile).not.toHaveBeenCalled();
+  });
+
+  it('only makes a sync plan in a dry run', () => {
+    expect(() =>
+      createSyncPipeline({ config, plan: createSyncPlan() }),
+    ).toThrow('A sync plan can only be made in a dry run');
+  });
+
+  it('reports per-stage progress while enriching', async () => {
+    const onProgress = vi.fn();
+
+    await createSyncPipeline({ config, onProgress }).run();
+
+    expect(onProgress).toHaveBeenCalledWith({
+      stage: 'enrich',
+      processed: 1,
+      total: 1,
+    });
+  });
+
+  it('looks up franchises only when a franchise relation is synced', async () => {
+    mockFetchOwnedGames.mockResolvedValue([
+      steamGame('Portal', 400),
+      steamGame('Portal 2', 620),
+    ]);
+    mockGetCachedFranchises.mockImplementation((name: string) =>
+      name === 'Portal' ? ['Portal'] : undefined,
+    );
+    mockFindFranchises.mockResolvedValue(['Portal']);
+
+    const { results } = await createSyncPipeline({
+      config: {
+        ...config,
+        notion: {
+          ...config.notion,
+          syncProperties: { ...config.notion.syncProperties, franchise: true },
+        },
+      },
+    }).run();
+
+    expect(mockFindFranchises).toHaveBeenCalledTimes(1);
+    expect(mockFindFranchises).toHaveBeenCalledWith('Portal 2');
+    expect(results.enrich?.franchiseMatches).toBe(2);
+    expect(
+      results.dedupe?.unifiedGames.map(game => game.franchises),
+    ).toEqual([['Portal'], ['Portal']]);
+
+    await createSyncPipeline({ config }).run();
+    expect(mockFindFranchises).toHaveBeenCalledTimes(1);
+  });
+
+  it('cancels before the next stage once the signal is aborted', async () => {
+    const controller = new AbortController();
+    const onStageStart = vi.fn();
+
+    const run = createSyncPipeline({
+      config,
+      signal: controller.signal,
+      onStageStart,
+      onStageComplete: ({ stage }) => {
+        if (stage === 'dedupe') controller.abort();
+      },
+    }).run();
+
+    await expect(run).rejects.toThrow();
+    expect(onStageStart).not.toHaveBeenCalledWith('suggestions');
+    expect(mockSyncGames).not.toHaveBeenCalled();
+  });
+
+  it('writes interest flags pulled from Notion back to the interests file', async () => {
+    vi.mocked(fs.readFile).mockImplementation(async filePath => {
+      if (String(filePath).endsWith('gamepass-interests.json')) {
+        return JSON.stringify({ wantToPlay: ['Starfield', 'TUNIC'] });
+      }
+      throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+    });
+    mockGetInterestGamesToSync.mockResolvedValue([
+      {
+        source: 'gamepass',
+        externalId: 'gamepass-interest-1',
+        name: 'Starfield',
+      },
+    ]);
+    // The box was unchecked in Notion
+    mockSyncGames.mockImplementation(async games => {
+      const starfield = games.find((g: any) => g.name === 'Starfield');
+      expect(starfield.interest).toBe('want-to-play');
+      starfield.interest = undefined;
+      return notionResult;
+    });
+
+    await createSyncPipeline({
+      config: {
+        ...config,
+        notion: { ...config.notion, pullProperties: { interest: true } },
+      } as Config,
+      dataDir: '/data',
+    }).run();
+
+    expect(fs.writeFile).toHaveBeenCalledWith(
+      '/data/gamepass-interests.json',
+      JSON.stringify({ wantToPlay: ['TUNIC'] }, null, 2) + '\n',
+      'utf-8',
+    );
+  });
+
+  it('keeps pulled user fields out of the snapshot in a dry run', async () => {
+    mockSyncGames.mockImplementation(async games => {
+      games[0].notionUserFields = { status: 'Playing' };
+      return notionResult;
+    });
+
+    const { results } = await createSyncPipeline({
+      config: { ...config, dryRun: true },
+      dataDir: '/data',
+    }).run();
+
+    expect(results.snapshot).toBeUndefined();
+    expect(fs.writeFile).not.toHaveBeenCalledWith(
+      '/data/library.json',
+      expect.anything(),
+      expect.anything(),
+    );
+  });
+
+  it('merges against and saves to the library database when enabled', async () => {
+    mockGetGames.mockReturnValue([previousPortal]);
+    let synced: UnifiedGame[] = [];
+    mockSyncGames.mockImplementation(async games => {
+      synced = structuredClone(games);
+      return notionResult;
+    });
+
+    const { results } = await createSyncPipeline({
+      config: databaseConfig,
+      dataDir: '/data',
+    }).run();
+
+    expect(synced[0].status).toBe('Playing');
+    expect(mockSaveGames).toHaveBeenCalledWith([
+      expect.objectContaining({ canonicalId: 'steam:400' }),
+    ]);
+    expect(results.snapshot?.path).toBe('/data/gamekeeper.db');
+    expect(fs.writeFile).not.toHaveBeenCalledWith(
+      '/data/library.json',
+      expect.anything(),
+      expect.anything(),
+    );
+  });
+
+  it('carries data/library.json over while the library database has no games', async () => {
+    mockGetGames.mockReturnValue([]);
+    vi.mocked(fs.readFile).mockImplementation(async filePath => {
+      if (filePath === '/data/library.json') {
+        return JSON.stringify({ games: [previousPortal] });
+      }
+      throw Object.assign(new Error('ENOENT'), { code: 'ENOENT' });
+    });
+    let synced: UnifiedGame[] = [];
+    mockSyncGames.mockImplementation(async games => {
+      synced = structuredClone(games);
+      return notionResult;
+    });
+
+    await createSyncPipeline({ config: databaseConfig, dataDir: '/data' }).run();
+
+    expect(synced[0].status).toBe('Playing');
+    expect(mockSaveGames).toHaveBeenCalled();
+  });
+
+  it('syncs each Notion target with the games its filter keeps', async () => {
+    mockFetchOwnedGames.mockResolvedValue([
+      steamGame('Portal', 400),
+      steamGame('Hades', 1145360),
+    ]);
+    const target = (name: string, filter: object) => ({
+      name,
+      databaseId: `db-${name}`,
+      titleProperty: 'Name',
+      syncProperties: {},
+      propertyNames: {},
+      removal: { strategy: 'status', graceDays: 0, archiveAfterDays: 30 },
+      filter,
+    });
+
+    const { results } = await createSyncPipeline({
+      config: {
+        ...config,
+        notion: {
+          ...config.notion,
+          targets: [
+            target('Steam', { sources: ['steam'] }),
+            target('GOG', { sources: ['gog'] }),
+          ],
+        },
+      } as Config,
+    }).run();
+
+    expect(mockVerifyDatabase).toHaveBeenCalledTimes(3);
+    expect(results.prepare?.targetSchemas).toEqual({
+      Steam: schemaResult,
+      GOG: schemaResult,
+    });
+    const synced = mockSyncGames.mock.calls.map(([games]) =>
+      games.map((g: UnifiedGame) => g.name).sort(),
+    );
+    expect(synced).toEqual([['Hades', 'Portal'], ['Hades', 'Portal'], []]);
+    // Games a target's filter drops are removed from it, Game Pass or not
+    expect(
+      mockSyncGames.mock.calls[2][1].gamePassCatalogTitles,
+    ).toBeUndefined();
+    expect(results.notion).toEqual({
+      ...notionResult,
+      targets: { Steam: notionResult, GOG: notionResult },
+    });
+  });
+});
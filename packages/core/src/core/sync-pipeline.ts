@@ -0,0 +1,897 @@
+import fs from 'fs/promises';
+import {
+  Config,
+  NotionTarget,
+  RawGameData,
+  Source,
+  UnifiedGame,
+} from '../types/game';
+import { createProtonDBAdapter } from '../adapters/protondb.adapter';
+import {
+  createGamePassAdapter,
+  GamePassGame,
+} from '../adapters/gamepass.adapter';
+import { igdbAdapter } from '../adapters/igdb.adapter';
+import { createNotionClient, NotionSyncResult } from '../notion/notion.client';
+import { SchemaCheckResult } from '../notion/notion.schema';
+import { getTargetSlug, matchesTargetFilter } from '../notion/targets';
+import { SyncPlan } from '../notion/sync-plan';
+import { processRawGames } from './deduplicate';
+import { loadOverrides } from './overrides';
+import { normalizeGameName } from './normalize';
+import {
+  generateMergeSuggestions,
+  saveMergeSuggestions,
+  MergeSuggestion,
+} from './suggestions';
+import {
+  processGamePassAvailability,
+  saveUnavailableGames,
+  getInterestGamesToSync,
+  UnavailableGame,
+} from './xbox-gamepass';
+import { loadLibrarySnapshot, saveLibrarySnapshot } from './library';
+import {
+  applyInterestList,
+  carryOverUserFields,
+  updateInterestList,
+} from './user-fields';
+import {
+  loadPlaytimeHistory,
+  recordPlaytimeHistory,
+} from './playtime-history';
+import { createLibraryDb } from '../db/library-db';
+import { SourceRegistry } from '../sources/library-source';
+import { createDefaultSourceRegistry } from '../sources/registry';
+
+/**
+ * Pipeline stages, in execution order
+ */
+export const SYNC_STAGES = [
+  'prepare',
+  'fetch',
+  'dedupe',
+  'suggestions',
+  'enrich',
+  'notion',
+  'snapshot',
+  'gamepass',
+] as const;
+
+export type SyncStage = (typeof SYNC_STAGES)[number];
+
+/**
+ * Typed result produced by each stage
+ */
+export type SyncStageResults = {
+  prepare: {
+    notionAccessible: boolean;
+    schema: SchemaCheckResult;
+    targetSchemas?: Record<string, SchemaCheckResult>; // By target name
+  };
+  fetch: {
+    rawGames: RawGameData[];
+    sourceGames: RawGameData[];
+    sources: Array<{ id: string; count: number; error?: string }>;
+    gamePassCatalog?: GamePassGame[];
+    gamePassCatalogTitles?: Set<string>;
+  };
+  dedupe: { unifiedGames: UnifiedGame[] };
+  suggestions: { suggestions: MergeSuggestion[] };
+  enrich: {
+    pcGames: number;
+    igdbCandidates: number;
+    igdbMatches: number;
+    protonEnriched: number;
+    franchiseMatches?: number; // Only when a franchise relation is synced
+  };
+  notion: NotionSyncResult & {
+    targets?: Record<string, NotionSyncResult>; // By target name
+  };
+  snapshot: {
+    path: string; // data/library.json, or the library database when enabled
+    historyPath: string;
+    historyEntries: number;
+  };
+  gamepass: { unavailable: UnavailableGame[]; returned: string[] };
+};
+
+export type SyncStageCompleteEvent = {
+  [S in SyncStage]: { stage: S; result: SyncStageResults[S] };
+}[SyncStage];
+
+export type SyncProgressEvent = {
+  stage: SyncStage;
+  processed: number;
+  total: number;
+};
+
+export type SyncPipelineOptions = {
+  config: Config;
+  sources?: SourceRegistry;
+  dataDir?: string;
+  cacheDir?: string;
+  signal?: AbortSignal;
+  onStageStart?: (stage: SyncStage) => void;
+  onStageComplete?: (event: SyncStageCompleteEvent) => void;
+  onProgress?: (event: SyncProgressEvent) => void;
+  plan?: SyncPlan; // Filled with the Notion writes of a dry run
+};
+
+/**
+ * Outcome of a full pipeline run.
+ * 'no-games' means no source returned anything and the run stopped after fetch.
+ */
+export type SyncPipelineResult = {
+  status: 'completed' | 'no-games';
+  results: Partial<SyncStageResults>;
+};
+
+type NotionTargetClient = {
+  target: NotionTarget;
+  client: ReturnType<typeof createNotionClient>;
+};
+
+type PipelineContext = Required<
+  Pick<SyncPipelineOptions, 'config' | 'dataDir' | 'cacheDir'>
+> &
+  Pick<SyncPipelineOptions, 'signal' | 'onProgress' | 'plan'> & {
+    protonDbAdapter: ReturnType<typeof createProtonDBAdapter>;
+    gamePassAdapter: ReturnType<typeof createGamePassAdapter>;
+    notionClient: ReturnType<typeof createNotionClient>;
+    notionTargets: NotionTargetClient[];
+    sources: SourceRegistry;
+  };
+
+const debug = (ctx: PipelineContext, message: string) => {
+  if (ctx.config.logLevel === 'debug') {
+    console.log(`[DEBUG] ${message}`);
+  }
+};
+
+const reportProgress = (
+  ctx: PipelineContext,
+  stage: SyncStage,
+  processed: number,
+  total: number,
+) => {
+  ctx.onProgress?.({ stage, processed, total });
+};
+
+/**
+ * Verify access to a Notion database and check (or fix) its schema.
+ * label names the database in messages, e.g. 'Notion target "Deck"'.
+ */
+const checkNotionDatabase = async (
+  ctx: PipelineContext,
+  client: ReturnType<typeof createNotionClient>,
+  label: string,
+): Promise<SchemaCheckResult> => {
+  console.log(`🔍 Verifying ${label}...`);
+  const accessible = await client.verifyDatabase();
+  if (!accessible) {
+    throw new Error(
+      `Cannot access ${label}. Check your API key and database ID.`,
+    );
+  }
+  console.log(`✅ ${label} verified\n`);
+
+  console.log(`🧩 Checking ${label} schema...`);
+  const schema = await client.ensureSchema({
+    fix: ctx.config.notion.fixSchema,
+  });
+  const unresolved = [
+    ...(schema.fixed ? [] : schema.missingProperties.map(p => p.name)),
+    ...schema.typeMismatches.map(p => p.name),
+  ];
+  if (unresolved.length > 0) {
+    const message = `${label} schema doesn't match the enabled sync properties: ${unresolved.join(', ')}. Run with --fix-schema to create missing properties, fix property types in Notion, or disable them with NOTION_SYNC_* settings.`;
+    // Nothing is written in a dry run, so report without failing
+    if (!ctx.config.dryRun) throw new Error(message);
+    console.warn(`⚠️  ${message}`);
+  }
+  console.log(`✅ ${label} schema checked\n`);
+  return schema;
+};
+
+/**
+ * Load manual overrides, initialize enrichment adapters and verify Notion access
+ */
+const prepareStage = async (
+  ctx: PipelineContext,
+): Promise<SyncStageResults['prepare']> => {
+  await loadOverrides(`${ctx.dataDir}/overrides.json`);
+
+  console.log('🔧 Initializing adapters...');
+  await ctx.protonDbAdapter.init();
+  await igdbAdapter.initialize();
+  console.log('✅ Adapters initialized\n');
+
+  const schema = await checkNotionDatabase(
+    ctx,
+    ctx.notionClient,
+    'Notion database',
+  );
+  if (ctx.notionTargets.length === 0) {
+    return { notionAccessible: true, schema };
+  }
+
+  const targetSchemas: Record<string, SchemaCheckResult> = {};
+  for (const { target, client } of ctx.notionTargets) {
+    targetSchemas[target.name] = await checkNotionDatabase(
+      ctx,
+      client,
+      `Notion target "${target.name}"`,
+    );
+  }
+  return { notionAccessible: true, schema, targetSchemas };
+};
+
+/**
+ * Load the Game Pass catalog and interests, then fetch every enabled library source
+ */
+const fetchStage = async (
+  ctx: PipelineContext,
+): Promise<SyncStageResults['fetch']> => {
+  console.log('📥 Fetching games from sources...\n');
+
+  let gamePassCatalog: GamePassGame[] | undefined;
+  let gamePassCatalogTitles: Set<string> | undefined;
+  try {
+    console.log('🎮 Loading Game Pass catalog...');
+    gamePassCatalog = await ctx.gamePassAdapter.getCatalog();
+    console.log(`✅ Game Pass: ${gamePassCatalog.length} games available`);
+
+    // Build normalized set of catalog titles for removal detection.
+    // Each title contributes two keys: its normalized form AND its word-sorted
+    // form, so titles with swapped main/subtitle (e.g. "Hellblade II: Senua's
+    // Saga" vs "Senua's Saga: Hellblade II") still match.
+    gamePassCatalogTitles = new Set(
+      gamePassCatalog
+        .filter(g => g.available)
+        .flatMap(g => {
+          const norm = normalizeGameName(g.title);
+          const sorted = norm.split(' ').filter(Boolean).sort().join(' ');
+          return [norm, sorted];
+        }),
+    );
+  } catch (error) {
+    console.error('❌ Failed to load Game Pass catalog:', error);
+    console.log('Continuing without Game Pass data...\n');
+  }
+
+  let gamePassInterests: string[] = [];
+  try {
+    const interestsContent = await fs.readFile(
+      `${ctx.dataDir}/gamepass-interests.json`,
+      'utf-8',
+    );
+    const interestsData = JSON.parse(interestsContent);
+    gamePassInterests = interestsData.wantToPlay || [];
+    console.log(`📝 Loaded ${gamePassInterests.length} Game Pass interests`);
+  } catch {
+    console.warn('⚠️  No Game Pass interests file found');
+  }
+
+  ctx.signal?.throwIfAborted();
+
+  const sourceResults = await ctx.sources.fetchAll(
+    {
+      config: ctx.config,
+      dataDir: ctx.dataDir,
+      gamePassCatalog,
+      gamePassInterests,
+    },
+    () => ctx.signal?.throwIfAborted(),
+  );
+  const sourceGames = sourceResults.flatMap(result => result.games);
+  const rawGames: RawGameData[] = [...sourceGames];
+
+  // Add interest games from Game Pass
+  if (gamePassCatalog) {
+    const interestGames = await getInterestGamesToSync(
+      gamePassCatalog,
+      sourceGames,
+    );
+    if (interestGames.length > 0) {
+      console.log(`➕ Adding ${interestGames.length} Game Pass interest games`);
+      rawGames.push(...interestGames);
+    }
+  }
+
+  return {
+    rawGames,
+    sourceGames,
+    sources: sourceResults.map(({ id, games, error }) => ({
+      id,
+      count: games.length,
+      error,
+    })),
+    gamePassCatalog,
+    gamePassCatalogTitles,
+  };
+};
+
+/**
+ * Deduplicate and merge raw games into unified games
+ */
+const dedupeStage = (
+  rawGames: RawGameData[],
+): SyncStageResults['dedupe'] => {
+  console.log('🔄 Deduplicating and merging games...');
+  const unifiedGames = processRawGames(rawGames);
+  console.log(`✅ Unified into ${unifiedGames.length} games\n`);
+  return { unifiedGames };
+};
+
+/**
+ * Generate merge suggestions for near-duplicate names
+ */
+const suggestionsStage = async (
+  ctx: PipelineContext,
+  rawGames: RawGameData[],
+): Promise<SyncStageResults['suggestions']> => {
+  console.log('💡 Generating merge suggestions...');
+  const suggestions = generateMergeSuggestions(
+    rawGames,
+    ctx.config.suggestions,
+  );
+  await saveMergeSuggestions(
+    suggestions,
+    `${ctx.dataDir}/merge-suggestions.json`,
+  );
+  console.log();
+  return { suggestions };
+};
+
+/**
+ * Look up IGDB franchises for every game. Cached games are filled in
+ * directly, so only the lookups are rate limited.
+ */
+const enrichFranchises = async (
+  ctx: PipelineContext,
+  unifiedGames: UnifiedGame[],
+): Promise<number> => {
+  console.log('🏷️  Looking up franchises...');
+  const uncached: UnifiedGame[] = [];
+  for (const game of unifiedGames) {
+    const franchises = igdbAdapter.getCachedFranchises(game.name);
+    if (franchises) game.franchises = franchises;
+    else uncached.push(game);
+  }
+
+  const BATCH_SIZE = 4; // One API call per game, so 4 games = 4 req/sec
+  const DELAY = 1000;
+  for (let i = 0; i < uncached.length; i += BATCH_SIZE) {
+    ctx.signal?.throwIfAborted();
+    const batch = uncached.slice(i, i + BATCH_SIZE);
+    await Promise.all(
+      batch.map(async game => {
+        game.franchises = await igdbAdapter.findFranchises(game.name);
+      }),
+    );
+
+    const processed = Math.min(i + BATCH_SIZE, uncached.length);
+    reportProgress(ctx, 'enrich', processed, uncached.length);
+    if (processed % 20 === 0 || processed === uncached.length) {
+      console.log(
+        `  Progress: ${processed}/${uncached.length} franchise lookups...`,
+      );
+    }
+    if (i + BATCH_SIZE < uncached.length) {
+      await new Promise(resolve => setTimeout(resolve, DELAY));
+    }
+  }
+
+  const matched = unifiedGames.filter(g => g.franchises?.length).length;
+  console.log(
+    `✅ Found franchises for ${matched}/${unifiedGames.length} games (${uncached.length} looked up)\n`,
+  );
+  return matched;
+};
+
+/**
+ * Enrich PC games with IGDB (Steam App ID lookup) and ProtonDB data, and
+ * every game with IGDB franchises when a franchise relation is synced.
+ * Mutates the given unified games in place.
+ */
+const enrichStage = async (
+  ctx: PipelineContext,
+  unifiedGames: UnifiedGame[],
+): Promise<SyncStageResults['enrich']> => {
+  console.log('🔍 Enriching PC games...');
+  // PC platforms: Steam (has steamAppId), Epic, GOG, Amazon
+  // Include if owned on ANY PC platform, even if also owned on Xbox/Game Pass
+  const pcPlatforms: Source[] = ['epic', 'gog', 'amazon'];
+  const pcGames = unifiedGames.filter(
+    g =>
+      g.steamAppId || g.ownedSources.some(source => pcPlatforms.includes(source)),
+  );
+  console.log(`Found ${pcGames.length} PC games to enrich`);
+
+  // Step 1: Find Steam App IDs for non-Steam games using IGDB
+  console.log('🔍 Looking up Steam App IDs for non-Steam games...');
+  const nonSteamPcGames = pcGames.filter(g => !g.steamAppId);
+  let igdbMatchCount = 0;
+
+  if (nonSteamPcGames.length > 0) {
+    const IGDB_BATCH_SIZE = 2; // Each game makes 2 API calls (search + external_games), so 2 games = 4 req/sec
+    const IGDB_DELAY = 1000; // 1 second delay between batches
+
+    for (let i = 0; i < nonSteamPcGames.length; i += IGDB_BATCH_SIZE) {
+      ctx.signal?.throwIfAborted();
+      const batch = nonSteamPcGames.slice(i, i + IGDB_BATCH_SIZE);
+
+      await Promise.all(
+        batch.map(async game => {
+          try {
+            const steamAppId = await igdbAdapter.findSteamAppId(game.name);
+            if (steamAppId) {
+              game.steamAppId = steamAppId;
+              igdbMatchCount++;
+              debug(
+                ctx,
+                `IGDB matched "${game.name}" → Steam App ID ${steamAppId}`,
+              );
+            }
+          } catch {
+            // Silently continue - lookup is best-effort
+          }
+        }),
+      );
+
+      const processed = Math.min(i + IGDB_BATCH_SIZE, nonSteamPcGames.length);
+      reportProgress(ctx, 'enrich', processed, nonSteamPcGames.length);
+      if (processed % 20 === 0 || processed === nonSteamPcGames.length) {
+        console.log(
+          `  Progress: ${processed}/${nonSteamPcGames.length} non-Steam games checked...`,
+        );
+      }
+
+      // Rate limiting: wait between batches (except for the last one)
+      if (i + IGDB_BATCH_SIZE < nonSteamPcGames.length) {
+        await new Promise(resolve => setTimeout(resolve, IGDB_DELAY));
+      }
+    }
+
+    console.log(
+      `✅ Found Steam App IDs for ${igdbMatchCount}/${nonSteamPcGames.length} non-Steam games\n`,
+    );
+
+    const cacheStats = igdbAdapter.getCacheStats();
+    console.log(
+      `📊 IGDB Cache: ${cacheStats.totalEntries} entries (${cacheStats.foundEntries} matches, ${cacheStats.notFoundEntries} not found)`,
+    );
+    if (cacheStats.retriableEntries > 0) {
+      console.log(
+        `   ⏰ ${cacheStats.retriableEntries} old failures were retried this run`,
+      );
+    }
+    console.log();
+  }
+
+  // Step 2: Enrich games with ProtonDB data
+  console.log('🐧 Fetching ProtonDB compatibility data...');
+  const gamesWithSteamId = pcGames.filter(g => g.steamAppId);
+  let enrichedCount = 0;
+  const BATCH_SIZE = 20; // Process 20 games at a time (safe for cache reads)
+
+  for (let i = 0; i < gamesWithSteamId.length; i += BATCH_SIZE) {
+    ctx.signal?.throwIfAborted();
+    const batch = gamesWithSteamId.slice(i, i + BATCH_SIZE);
+
+    await Promise.all(
+      batch.map(async game => {
+        try {
+          if (!game.steamAppId) {
+            return;
+          }
+
+          const protonInfo = await ctx.protonDbAdapter.fetchCompatibility(
+            game.steamAppId,
+          );
+          if (protonInfo) {
+            game.proton = protonInfo;
+            enrichedCount++;
+          }
+        } catch (error) {
+          console.warn(
+            `Failed to fetch ProtonDB data for "${game.name}":`,
+            error,
+          );
+        }
+      }),
+    );
+
+    const processed = Math.min(i + BATCH_SIZE, gamesWithSteamId.length);
+    reportProgress(ctx, 'enrich', processed, gamesWithSteamId.length);
+    if (processed % 20 === 0 || processed === gamesWithSteamId.length) {
+      console.log(
+        `  Progress: ${processed}/${gamesWithSteamId.length} games enriched...`,
+      );
+    }
+  }
+
+  console.log(`✅ Enriched ${enrichedCount} games with ProtonDB data\n`);
+
+  // Step 3: Franchises, for the franchise relation of any database
+  const { notion } = ctx.config;
+  const syncsFranchises =
+    notion.syncProperties.franchise ||
+    (notion.targets ?? []).some(target => target.syncProperties.franchise);
+
+  return {
+    pcGames: pcGames.length,
+    igdbCandidates: nonSteamPcGames.length,
+    igdbMatches: igdbMatchCount,
+    protonEnriched: enrichedCount,
+    ...(syncsFranchises && {
+      franchiseMatches: await enrichFranchises(ctx, unifiedGames),
+    }),
+  };
+};
+
+/**
+ * Read the Game Pass interests file and when it was last changed
+ */
+const readInterests = async (
+  ctx: PipelineContext,
+): Promise<{ wantToPlay: string[]; editedAt: Date } | null> => {
+  const filePath = `${ctx.dataDir}/gamepass-interests.json`;
+  try {
+    const content = await fs.readFile(filePath, 'utf-8');
+    const { mtime } = await fs.stat(filePath);
+    return { wantToPlay: JSON.parse(content).wantToPlay ?? [], editedAt: mtime };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Games of the previous sync, from the library database when it is enabled.
+ * A database without games yet falls back to data/library.json, so its
+ * first sync merges against the JSON snapshot and then moves it in.
+ */
+const loadPreviousGames = async (
+  ctx: PipelineContext,
+): Promise<UnifiedGame[]> => {
+  const database = ctx.config.database;
+  if (database?.enabled) {
+    const db = createLibraryDb(database.path);
+    try {
+      const games = db.getGames();
+      if (games.length > 0) return games;
+    } finally {
+      db.close();
+    }
+  }
+  return loadLibrarySnapshot(`${ctx.dataDir}/library.json`);
+};
+
+/**
+ * Restore user fields from the previous snapshot and apply local edits of
+ * the interests file, so the pull can tell local changes from Notion ones
+ */
+const loadUserFields = async (
+  ctx: PipelineContext,
+  unifiedGames: UnifiedGame[],
+): Promise<void> => {
+  carryOverUserFields(unifiedGames, await loadPreviousGames(ctx));
+  if (ctx.config.notion.pullProperties.interest) {
+    const interests = await readInterests(ctx);
+    if (interests) {
+      applyInterestList(unifiedGames, interests.wantToPlay, interests.editedAt);
+    }
+  }
+};
+
+/**
+ * Write pulled interest flags of Game Pass games back to the interests file
+ */
+const saveInterests = async (
+  ctx: PipelineContext,
+  unifiedGames: UnifiedGame[],
+): Promise<void> => {
+  const wantToPlay = (await readInterests(ctx))?.wantToPlay ?? [];
+  const updated = updateInterestList(wantToPlay, unifiedGames);
+  if (updated.join('\n') === wantToPlay.join('\n')) return;
+
+  await fs.writeFile(
+    `${ctx.dataDir}/gamepass-interests.json`,
+    JSON.stringify({ wantToPlay: updated }, null, 2) + '\n',
+    'utf-8',
+  );
+  console.log(
+    `📝 Updated Game Pass interests from Notion (${updated.length} games)`,
+  );
+};
+
+/**
+ * Pull user fields from Notion (when enabled), then push unified games
+ */
+const notionStage = async (
+  ctx: PipelineContext,
+  unifiedGames: UnifiedGame[],
+  gamePassCatalogTitles?: Set<string>,
+): Promise<SyncStageResults['notion']> => {
+  const pullProperties = ctx.config.notion.pullProperties ?? {};
+  const pulling = Object.values(pullProperties).some(Boolean);
+  if (pulling) {
+    await loadUserFields(ctx, unifiedGames);
+  }
+
+  // The page body's sync history shows playtime recorded by earlier syncs
+  const playtimeHistory = ctx.config.notion.pageBody?.includes('history')
+    ? await loadPlaytimeHistory(`${ctx.dataDir}/playtime-history.jsonl`)
+    : undefined;
+
+  console.log('☁️  Syncing to Notion...');
+  const result = await ctx.notionClient.syncGames(unifiedGames, {
+    gamePassCatalogTitles,
+    signal: ctx.signal,
+    playtimeHistory,
+    plan: ctx.plan,
+  });
+
+  if (pullProperties.interest && !ctx.config.dryRun) {
+    await saveInterests(ctx, unifiedGames);
+  }
+  console.log('✅ Sync to Notion complete\n');
+  if (ctx.notionTargets.length === 0) return result;
+
+  // Targets sync after the pull, so their filters see the user fields.
+  // Games the filter drops are handled by the target's removal settings.
+  const targets: Record<string, NotionSyncResult> = {};
+  for (const { target, client } of ctx.notionTargets) {
+    ctx.signal?.throwIfAborted();
+    const games = unifiedGames.filter(game =>
+      matchesTargetFilter(game, target.filter),
+    );
+    console.log(
+      `☁️  Syncing ${games.length} games to Notion target "${target.name}"...`,
+    );
+    targets[target.name] = await client.syncGames(games, {
+      signal: ctx.signal,
+      plan: ctx.plan,
+    });
+    console.log(`✅ Sync to Notion target "${target.name}" complete\n`);
+  }
+  return { ...result, targets };
+};
+
+/**
+ * Save unified games and the Game Pass catalog to the local database
+ */
+const saveToDatabase = (
+  databasePath: string,
+  unifiedGames: UnifiedGame[],
+  fetched: SyncStageResults['fetch'],
+): void => {
+  const db = createLibraryDb(databasePath);
+  try {
+    db.saveGames(unifiedGames);
+    if (fetched.gamePassCatalog) {
+      const { added, removed } = db.recordCatalog(fetched.gamePassCatalog);
+      if (added.length || removed.length) {
+        console.log(
+          `📚 Game Pass catalog: ${added.length} added, ${removed.length} removed since last sync`,
+        );
+      }
+    }
+  } finally {
+    db.close();
+  }
+};
+
+/**
+ * Save local library snapshot (to the library database when enabled) and
+ * append playtime changes to the history
+ */
+const snapshotStage = async (
+  ctx: PipelineContext,
+  unifiedGames: UnifiedGame[],
+  fetched: SyncStageResults['fetch'],
+): Promise<SyncStageResults['snapshot']> => {
+  const database = ctx.config.database;
+  const snapshotPath = database?.enabled
+    ? database.path
+    : `${ctx.dataDir}/library.json`;
+  console.log('💾 Saving local library snapshot...');
+  if (database?.enabled) {
+    saveToDatabase(database.path, unifiedGames, fetched);
+  } else {
+    await saveLibrarySnapshot(unifiedGames, snapshotPath);
+  }
+  console.log(`✅ Saved to ${snapshotPath}`);
+
+  const historyPath = `${ctx.dataDir}/playtime-history.jsonl`;
+  const entries = await recordPlaytimeHistory(unifiedGames, historyPath);
+  console.log(
+    `📈 Recorded ${entries.length} playtime changes to ${historyPath}\n`,
+  );
+
+  return {
+    path: snapshotPath,
+    historyPath,
+    historyEntries: entries.length,
+  };
+};
+
+/**
+ * Generate Game Pass availability report
+ */
+const gamePassStage = async (
+  sourceGames: RawGameData[],
+  gamePassCatalog: GamePassGame[],
+): Promise<SyncStageResults['gamepass']> => {
+  console.log('📊 Processing Game Pass availability...');
+  const { unavailable, returned } = await processGamePassAvailability(
+    sourceGames,
+    gamePassCatalog,
+  );
+
+  if (returned.length > 0) {
+    console.log(
+      `🎉 ${returned.length} games returned to Game Pass: ${returned.join(
+        ', ',
+      )}`,
+    );
+  }
+
+  if (unavailable.length > 0) {
+    await saveUnavailableGames(unavailable);
+    console.log(
+      `⚠️  ${unavailable.length} games no longer available on Game Pass (see gamepass-unavailable.json)`,
+    );
+  } else {
+    console.log(`✅ All played/interest games are available`);
+  }
+
+  return { unavailable, returned };
+};
+
+/**
+ * Create a sync pipeline instance
+ * Library sources come from the given registry (built-in sources by default).
+ * Runs fetch → dedupe → suggestions → enrich → Notion → snapshot (not in a
+ * dry run) → Game Pass report, reporting each stage through the given
+ * callbacks. Pass an AbortSignal to cancel between stages and between batches.
+ */
+export const createSyncPipeline = (options: SyncPipelineOptions) => {
+  const { config, signal, onStageStart, onStageComplete } = options;
+  if (options.plan && !config.dryRun) {
+    throw new Error('A sync plan can only be made in a dry run');
+  }
+  const dataDir = options.dataDir ?? './data';
+  const cacheDir = options.cacheDir ?? '.cache';
+  const media = {
+    cover: config.notion.pageCover ?? false,
+    icon: config.notion.pageIcon ?? false,
+  };
+
+  const ctx: PipelineContext = {
+    config,
+    dataDir,
+    cacheDir,
+    signal,
+    onProgress: options.onProgress,
+    plan: options.plan,
+    sources: options.sources ?? createDefaultSourceRegistry(),
+    protonDbAdapter: createProtonDBAdapter(
+      `${cacheDir}/protondb`,
+      config.protondb.cacheDays,
+    ),
+    gamePassAdapter: createGamePassAdapter(
+      `${cacheDir}/gamepass`,
+      7, // Cache for 7 days
+    ),
+    notionClient: createNotionClient(
+      config.notion.apiKey,
+      config.notion.databaseId,
+      config.notion.titleProperty,
+      config.notion.syncProperties,
+      {
+        dryRun: config.dryRun,
+        propertyNames: config.notion.propertyNames,
+        pullProperties: config.notion.pullProperties,
+        pageIndexPath: `${cacheDir}/notion/page-index.json`,
+        removal: config.notion.removal,
+        removalStatePath: `${dataDir}/removed-games.json`,
+        pageBody: config.notion.pageBody,
+        pageBodyPath: `${cacheDir}/notion/page-bodies.json`,
+        media,
+        relationDatabases: config.notion.relationDatabases,
+      },
+    ),
+    notionTargets: (config.notion.targets ?? []).map(target => {
+      const slug = getTargetSlug(target.name);
+      return {
+        target,
+        client: createNotionClient(
+          config.notion.apiKey,
+          target.databaseId,
+          target.titleProperty,
+          target.syncProperties,
+          {
+            // User fields are pulled and the page body written for the
+            // main database only
+            dryRun: config.dryRun,
+            propertyNames: target.propertyNames,
+            pageIndexPath: `${cacheDir}/notion/targets/${slug}/page-index.json`,
+            removal: target.removal,
+            removalStatePath: `${dataDir}/removed-games.${slug}.json`,
+            media,
+            relationDatabases: config.notion.relationDatabases,
+          },
+        ),
+      };
+    }),
+  };
+
+  /**
+   * Run a single stage, wrapping it with cancellation checks and callbacks
+   */
+  const runStage = async <S extends SyncStage>(
+    stage: S,
+    execute: () => Promise<SyncStageResults[S]> | SyncStageResults[S],
+  ): Promise<SyncStageResults[S]> => {
+    signal?.throwIfAborted();
+    onStageStart?.(stage);
+    const result = await execute();
+    onStageComplete?.({ stage, result } as SyncStageCompleteEvent);
+    return result;
+  };
+
+  const run = async (): Promise<SyncPipelineResult> => {
+    const results: Partial<SyncStageResults> = {};
+
+    results.prepare = await runStage('prepare', () => prepareStage(ctx));
+
+    const fetched = await runStage('fetch', () => fetchStage(ctx));
+    results.fetch = fetched;
+
+    if (fetched.rawGames.length === 0) {
+      console.warn('⚠️  No games found from any source. Exiting.');
+      return { status: 'no-games', results };
+    }
+
+    console.log(`📊 Total raw games: ${fetched.rawGames.length}\n`);
+
+    const { unifiedGames } = (results.dedupe = await runStage('dedupe', () =>
+      dedupeStage(fetched.rawGames),
+    ));
+
+    results.suggestions = await runStage('suggestions', () =>
+      suggestionsStage(ctx, fetched.rawGames),
+    );
+
+    results.enrich = await runStage('enrich', () =>
+      enrichStage(ctx, unifiedGames),
+    );
+
+    results.notion = await runStage('notion', () =>
+      notionStage(ctx, unifiedGames, fetched.gamePassCatalogTitles),
+    );
+
+    // A dry run leaves the snapshot alone: its pulled user fields are the
+    // base the next sync merges Notion edits against
+    if (!config.dryRun) {
+      results.snapshot = await runStage('snapshot', () =>
+        snapshotStage(ctx, unifiedGames, fetched),
+      );
+    }
+
+    const { gamePassCatalog } = fetched;
+    if (gamePassCatalog) {
+      results.gamepass = await runStage('gamepass', () =>
+        gamePassStage(fetched.sourceGames, gamePassCatalog),
+      );
+    }
+
+    return { status: 'completed', results };
+  };
+
+  return {
+    run,
+  };
+};
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyInterestList,
+  carryOverUserFields,
+  updateInterestList,
+} from './user-fields';
+import type { Source, UnifiedGame } from '../types/game';
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+const makeGame = (
+  name: string,
+  ownedSources: Source[] = ['steam'],
+  overrides: Partial<UnifiedGame> = {},
+): UnifiedGame => ({
+  canonicalId: name.toLowerCase().replace(/[^a-z0-9]/g, '-'),
+  name,
+  primarySource: ownedSources[0],
+  ownedSources,
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-01'),
+  ...overrides,
+});
+
+const editedAt = new Date('2026-03-01T10:00:00Z');
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('user-fields', () => {
+  describe('carryOverUserFields', () => {
+    it('copies user fields and pull state by canonical ID', () => {
+      const game = makeGame('Hades');
+      const previous = makeGame('Hades', ['steam'], {
+        status: 'Playing',
+        rating: 5,
+        userFieldsEditedAt: editedAt,
+        notionUserFields: { status: 'Playing' },
+      });
+
+      carryOverUserFields([game], [previous]);
+
+      expect(game).toMatchObject({
+        status: 'Playing',
+        rating: 5,
+        userFieldsEditedAt: editedAt,
+        notionUserFields: { status: 'Playing' },
+      });
+    });
+
+    it('keeps values already set on the new game', () => {
+      const game = makeGame('Hades', ['steam'], { interest: 'none' });
+      const previous = makeGame('Hades', ['steam'], {
+        interest: 'want-to-play',
+      });
+
+      carryOverUserFields([game], [previous]);
+
+      expect(game.interest).toBe('none');
+    });
+  });
+
+  describe('applyInterestList', () => {
+    it('marks listed Game Pass games and clears dropped ones', () => {
+      const listed = makeGame('Starfield', ['gamepass']);
+      const dropped = makeGame('Hi-Fi RUSH', ['gamepass'], {
+        interest: 'want-to-play',
+      });
+      const steamGame = makeGame('Hades', ['steam'], {
+        interest: 'want-to-play',
+      });
+
+      applyInterestList([listed, dropped, steamGame], ['Starfield'], editedAt);
+
+      expect(listed.interest).toBe('want-to-play');
+      expect(listed.userFieldsEditedAt).toEqual(editedAt);
+      expect(dropped.interest).toBeUndefined();
+      expect(steamGame.interest).toBe('want-to-play');
+    });
+  });
+
+  describe('updateInterestList', () => {
+    it('adds and removes Game Pass games and keeps other entries', () => {
+      const games = [
+        makeGame('Starfield', ['gamepass'], { interest: 'want-to-play' }),
+        makeGame('Hi-Fi RUSH', ['gamepass']),
+        makeGame('Hades', ['steam'], { interest: 'want-to-play' }),
+      ];
+
+      expect(
+        updateInterestList(['Hi-Fi RUSH', 'TUNIC', 'starfield'], games),
+      ).toEqual(['TUNIC', 'starfield']);
+      expect(updateInterestList(['TUNIC'], games)).toEqual([
+        'TUNIC',
+        'Starfield',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { UnifiedGame, UserField, UserFieldsSchema } from '../types/game';
+import { normalizeGameName } from './normalize';
+
+const USER_FIELDS = UserFieldsSchema.keyof().options as UserField[];
+
+const touch = (game: UnifiedGame, editedAt: Date) => {
+  if (!game.userFieldsEditedAt || game.userFieldsEditedAt < editedAt) {
+    game.userFieldsEditedAt = editedAt;
+  }
+};
+
+/**
+ * Copy user fields and their pull state from the previous library snapshot
+ * (matched by canonical ID). Values already set on a game, e.g. by a
+ * property override, are kept.
+ */
+export const carryOverUserFields = (
+  games: UnifiedGame[],
+  previous: UnifiedGame[],
+): void => {
+  const previousById = new Map(previous.map(game => [game.canonicalId, game]));
+
+  for (const game of games) {
+    const before = previousById.get(game.canonicalId);
+    if (!before) continue;
+
+    for (const field of USER_FIELDS) {
+      if (game[field] === undefined && before[field] !== undefined) {
+        Object.assign(game, { [field]: before[field] });
+      }
+    }
+    game.userFieldsEditedAt ??= before.userFieldsEditedAt;
+    game.notionUserFields ??= before.notionUserFields;
+  }
+};
+
+/**
+ * Apply the Game Pass interests list to Game Pass games as local edits:
+ * listed games want to play, and a game dropped from the list loses its
+ * interest. editedAt (the file's modification time) is used when the
+ * change conflicts with one made in Notion.
+ */
+export const applyInterestList = (
+  games: UnifiedGame[],
+  wantToPlay: string[],
+  editedAt: Date,
+): void => {
+  const listed = new Set(wantToPlay.map(normalizeGameName));
+
+  for (const game of games) {
+    if (!game.ownedSources.includes('gamepass')) continue;
+
+    const wanted = listed.has(normalizeGameName(game.name));
+    if (wanted && game.interest !== 'want-to-play') {
+      game.interest = 'want-to-play';
+      touch(game, editedAt);
+    } else if (!wanted && game.interest === 'want-to-play') {
+      game.interest = undefined;
+      touch(game, editedAt);
+    }
+  }
+};
+
+/**
+ * Interests list after pulling: Game Pass games that want to play are added,
+ * Game Pass games that don't are removed, other entries are left alone
+ */
+export const updateInterestList = (
+  wantToPlay: string[],
+  games: UnifiedGame[],
+): string[] => {
+  const gamePassGames = games.filter(game =>
+    game.ownedSources.includes('gamepass'),
+  );
+  const wanted = new Map(
+    gamePassGames.map(game => [
+      normalizeGameName(game.name),
+      game.interest === 'want-to-play',
+    ]),
+  );
+
+  const list = wantToPlay.filter(
+    name => wanted.get(normalizeGameName(name)) !== false,
+  );
+  const listed = new Set(list.map(normalizeGameName));
+  for (const game of gamePassGames) {
+    const key = normalizeGameName(game.name);
+    if (game.interest === 'want-to-play' && !listed.has(key)) {
+      list.push(game.name);
+      listed.add(key);
+    }
+  }
+
+  return list;
+};
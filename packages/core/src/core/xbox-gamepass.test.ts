@@ -366,6 +366,26 @@ describe('xbox-gamepass', () => {
       expect(result).toHaveLength(1);
     });
 
+    it('carries the catalog box art over as the cover', async () => {
+      vi.mocked(fs.readFile).mockResolvedValue(
+        JSON.stringify({
+          wantToPlay: ['Starfield'],
+        }),
+      );
+
+      const catalog = [
+        {
+          ...createGamePassGame('Starfield'),
+          coverImageUrl: 'https://store-images.s-microsoft.com/starfield.jpg',
+        },
+      ];
+      const [game] = await getInterestGamesToSync(catalog, []);
+
+      expect(game.coverImageUrl).toBe(
+        'https://store-images.s-microsoft.com/starfield.jpg',
+      );
+    });
+
     it('excludes unavailable interest games', async () => {
       vi.mocked(fs.readFile).mockResolvedValue(
         JSON.stringify({
@@ -329,6 +329,7 @@ export const getInterestGamesToSync = async (
       source: 'gamepass',
       externalId: `gamepass-interest-${catalogGame.id}`,
       playtimeHours: wasPlayed ? undefined : 0,
+      coverImageUrl: catalogGame.coverImageUrl,
     });
   }
 
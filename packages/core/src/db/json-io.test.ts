@@ -0,0 +1,138 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import { createLibraryDb, LibraryDb } from './library-db';
+import { exportJsonFiles, importJsonFiles } from './json-io';
+
+// ── Hoisted mocks ──────────────────────────────────────────────────────────────
+
+const { files, mockReadFile, mockWriteFile } = vi.hoisted(() => {
+  const files = new Map<string, string>();
+  const enoent = () =>
+    Promise.reject(Object.assign(new Error('Not found'), { code: 'ENOENT' }));
+
+  return {
+    files,
+    mockReadFile: vi.fn((filePath: string) =>
+      files.has(filePath) ? Promise.resolve(files.get(filePath)) : enoent(),
+    ),
+    mockWriteFile: vi.fn((filePath: string, content: string) => {
+      files.set(filePath, content);
+      return Promise.resolve();
+    }),
+  };
+});
+
+vi.mock('fs/promises', () => ({
+  default: {
+    readFile: mockReadFile,
+    writeFile: mockWriteFile,
+    mkdir: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+// ── Fixtures ───────────────────────────────────────────────────────────────────
+
+const DATA_DIR = 'data';
+const CACHE_DIR = '.cache';
+
+const setFile = (filePath: string, data: unknown) =>
+  files.set(filePath, JSON.stringify(data));
+
+const readFile = (filePath: string) => JSON.parse(files.get(filePath)!);
+
+const seedFiles = () => {
+  setFile(path.join(DATA_DIR, 'library.json'), {
+    lastSynced: '2024-06-01T00:00:00.000Z',
+    gameCount: 1,
+    games: [
+      {
+        canonicalId: 'steam:620',
+        name: 'Portal 2',
+        primarySource: 'steam',
+        ownedSources: ['steam'],
+        lastPlayedAt: '2024-05-01T00:00:00.000Z',
+        createdAt: '2024-06-01T00:00:00.000Z',
+        updatedAt: '2024-06-01T00:00:00.000Z',
+      },
+    ],
+  });
+  setFile(path.join(CACHE_DIR, 'gamepass', 'gamepass-catalog.json'), {
+    lastUpdated: '2024-06-01T00:00:00.000Z',
+    games: [{ id: '1', title: 'Starfield', available: true }],
+  });
+};
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('json-io', () => {
+  let db: LibraryDb;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    files.clear();
+    db = createLibraryDb(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  it('imports the library snapshot and the Game Pass catalog', async () => {
+    seedFiles();
+
+    const summary = await importJsonFiles(db, {
+      dataDir: DATA_DIR,
+      cacheDir: CACHE_DIR,
+    });
+
+    expect(summary).toEqual({
+      'library.json': 1,
+      'gamepass-catalog.json': 1,
+    });
+    expect(db.getGame('steam:620')?.lastPlayedAt).toEqual(
+      new Date('2024-05-01T00:00:00.000Z'),
+    );
+    expect(db.getCatalogHistory()).toHaveLength(1);
+  });
+
+  it('skips files that do not exist', async () => {
+    const summary = await importJsonFiles(db, {
+      dataDir: DATA_DIR,
+      cacheDir: CACHE_DIR,
+    });
+
+    expect(summary).toEqual({});
+    expect(db.getGames()).toEqual([]);
+  });
+
+  it('fails on malformed JSON with the file path', async () => {
+    files.set(path.join(DATA_DIR, 'library.json'), '{ nope');
+
+    await expect(
+      importJsonFiles(db, { dataDir: DATA_DIR, cacheDir: CACHE_DIR }),
+    ).rejects.toThrow(path.join(DATA_DIR, 'library.json'));
+  });
+
+  it('exports the library snapshot it imported', async () => {
+    seedFiles();
+    await importJsonFiles(db, { dataDir: DATA_DIR, cacheDir: CACHE_DIR });
+    files.clear();
+
+    const summary = await exportJsonFiles(db, { dataDir: DATA_DIR });
+
+    expect(summary).toEqual({ 'library.json': 1 });
+    expect(readFile(path.join(DATA_DIR, 'library.json')).games[0]).toMatchObject(
+      { canonicalId: 'steam:620', lastPlayedAt: '2024-05-01T00:00:00.000Z' },
+    );
+  });
+
+  it('leaves the library snapshot alone when the database has no games', async () => {
+    seedFiles();
+    const before = files.get(path.join(DATA_DIR, 'library.json'));
+
+    const summary = await exportJsonFiles(db, { dataDir: DATA_DIR });
+
+    expect(summary).toEqual({});
+    expect(files.get(path.join(DATA_DIR, 'library.json'))).toBe(before);
+  });
+});
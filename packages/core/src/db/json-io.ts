@@ -0,0 +1,76 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { GamePassGame } from '../adapters/gamepass.adapter';
+import { LibrarySnapshot, saveLibrarySnapshot } from '../core/library';
+import { LibraryDb, reviveUnifiedGame } from './library-db';
+
+export type JsonIoOptions = {
+  dataDir?: string;
+  cacheDir?: string;
+};
+
+/**
+ * Number of records imported/exported per file
+ */
+export type JsonIoSummary = Record<string, number>;
+
+/**
+ * Read a JSON file, returning null when it doesn't exist
+ */
+const readJson = async <T>(filePath: string): Promise<T | null> => {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8')) as T;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+    throw new Error(`Failed to read ${filePath}: ${(error as Error).message}`);
+  }
+};
+
+/**
+ * Import data/library.json and the cached Game Pass catalog into the
+ * database. Missing files are skipped; the games are replaced.
+ */
+export const importJsonFiles = async (
+  db: LibraryDb,
+  { dataDir = './data', cacheDir = '.cache' }: JsonIoOptions = {},
+): Promise<JsonIoSummary> => {
+  const summary: JsonIoSummary = {};
+
+  const library = await readJson<LibrarySnapshot>(
+    path.join(dataDir, 'library.json'),
+  );
+  if (library) {
+    db.saveGames(library.games.map(game => reviveUnifiedGame(game)));
+    summary['library.json'] = library.games.length;
+  }
+
+  const catalog = await readJson<{ lastUpdated: string; games: GamePassGame[] }>(
+    path.join(cacheDir, 'gamepass', 'gamepass-catalog.json'),
+  );
+  if (catalog) {
+    db.recordCatalog(catalog.games, new Date(catalog.lastUpdated));
+    summary['gamepass-catalog.json'] = catalog.games.length;
+  }
+
+  return summary;
+};
+
+/**
+ * Write the games back out as data/library.json, for going back to the
+ * JSON snapshot. An empty database leaves the file alone.
+ */
+export const exportJsonFiles = async (
+  db: LibraryDb,
+  { dataDir = './data' }: JsonIoOptions = {},
+): Promise<JsonIoSummary> => {
+  await fs.mkdir(dataDir, { recursive: true });
+  const summary: JsonIoSummary = {};
+
+  const games = db.getGames();
+  if (games.length > 0) {
+    await saveLibrarySnapshot(games, path.join(dataDir, 'library.json'));
+    summary['library.json'] = games.length;
+  }
+
+  return summary;
+};
@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import Database from 'better-sqlite3';
+import { createLibraryDb, LibraryDb } from './library-db';
+import { runMigrations, Migration } from './migrations';
+import type { UnifiedGame } from '../types/game';
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+const makeGame = (
+  canonicalId: string,
+  overrides: Partial<UnifiedGame> = {},
+): UnifiedGame => ({
+  canonicalId,
+  name: canonicalId,
+  primarySource: 'steam',
+  ownedSources: ['steam'],
+  createdAt: new Date('2024-01-01T00:00:00Z'),
+  updatedAt: new Date('2024-01-02T00:00:00Z'),
+  ...overrides,
+});
+
+const catalogGame = (id: string, title: string) => ({
+  id,
+  title,
+  available: true,
+});
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('library-db', () => {
+  let db: LibraryDb;
+
+  beforeEach(() => {
+    db = createLibraryDb(':memory:');
+  });
+
+  afterEach(() => {
+    db.close();
+  });
+
+  describe('migrations', () => {
+    it('applies all migrations when opened', () => {
+      expect(db.getSchemaVersion()).toBe(1);
+    });
+
+    it('only applies pending migrations', () => {
+      const raw = new Database(':memory:');
+      const migrations: Migration[] = [
+        { version: 1, name: 'a', up: 'CREATE TABLE a (id INTEGER)' },
+      ];
+
+      expect(runMigrations(raw, migrations)).toEqual([1]);
+      expect(
+        runMigrations(raw, [
+          ...migrations,
+          { version: 2, name: 'b', up: 'CREATE TABLE b (id INTEGER)' },
+        ]),
+      ).toEqual([2]);
+      expect(runMigrations(raw, migrations)).toEqual([]);
+      raw.close();
+    });
+
+    it('rolls back a failing migration', () => {
+      const raw = new Database(':memory:');
+
+      expect(() =>
+        runMigrations(raw, [
+          {
+            version: 1,
+            name: 'broken',
+            up: 'CREATE TABLE a (id INTEGER); NOT SQL',
+          },
+        ]),
+      ).toThrow();
+      expect(
+        raw.prepare('SELECT COUNT(*) AS n FROM schema_migrations').get(),
+      ).toEqual({ n: 0 });
+      raw.close();
+    });
+  });
+
+  describe('games', () => {
+    it('round-trips unified games including dates', () => {
+      const lastPlayed = new Date('2024-06-01T10:00:00Z');
+      db.saveGames([
+        makeGame('steam:620', {
+          name: 'Portal 2',
+          lastPlayedAt: lastPlayed,
+          playtimeBySource: { steam: 12 },
+          lastPlayedBySource: { steam: lastPlayed },
+        }),
+      ]);
+
+      const game = db.getGame('steam:620');
+
+      expect(game?.name).toBe('Portal 2');
+      expect(game?.lastPlayedAt).toEqual(lastPlayed);
+      expect(game?.lastPlayedBySource?.steam).toEqual(lastPlayed);
+      expect(game?.createdAt).toBeInstanceOf(Date);
+    });
+
+    it('replaces the library on every save', () => {
+      db.saveGames([makeGame('a'), makeGame('b')]);
+      db.saveGames([makeGame('c')]);
+
+      expect(db.getGames().map(g => g.canonicalId)).toEqual(['c']);
+    });
+  });
+
+  describe('Game Pass catalog history', () => {
+    it('logs additions and removals between catalogs', () => {
+      db.recordCatalog(
+        [catalogGame('1', 'Starfield'), catalogGame('2', 'Hades')],
+        new Date('2024-06-01T00:00:00Z'),
+      );
+      const changes = db.recordCatalog(
+        [catalogGame('1', 'Starfield'), catalogGame('3', 'Celeste')],
+        new Date('2024-06-08T00:00:00Z'),
+      );
+
+      expect(changes).toEqual({ added: ['Celeste'], removed: ['Hades'] });
+      expect(db.getCatalog().map(g => g.title)).toEqual(['Celeste', 'Starfield']);
+      expect(db.getCatalogHistory('2').map(e => e.event)).toEqual([
+        'added',
+        'removed',
+      ]);
+    });
+
+    it('logs a game again when it returns to the catalog', () => {
+      db.recordCatalog([catalogGame('1', 'Hades')]);
+      db.recordCatalog([]);
+      const changes = db.recordCatalog([catalogGame('1', 'Hades')]);
+
+      expect(changes.added).toEqual(['Hades']);
+      expect(db.getCatalogHistory('1')).toHaveLength(3);
+    });
+  });
+});
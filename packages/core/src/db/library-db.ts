@@ -0,0 +1,221 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { UnifiedGame } from '../types/game';
+import { GamePassGame } from '../adapters/gamepass.adapter';
+import { runMigrations } from './migrations';
+
+export type CatalogEvent = {
+  gameId: string;
+  title: string;
+  event: 'added' | 'removed';
+  recordedAt: string;
+};
+
+export type CatalogChanges = {
+  added: string[];
+  removed: string[];
+};
+
+export const DEFAULT_DB_PATH = './data/gamekeeper.db';
+
+// Date fields that JSON.stringify turns into strings
+const UNIFIED_DATE_FIELDS = [
+  'lastPlayedAt',
+  'releaseDate',
+  'createdAt',
+  'updatedAt',
+  'userFieldsEditedAt',
+] as const;
+
+const toDate = (value: unknown) =>
+  typeof value === 'string' ? new Date(value) : value;
+
+/**
+ * Turn a stored/exported unified game back into one with Date fields
+ */
+export const reviveUnifiedGame = (
+  data: Record<string, unknown>,
+): UnifiedGame => {
+  const game = { ...data };
+  for (const field of UNIFIED_DATE_FIELDS) {
+    if (game[field]) game[field] = toDate(game[field]);
+  }
+  const { lastPlayedBySource } = game;
+  if (lastPlayedBySource && typeof lastPlayedBySource === 'object') {
+    game.lastPlayedBySource = Object.fromEntries(
+      Object.entries(lastPlayedBySource).map(([source, date]) => [
+        source,
+        toDate(date),
+      ]),
+    );
+  }
+  return game as UnifiedGame;
+};
+
+/**
+ * Create the local library database (SQLite): the games of the last sync,
+ * in place of data/library.json, and the Game Pass catalog history.
+ * Opens (or creates) the file and applies pending migrations.
+ */
+export const createLibraryDb = (filePath: string = DEFAULT_DB_PATH) => {
+  if (filePath !== ':memory:') {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  const db = new Database(filePath);
+  db.pragma('journal_mode = WAL');
+  db.pragma('foreign_keys = ON');
+  runMigrations(db);
+
+  // ── Unified games ─────────────────────────────────────────────────────────
+
+  /**
+   * Replace the unified library with the result of the latest sync
+   */
+  const saveGames = (games: UnifiedGame[]): void => {
+    const insert = db.prepare(`
+      INSERT INTO games (canonical_id, name, primary_source, steam_app_id,
+        playtime_hours, last_played_at, data, updated_at)
+      VALUES (@canonicalId, @name, @primarySource, @steamAppId,
+        @playtimeHours, @lastPlayedAt, @data, @updatedAt)
+    `);
+
+    db.transaction(() => {
+      db.prepare('DELETE FROM games').run();
+      for (const game of games) {
+        insert.run({
+          canonicalId: game.canonicalId,
+          name: game.name,
+          primarySource: game.primarySource,
+          steamAppId: game.steamAppId ?? null,
+          playtimeHours: game.playtimeHours ?? null,
+          lastPlayedAt: game.lastPlayedAt?.toISOString() ?? null,
+          data: JSON.stringify(game),
+          updatedAt: game.updatedAt.toISOString(),
+        });
+      }
+    })();
+  };
+
+  const getGames = (): UnifiedGame[] =>
+    db
+      .prepare('SELECT data FROM games ORDER BY name COLLATE NOCASE')
+      .all()
+      .map(row => reviveUnifiedGame(JSON.parse((row as { data: string }).data)));
+
+  const getGame = (canonicalId: string): UnifiedGame | null => {
+    const row = db
+      .prepare('SELECT data FROM games WHERE canonical_id = ?')
+      .get(canonicalId) as { data: string } | undefined;
+    return row ? reviveUnifiedGame(JSON.parse(row.data)) : null;
+  };
+
+  // ── Game Pass catalog history ─────────────────────────────────────────────
+
+  /**
+   * Store the current catalog and log which games were added or removed
+   * since the previous one
+   */
+  const recordCatalog = (
+    catalog: GamePassGame[],
+    recordedAt: Date = new Date(),
+  ): CatalogChanges => {
+    const now = recordedAt.toISOString();
+    const changes: CatalogChanges = { added: [], removed: [] };
+
+    const current = db
+      .prepare('SELECT id, title, removed_at FROM gamepass_catalog')
+      .all() as Array<{ id: string; title: string; removed_at: string | null }>;
+    const currentById = new Map(current.map(row => [row.id, row]));
+    const catalogIds = new Set(catalog.map(game => game.id));
+
+    const upsert = db.prepare(`
+      INSERT INTO gamepass_catalog (id, title, data, first_seen_at, last_seen_at, removed_at)
+      VALUES (@id, @title, @data, @now, @now, NULL)
+      ON CONFLICT (id) DO UPDATE SET
+        title = excluded.title,
+        data = excluded.data,
+        last_seen_at = excluded.last_seen_at,
+        removed_at = NULL
+    `);
+    const markRemoved = db.prepare(
+      'UPDATE gamepass_catalog SET removed_at = ? WHERE id = ?',
+    );
+    const logEvent = db.prepare(`
+      INSERT INTO gamepass_catalog_events (game_id, title, event, recorded_at)
+      VALUES (?, ?, ?, ?)
+    `);
+
+    db.transaction(() => {
+      for (const game of catalog) {
+        const existing = currentById.get(game.id);
+        if (!existing || existing.removed_at) {
+          logEvent.run(game.id, game.title, 'added', now);
+          changes.added.push(game.title);
+        }
+        upsert.run({
+          id: game.id,
+          title: game.title,
+          data: JSON.stringify(game),
+          now,
+        });
+      }
+
+      for (const row of current) {
+        if (row.removed_at || catalogIds.has(row.id)) continue;
+        markRemoved.run(now, row.id);
+        logEvent.run(row.id, row.title, 'removed', now);
+        changes.removed.push(row.title);
+      }
+    })();
+
+    return changes;
+  };
+
+  /**
+   * Games currently in the catalog (not removed)
+   */
+  const getCatalog = (): GamePassGame[] =>
+    db
+      .prepare(
+        'SELECT data FROM gamepass_catalog WHERE removed_at IS NULL ORDER BY title',
+      )
+      .all()
+      .map(row => JSON.parse((row as { data: string }).data));
+
+  const getCatalogHistory = (gameId?: string): CatalogEvent[] => {
+    const sql = `
+      SELECT game_id AS gameId, title, event, recorded_at AS recordedAt
+      FROM gamepass_catalog_events
+      ${gameId ? 'WHERE game_id = ?' : ''}
+      ORDER BY id
+    `;
+    const statement = db.prepare(sql);
+    return (gameId ? statement.all(gameId) : statement.all()) as CatalogEvent[];
+  };
+
+  const getSchemaVersion = (): number =>
+    (
+      db
+        .prepare('SELECT MAX(version) AS version FROM schema_migrations')
+        .get() as { version: number | null }
+    ).version ?? 0;
+
+  const close = (): void => {
+    db.close();
+  };
+
+  return {
+    saveGames,
+    getGames,
+    getGame,
+    recordCatalog,
+    getCatalog,
+    getCatalogHistory,
+    getSchemaVersion,
+    close,
+  };
+};
+
+export type LibraryDb = ReturnType<typeof createLibraryDb>;
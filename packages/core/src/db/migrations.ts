@@ -0,0 +1,88 @@
+import type Database from 'better-sqlite3';
+
+/**
+ * Schema migration, applied once in version order
+ */
+export type Migration = {
+  version: number;
+  name: string;
+  up: string;
+};
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'initial',
+    up: `
+      CREATE TABLE games (
+        canonical_id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        primary_source TEXT NOT NULL,
+        steam_app_id INTEGER,
+        playtime_hours REAL,
+        last_played_at TEXT,
+        data TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      );
+      CREATE INDEX games_steam_app_id ON games (steam_app_id);
+
+      CREATE TABLE gamepass_catalog (
+        id TEXT PRIMARY KEY,
+        title TEXT NOT NULL,
+        data TEXT NOT NULL,
+        first_seen_at TEXT NOT NULL,
+        last_seen_at TEXT NOT NULL,
+        removed_at TEXT
+      );
+
+      -- event: 'added' | 'removed'
+      CREATE TABLE gamepass_catalog_events (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        game_id TEXT NOT NULL,
+        title TEXT NOT NULL,
+        event TEXT NOT NULL,
+        recorded_at TEXT NOT NULL
+      );
+      CREATE INDEX gamepass_catalog_events_game ON gamepass_catalog_events (game_id);
+    `,
+  },
+];
+
+/**
+ * Apply pending migrations inside a transaction each.
+ * Returns the versions that were applied.
+ */
+export const runMigrations = (
+  db: Database.Database,
+  migrations: Migration[] = MIGRATIONS,
+): number[] => {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+
+  const applied = new Set(
+    db
+      .prepare('SELECT version FROM schema_migrations')
+      .all()
+      .map(row => (row as { version: number }).version),
+  );
+
+  const pending = [...migrations]
+    .sort((a, b) => a.version - b.version)
+    .filter(m => !applied.has(m.version));
+
+  for (const migration of pending) {
+    db.transaction(() => {
+      db.exec(migration.up);
+      db.prepare(
+        'INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)',
+      ).run(migration.version, migration.name, new Date().toISOString());
+    })();
+  }
+
+  return pending.map(m => m.version);
+};
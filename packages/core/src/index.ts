@@ -1,17 +1,51 @@
 export { loadConfig } from './config';
 export { steamAdapter } from './adapters/steam.adapter';
+export { steamLocalAdapter } from './adapters/steam-local.adapter';
 export { playniteAdapter } from './adapters/playnite.adapter';
 export { heroicAdapter } from './adapters/heroic.adapter';
 export { createProtonDBAdapter } from './adapters/protondb.adapter';
 export { createGamePassAdapter } from './adapters/gamepass.adapter';
 export { igdbAdapter } from './adapters/igdb.adapter';
 export { createNotionClient } from './notion/notion.client';
+export {
+  createSyncPlan,
+  loadSyncPlan,
+  saveSyncPlan,
+  summarizeSyncPlan,
+} from './notion/sync-plan';
+export {
+  getExpectedProperties,
+  diffSchema,
+  resolvePropertyNames,
+  NOTION_PROPERTIES,
+} from './notion/notion.schema';
 export { processRawGames } from './core/deduplicate';
-export { loadOverrides } from './core/overrides';
-export { normalizeGameName, calculateNameSimilarity, wordSortedKey } from './core/normalize';
+export { loadOverrides, parseOverrides } from './core/overrides';
+export {
+  GameOverridesSchema,
+  buildOverridesJsonSchema,
+} from './types/overrides';
+export type {
+  GameOverrides,
+  ForceMergeRule,
+  ForceSeparateRule,
+  PropertyOverride,
+} from './types/overrides';
+export {
+  normalizeGameName,
+  calculateNameSimilarity,
+  calculateJaroWinklerSimilarity,
+  wordSortedKey,
+} from './core/normalize';
 export {
   generateMergeSuggestions,
   saveMergeSuggestions,
+  NAME_SIMILARITY_SCORERS,
+} from './core/suggestions';
+export type {
+  MergeSuggestion,
+  MergeSuggestionOptions,
+  NameSimilarityScorer,
 } from './core/suggestions';
 export {
   loadOwnedXboxGames,
@@ -21,4 +55,79 @@ export {
   shouldSyncToNotion,
   resolveXboxSource,
 } from './core/xbox-gamepass';
-export type { RawGameData, UnifiedGame, Source, Config } from './types/game';
+export { saveLibrarySnapshot, getSourceBreakdown } from './core/library';
+export {
+  loadPlaytimeHistory,
+  recordPlaytimeHistory,
+  getPlaytimeByPeriod,
+  getDailyPlaytime,
+  getWeeklyPlaytime,
+  getMonthlyPlaytime,
+} from './core/playtime-history';
+export type {
+  PlaytimeHistoryEntry,
+  PlaytimeBucket,
+  PlaytimeQuery,
+  HistoryPeriod,
+} from './core/playtime-history';
+export { createLibraryDb, DEFAULT_DB_PATH } from './db/library-db';
+export type {
+  LibraryDb,
+  CatalogEvent,
+  CatalogChanges,
+} from './db/library-db';
+export { runMigrations, MIGRATIONS } from './db/migrations';
+export type { Migration } from './db/migrations';
+export { importJsonFiles, exportJsonFiles } from './db/json-io';
+export type { JsonIoOptions, JsonIoSummary } from './db/json-io';
+export { createSyncPipeline, SYNC_STAGES } from './core/sync-pipeline';
+export {
+  parseSyncArgs,
+  DEFAULT_PLAN_PATH,
+  SYNC_USAGE,
+} from './core/sync-command';
+export type { SyncCommand } from './core/sync-command';
+export type {
+  SyncStage,
+  SyncStageResults,
+  SyncStageCompleteEvent,
+  SyncProgressEvent,
+  SyncPipelineOptions,
+  SyncPipelineResult,
+} from './core/sync-pipeline';
+export { createSourceRegistry } from './sources/library-source';
+export { createDefaultSourceRegistry } from './sources/registry';
+export type {
+  LibrarySource,
+  LibrarySourceContext,
+  SourceHealth,
+  SourceHealthReport,
+  SourceFetchResult,
+  SourceRegistry,
+} from './sources/library-source';
+export type {
+  NotionClientOptions,
+  SyncGamesOptions,
+  NotionSyncResult,
+} from './notion/notion.client';
+export type {
+  PropertyChange,
+  SyncPlan,
+  SyncPlanOperation,
+  SyncPlanResult,
+  SyncPlanState,
+} from './notion/sync-plan';
+export type {
+  ExpectedProperty,
+  SchemaDrift,
+  SchemaCheckResult,
+  NotionField,
+  NotionPropertyNames,
+} from './notion/notion.schema';
+export type {
+  RawGameData,
+  UnifiedGame,
+  UserFields,
+  Source,
+  Config,
+} from './types/game';
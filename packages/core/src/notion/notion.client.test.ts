@@ -1,26 +1,61 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { createNotionClient } from './notion.client';
+import type { NotionRemoval } from '../types/game';
+import type { RelationDatabases } from './notion.schema';
+import type { SyncPlan } from './sync-plan';
 
 // ── Hoisted mocks (must be defined before vi.mock calls) ──────────────────────
 
-const { mockCreate, mockUpdate, mockQuery, mockRetrieve } = vi.hoisted(() => ({
+const {
+  mockCreate,
+  mockUpdate,
+  mockQuery,
+  mockRetrieve,
+  mockPageRetrieve,
+  mockBlockList,
+  mockBlockAppend,
+  mockReadFile,
+  mockWriteFile,
+} = vi.hoisted(() => ({
   mockCreate: vi.fn().mockResolvedValue({}),
   mockUpdate: vi.fn().mockResolvedValue({}),
   mockQuery: vi.fn(),
   mockRetrieve: vi.fn().mockResolvedValue({}),
+  mockPageRetrieve: vi.fn(),
+  mockBlockList: vi.fn(),
+  mockBlockAppend: vi.fn().mockResolvedValue({}),
+  mockReadFile: vi.fn(),
+  mockWriteFile: vi.fn().mockResolvedValue(undefined),
 }));
 
 // ── Module mocks ───────────────────────────────────────────────────────────────
 
-vi.mock('@notionhq/client', () => ({
+vi.mock('@notionhq/client', async importOriginal => ({
+  ...(await importOriginal<typeof import('@notionhq/client')>()),
   Client: vi.fn().mockImplementation(function () {
     return {
-      pages: { create: mockCreate, update: mockUpdate },
+      pages: {
+        create: mockCreate,
+        update: mockUpdate,
+        retrieve: mockPageRetrieve,
+      },
       databases: { query: mockQuery, retrieve: mockRetrieve },
+      blocks: {
+        children: { list: mockBlockList, append: mockBlockAppend },
+        delete: vi.fn().mockResolvedValue({}),
+      },
     };
   }),
 }));
 
+vi.mock('fs/promises', () => ({
+  default: {
+    readFile: mockReadFile,
+    writeFile: mockWriteFile,
+    mkdir: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
 vi.mock('../config', () => ({
   getConfig: () => ({ logLevel: 'info' }),
 }));
@@ -83,6 +118,21 @@ const mockQueryResponse = (pages: ReturnType<typeof makeNotionPage>[]) => {
   });
 };
 
+/**
+ * Answer the incremental query with the edited pages and the title-only
+ * listing of live pages with the live ones
+ */
+const mockIndexedQueryResponse = (
+  edited: ReturnType<typeof makeNotionPage>[],
+  live: ReturnType<typeof makeNotionPage>[],
+) => {
+  mockQuery.mockImplementation(async args => ({
+    results: args.filter_properties ? live : edited,
+    next_cursor: null,
+    has_more: false,
+  }));
+};
+
 const syncProperties = {
   canonicalId: true,
   primarySource: true,
@@ -94,13 +144,20 @@ const syncProperties = {
   steamDeck: true,
   coverImage: true,
   libraryStatus: true,
+  installed: false,
+  installSize: false,
+  playtimeBySource: false,
+  franchise: false,
+  platform: false,
 };
 
 const makeClient = () =>
   createNotionClient('fake-key', 'fake-db', 'Name', syncProperties);
 
 const makeDryRunClient = () =>
-  createNotionClient('fake-key', 'fake-db', 'Name', syncProperties, true);
+  createNotionClient('fake-key', 'fake-db', 'Name', syncProperties, {
+    dryRun: true,
+  });
 
 const makeUnifiedGame = (
   name: string,
@@ -126,8 +183,8 @@ describe('notion.client - markRemovedGames', () => {
   it('does NOT mark a page removed when game is removed from interests but still in Game Pass catalog', async () => {
     mockQueryResponse([makeNotionPage('Starfield')]);
 
-    const catalogTitles = new Set(['starfield']); // still in catalog
-    await makeClient().syncGames([], catalogTitles); // not in sync (removed from interests)
+    const gamePassCatalogTitles = new Set(['starfield']); // still in catalog
+    await makeClient().syncGames([], { gamePassCatalogTitles }); // not in sync (removed from interests)
 
     const removedCalls = mockUpdate.mock.calls.filter(
       (args: any[]) =>
@@ -139,8 +196,8 @@ describe('notion.client - markRemovedGames', () => {
   it('marks a page removed when game left the Game Pass catalog', async () => {
     mockQueryResponse([makeNotionPage('Starfield')]);
 
-    const catalogTitles = new Set<string>(); // game not in catalog
-    await makeClient().syncGames([], catalogTitles);
+    const gamePassCatalogTitles = new Set<string>(); // game not in catalog
+    await makeClient().syncGames([], { gamePassCatalogTitles });
 
     const removedCalls = mockUpdate.mock.calls.filter(
       (args: any[]) =>
@@ -153,8 +210,8 @@ describe('notion.client - markRemovedGames', () => {
   it('clears removed status when a previously-removed game returns to the Game Pass catalog', async () => {
     mockQueryResponse([makeNotionPage('Starfield', '⚠️ Removed')]);
 
-    const catalogTitles = new Set(['starfield']); // game back in catalog
-    await makeClient().syncGames([], catalogTitles);
+    const gamePassCatalogTitles = new Set(['starfield']); // game back in catalog
+    await makeClient().syncGames([], { gamePassCatalogTitles });
 
     const clearCalls = mockUpdate.mock.calls.filter(
       (args: any[]) => args[0]?.properties?.['Library Status']?.select === null,
@@ -166,7 +223,7 @@ describe('notion.client - markRemovedGames', () => {
   it('marks a page removed when no Game Pass catalog is provided (fallback to original behaviour)', async () => {
     mockQueryResponse([makeNotionPage('Starfield')]);
 
-    await makeClient().syncGames([], undefined); // no catalog info
+    await makeClient().syncGames([]); // no catalog info
 
     const removedCalls = mockUpdate.mock.calls.filter(
       (args: any[]) =>
@@ -179,8 +236,8 @@ describe('notion.client - markRemovedGames', () => {
     // Notion page title has trademark symbol; catalog Set uses normalized form
     mockQueryResponse([makeNotionPage('Hi-Fi RUSH™')]);
 
-    const catalogTitles = new Set(['hi fi rush']); // normalized form
-    await makeClient().syncGames([], catalogTitles);
+    const gamePassCatalogTitles = new Set(['hi fi rush']); // normalized form
+    await makeClient().syncGames([], { gamePassCatalogTitles });
 
     const removedCalls = mockUpdate.mock.calls.filter(
       (args: any[]) =>
@@ -227,7 +284,9 @@ describe('notion.client - dry-run mode', () => {
     mockQueryResponse([makeNotionPage('Starfield')]); // exists in Notion
 
     // Sync with empty list — Starfield is no longer in the library
-    await makeDryRunClient().syncGames([], new Set());
+    await makeDryRunClient().syncGames([], {
+      gamePassCatalogTitles: new Set(),
+    });
 
     expect(mockUpdate).not.toHaveBeenCalled();
   });
@@ -235,8 +294,8 @@ describe('notion.client - dry-run mode', () => {
   it('does not restore the status of a Game Pass game that returned to the catalog', async () => {
     mockQueryResponse([makeNotionPage('Starfield', '⚠️ Removed')]);
 
-    const catalogTitles = new Set(['starfield']); // back in catalog
-    await makeDryRunClient().syncGames([], catalogTitles);
+    const gamePassCatalogTitles = new Set(['starfield']); // back in catalog
+    await makeDryRunClient().syncGames([], { gamePassCatalogTitles });
 
     expect(mockUpdate).not.toHaveBeenCalled();
   });
@@ -332,3 +391,914 @@ describe('notion.client - title normalisation in lookup', () => {
     expect(removedCalls).toHaveLength(0);
   });
 });
+
+// ── Optional property tests ────────────────────────────────────────────────────
+
+describe('notion.client - per-store playtime', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('writes the per-store breakdown when enabled, most played first', async () => {
+    mockQueryResponse([]);
+
+    const client = createNotionClient('fake-key', 'fake-db', 'Name', {
+      ...syncProperties,
+      playtimeBySource: true,
+    });
+    await client.syncGames([
+      makeUnifiedGame('Hades', {
+        playtimeHours: 15.25,
+        playtimeBySource: { epic: 3.25, steam: 12 },
+      }),
+    ]);
+
+    const { properties } = mockCreate.mock.calls[0][0];
+    expect(properties['Playtime (hours)']).toEqual({ number: 15.3 });
+    expect(properties['Playtime by Store']).toEqual({
+      rich_text: [{ text: { content: 'Steam: 12h · Epic Games: 3.3h' } }],
+    });
+  });
+
+  it('leaves the property out when disabled', async () => {
+    mockQueryResponse([]);
+
+    await makeClient().syncGames([
+      makeUnifiedGame('Hades', { playtimeBySource: { steam: 12 } }),
+    ]);
+
+    const { properties } = mockCreate.mock.calls[0][0];
+    expect(properties).not.toHaveProperty('Playtime by Store');
+  });
+});
+
+// ── Property name mapping ──────────────────────────────────────────────────────
+
+describe('notion.client - property name mapping', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const propertyNames = {
+    canonicalId: 'ID',
+    playtime: 'Hours',
+    libraryStatus: 'Status',
+  };
+
+  const makeMappedClient = () =>
+    createNotionClient('fake-key', 'fake-db', 'Game', syncProperties, {
+      propertyNames,
+    });
+
+  /**
+   * makeNotionPage with the mapped property names
+   */
+  const makeMappedPage = (title: string, libraryStatus?: string) => {
+    const {
+      Name,
+      'Canonical ID': canonicalId,
+      'Playtime (hours)': playtime,
+      'Library Status': status,
+      ...rest
+    } = makeNotionPage(title, libraryStatus).properties;
+    return {
+      id: `page-${title.toLowerCase()}`,
+      properties: {
+        ...rest,
+        Game: Name,
+        ID: canonicalId,
+        Hours: playtime,
+        Status: status,
+      },
+    };
+  };
+
+  it('writes properties under the mapped names', async () => {
+    mockQueryResponse([]);
+
+    await makeMappedClient().syncGames([makeUnifiedGame('Hades')]);
+
+    const { properties } = mockCreate.mock.calls[0][0];
+    expect(properties.Game).toEqual({
+      title: [{ text: { content: 'Hades' } }],
+    });
+    expect(properties.ID).toEqual({
+      rich_text: [{ text: { content: 'hades' } }],
+    });
+    expect(properties.Hours).toEqual({ number: 10 });
+    expect(properties).toHaveProperty('Owned On');
+    expect(properties).not.toHaveProperty('Name');
+    expect(properties).not.toHaveProperty('Playtime (hours)');
+    expect(properties).not.toHaveProperty('Library Status');
+  });
+
+  it('reads existing pages and detects changes through the mapped names', async () => {
+    const page = makeMappedPage('Hades');
+    page.properties.ID = { rich_text: [{ text: { content: 'hades' } }] };
+    page.properties.Hours = { number: 4 };
+    mockQueryResponse([page]);
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+    const dryRun = createNotionClient(
+      'fake-key',
+      'fake-db',
+      'Game',
+      syncProperties,
+      { dryRun: true, propertyNames },
+    );
+    const result = await dryRun.syncGames([makeUnifiedGame('Hades')]);
+
+    expect(result.updated).toBe(1);
+    expect(result.created).toBe(0);
+    expect(log.mock.calls.flat().join('\n')).toMatch(
+      /\[UPDATE\] Hades → .*Hours/,
+    );
+    log.mockRestore();
+  });
+
+  it('marks removed games using the mapped status property', async () => {
+    mockQueryResponse([makeMappedPage('Old Game')]);
+
+    await makeMappedClient().syncGames([]);
+
+    expect(mockUpdate).toHaveBeenCalledWith({
+      page_id: 'page-old game',
+      properties: { Status: { select: { name: '⚠️ Removed' } } },
+    });
+  });
+});
+
+// ── Pull phase ─────────────────────────────────────────────────────────────────
+
+describe('notion.client - pulling user fields', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  const pullProperties = { status: true, rating: true };
+
+  const makePullClient = () =>
+    createNotionClient('fake-key', 'fake-db', 'Name', syncProperties, {
+      pullProperties,
+    });
+
+  it('stores user fields from the page on the game', async () => {
+    const page = makeNotionPage('Hades');
+    Object.assign(page, { last_edited_time: '2026-03-01T10:00:00.000Z' });
+    page.properties.Status = { select: { name: 'Playing' } };
+    page.properties.Rating = { number: 5 };
+    mockQueryResponse([page]);
+    const game = makeUnifiedGame('Hades');
+
+    const result = await makePullClient().syncGames([game]);
+
+    expect(game).toMatchObject({
+      status: 'Playing',
+      rating: 5,
+      userFieldsEditedAt: new Date('2026-03-01T10:00:00.000Z'),
+      notionUserFields: { status: 'Playing', rating: 5 },
+    });
+    expect(result.pulled).toBe(1);
+  });
+
+  it('never writes pulled properties when pushing', async () => {
+    mockQueryResponse([makeNotionPage('Hades')]);
+
+    await makePullClient().syncGames([
+      makeUnifiedGame('Hades', { status: 'Finished', rating: 2 }),
+    ]);
+
+    const { properties } = mockUpdate.mock.calls[0][0];
+    expect(properties).not.toHaveProperty('Status');
+    expect(properties).not.toHaveProperty('Rating');
+  });
+
+  it('refuses a pulled property that push would overwrite', () => {
+    expect(() =>
+      createNotionClient('fake-key', 'fake-db', 'Name', syncProperties, {
+        propertyNames: { rating: 'Playtime (hours)' },
+        pullProperties,
+      }),
+    ).toThrow(/Playtime \(hours\)/);
+  });
+});
+
+// ── Failed writes ──────────────────────────────────────────────────────────────
+
+describe('notion.client - failed writes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('retries a failed game at the end of the run', async () => {
+    mockQueryResponse([]);
+    mockCreate.mockRejectedValueOnce(new Error('Bad Gateway'));
+
+    const result = await makeClient().syncGames([
+      makeUnifiedGame('Hades'),
+      makeUnifiedGame('Celeste'),
+    ]);
+
+    expect(mockCreate).toHaveBeenCalledTimes(3);
+    expect(mockCreate.mock.calls[2][0].properties.Name).toEqual(
+      mockCreate.mock.calls[0][0].properties.Name,
+    );
+    expect(result).toMatchObject({ created: 2, errors: 0 });
+  });
+
+  it('counts a game as an error only when the retry fails too', async () => {
+    mockQueryResponse([]);
+    mockCreate
+      .mockRejectedValueOnce(new Error('Bad Gateway'))
+      .mockRejectedValueOnce(new Error('Bad Gateway'));
+
+    const result = await makeClient().syncGames([makeUnifiedGame('Hades')]);
+
+    expect(mockCreate).toHaveBeenCalledTimes(2);
+    expect(result).toMatchObject({ created: 0, errors: 1 });
+  });
+
+  it('retries a failed removal at the end of the run', async () => {
+    mockQueryResponse([makeNotionPage('Starfield')]);
+    mockUpdate.mockRejectedValueOnce(new Error('Bad Gateway'));
+
+    const result = await makeClient().syncGames([]);
+
+    expect(mockUpdate).toHaveBeenCalledTimes(2);
+    expect(result.removed).toBe(1);
+  });
+});
+
+// ── Page index ─────────────────────────────────────────────────────────────────
+
+describe('notion.client - page index', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockReadFile.mockRejectedValue(
+      Object.assign(new Error('Not found'), { code: 'ENOENT' }),
+    );
+  });
+
+  const indexPath = '.cache/notion/page-index.json';
+
+  const makeIndexedClient = (dryRun = false) =>
+    createNotionClient('fake-key', 'fake-db', 'Name', syncProperties, {
+      dryRun,
+      pageIndexPath: indexPath,
+    });
+
+  // Page whose properties match what makeUnifiedGame('Hades') writes
+  const makeSyncedPage = () => {
+    const page = makeNotionPage('Hades');
+    Object.assign(page.properties, {
+      'Canonical ID': { rich_text: [{ text: { content: 'hades' } }] },
+      'Primary Source': { select: { name: 'Steam' } },
+      'Owned On': { multi_select: [{ name: 'Steam' }] },
+      'Playtime (hours)': { number: 10 },
+    });
+    return page;
+  };
+
+  /**
+   * Run a full sync and return the index it saved
+   */
+  const buildIndex = async () => {
+    mockQueryResponse([makeSyncedPage()]);
+    await makeIndexedClient().syncGames([makeUnifiedGame('Hades')]);
+    const [, json] = mockWriteFile.mock.calls[0];
+    vi.clearAllMocks();
+    return json as string;
+  };
+
+  it('fetches every page and saves the index when there is none', async () => {
+    const index = JSON.parse(await buildIndex());
+
+    expect(index.pages['page-hades']).toMatchObject({
+      title: 'Hades',
+      canonicalId: 'hades',
+    });
+  });
+
+  it('only queries pages edited since the last sync', async () => {
+    mockReadFile.mockResolvedValue(await buildIndex());
+    mockIndexedQueryResponse([], [makeSyncedPage()]);
+
+    const result = await makeIndexedClient().syncGames([
+      makeUnifiedGame('Hades'),
+    ]);
+
+    expect(mockQuery.mock.calls[0][0].filter).toMatchObject({
+      timestamp: 'last_edited_time',
+    });
+    expect(mockUpdate).not.toHaveBeenCalled();
+    expect(mockCreate).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ skipped: 1, removed: 0 });
+  });
+
+  it('updates an indexed page when the property hash changed', async () => {
+    mockReadFile.mockResolvedValue(await buildIndex());
+    mockIndexedQueryResponse([], [makeSyncedPage()]);
+
+    const result = await makeIndexedClient().syncGames([
+      makeUnifiedGame('Hades', { playtimeHours: 25 }),
+    ]);
+
+    expect(mockUpdate).toHaveBeenCalledTimes(1);
+    expect(mockUpdate.mock.calls[0][0].page_id).toBe('page-hades');
+    expect(result.updated).toBe(1);
+  });
+
+  it('marks indexed pages missing from the library as removed', async () => {
+    mockReadFile.mockResolvedValue(await buildIndex());
+    mockIndexedQueryResponse([], [makeSyncedPage()]);
+
+    const result = await makeIndexedClient().syncGames([]);
+
+    expect(mockUpdate).toHaveBeenCalledWith({
+      page_id: 'page-hades',
+      properties: { 'Library Status': { select: { name: '⚠️ Removed' } } },
+    });
+    expect(result.removed).toBe(1);
+  });
+
+  it('creates the game again when its indexed page was deleted', async () => {
+    mockReadFile.mockResolvedValue(await buildIndex());
+    mockIndexedQueryResponse([], []);
+
+    const result = await makeIndexedClient().syncGames([
+      makeUnifiedGame('Hades'),
+    ]);
+
+    expect(mockQuery.mock.calls[1][0].filter_properties).toEqual(['title']);
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ created: 1, skipped: 0 });
+  });
+
+  it('fetches everything again when the synced properties change', async () => {
+    mockReadFile.mockResolvedValue(await buildIndex());
+    mockQueryResponse([makeSyncedPage()]);
+
+    await createNotionClient(
+      'fake-key',
+      'fake-db',
+      'Name',
+      { ...syncProperties, coverImage: false },
+      { pageIndexPath: indexPath },
+    ).syncGames([makeUnifiedGame('Hades')]);
+
+    expect(mockQuery.mock.calls[0][0].filter).toBeUndefined();
+  });
+
+  it('does not save the index on a dry run', async () => {
+    mockQueryResponse([makeSyncedPage()]);
+
+    await makeIndexedClient(true).syncGames([makeUnifiedGame('Hades')]);
+
+    expect(mockWriteFile).not.toHaveBeenCalled();
+  });
+});
+
+// ── Removal strategies ─────────────────────────────────────────────────────────
+
+describe('notion.client - removal strategies', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockReadFile.mockRejectedValue(
+      Object.assign(new Error('Not found'), { code: 'ENOENT' }),
+    );
+  });
+
+  const statePath = 'data/removed-games.json';
+
+  const daysAgo = (days: number) =>
+    new Date(Date.now() - days * 86_400_000).toISOString();
+
+  const makeRemovalClient = (removal: Partial<NotionRemoval> = {}) =>
+    createNotionClient('fake-key', 'fake-db', 'Name', syncProperties, {
+      removal: {
+        strategy: 'status',
+        graceDays: 3,
+        archiveAfterDays: 30,
+        ...removal,
+      },
+      removalStatePath: statePath,
+    });
+
+  const mockRemovalState = (state: object) =>
+    mockReadFile.mockResolvedValue(JSON.stringify(state));
+
+  const savedState = () => JSON.parse(mockWriteFile.mock.calls[0][1]);
+
+  it('waits out the grace period before marking a page removed', async () => {
+    mockQueryResponse([makeNotionPage('Starfield')]);
+
+    const result = await makeRemovalClient().syncGames([]);
+
+    expect(mockUpdate).not.toHaveBeenCalled();
+    expect(result.removed).toBe(0);
+    expect(savedState()['page-starfield']).toMatchObject({
+      title: 'Starfield',
+    });
+  });
+
+  it('marks the page removed once the grace period is over', async () => {
+    mockRemovalState({
+      'page-starfield': { title: 'Starfield', missingSince: daysAgo(4) },
+    });
+    mockQueryResponse([makeNotionPage('Starfield')]);
+
+    const result = await makeRemovalClient().syncGames([]);
+
+    expect(mockUpdate).toHaveBeenCalledWith({
+      page_id: 'page-starfield',
+      properties: { 'Library Status': { select: { name: '⚠️ Removed' } } },
+    });
+    expect(result.removed).toBe(1);
+    expect(savedState()['page-starfield'].removedAt).toBeDefined();
+  });
+
+  it('forgets a game that came back during the grace period', async () => {
+    mockRemovalState({
+      'page-hades': { title: 'Hades', missingSince: daysAgo(1) },
+    });
+    mockQueryResponse([makeNotionPage('Hades')]);
+
+    await makeRemovalClient().syncGames([makeUnifiedGame('Hades')]);
+
+    expect(savedState()).toEqual({});
+  });
+
+  it('keeps removed pages with the status strategy', async () => {
+    mockRemovalState({
+      'page-starfield': {
+        title: 'Starfield',
+        missingSince: daysAgo(60),
+        removedAt: daysAgo(50),
+      },
+    });
+    mockQueryResponse([makeNotionPage('Starfield', '⚠️ Removed')]);
+
+    const result = await makeRemovalClient().syncGames([]);
+
+    expect(mockUpdate).not.toHaveBeenCalled();
+    expect(result.archived).toBe(0);
+  });
+
+  it('archives a page removed for longer than archiveAfterDays', async () => {
+    mockRemovalState({
+      'page-starfield': {
+        title: 'Starfield',
+        missingSince: daysAgo(40),
+        removedAt: daysAgo(31),
+      },
+    });
+    mockQueryResponse([makeNotionPage('Starfield', '⚠️ Removed')]);
+
+    const result = await makeRemovalClient({ strategy: 'archive' }).syncGames(
+      [],
+    );
+
+    expect(mockUpdate).toHaveBeenCalledWith({
+      page_id: 'page-starfield',
+      archived: true,
+    });
+    expect(result.archived).toBe(1);
+    expect(savedState()).toEqual({});
+  });
+
+  it('copies the page into the graveyard database before archiving it', async () => {
+    mockRemovalState({
+      'page-starfield': {
+        title: 'Starfield',
+        missingSince: daysAgo(40),
+        removedAt: daysAgo(31),
+      },
+    });
+    mockQueryResponse([makeNotionPage('Starfield', '⚠️ Removed')]);
+
+    await makeRemovalClient({
+      strategy: 'graveyard',
+      graveyardDatabaseId: 'graveyard-db',
+    }).syncGames([]);
+
+    const [{ parent, properties }] = mockCreate.mock.calls[0];
+    expect(parent).toEqual({ database_id: 'graveyard-db' });
+    expect(properties.Name).toEqual({
+      title: [{ text: { content: 'Starfield' } }],
+    });
+    expect(properties['Library Status']).toEqual({
+      select: { name: '⚠️ Removed' },
+    });
+    expect(mockUpdate).toHaveBeenCalledWith({
+      page_id: 'page-starfield',
+      archived: true,
+    });
+  });
+
+  it('copies into the graveyard only once when archiving is retried', async () => {
+    mockRemovalState({
+      'page-starfield': {
+        title: 'Starfield',
+        missingSince: daysAgo(40),
+        removedAt: daysAgo(31),
+      },
+    });
+    mockQueryResponse([makeNotionPage('Starfield', '⚠️ Removed')]);
+    mockUpdate.mockRejectedValueOnce(new Error('Bad Gateway'));
+
+    const result = await makeRemovalClient({
+      strategy: 'graveyard',
+      graveyardDatabaseId: 'graveyard-db',
+    }).syncGames([]);
+
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+    expect(mockUpdate).toHaveBeenCalledTimes(2);
+    expect(result.archived).toBe(1);
+  });
+
+  it('looks for the graveyard copy before copying again', async () => {
+    mockRemovalState({
+      'page-starfield': {
+        title: 'Starfield',
+        missingSince: daysAgo(40),
+        removedAt: daysAgo(31),
+      },
+    });
+    mockQueryResponse([makeNotionPage('Starfield', '⚠️ Removed')]);
+    // The copy was made, but the response timed out
+    mockCreate.mockRejectedValueOnce(new Error('Request timed out'));
+
+    const result = await makeRemovalClient({
+      strategy: 'graveyard',
+      graveyardDatabaseId: 'graveyard-db',
+    }).syncGames([]);
+
+    expect(mockQuery).toHaveBeenCalledWith(
+      expect.objectContaining({ database_id: 'graveyard-db' }),
+    );
+    expect(mockCreate).toHaveBeenCalledTimes(1);
+    expect(mockUpdate).toHaveBeenCalledWith({
+      page_id: 'page-starfield',
+      archived: true,
+    });
+    expect(result.archived).toBe(1);
+  });
+
+  it('refuses the graveyard strategy without a graveyard database', () => {
+    expect(() => makeRemovalClient({ strategy: 'graveyard' })).toThrow(
+      /NOTION_GRAVEYARD_DATABASE_ID/,
+    );
+  });
+});
+
+// ── Page body ──────────────────────────────────────────────────────────────────
+
+describe('notion.client - page body', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockReadFile.mockRejectedValue(
+      Object.assign(new Error('Not found'), { code: 'ENOENT' }),
+    );
+    mockBlockList.mockResolvedValue({
+      results: [],
+      next_cursor: null,
+      has_more: false,
+    });
+  });
+
+  const makeBodyClient = () =>
+    createNotionClient('fake-key', 'fake-db', 'Name', syncProperties, {
+      pageBody: ['links'],
+      pageBodyPath: '.cache/notion/page-bodies.json',
+    });
+
+  it('creates new pages with the body and the notes marker', async () => {
+    mockQueryResponse([]);
+    mockCreate.mockResolvedValueOnce({ id: 'page-hades' });
+
+    await makeBodyClient().syncGames([
+      makeUnifiedGame('Hades', { steamAppId: 1145360 }),
+    ]);
+
+    const { children } = mockCreate.mock.calls[0][0];
+    expect(children.map((block: any) => block.type)).toEqual([
+      'heading_3',
+      'bulleted_list_item',
+      'paragraph',
+    ]);
+    const hashes = JSON.parse(mockWriteFile.mock.calls[0][1]);
+    expect(Object.keys(hashes)).toEqual(['page-hades']);
+  });
+
+  it('only rewrites the body of existing pages when it changed', async () => {
+    mockQueryResponse([makeNotionPage('Hades')]);
+    const game = makeUnifiedGame('Hades', { steamAppId: 1145360 });
+
+    await makeBodyClient().syncGames([game]);
+    mockReadFile.mockResolvedValue(mockWriteFile.mock.calls[0][1]);
+    await makeBodyClient().syncGames([game]);
+
+    expect(mockBlockList).toHaveBeenCalledTimes(1);
+    expect(mockBlockAppend).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries a failed body write at the end of the run', async () => {
+    mockQueryResponse([makeNotionPage('Hades')]);
+    mockBlockAppend.mockRejectedValueOnce(new Error('Bad Gateway'));
+
+    const result = await makeBodyClient().syncGames([
+      makeUnifiedGame('Hades', { steamAppId: 1145360 }),
+    ]);
+
+    expect(mockBlockAppend).toHaveBeenCalledTimes(2);
+    expect(result.errors).toBe(0);
+  });
+});
+
+// ── Page cover and icon ────────────────────────────────────────────────────────
+
+describe('notion.client - page cover and icon', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockReadFile.mockRejectedValue(
+      Object.assign(new Error('Not found'), { code: 'ENOENT' }),
+    );
+  });
+
+  const cover = 'https://cdn.example.com/hades/header.jpg';
+  const icon = 'https://store.steampowered.com/favicon.ico';
+  const external = (url: string) => ({ type: 'external', external: { url } });
+
+  const makeMediaClient = (pageIndexPath?: string) =>
+    createNotionClient('fake-key', 'fake-db', 'Name', syncProperties, {
+      pageIndexPath,
+      media: { cover: true, icon: true },
+    });
+
+  // Page in sync with makeUnifiedGame('Hades', { coverImageUrl: cover })
+  const makeSyncedPage = (pageCover = cover) => ({
+    ...makeNotionPage('Hades'),
+    cover: external(pageCover),
+    icon: external(icon),
+    properties: {
+      ...makeNotionPage('Hades').properties,
+      'Canonical ID': { rich_text: [{ text: { content: 'hades' } }] },
+      'Primary Source': { select: { name: 'Steam' } },
+      'Owned On': { multi_select: [{ name: 'Steam' }] },
+      'Playtime (hours)': { number: 10 },
+      'Cover Image': { url: cover },
+    },
+  });
+
+  it('sets the cover and icon of new pages', async () => {
+    mockQueryResponse([]);
+
+    await makeMediaClient().syncGames([
+      makeUnifiedGame('Hades', { coverImageUrl: cover }),
+    ]);
+
+    expect(mockCreate.mock.calls[0][0]).toMatchObject({
+      cover: external(cover),
+      icon: external(icon),
+    });
+  });
+
+  it('updates a page whose cover changed', async () => {
+    mockQueryResponse([makeSyncedPage('https://cdn.example.com/old.jpg')]);
+
+    const result = await makeMediaClient().syncGames([
+      makeUnifiedGame('Hades', { coverImageUrl: cover }),
+    ]);
+
+    expect(result.updated).toBe(1);
+    expect(mockUpdate.mock.calls[0][0].cover).toEqual(external(cover));
+  });
+
+  it('skips a page whose cover and icon match', async () => {
+    mockQueryResponse([makeSyncedPage()]);
+
+    const result = await makeMediaClient().syncGames([
+      makeUnifiedGame('Hades', { coverImageUrl: cover }),
+    ]);
+
+    expect(result.skipped).toBe(1);
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it('keeps the cover and icon in the page index', async () => {
+    const indexPath = '.cache/notion/page-index.json';
+    mockQueryResponse([makeSyncedPage()]);
+    await makeMediaClient(indexPath).syncGames([
+      makeUnifiedGame('Hades', { coverImageUrl: cover }),
+    ]);
+    mockReadFile.mockResolvedValue(mockWriteFile.mock.calls[0][1]);
+    mockIndexedQueryResponse([], [makeSyncedPage()]);
+
+    const result = await makeMediaClient(indexPath).syncGames([
+      makeUnifiedGame('Hades', { coverImageUrl: cover }),
+    ]);
+
+    expect(result.skipped).toBe(1);
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+});
+
+describe('notion.client - relations', () => {
+  let gamePages: any[] = [];
+  const relatedPages: Record<string, any[]> = {};
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    gamePages = [];
+    relatedPages['db-franchises'] = [
+      {
+        id: 'franchise-hades',
+        properties: { Name: { title: [{ plain_text: 'Hades' }] } },
+      },
+    ];
+    relatedPages['db-platforms'] = [];
+    mockQuery.mockImplementation(async ({ database_id }) => ({
+      results: relatedPages[database_id] ?? gamePages,
+      next_cursor: null,
+      has_more: false,
+    }));
+    mockRetrieve.mockResolvedValue({
+      properties: { Name: { type: 'title' } },
+    });
+    mockCreate.mockImplementation(async ({ parent }) => ({
+      id: `${parent.database_id}-new`,
+    }));
+  });
+
+  const makeRelationClient = (
+    relationDatabases: RelationDatabases = {
+      franchise: 'db-franchises',
+      platform: 'db-platforms',
+    },
+  ) =>
+    createNotionClient(
+      'fake-key',
+      'fake-db',
+      'Name',
+      { ...syncProperties, franchise: true, platform: true },
+      { relationDatabases },
+    );
+
+  it('links new pages to existing and newly created related pages', async () => {
+    await makeRelationClient().syncGames([
+      makeUnifiedGame('Hades II', { franchises: ['hades'] }),
+    ]);
+
+    expect(mockCreate).toHaveBeenCalledWith({
+      parent: { database_id: 'db-platforms' },
+      properties: { Name: { title: [{ text: { content: 'Steam' } }] } },
+    });
+    const gamePage = mockCreate.mock.calls.find(
+      ([args]) => args.parent.database_id === 'fake-db',
+    )![0];
+    expect(gamePage.properties.Franchise).toEqual({
+      relation: [{ id: 'franchise-hades' }],
+    });
+    expect(gamePage.properties.Platforms).toEqual({
+      relation: [{ id: 'db-platforms-new' }],
+    });
+  });
+
+  it('skips a page already linked to the same related pages', async () => {
+    const page = makeNotionPage('Hades');
+    gamePages = [
+      {
+        ...page,
+        properties: {
+          ...page.properties,
+          'Canonical ID': { rich_text: [{ text: { content: 'hades' } }] },
+          'Primary Source': { select: { name: 'Steam' } },
+          'Owned On': { multi_select: [{ name: 'Steam' }] },
+          'Playtime (hours)': { number: 10 },
+          Franchise: { relation: [{ id: 'franchise-hades' }] },
+          Platforms: { relation: [{ id: 'platform-steam' }] },
+        },
+      },
+    ];
+    relatedPages['db-platforms'] = [
+      {
+        id: 'platform-steam',
+        properties: { Name: { title: [{ plain_text: 'Steam' }] } },
+      },
+    ];
+
+    const result = await makeRelationClient().syncGames([
+      makeUnifiedGame('Hades', { franchises: ['Hades'] }),
+    ]);
+
+    expect(result.skipped).toBe(1);
+    expect(mockCreate).not.toHaveBeenCalled();
+    expect(mockUpdate).not.toHaveBeenCalled();
+  });
+
+  it('needs a database for each enabled relation', () => {
+    expect(() => makeRelationClient({ franchise: 'db-franchises' })).toThrow(
+      'NOTION_PLATFORM_DATABASE_ID',
+    );
+  });
+});
+
+// ── Sync plans ─────────────────────────────────────────────────────────────────
+
+describe('notion.client - sync plans', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockReadFile.mockRejectedValue(
+      Object.assign(new Error('Not found'), { code: 'ENOENT' }),
+    );
+  });
+
+  const makePlanClient = () =>
+    createNotionClient('fake-key', 'fake-db', 'Name', syncProperties, {
+      dryRun: true,
+      pageIndexPath: '.cache/notion/page-index.json',
+    });
+
+  const makePlan = (): SyncPlan => ({
+    version: 1,
+    createdAt: '2026-03-01T10:00:00.000Z',
+    databaseIds: [],
+    operations: [],
+    state: {},
+  });
+
+  // Page in sync with makeUnifiedGame('Hades') except for its playtime
+  const makeHadesPage = () => {
+    const page = makeNotionPage('Hades');
+    Object.assign(page.properties, {
+      'Canonical ID': { rich_text: [{ text: { content: 'hades' } }] },
+      'Primary Source': { select: { name: 'Steam' } },
+      'Owned On': { multi_select: [{ name: 'Steam' }] },
+      'Playtime (hours)': { number: 4 },
+    });
+    return page;
+  };
+
+  it('records the creates, updates and removals of a dry run', async () => {
+    mockQueryResponse([makeHadesPage(), makeNotionPage('Starfield')]);
+    const plan = makePlan();
+
+    await makePlanClient().syncGames(
+      [makeUnifiedGame('Hades'), makeUnifiedGame('Celeste')],
+      { gamePassCatalogTitles: new Set(), plan },
+    );
+
+    expect(mockCreate).not.toHaveBeenCalled();
+    expect(mockUpdate).not.toHaveBeenCalled();
+    expect(plan.databaseIds).toEqual(['fake-db']);
+    expect(plan.operations).toEqual([
+      {
+        type: 'update',
+        pageId: 'page-hades',
+        title: 'Hades',
+        changes: [{ property: 'Playtime (hours)', before: 4, after: 10 }],
+        properties: { 'Playtime (hours)': { number: 10 } },
+        media: {},
+      },
+      expect.objectContaining({
+        type: 'create',
+        databaseId: 'fake-db',
+        title: 'Celeste',
+      }),
+      {
+        type: 'remove',
+        pageId: 'page-starfield',
+        title: 'Starfield',
+        properties: { 'Library Status': { select: { name: '⚠️ Removed' } } },
+      },
+    ]);
+  });
+
+  it('keeps the page index for apply to save', async () => {
+    mockQueryResponse([makeHadesPage()]);
+    const plan = makePlan();
+
+    await makePlanClient().syncGames([makeUnifiedGame('Hades')], { plan });
+
+    expect(mockWriteFile).not.toHaveBeenCalled();
+    expect(plan.state['fake-db']).toEqual({
+      pageIndex: {
+        path: '.cache/notion/page-index.json',
+        index: expect.objectContaining({
+          pages: { 'page-hades': expect.objectContaining({ title: 'Hades' }) },
+        }),
+      },
+    });
+  });
+
+  it('fetches every page instead of using the page index', async () => {
+    mockQueryResponse([makeHadesPage()]);
+
+    await makePlanClient().syncGames([makeUnifiedGame('Hades')], {
+      plan: makePlan(),
+    });
+
+    expect(mockReadFile).not.toHaveBeenCalled();
+    expect(mockQuery.mock.calls[0][0].filter).toBeUndefined();
+  });
+});
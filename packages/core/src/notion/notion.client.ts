@@ -1,9 +1,78 @@
 import { Client } from '@notionhq/client';
-import { UnifiedGame, NotionSyncProperties } from '../types/game';
+import {
+  UnifiedGame,
+  NotionPullProperties,
+  NotionRemoval,
+  NotionSyncProperties,
+  PageBodySection,
+  Source,
+} from '../types/game';
+import type { PlaytimeHistoryEntry } from '../core/playtime-history';
 import { getCanonicalNameFromVariant } from '../core/overrides';
 import { normalizeGameName } from '../core/normalize';
 import { getConfig } from '../config';
 import syncLogger, { SyncOperations } from './sync-logger';
+import { getPullFields, mergeUserFields, readUserFields } from './notion.pull';
+import {
+  createRequestScheduler,
+  isRateLimitError,
+  RequestScheduler,
+} from './request-scheduler';
+import {
+  getEditedSince,
+  hashValue,
+  loadPageIndex,
+  PageIndex,
+  PageIndexEntry,
+  savePageIndex,
+} from './page-index';
+import {
+  createNotesMarker,
+  loadPageBodyHashes,
+  NotionBlock,
+  PageBodyHashes,
+  renderPageBody,
+  savePageBodyHashes,
+  writePageBody,
+} from './page-body';
+import {
+  getChangedMedia,
+  getPageMedia,
+  NO_PAGE_MEDIA,
+  PageMedia,
+  PageMediaOptions,
+  readPageFile,
+} from './page-media';
+import {
+  getRemovalAction,
+  IMMEDIATE_REMOVAL,
+  loadRemovalState,
+  RemovalState,
+  saveRemovalState,
+} from './removal';
+import {
+  getRelatedPageIds,
+  RelatedPages,
+  resolveRelatedPages,
+} from './relations';
+import { applySyncPlan, PropertyChange, SyncPlan } from './sync-plan';
+import {
+  ensureSchema,
+  EnsureSchemaOptions,
+  findPushedPullFields,
+  getExpectedProperties,
+  NOTION_FIELDS,
+  NOTION_PROPERTIES,
+  NotionField,
+  NotionPropertyNames,
+  NotionPullField,
+  NotionPropertyType,
+  RelationDatabases,
+  RELATION_FIELDS,
+  REMOVED_STATUS,
+  resolvePropertyNames,
+  SOURCE_LABELS,
+} from './notion.schema';
 
 const debug = (message: string, ...args: any[]) => {
   if (getConfig().logLevel === 'debug') {
@@ -12,39 +81,99 @@ const debug = (message: string, ...args: any[]) => {
 };
 
 /**
- * Notion database properties schema
- * Customize this based on your Notion database structure
+ * Notion property values written for each field, keyed by field rather
+ * than property name (names come from the configured mapping)
  */
-type NotionGameProperties = {
-  Name: { title: Array<{ text: { content: string } }> };
-  'Primary Source': { select: { name: string } };
-  'Owned On': { multi_select: Array<{ name: string }> };
-  'Steam App ID': { number: number | null };
-  'Playtime (hours)': { number: number | null };
-  'Last Played': { date: { start: string } | null };
-  'Proton Tier': { select: { name: string } | null };
-  'Steam Deck': { select: { name: string } | null };
-  'Cover Image': { url: string | null };
-  'Canonical ID': { rich_text: Array<{ text: { content: string } }> };
-  'Library Status': { select: { name: string } | null };
+type NotionPropertyValues = {
+  title: { title: Array<{ text: { content: string } }> };
+  canonicalId: { rich_text: Array<{ text: { content: string } }> };
+  primarySource: { select: { name: string } };
+  ownedOn: { multi_select: Array<{ name: string }> };
+  steamAppId: { number: number | null };
+  playtime: { number: number | null };
+  lastPlayed: { date: { start: string } | null };
+  protonTier: { select: { name: string } | null };
+  steamDeck: { select: { name: string } | null };
+  coverImage: { url: string | null };
+  libraryStatus: { select: { name: string } | null };
+  installed: { checkbox: boolean };
+  installSize: { number: number | null };
+  playtimeBySource: { rich_text: Array<{ text: { content: string } }> };
+  franchise: { relation: Array<{ id: string }> };
+  platform: { relation: Array<{ id: string }> };
 };
 
 /**
- * Capitalize source name for display
+ * A database page as the sync sees it. Pages that weren't edited since the
+ * last sync are stubs built from the page index: only the title, canonical
+ * ID and status properties are set, and propertyHash stands in for the rest.
  */
-const capitalizeSource = (source: string): string => {
-  const map: Record<string, string> = {
-    steam: 'Steam',
-    xbox: 'Xbox',
-    epic: 'Epic Games',
-    gog: 'GOG',
-    amazon: 'Amazon',
-    gamepass: 'Game Pass',
-    manual: 'Manual',
-  };
-  return map[source] || source;
+type NotionPage = {
+  id: string;
+  properties: any;
+  cover?: unknown;
+  icon?: unknown;
+  last_edited_time?: string;
+  propertyHash?: string;
+};
+
+/**
+ * Notion API surface used by the sync
+ */
+type NotionApi = Pick<Client, 'pages' | 'databases' | 'blocks'>;
+
+/**
+ * Page body template for a run, with the hashes of the bodies last written
+ */
+type PageBody = {
+  render: (game: UnifiedGame) => NotionBlock[];
+  hashes: PageBodyHashes;
 };
 
+/**
+ * A write that still failed after the scheduler's retries. Replayed once at
+ * the end of the run, when a rate limit or outage has likely passed, so it
+ * must be safe to run again after a failure that may have gone through.
+ */
+type FailedWrite = {
+  description: string;
+  write: () => Promise<unknown>;
+};
+
+/**
+ * Outcome counts of a syncGames run
+ */
+export type NotionSyncResult = {
+  created: number;
+  updated: number;
+  skipped: number;
+  errors: number;
+  removed: number;
+  archived: number; // Removed pages archived (or moved to the graveyard)
+  pulled: number; // Games that took user fields from Notion
+  conflicts: number; // User fields changed both locally and in Notion
+};
+
+/**
+ * Format per-store playtime as "Steam: 12.5h · Epic Games: 3h", most played first
+ */
+const formatPlaytimeBySource = (
+  playtimeBySource: UnifiedGame['playtimeBySource'],
+): string =>
+  Object.entries(playtimeBySource ?? {})
+    .sort(([, a], [, b]) => b - a)
+    .map(
+      ([source, hours]) =>
+        `${capitalizeSource(source)}: ${Math.round(hours * 10) / 10}h`,
+    )
+    .join(' · ');
+
+/**
+ * Capitalize source name for display
+ */
+const capitalizeSource = (source: string): string =>
+  SOURCE_LABELS[source as Source] || source;
+
 /**
  * Capitalize first letter
  */
@@ -64,94 +193,191 @@ const cleanDisplayName = (name: string): string => {
 };
 
 /**
- * Sleep helper for rate limiting
+ * Route every API call of the client through the request scheduler
  */
-const sleep = (ms: number): Promise<void> => {
-  return new Promise(resolve => setTimeout(resolve, ms));
-};
+const scheduleNotionApi = (
+  client: NotionApi,
+  scheduler: RequestScheduler,
+): NotionApi => ({
+  pages: {
+    ...client.pages,
+    create: args =>
+      scheduler.schedule(() => client.pages.create(args), {
+        idempotent: false,
+      }),
+    retrieve: args => scheduler.schedule(() => client.pages.retrieve(args)),
+    update: args => scheduler.schedule(() => client.pages.update(args)),
+  },
+  databases: {
+    ...client.databases,
+    query: args => scheduler.schedule(() => client.databases.query(args)),
+    retrieve: args =>
+      scheduler.schedule(() => client.databases.retrieve(args)),
+    update: args => scheduler.schedule(() => client.databases.update(args)),
+  },
+  blocks: {
+    ...client.blocks,
+    children: {
+      ...client.blocks?.children,
+      append: args =>
+        scheduler.schedule(() => client.blocks.children.append(args), {
+          idempotent: false,
+        }),
+      list: args => scheduler.schedule(() => client.blocks.children.list(args)),
+    },
+    delete: args => scheduler.schedule(() => client.blocks.delete(args)),
+  },
+});
 
 /**
- * Get list of property names that have changed between existing and new values.
- * Returns an empty array when nothing changed.
+ * Run failed writes once more, returning how many still failed
  */
-const getChangedProperties = (
-  existingPage: any,
-  newProperties: any,
-  syncProperties: NotionSyncProperties,
-): string[] => {
-  try {
-    const existing = existingPage.properties;
-    const changed: string[] = [];
-
-    if (syncProperties.primarySource) {
-      const existingSource = existing['Primary Source']?.select?.name;
-      const newSource = newProperties['Primary Source']?.select?.name;
-      if (existingSource !== newSource) changed.push('Primary Source');
+const replayFailedWrites = async (
+  failedWrites: FailedWrite[],
+): Promise<number> => {
+  let failed = 0;
+  for (const { description, write } of failedWrites) {
+    try {
+      await write();
+    } catch (error) {
+      failed++;
+      console.error(`Failed to ${description}:`, error);
     }
+  }
+  return failed;
+};
 
-    if (syncProperties.ownedOn) {
-      const existingOwned = existing['Owned On']?.multi_select
+/**
+ * Comparable value of a page property, by property type
+ */
+const readPropertyValue = (
+  type: NotionPropertyType,
+  property: any,
+): unknown => {
+  switch (type) {
+    case 'select':
+      return property?.select?.name;
+    case 'multi_select':
+      return property?.multi_select
         ?.map((s: any) => s.name)
         .sort()
         .join(',');
-      const newOwned = newProperties['Owned On']?.multi_select
-        ?.map((s: any) => s.name)
+    case 'number':
+      return property?.number;
+    case 'date':
+      return property?.date?.start;
+    case 'url':
+      return property?.url;
+    case 'checkbox':
+      return property?.checkbox ?? false;
+    case 'rich_text':
+      return property?.rich_text?.[0]?.text?.content ?? '';
+    case 'title':
+      return property?.title?.[0]?.text?.content ?? '';
+    case 'relation':
+      return property?.relation
+        ?.map((page: any) => page.id)
         .sort()
         .join(',');
-      if (existingOwned !== newOwned) changed.push('Owned On');
-    }
-
-    if (syncProperties.steamAppId) {
-      const existingSteam = existing['Steam App ID']?.number;
-      const newSteam = newProperties['Steam App ID']?.number;
-      if (existingSteam !== newSteam) changed.push('Steam App ID');
-    }
-
-    if (syncProperties.playtime) {
-      const existingPlaytime = existing['Playtime (hours)']?.number;
-      const newPlaytime = newProperties['Playtime (hours)']?.number;
-      if (existingPlaytime !== newPlaytime) changed.push('Playtime (hours)');
-    }
-
-    if (syncProperties.lastPlayed) {
-      const existingDate = existing['Last Played']?.date?.start;
-      const newDate = newProperties['Last Played']?.date?.start;
-      if (existingDate !== newDate) changed.push('Last Played');
-    }
-
-    if (syncProperties.protonTier) {
-      const existingTier = existing['Proton Tier']?.select?.name;
-      const newTier = newProperties['Proton Tier']?.select?.name;
-      if (existingTier !== newTier) changed.push('Proton Tier');
-    }
+  }
+};
 
-    if (syncProperties.steamDeck) {
-      const existingDeck = existing['Steam Deck']?.select?.name;
-      const newDeck = newProperties['Steam Deck']?.select?.name;
-      if (existingDeck !== newDeck) changed.push('Steam Deck');
-    }
+/**
+ * Property value of a page in the shape pages.create accepts
+ */
+const toWritableValue = (type: NotionPropertyType, property: any) => {
+  switch (type) {
+    case 'title':
+    case 'rich_text':
+      return {
+        [type]: (property?.[type] ?? []).map((item: any) => ({
+          text: { content: item.plain_text ?? item.text?.content ?? '' },
+        })),
+      };
+    case 'select':
+      return {
+        select: property?.select ? { name: property.select.name } : null,
+      };
+    case 'multi_select':
+      return {
+        multi_select: (property?.multi_select ?? []).map((option: any) => ({
+          name: option.name,
+        })),
+      };
+    case 'date':
+      return { date: property?.date ? { start: property.date.start } : null };
+    case 'checkbox':
+      return { checkbox: property?.checkbox ?? false };
+    case 'relation':
+      return {
+        relation: (property?.relation ?? []).map((page: any) => ({
+          id: page.id,
+        })),
+      };
+    default:
+      return { [type]: property?.[type] ?? null };
+  }
+};
 
-    if (syncProperties.coverImage) {
-      const existingCover = existing['Cover Image']?.url;
-      const newCover = newProperties['Cover Image']?.url;
-      if (existingCover !== newCover) changed.push('Cover Image');
-    }
+/**
+ * Synced and pulled properties of a page, to copy it into another database
+ */
+const toWritableProperties = (
+  page: NotionPage,
+  names: NotionPropertyNames,
+  syncProperties: NotionSyncProperties,
+  pullProperties: Partial<NotionPullProperties>,
+): Record<string, unknown> =>
+  Object.fromEntries(
+    getExpectedProperties(names, syncProperties, pullProperties).map(
+      ({ name, type }) => [name, toWritableValue(type, page.properties[name])],
+    ),
+  );
 
-    if (syncProperties.canonicalId) {
-      const existingId =
-        existing['Canonical ID']?.rich_text?.[0]?.text?.content;
-      const newId =
-        newProperties['Canonical ID']?.rich_text?.[0]?.text?.content;
-      if (existingId !== newId) changed.push('Canonical ID');
+/**
+ * Synced properties whose value differs between the existing page and the
+ * new values, with both values
+ */
+const getPropertyChanges = (
+  existingPage: any,
+  newProperties: any,
+  syncProperties: NotionSyncProperties,
+  names: NotionPropertyNames,
+): PropertyChange[] => {
+  const existing = existingPage.properties;
+  const changes: PropertyChange[] = [];
+
+  for (const field of NOTION_FIELDS) {
+    if (!syncProperties[field]) continue;
+    const name = names[field];
+    const { type } = NOTION_PROPERTIES[field];
+    const before = readPropertyValue(type, existing[name]);
+    const after = readPropertyValue(type, newProperties[name]);
+    if (before !== after) {
+      changes.push({ property: name, before, after });
     }
+  }
 
-    if (syncProperties.libraryStatus) {
-      const existingStatus = existing['Library Status']?.select?.name;
-      const newStatus = newProperties['Library Status']?.select?.name;
-      if (existingStatus !== newStatus) changed.push('Library Status');
-    }
+  return changes;
+};
 
-    return changed;
+/**
+ * Get list of property names that have changed between existing and new values.
+ * Returns an empty array when nothing changed.
+ */
+const getChangedProperties = (
+  existingPage: any,
+  newProperties: any,
+  syncProperties: NotionSyncProperties,
+  names: NotionPropertyNames,
+): string[] => {
+  try {
+    return getPropertyChanges(
+      existingPage,
+      newProperties,
+      syncProperties,
+      names,
+    ).map(change => change.property);
   } catch (error) {
     // If we can't determine, assume everything changed
     return ['(unknown)'];
@@ -166,8 +392,28 @@ const hasPropertiesChanged = (
   existingPage: any,
   newProperties: any,
   syncProperties: NotionSyncProperties,
+  names: NotionPropertyNames,
 ): boolean =>
-  getChangedProperties(existingPage, newProperties, syncProperties).length > 0;
+  getChangedProperties(existingPage, newProperties, syncProperties, names)
+    .length > 0;
+
+/**
+ * Hash of the synced property values, comparable between a page read from
+ * Notion and the properties a game would write
+ */
+const hashProperties = (
+  properties: any,
+  syncProperties: NotionSyncProperties,
+  names: NotionPropertyNames,
+): string =>
+  hashValue(
+    NOTION_FIELDS.filter(field => syncProperties[field]).map(field =>
+      readPropertyValue(
+        NOTION_PROPERTIES[field].type,
+        properties[names[field]],
+      ),
+    ),
+  );
 
 /**
  * Extract canonical ID from a Notion page
@@ -175,17 +421,17 @@ const hasPropertiesChanged = (
  */
 const extractCanonicalId = (
   page: any,
-  titleProperty: string,
+  names: NotionPropertyNames,
 ): string | null => {
   try {
     // First, try to get the Canonical ID property
-    const canonicalIdProp = page.properties['Canonical ID'];
+    const canonicalIdProp = page.properties[names.canonicalId];
     if (canonicalIdProp?.rich_text?.[0]?.text?.content) {
       return canonicalIdProp.rich_text[0].text.content;
     }
 
     // Fallback: generate from title (matching generateCanonicalId logic)
-    const titleProp = page.properties[titleProperty];
+    const titleProp = page.properties[names.title];
     if (titleProp?.title?.[0]?.text?.content) {
       const name = titleProp.title[0].text.content;
       // Remove GOTY/Game of the Year Edition (same normalization as generateCanonicalId)
@@ -213,29 +459,30 @@ const extractCanonicalId = (
  */
 const gameToNotionProperties = (
   game: UnifiedGame,
-  titleProperty: string,
+  names: NotionPropertyNames,
   syncProperties: NotionSyncProperties,
-): Partial<NotionGameProperties> => {
-  const properties: Partial<NotionGameProperties> = {
-    [titleProperty]: {
+  relatedPages: RelatedPages = {},
+): Record<string, NotionPropertyValues[keyof NotionPropertyValues]> => {
+  const properties: Partial<NotionPropertyValues> = {
+    title: {
       title: [{ text: { content: cleanDisplayName(game.name) } }],
     },
   };
 
   if (syncProperties.canonicalId) {
-    properties['Canonical ID'] = {
+    properties.canonicalId = {
       rich_text: [{ text: { content: game.canonicalId } }],
     };
   }
 
   if (syncProperties.primarySource) {
-    properties['Primary Source'] = {
+    properties.primarySource = {
       select: { name: capitalizeSource(game.primarySource) },
     };
   }
 
   if (syncProperties.ownedOn) {
-    properties['Owned On'] = {
+    properties.ownedOn = {
       multi_select: game.ownedSources.map(source => ({
         name: capitalizeSource(source),
       })),
@@ -243,13 +490,13 @@ const gameToNotionProperties = (
   }
 
   if (syncProperties.steamAppId) {
-    properties['Steam App ID'] = {
+    properties.steamAppId = {
       number: game.steamAppId || null,
     };
   }
 
   if (syncProperties.playtime) {
-    properties['Playtime (hours)'] = {
+    properties.playtime = {
       number: game.playtimeHours
         ? Math.round(game.playtimeHours * 10) / 10
         : null,
@@ -257,7 +504,7 @@ const gameToNotionProperties = (
   }
 
   if (syncProperties.lastPlayed) {
-    properties['Last Played'] = game.lastPlayedAt
+    properties.lastPlayed = game.lastPlayedAt
       ? {
           date: { start: game.lastPlayedAt.toISOString().split('T')[0] },
         }
@@ -265,41 +512,76 @@ const gameToNotionProperties = (
   }
 
   if (syncProperties.protonTier) {
-    properties['Proton Tier'] = game.proton
+    properties.protonTier = game.proton
       ? { select: { name: capitalizeFirst(game.proton.tier) } }
       : { select: null };
   }
 
   if (syncProperties.steamDeck) {
-    properties['Steam Deck'] = game.proton
+    properties.steamDeck = game.proton
       ? { select: { name: capitalizeFirst(game.proton.steamDeck) } }
       : { select: null };
   }
 
   if (syncProperties.coverImage) {
-    properties['Cover Image'] = {
+    properties.coverImage = {
       url: game.coverImageUrl || null,
     };
   }
 
   if (syncProperties.libraryStatus) {
     // Active games have no status (empty = clean card in Notion)
-    properties['Library Status'] = {
+    properties.libraryStatus = {
       select: null,
     };
   }
 
-  return properties;
+  if (syncProperties.playtimeBySource) {
+    const breakdown = formatPlaytimeBySource(game.playtimeBySource);
+    properties.playtimeBySource = {
+      rich_text: breakdown ? [{ text: { content: breakdown } }] : [],
+    };
+  }
+
+  if (syncProperties.installed) {
+    properties.installed = { checkbox: game.installed === true };
+  }
+
+  if (syncProperties.installSize) {
+    properties.installSize = {
+      number: game.installSizeBytes
+        ? Math.round((game.installSizeBytes / 1024 ** 3) * 10) / 10
+        : null,
+    };
+  }
+
+  for (const field of RELATION_FIELDS) {
+    if (!syncProperties[field]) continue;
+    properties[field] = {
+      relation: getRelatedPageIds(game, field, relatedPages).map(id => ({
+        id,
+      })),
+    };
+  }
+
+  return Object.fromEntries(
+    Object.entries(properties).map(([field, value]) => [
+      names[field as NotionField | 'title'],
+      value,
+    ]),
+  );
 };
 
 /**
- * Fetch all pages from the database
+ * Fetch all pages from the database, or only those matching the filter
  */
 const fetchAllPages = async (
-  client: Client,
+  client: NotionApi,
   databaseId: string,
-): Promise<Array<{ id: string; properties: any }>> => {
-  const pages: Array<{ id: string; properties: any }> = [];
+  filter?: Parameters<NotionApi['databases']['query']>[0]['filter'],
+  filterProperties?: string[], // Property IDs to return, all by default
+): Promise<NotionPage[]> => {
+  const pages: NotionPage[] = [];
   let cursor: string | undefined;
 
   do {
@@ -307,6 +589,8 @@ const fetchAllPages = async (
       database_id: databaseId,
       start_cursor: cursor,
       page_size: 100,
+      ...(filter && { filter }),
+      ...(filterProperties && { filter_properties: filterProperties }),
     });
 
     pages.push(...response.results);
@@ -317,42 +601,179 @@ const fetchAllPages = async (
 };
 
 /**
- * Create a new page in the Notion database
+ * Page index entry for a page read from Notion
+ */
+const toIndexEntry = (
+  page: NotionPage,
+  names: NotionPropertyNames,
+  syncProperties: NotionSyncProperties,
+): PageIndexEntry => ({
+  title: page.properties[names.title]?.title?.[0]?.text?.content ?? '',
+  canonicalId:
+    page.properties[names.canonicalId]?.rich_text?.[0]?.text?.content,
+  libraryStatus: page.properties[names.libraryStatus]?.select?.name,
+  cover: readPageFile(page.cover) ?? undefined,
+  icon: readPageFile(page.icon) ?? undefined,
+  hash:
+    page.propertyHash ?? hashProperties(page.properties, syncProperties, names),
+});
+
+/**
+ * Stub page for a page index entry
+ */
+const toPageStub = (
+  id: string,
+  entry: PageIndexEntry,
+  names: NotionPropertyNames,
+): NotionPage => ({
+  id,
+  properties: {
+    [names.title]: { title: [{ text: { content: entry.title } }] },
+    [names.canonicalId]: {
+      rich_text: entry.canonicalId
+        ? [{ text: { content: entry.canonicalId } }]
+        : [],
+    },
+    [names.libraryStatus]: {
+      select: entry.libraryStatus ? { name: entry.libraryStatus } : null,
+    },
+  },
+  cover: entry.cover,
+  icon: entry.icon,
+  propertyHash: entry.hash,
+});
+
+/**
+ * Fetch the database pages. With a page index from a recent sync, only
+ * pages edited since then are queried and the rest are stubs from the index,
+ * leaving out pages that are no longer in the database.
+ */
+const fetchExistingPages = async (
+  client: NotionApi,
+  databaseId: string,
+  names: NotionPropertyNames,
+  index: PageIndex | null,
+): Promise<NotionPage[]> => {
+  if (!index) return fetchAllPages(client, databaseId);
+
+  const edited = await fetchAllPages(client, databaseId, {
+    timestamp: 'last_edited_time',
+    last_edited_time: { on_or_after: getEditedSince(index) },
+  });
+  // Pages deleted in Notion leave the query without an edit, so the live
+  // page IDs are listed too, with only the title ("title" is its ID)
+  const live = await fetchAllPages(client, databaseId, undefined, ['title']);
+  const liveIds = new Set(live.map(page => page.id));
+  const editedIds = new Set(edited.map(page => page.id));
+  const indexed = Object.entries(index.pages).filter(
+    ([id]) => !editedIds.has(id),
+  );
+  const stubs = indexed
+    .filter(([id]) => liveIds.has(id))
+    .map(([id, entry]) => toPageStub(id, entry, names));
+
+  console.log(
+    `Fetched ${edited.length} pages edited since the last sync (${stubs.length} unchanged from the page index, ${indexed.length - stubs.length} deleted)`,
+  );
+  return [...stubs, ...edited];
+};
+
+/**
+ * Create a new page in the Notion database, returning its ID
  */
 const createPage = async (
-  client: Client,
+  client: NotionApi,
   databaseId: string,
   game: UnifiedGame,
-  titleProperty: string,
+  names: NotionPropertyNames,
   syncProperties: NotionSyncProperties,
-): Promise<void> => {
-  await client.pages.create({
+  relatedPages: RelatedPages,
+  media: PageMedia,
+  children?: NotionBlock[],
+): Promise<string | undefined> => {
+  const page = await client.pages.create({
     parent: { database_id: databaseId },
     properties: gameToNotionProperties(
       game,
-      titleProperty,
+      names,
       syncProperties,
+      relatedPages,
     ) as any,
+    ...media,
+    ...(children && { children: children as any }),
   });
+  return page.id;
+};
+
+/**
+ * Rewrite the synced part of an existing page's body when the template
+ * renders something other than what was last written. Failed writes are
+ * queued for the end of the run.
+ */
+const syncPageBody = async (
+  client: NotionApi,
+  pageId: string,
+  game: UnifiedGame,
+  body: PageBody,
+  dryRun: boolean,
+  failedWrites: FailedWrite[],
+  plan?: SyncPlan,
+): Promise<void> => {
+  const blocks = body.render(game);
+  const hash = hashValue(blocks);
+  if (body.hashes[pageId] === hash) return;
+
+  if (dryRun) {
+    console.log(`  [BODY] ${game.name}`);
+    if (plan) {
+      plan.operations.push({ type: 'body', pageId, title: game.name, blocks });
+      body.hashes[pageId] = hash;
+    }
+    return;
+  }
+
+  const write = async () => {
+    const result = await writePageBody(client, pageId, blocks);
+    if (result === 'no-marker') {
+      debug(`  Page body of "${game.name}" has no notes marker, left alone`);
+    }
+    body.hashes[pageId] = hash;
+  };
+  try {
+    await write();
+  } catch (error) {
+    console.error(
+      `Failed to write the page body of "${game.name}", retrying at the end:`,
+      error,
+    );
+    failedWrites.push({
+      description: `write the page body of "${game.name}"`,
+      write,
+    });
+  }
 };
 
 /**
  * Update an existing Notion page
  */
 const updatePage = async (
-  client: Client,
+  client: NotionApi,
   pageId: string,
   game: UnifiedGame,
-  titleProperty: string,
+  names: NotionPropertyNames,
   syncProperties: NotionSyncProperties,
+  relatedPages: RelatedPages,
+  media: PageMedia,
 ): Promise<void> => {
   await client.pages.update({
     page_id: pageId,
     properties: gameToNotionProperties(
       game,
-      titleProperty,
+      names,
       syncProperties,
+      relatedPages,
     ) as any,
+    ...media,
   });
 };
 
@@ -360,8 +781,8 @@ const updatePage = async (
  * Build lookup maps from existing pages
  */
 const buildLookupMaps = (
-  existingPages: Array<{ id: string; properties: any }>,
-  titleProperty: string,
+  existingPages: NotionPage[],
+  names: NotionPropertyNames,
 ) => {
   const existingById = new Map<string, any>();
   const existingByCanonicalId = new Map<string, any>();
@@ -371,13 +792,13 @@ const buildLookupMaps = (
   for (const page of existingPages) {
     existingById.set(page.id, page);
 
-    const canonicalIdProp = page.properties['Canonical ID'];
+    const canonicalIdProp = page.properties[names.canonicalId];
     if (canonicalIdProp?.rich_text?.[0]?.text?.content) {
       const canonicalId = canonicalIdProp.rich_text[0].text.content;
       existingByCanonicalId.set(canonicalId, page);
     }
 
-    const titleProp = page.properties[titleProperty];
+    const titleProp = page.properties[names.title];
     if (titleProp?.title?.[0]?.text?.content) {
       const title = titleProp.title[0].text.content;
       // Normalize key so apostrophe variants (U+0027 vs U+2019) and trademark
@@ -416,45 +837,118 @@ const buildLookupMaps = (
   return { existingById, existingByCanonicalId, existingByTitle, variantPages };
 };
 
+/**
+ * Find the existing page for a game, by canonical ID first, then by title
+ */
+const findExistingPage = (
+  game: UnifiedGame,
+  syncProperties: NotionSyncProperties,
+  existingByCanonicalId: Map<string, any>,
+  existingByTitle: Map<string, any>,
+): any => {
+  let existingPage = null;
+
+  debug(`Looking up game: "${game.name}" (ID: ${game.canonicalId})`);
+
+  if (syncProperties.canonicalId) {
+    existingPage = existingByCanonicalId.get(game.canonicalId);
+    if (existingPage) {
+      debug(`  ✓ Found by canonical ID: ${game.canonicalId}`);
+    }
+  }
+
+  if (!existingPage) {
+    const lookupKey = normalizeGameName(game.name);
+    existingPage = existingByTitle.get(lookupKey);
+    if (existingPage) {
+      debug(`  ✓ Found by title: "${lookupKey}"`);
+    } else {
+      debug(`  ✗ Not found by title: "${lookupKey}"`);
+    }
+  }
+
+  return existingPage ?? null;
+};
+
+/**
+ * Pull phase: merge user-owned fields from existing pages into the games
+ * (mutates them). Runs before push, which never writes these fields.
+ */
+const pullUserFields = (
+  games: UnifiedGame[],
+  names: NotionPropertyNames,
+  syncProperties: NotionSyncProperties,
+  pullProperties: Partial<NotionPullProperties>,
+  existingByCanonicalId: Map<string, any>,
+  existingByTitle: Map<string, any>,
+): { pulled: number; conflicts: number } => {
+  const fields = getPullFields(pullProperties);
+  let pulled = 0;
+  let conflicts = 0;
+
+  for (const game of games) {
+    const page = findExistingPage(
+      game,
+      syncProperties,
+      existingByCanonicalId,
+      existingByTitle,
+    );
+    // A stub wasn't edited since the last sync, so there is nothing to pull
+    if (!page || page.propertyHash !== undefined) continue;
+
+    const editedAt = new Date(page.last_edited_time ?? 0);
+    const merge = mergeUserFields(
+      game,
+      readUserFields(page, names, fields),
+      editedAt,
+      fields,
+    );
+    if (merge.pulled.length > 0) {
+      pulled++;
+      debug(`  ⬇️  "${game.name}": ${merge.pulled.join(', ')}`);
+    }
+    for (const field of merge.conflicts) {
+      conflicts++;
+      const winner = merge.pulled.includes(field) ? 'Notion' : 'local';
+      console.log(
+        `  ⚔️  "${game.name}" ${names[field]} changed on both sides, keeping ${winner} (edited last)`,
+      );
+    }
+  }
+
+  return { pulled, conflicts };
+};
+
 /**
  * Sync a single game to Notion
  * Returns sync result: 'created', 'updated', 'skipped', or 'error'
  * Also marks the page as processed in the tracker
  */
 const syncSingleGame = async (
-  client: Client,
+  client: NotionApi,
   databaseId: string,
   game: UnifiedGame,
-  titleProperty: string,
+  names: NotionPropertyNames,
   syncProperties: NotionSyncProperties,
   existingByCanonicalId: Map<string, any>,
   existingByTitle: Map<string, any>,
   variantPages: Map<string, any[]>,
   processedPages: Set<string>,
   dryRun: boolean,
+  media: PageMediaOptions,
+  relatedPages: RelatedPages,
+  failedWrites: FailedWrite[],
+  body?: PageBody,
   tracker?: SyncOperations,
+  plan?: SyncPlan,
 ): Promise<'created' | 'updated' | 'skipped' | 'error'> => {
   try {
-    let existingPage = null;
-
-    debug(`Looking up game: "${game.name}" (ID: ${game.canonicalId})`);
-
-    if (syncProperties.canonicalId) {
-      existingPage = existingByCanonicalId.get(game.canonicalId);
-      if (existingPage) {
-        debug(`  ✓ Found by canonical ID: ${game.canonicalId}`);
-      }
-    }
-
-    if (!existingPage) {
-      const lookupKey = normalizeGameName(game.name);
-      existingPage = existingByTitle.get(lookupKey);
-      if (existingPage) {
-        debug(`  ✓ Found by title: "${lookupKey}"`);
-      } else {
-        debug(`  ✗ Not found by title: "${lookupKey}"`);
-      }
-    }
+    const existingPage = findExistingPage(
+      game,
+      syncProperties,
+      existingByCanonicalId,
+      existingByTitle,
+    );
 
     // Mark any variant pages as removed
     const variants = variantPages.get(normalizeGameName(game.name));
@@ -468,28 +962,43 @@ const syncSingleGame = async (
         // Mark variant as removed and track it as processed
         processedPages.add(variantPage.id);
         const variantTitle =
-          variantPage.properties[titleProperty]?.title?.[0]?.text?.content ||
+          variantPage.properties[names.title]?.title?.[0]?.text?.content ||
           'Unknown';
         debug(`  Marking variant "${variantTitle}" as removed`);
 
+        if (dryRun) {
+          console.log(
+            `  [DRY RUN] Would mark variant "${variantTitle}" as removed`,
+          );
+          plan?.operations.push({
+            type: 'remove',
+            pageId: variantPage.id,
+            title: variantTitle,
+            properties: {
+              [names.libraryStatus]: { select: { name: REMOVED_STATUS } },
+            },
+          });
+          continue;
+        }
+
+        const markVariant = () =>
+          client.pages.update({
+            page_id: variantPage.id,
+            properties: {
+              [names.libraryStatus]: { select: { name: REMOVED_STATUS } },
+            },
+          });
         try {
-          if (dryRun) {
-            console.log(
-              `  [DRY RUN] Would mark variant "${variantTitle}" as removed`,
-            );
-          } else {
-            await client.pages.update({
-              page_id: variantPage.id,
-              properties: {
-                'Library Status': { select: { name: '⚠️ Removed' } },
-              },
-            });
-          }
+          await markVariant();
         } catch (error) {
           console.error(
-            `Failed to mark variant page ${variantTitle} as removed:`,
+            `Failed to mark variant page ${variantTitle} as removed, retrying at the end:`,
             error,
           );
+          failedWrites.push({
+            description: `mark variant page ${variantTitle} as removed`,
+            write: markVariant,
+          });
         }
       }
     }
@@ -500,35 +1009,94 @@ const syncSingleGame = async (
 
       const newProperties = gameToNotionProperties(
         game,
-        titleProperty,
-        syncProperties,
-      );
-
-      const changedFields = getChangedProperties(
-        existingPage,
-        newProperties,
+        names,
         syncProperties,
+        relatedPages,
       );
+      const pageMedia = getPageMedia(game, media);
+
+      // A stub only has the hash, so it can't tell which properties changed
+      const changedFields = [
+        ...(existingPage.propertyHash === undefined
+          ? getChangedProperties(
+              existingPage,
+              newProperties,
+              syncProperties,
+              names,
+            )
+          : existingPage.propertyHash ===
+              hashProperties(newProperties, syncProperties, names)
+            ? []
+            : ['(changed since last sync)']),
+        ...getChangedMedia(existingPage, pageMedia),
+      ];
 
       // Also check if we need to clear the "removed" status
       const currentStatus =
-        existingPage.properties['Library Status']?.select?.name;
+        existingPage.properties[names.libraryStatus]?.select?.name;
       const needsStatusClear =
-        syncProperties.libraryStatus && currentStatus === '⚠️ Removed';
+        syncProperties.libraryStatus && currentStatus === REMOVED_STATUS;
+
+      if (body) {
+        await syncPageBody(
+          client,
+          existingPage.id,
+          game,
+          body,
+          dryRun,
+          failedWrites,
+          plan,
+        );
+      }
 
       if (changedFields.length > 0 || needsStatusClear) {
         if (dryRun) {
           const fieldList = needsStatusClear
-            ? [...changedFields, 'Library Status (restore)']
+            ? [...changedFields, `${names.libraryStatus} (restore)`]
             : changedFields;
           console.log(`  [UPDATE] ${game.name} → ${fieldList.join(', ')}`);
+          if (plan) {
+            // Plans are made without the page index, so pages are complete
+            const changes = [
+              ...getPropertyChanges(
+                existingPage,
+                newProperties,
+                syncProperties,
+                names,
+              ),
+              ...getChangedMedia(existingPage, pageMedia).map(field => ({
+                property: field,
+                before: readPageFile(existingPage[field]),
+                after: readPageFile(pageMedia[field as keyof PageMedia]),
+              })),
+            ];
+            const changed = new Set(changes.map(change => change.property));
+            plan.operations.push({
+              type: 'update',
+              pageId: existingPage.id,
+              title: game.name,
+              changes,
+              properties: Object.fromEntries(
+                Object.entries(newProperties).filter(([name]) =>
+                  changed.has(name),
+                ),
+              ),
+              media: Object.fromEntries(
+                Object.entries(pageMedia).filter(([field]) =>
+                  changed.has(field),
+                ),
+              ),
+            });
+          }
         } else {
           await updatePage(
             client,
             existingPage.id,
             game,
-            titleProperty,
+            names,
             syncProperties,
+            relatedPages,
+            pageMedia,
           );
         }
         if (tracker) syncLogger.trackUpdated(tracker, game);
@@ -540,29 +1108,129 @@ const syncSingleGame = async (
     } else {
       if (dryRun) {
         console.log(`  [CREATE] ${game.name}`);
+        const blocks = body?.render(game);
+        plan?.operations.push({
+          type: 'create',
+          databaseId,
+          title: game.name,
+          properties: gameToNotionProperties(
+            game,
+            names,
+            syncProperties,
+            relatedPages,
+          ),
+          media: getPageMedia(game, media),
+          ...(blocks && {
+            children: [...blocks, createNotesMarker()],
+            bodyHash: hashValue(blocks),
+          }),
+        });
       } else {
-        await createPage(
+        const blocks = body?.render(game);
+        const pageId = await createPage(
           client,
           databaseId,
           game,
-          titleProperty,
+          names,
           syncProperties,
+          relatedPages,
+          getPageMedia(game, media),
+          blocks && [...blocks, createNotesMarker()],
         );
+        if (body && pageId) body.hashes[pageId] = hashValue(blocks);
       }
       if (tracker) syncLogger.trackAdded(tracker, game);
       return 'created';
     }
   } catch (error) {
     console.error(`Failed to sync game "${game.name}":`, error);
-    if (tracker) syncLogger.trackError(tracker);
     return 'error';
   }
 };
 
 /**
- * Mark games not in current library as removed.
+ * Archive a removed page, first copying it into the graveyard database when
+ * one is given. Stubs from the page index are fetched for their properties.
+ * The copy is only made once, so the write can be retried safely: after a
+ * failed copy that may have gone through (anything but a 429), the graveyard
+ * is searched for it before copying again.
+ */
+const createArchiver = (
+  client: NotionApi,
+  page: NotionPage,
+  names: NotionPropertyNames,
+  syncProperties: NotionSyncProperties,
+  pullProperties: Partial<NotionPullProperties>,
+  graveyardDatabaseId?: string,
+) => {
+  let copied = !graveyardDatabaseId;
+  let uncertainSince: Date | undefined;
+
+  /**
+   * Whether the graveyard has a copy of the page made since the failed copy
+   */
+  const findCopy = async (since: Date): Promise<boolean> => {
+    // created_time is rounded down to the minute
+    const start = new Date(since);
+    start.setUTCSeconds(0, 0);
+    const response: any = await client.databases.query({
+      database_id: graveyardDatabaseId!,
+      filter: {
+        and: [
+          {
+            property: names.title,
+            title: {
+              equals: page.properties[names.title]?.title?.[0]?.text?.content,
+            },
+          },
+          {
+            timestamp: 'created_time',
+            created_time: { on_or_after: start.toISOString() },
+          },
+        ],
+      },
+      page_size: 1,
+    });
+    return response.results.length > 0;
+  };
+
+  return async (): Promise<void> => {
+    if (!copied && uncertainSince) copied = await findCopy(uncertainSince);
+    if (!copied) {
+      const full: any =
+        page.propertyHash === undefined
+          ? page
+          : await client.pages.retrieve({ page_id: page.id });
+      const attemptedAt = new Date();
+      try {
+        await client.pages.create({
+          parent: { database_id: graveyardDatabaseId! },
+          properties: toWritableProperties(
+            full,
+            names,
+            syncProperties,
+            pullProperties,
+          ) as any,
+        });
+      } catch (error) {
+        if (!isRateLimitError(error)) uncertainSince ??= attemptedAt;
+        throw error;
+      }
+      copied = true;
+    }
+    await client.pages.update({ page_id: page.id, archived: true });
+  };
+};
+
+/**
+ * Handle pages of games that are no longer in the library.
  * Only processes pages that weren't synced (not in processedPages).
  *
+ * A page is flagged removed once its game has been missing for the grace
+ * period, and with the archive or graveyard strategy archived after it has
+ * been flagged for archiveAfterDays. Progress is kept in removalState
+ * (mutated), and pages back in the library drop out of it.
+ *
  * When gamePassCatalogTitles is provided:
  * - Pages whose normalized title is still in the Game Pass catalog are NOT
  *   marked removed (the game is still available; the user just removed interest).
@@ -570,16 +1238,29 @@ const syncSingleGame = async (
  *   the catalog have their removed status cleared.
  */
 const markRemovedGames = async (
-  client: Client,
-  existingById: Map<string, any>,
+  client: NotionApi,
+  existingById: Map<string, NotionPage>,
   processedPages: Set<string>,
-  titleProperty: string,
+  names: NotionPropertyNames,
+  syncProperties: NotionSyncProperties,
+  pullProperties: Partial<NotionPullProperties>,
+  removal: NotionRemoval,
+  removalState: RemovalState,
+  now: Date,
   dryRun: boolean,
   gamePassCatalogTitles?: Set<string>,
   tracker?: SyncOperations,
-): Promise<{ marked: number }> => {
+  plan?: SyncPlan,
+): Promise<{ marked: number; archived: string[] }> => {
   console.log('\n🔍 Checking for removed games...');
 
+  // Back in the library, or deleted in Notion
+  for (const pageId of Object.keys(removalState)) {
+    if (processedPages.has(pageId) || !existingById.has(pageId)) {
+      delete removalState[pageId];
+    }
+  }
+
   const unprocessedPages = Array.from(existingById.entries()).filter(
     ([pageId]) => !processedPages.has(pageId),
   );
@@ -588,22 +1269,37 @@ const markRemovedGames = async (
 
   if (unprocessedPages.length === 0) {
     console.log(`  ✅ No removed games detected`);
-    return { marked: 0 };
+    return { marked: 0, archived: [] };
   }
 
   let marked = 0;
+  let waiting = 0;
+  const archived: string[] = [];
+  const failedWrites: FailedWrite[] = [];
   const BATCH_SIZE = 3;
 
+  /**
+   * Run a write, keeping it for the end of the run if it fails
+   */
+  const write = async (description: string, run: () => Promise<unknown>) => {
+    try {
+      await run();
+    } catch (error) {
+      console.error(`Failed to ${description}, retrying at the end:`, error);
+      failedWrites.push({ description, write: run });
+    }
+  };
+
   for (let i = 0; i < unprocessedPages.length; i += BATCH_SIZE) {
     const batch = unprocessedPages.slice(i, i + BATCH_SIZE);
 
     await Promise.all(
       batch.map(async ([pageId, existingPage]) => {
         try {
-          const titleProp = existingPage.properties[titleProperty];
+          const titleProp = existingPage.properties[names.title];
           const gameTitle = titleProp?.title?.[0]?.text?.content || 'Unknown';
           const currentStatus =
-            existingPage.properties['Library Status']?.select?.name;
+            existingPage.properties[names.libraryStatus]?.select?.name;
 
           const normalizedTitle = normalizeGameName(gameTitle);
           const sortedTitle = normalizedTitle.split(' ').filter(Boolean).sort().join(' ');
@@ -613,60 +1309,179 @@ const markRemovedGames = async (
               gamePassCatalogTitles.has(sortedTitle));
 
           if (stillInGamePass) {
+            delete removalState[pageId];
             // Game is still available on Game Pass — user just removed it from
             // interests. Don't mark it removed.
-            if (currentStatus === '⚠️ Removed') {
+            if (currentStatus === REMOVED_STATUS) {
               // Game returned to the catalog after a previous removal. Restore
               // its status to active.
               debug(
                 `  ✅ Restoring status for "${gameTitle}" (back in Game Pass catalog)`,
               );
+              const properties = { [names.libraryStatus]: { select: null } };
               if (!dryRun) {
-                await client.pages.update({
-                  page_id: pageId,
-                  properties: { 'Library Status': { select: null } },
+                await write(`restore status of page ${pageId}`, () =>
+                  client.pages.update({ page_id: pageId, properties }),
+                );
+              } else {
+                plan?.operations.push({
+                  type: 'restore',
+                  pageId,
+                  title: gameTitle,
+                  properties,
                 });
               }
             }
             return;
           }
 
-          if (currentStatus !== '⚠️ Removed') {
-            const canonicalId = extractCanonicalId(existingPage, titleProperty);
-            if (dryRun) {
+          const entry = (removalState[pageId] ??= {
+            title: gameTitle,
+            missingSince: now.toISOString(),
+          });
+          const action = getRemovalAction(
+            entry,
+            currentStatus === REMOVED_STATUS,
+            removal,
+            now,
+          );
+
+          if (action === 'wait') {
+            waiting++;
+            debug(`  ⏳ "${gameTitle}" missing since ${entry.missingSince}`);
+            return;
+          }
+
+          if (action === 'archive') {
+            const graveyard = removal.strategy === 'graveyard';
+            const archive = createArchiver(
+              client,
+              existingPage,
+              names,
+              syncProperties,
+              pullProperties,
+              graveyard ? removal.graveyardDatabaseId : undefined,
+            );
+            const run = async () => {
+              if (dryRun) {
+                console.log(
+                  `  [${graveyard ? 'GRAVEYARD' : 'ARCHIVE'}] "${gameTitle}"`,
+                );
+                plan?.operations.push({
+                  type: 'archive',
+                  pageId,
+                  title: gameTitle,
+                  ...(graveyard && {
+                    copy: {
+                      databaseId: removal.graveyardDatabaseId!,
+                      properties: toWritableProperties(
+                        existingPage,
+                        names,
+                        syncProperties,
+                        pullProperties,
+                      ),
+                    },
+                  }),
+                });
+              } else {
+                await archive();
+              }
+              delete removalState[pageId];
+              archived.push(pageId);
+            };
+
+            if (!dryRun) {
               console.log(
-                `  [REMOVE] "${gameTitle}"${canonicalId ? ` (ID: ${canonicalId})` : ''}`,
+                `  🗄️  ${graveyard ? 'Moving to the graveyard' : 'Archiving'}: "${gameTitle}"`,
               );
-            } else {
+            }
+            await write(`archive page ${pageId}`, run);
+            return;
+          }
+
+          if (action === 'mark') {
+            const canonicalId = extractCanonicalId(existingPage, names);
+            const properties = {
+              [names.libraryStatus]: { select: { name: REMOVED_STATUS } },
+            };
+            const markRemoved = async () => {
+              if (dryRun) {
+                console.log(
+                  `  [REMOVE] "${gameTitle}"${canonicalId ? ` (ID: ${canonicalId})` : ''}`,
+                );
+                plan?.operations.push({
+                  type: 'remove',
+                  pageId,
+                  title: gameTitle,
+                  properties,
+                });
+              } else {
+                await client.pages.update({ page_id: pageId, properties });
+              }
+              entry.removedAt = now.toISOString();
+              if (tracker) syncLogger.trackRemoved(tracker, gameTitle);
+              marked++;
+            };
+
+            if (!dryRun) {
               console.log(
                 `  ⚠️  Marking as removed: "${gameTitle}"${
                   canonicalId ? ` (ID: ${canonicalId})` : ''
                 }`,
               );
-              await client.pages.update({
-                page_id: pageId,
-                properties: {
-                  'Library Status': { select: { name: '⚠️ Removed' } },
-                },
-              });
             }
-            if (tracker) syncLogger.trackRemoved(tracker, gameTitle);
-            marked++;
+            await write(`mark page ${pageId} as removed`, markRemoved);
           }
         } catch (error) {
           console.error(`Failed to mark page ${pageId} as removed:`, error);
         }
       }),
     );
+  }
 
-    // Rate limiting between batches
-    if (i + BATCH_SIZE < unprocessedPages.length) {
-      await sleep(1000);
-    }
+  if (failedWrites.length > 0) {
+    console.log(`  🔁 Retrying ${failedWrites.length} failed writes...`);
+    await replayFailedWrites(failedWrites);
   }
 
+  if (waiting > 0) {
+    console.log(
+      `  ⏳ ${waiting} missing games are within the ${removal.graceDays}-day grace period`,
+    );
+  }
+  if (archived.length > 0) {
+    console.log(`  🗄️  Archived ${archived.length} removed games`);
+  }
   console.log(`  ✅ Marked ${marked} games as removed`);
-  return { marked };
+  return { marked, archived };
+};
+
+/**
+ * Settings of a Notion client, as syncGames uses them
+ */
+type ClientSettings = {
+  databaseId: string;
+  names: NotionPropertyNames;
+  syncProperties: NotionSyncProperties;
+  pullProperties: Partial<NotionPullProperties>;
+  dryRun: boolean;
+  pageIndexPath?: string;
+  removal: NotionRemoval;
+  removalStatePath?: string;
+  pageBody: PageBodySection[];
+  pageBodyPath?: string;
+  media: PageMediaOptions;
+  relationDatabases: RelationDatabases;
+};
+
+/**
+ * Per-run inputs of syncGames
+ */
+export type SyncGamesOptions = {
+  gamePassCatalogTitles?: Set<string>; // Keeps pages of catalog games
+  signal?: AbortSignal;
+  playtimeHistory?: PlaytimeHistoryEntry[]; // For the page body's history
+  plan?: SyncPlan; // Collects the writes of a dry run
 };
 
 /**
@@ -674,14 +1489,30 @@ const markRemovedGames = async (
  * Creates new pages and updates existing ones
  */
 const syncGames = async (
-  client: Client,
-  databaseId: string,
+  client: NotionApi,
+  scheduler: RequestScheduler,
+  {
+    databaseId,
+    names,
+    syncProperties,
+    pullProperties,
+    dryRun,
+    pageIndexPath,
+    removal,
+    removalStatePath,
+    pageBody,
+    pageBodyPath,
+    media,
+    relationDatabases,
+  }: ClientSettings,
   games: UnifiedGame[],
-  titleProperty: string,
-  syncProperties: NotionSyncProperties,
-  dryRun: boolean,
-  gamePassCatalogTitles?: Set<string>,
-): Promise<void> => {
+  {
+    gamePassCatalogTitles,
+    signal,
+    playtimeHistory = [],
+    plan,
+  }: SyncGamesOptions = {},
+): Promise<NotionSyncResult> => {
   if (dryRun) {
     console.log('🏃 DRY RUN — no changes will be written to Notion\n');
   }
@@ -690,94 +1521,271 @@ const syncGames = async (
   // Initialize sync tracker
   const { operations, startTime } = syncLogger.createSyncTracker();
 
-  const existingPages = await fetchAllPages(client, databaseId);
+  const syncedAt = new Date();
+  const pageIndexKey = hashValue({
+    databaseId,
+    names,
+    syncProperties,
+    pullProperties,
+    media,
+    relationDatabases,
+  });
+  // A plan needs every page's current values for its before/after changes
+  const pageIndex =
+    pageIndexPath && !plan
+      ? await loadPageIndex(pageIndexPath, pageIndexKey, syncedAt)
+      : null;
+  if (plan && !plan.databaseIds.includes(databaseId)) {
+    plan.databaseIds.push(databaseId);
+  }
+  const existingPages = await fetchExistingPages(
+    client,
+    databaseId,
+    names,
+    pageIndex,
+  );
   const { existingById, existingByCanonicalId, existingByTitle, variantPages } =
-    buildLookupMaps(existingPages, titleProperty);
+    buildLookupMaps(existingPages, names);
 
   console.log(`Found ${existingPages.length} existing pages in Notion`);
 
+  let pulled = 0;
+  let conflicts = 0;
+  if (getPullFields(pullProperties).length > 0) {
+    ({ pulled, conflicts } = pullUserFields(
+      games,
+      names,
+      syncProperties,
+      pullProperties,
+      existingByCanonicalId,
+      existingByTitle,
+    ));
+    console.log(
+      `⬇️  Pulled user fields for ${pulled} games (${conflicts} conflicts)`,
+    );
+  }
+
   let created = 0;
   let updated = 0;
   let skipped = 0;
   let errors = 0;
   const total = games.length;
+  // Concurrency only: the request scheduler paces the actual API calls
   const BATCH_SIZE = 3;
 
+  let body: PageBody | undefined;
+  if (pageBody.length > 0) {
+    const historyByGame = new Map<string, PlaytimeHistoryEntry[]>();
+    for (const entry of playtimeHistory) {
+      const entries = historyByGame.get(entry.canonicalId);
+      if (entries) entries.push(entry);
+      else historyByGame.set(entry.canonicalId, [entry]);
+    }
+    body = {
+      render: game =>
+        renderPageBody(game, pageBody, historyByGame.get(game.canonicalId)),
+      hashes: pageBodyPath ? await loadPageBodyHashes(pageBodyPath) : {},
+    };
+  }
+
+  const relatedPages = await resolveRelatedPages(
+    client,
+    games,
+    RELATION_FIELDS.filter(field => syncProperties[field]),
+    relationDatabases,
+    dryRun,
+    plan,
+  );
+
   // Track which pages we've processed (still in library)
   const processedPages = new Set<string>();
+  const failedGames: UnifiedGame[] = [];
+  const failedWrites: FailedWrite[] = [];
+
+  const sync = (game: UnifiedGame) =>
+    syncSingleGame(
+      client,
+      databaseId,
+      game,
+      names,
+      syncProperties,
+      existingByCanonicalId,
+      existingByTitle,
+      variantPages,
+      processedPages,
+      dryRun,
+      media,
+      relatedPages,
+      failedWrites,
+      body,
+      operations,
+      plan,
+    );
 
   for (let i = 0; i < games.length; i += BATCH_SIZE) {
+    signal?.throwIfAborted();
     const batch = games.slice(i, i + BATCH_SIZE);
 
-    const results = await Promise.all(
-      batch.map(game =>
-        syncSingleGame(
-          client,
-          databaseId,
-          game,
-          titleProperty,
-          syncProperties,
-          existingByCanonicalId,
-          existingByTitle,
-          variantPages,
-          processedPages,
-          dryRun,
-          operations,
-        ),
-      ),
-    );
+    const results = await Promise.all(batch.map(sync));
 
-    for (const result of results) {
+    results.forEach((result, index) => {
       if (result === 'created') created++;
       else if (result === 'updated') updated++;
       else if (result === 'skipped') skipped++;
-      else if (result === 'error') errors++;
-    }
+      else if (result === 'error') failedGames.push(batch[index]);
+    });
 
     const processed = Math.min(i + BATCH_SIZE, total);
     if (processed % 25 === 0 || processed === total) {
       console.log(
-        `  Progress: ${processed}/${total} games (${created} created, ${updated} updated, ${skipped} skipped, ${errors} errors)`,
+        `  Progress: ${processed}/${total} games (${created} created, ${updated} updated, ${skipped} skipped, ${failedGames.length} failed)`,
       );
     }
+  }
 
-    if (!dryRun && i + BATCH_SIZE < games.length) {
-      await sleep(1000);
+  // Games that failed even after the scheduler's retries get one more try
+  // at the end of the run. A failed create may still have made its page, so
+  // pages created during the run are looked up first.
+  if (failedGames.length > 0) {
+    signal?.throwIfAborted();
+    console.log(`🔁 Retrying ${failedGames.length} failed games...`);
+    if (!dryRun) {
+      const createdSince = new Date(syncedAt);
+      createdSince.setUTCSeconds(0, 0); // created_time is rounded down
+      const created = buildLookupMaps(
+        await fetchAllPages(client, databaseId, {
+          timestamp: 'created_time',
+          created_time: { on_or_after: createdSince.toISOString() },
+        }),
+        names,
+      );
+      for (const [id, page] of created.existingByCanonicalId) {
+        if (!existingByCanonicalId.has(id)) existingByCanonicalId.set(id, page);
+      }
+      for (const [title, page] of created.existingByTitle) {
+        if (!existingByTitle.has(title)) existingByTitle.set(title, page);
+      }
     }
+    for (const game of failedGames) {
+      const result = await sync(game);
+      if (result === 'created') created++;
+      else if (result === 'updated') updated++;
+      else if (result === 'skipped') skipped++;
+      else {
+        errors++;
+        syncLogger.trackError(operations);
+      }
+    }
+  }
+  if (failedWrites.length > 0) {
+    console.log(`🔁 Retrying ${failedWrites.length} failed writes...`);
+    await replayFailedWrites(failedWrites);
   }
 
+  let removed = 0;
+  let archived: string[] = [];
+  let removalState: RemovalState | undefined;
   if (syncProperties.libraryStatus) {
-    await markRemovedGames(
+    signal?.throwIfAborted();
+    removalState = removalStatePath
+      ? await loadRemovalState(removalStatePath)
+      : {};
+    ({ marked: removed, archived } = await markRemovedGames(
       client,
       existingById,
       processedPages,
-      titleProperty,
+      names,
+      syncProperties,
+      pullProperties,
+      removal,
+      removalState,
+      syncedAt,
       dryRun,
       gamePassCatalogTitles,
       operations,
-    );
+      plan,
+    ));
+    if (removalStatePath && !dryRun) {
+      await saveRemovalState(removalStatePath, removalState);
+    }
   }
 
   const verb = dryRun ? 'Would' : '';
+  const requests = scheduler.getStats();
+  console.log(
+    `🚦 Notion requests: ${requests.requests} (${requests.retries} retried, ${requests.rateLimited} rate limited)`,
+  );
   console.log(
     dryRun
       ? `\n📊 Dry run summary: ${created} would be created, ${updated} would be updated, ${skipped} unchanged, ${errors} errors`
       : `✅ Sync complete: ${created} created, ${updated} updated, ${skipped} skipped, ${errors} errors`,
   );
 
+  // Pages this run wrote to were edited after syncedAt, so the next sync
+  // fetches them again and the index doesn't need updating for the writes
+  const buildPageIndex = (): PageIndex => ({
+    key: pageIndexKey,
+    syncedAt: syncedAt.toISOString(),
+    pages: Object.fromEntries(
+      existingPages
+        .filter(page => !archived.includes(page.id))
+        .map(page => [page.id, toIndexEntry(page, names, syncProperties)]),
+    ),
+  });
+  if (body) {
+    for (const pageId of archived) delete body.hashes[pageId];
+  }
+
+  if (plan) {
+    // Saved when the plan is applied. A plan reads every page, so its index
+    // is complete, and apply refuses to run after edits since it was made
+    plan.state[databaseId] = {
+      ...(pageIndexPath && {
+        pageIndex: { path: pageIndexPath, index: buildPageIndex() },
+      }),
+      ...(removalStatePath &&
+        removalState && {
+          removal: { path: removalStatePath, state: removalState },
+        }),
+      ...(body &&
+        pageBodyPath && {
+          pageBody: { path: pageBodyPath, hashes: body.hashes },
+        }),
+    };
+  }
+
+  if (pageIndexPath && !dryRun) {
+    await savePageIndex(pageIndexPath, buildPageIndex());
+  }
+
+  if (body && pageBodyPath && !dryRun) {
+    await savePageBodyHashes(pageBodyPath, body.hashes);
+  }
+
   if (!dryRun) {
     // Save and print log summary
     syncLogger.printSyncSummary(operations, startTime);
     const logPath = await syncLogger.saveSyncLog(operations, startTime);
     console.log(`📝 Log saved to: ${logPath}`);
   }
+
+  return {
+    created,
+    updated,
+    skipped,
+    errors,
+    removed,
+    archived: archived.length,
+    pulled,
+    conflicts,
+  };
 };
 
 /**
  * Verify database exists and is accessible
  */
 const verifyDatabase = async (
-  client: Client,
+  client: NotionApi,
   databaseId: string,
 ): Promise<boolean> => {
   try {
@@ -789,6 +1797,23 @@ const verifyDatabase = async (
   }
 };
 
+/**
+ * Optional settings of a Notion client. Paths left out turn off the state
+ * they would hold (page index, removal progress, page body hashes).
+ */
+export type NotionClientOptions = {
+  dryRun?: boolean; // Log the writes instead of making them
+  propertyNames?: Partial<Record<NotionField | NotionPullField, string>>;
+  pullProperties?: Partial<NotionPullProperties>;
+  pageIndexPath?: string;
+  removal?: NotionRemoval; // Flag removed games at once by default
+  removalStatePath?: string;
+  pageBody?: PageBodySection[];
+  pageBodyPath?: string;
+  media?: PageMediaOptions;
+  relationDatabases?: RelationDatabases;
+};
+
 /**
  * Create a Notion client instance
  * Uses factory pattern to maintain the Notion SDK client across calls
@@ -798,21 +1823,75 @@ export const createNotionClient = (
   databaseId: string,
   titleProperty: string,
   syncProperties: NotionSyncProperties,
-  dryRun: boolean = false,
+  {
+    dryRun = false,
+    propertyNames = {},
+    pullProperties = {},
+    pageIndexPath,
+    removal = IMMEDIATE_REMOVAL,
+    removalStatePath,
+    pageBody = [],
+    pageBodyPath,
+    media = NO_PAGE_MEDIA,
+    relationDatabases = {},
+  }: NotionClientOptions = {},
 ) => {
-  const client = new Client({ auth: apiKey });
+  if (removal.strategy === 'graveyard' && !removal.graveyardDatabaseId) {
+    throw new Error(
+      'The graveyard removal strategy needs NOTION_GRAVEYARD_DATABASE_ID',
+    );
+  }
+  const unlinked = RELATION_FIELDS.find(
+    field => syncProperties[field] && !relationDatabases[field],
+  );
+  if (unlinked) {
+    throw new Error(
+      `The ${unlinked} relation needs NOTION_${unlinked.toUpperCase()}_DATABASE_ID`,
+    );
+  }
+
+  const scheduler = createRequestScheduler();
+  const client = scheduleNotionApi(new Client({ auth: apiKey }), scheduler);
+  const names = resolvePropertyNames(titleProperty, propertyNames);
+
+  const pushed = findPushedPullFields(names, syncProperties, pullProperties);
+  if (pushed.length > 0) {
+    throw new Error(
+      `Pulled Notion properties are also written by the sync: ${pushed
+        .map(field => names[field])
+        .join(', ')}. Rename them with NOTION_PROPERTY_NAMES.`,
+    );
+  }
+
+  const settings: ClientSettings = {
+    databaseId,
+    names,
+    syncProperties,
+    pullProperties,
+    dryRun,
+    pageIndexPath,
+    removal,
+    removalStatePath,
+    pageBody,
+    pageBodyPath,
+    media,
+    relationDatabases,
+  };
 
   return {
-    syncGames: (games: UnifiedGame[], gamePassCatalogTitles?: Set<string>) =>
-      syncGames(
+    syncGames: (games: UnifiedGame[], options?: SyncGamesOptions) =>
+      syncGames(client, scheduler, settings, games, options),
+    applyPlan: (plan: SyncPlan) => applySyncPlan(client, plan),
+    verifyDatabase: () => verifyDatabase(client, databaseId),
+    ensureSchema: (options: Omit<EnsureSchemaOptions, 'dryRun'> = {}) =>
+      ensureSchema(
         client,
         databaseId,
-        games,
-        titleProperty,
+        names,
         syncProperties,
-        dryRun,
-        gamePassCatalogTitles,
+        pullProperties,
+        { ...options, dryRun },
+        relationDatabases,
       ),
-    verifyDatabase: () => verifyDatabase(client, databaseId),
   };
 };
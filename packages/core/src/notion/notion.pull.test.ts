@@ -0,0 +1,157 @@
+import { describe, it, expect } from 'vitest';
+import { getPullFields, mergeUserFields, readUserFields } from './notion.pull';
+import { resolvePropertyNames } from './notion.schema';
+import type { UnifiedGame, UserField } from '../types/game';
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+const names = resolvePropertyNames('Name', { notes: 'My Notes' });
+
+const fields: UserField[] = ['status', 'rating', 'notes', 'interest'];
+
+const makeGame = (overrides: Partial<UnifiedGame> = {}): UnifiedGame => ({
+  canonicalId: 'hades',
+  name: 'Hades',
+  primarySource: 'steam',
+  ownedSources: ['steam'],
+  createdAt: new Date('2026-01-01'),
+  updatedAt: new Date('2026-01-01'),
+  ...overrides,
+});
+
+const earlier = new Date('2026-03-01T10:00:00Z');
+const later = new Date('2026-03-02T10:00:00Z');
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('notion.pull', () => {
+  describe('getPullFields', () => {
+    it('lists only enabled fields', () => {
+      expect(
+        getPullFields({ rating: true, notes: false, interest: true }),
+      ).toEqual(['rating', 'interest']);
+    });
+  });
+
+  describe('readUserFields', () => {
+    it('reads each field through the mapped property names', () => {
+      const page = {
+        properties: {
+          Status: { select: { name: 'Playing' } },
+          Rating: { number: 4 },
+          'My Notes': {
+            rich_text: [{ plain_text: 'Great ' }, { plain_text: 'music' }],
+          },
+          'Want to Play': { checkbox: true },
+        },
+      };
+
+      expect(readUserFields(page, names, fields)).toEqual({
+        status: 'Playing',
+        rating: 4,
+        notes: 'Great music',
+        interest: 'want-to-play',
+      });
+    });
+
+    it('reads empty properties and an unchecked box as unset', () => {
+      const page = {
+        properties: {
+          Status: { select: null },
+          Rating: { number: null },
+          'My Notes': { rich_text: [] },
+          'Want to Play': { checkbox: false },
+        },
+      };
+
+      expect(readUserFields(page, names, fields)).toEqual({
+        status: undefined,
+        rating: undefined,
+        notes: undefined,
+        interest: undefined,
+      });
+    });
+  });
+
+  describe('mergeUserFields', () => {
+    it('takes fields that only changed in Notion', () => {
+      const game = makeGame({ notionUserFields: { rating: 3 }, rating: 3 });
+
+      const merge = mergeUserFields(game, { rating: 5 }, later, ['rating']);
+
+      expect(game.rating).toBe(5);
+      expect(game.userFieldsEditedAt).toEqual(later);
+      expect(merge).toEqual({ pulled: ['rating'], conflicts: [] });
+    });
+
+    it('keeps local changes when Notion did not change the field', () => {
+      const game = makeGame({
+        notionUserFields: { status: 'Backlog' },
+        status: 'Playing',
+        userFieldsEditedAt: earlier,
+      });
+
+      const merge = mergeUserFields(game, { status: 'Backlog' }, later, [
+        'status',
+      ]);
+
+      expect(game.status).toBe('Playing');
+      expect(merge).toEqual({ pulled: [], conflicts: [] });
+    });
+
+    it('resolves conflicts in favour of Notion when the page was edited last', () => {
+      const game = makeGame({
+        notionUserFields: { status: 'Backlog' },
+        status: 'Playing',
+        userFieldsEditedAt: earlier,
+      });
+
+      const merge = mergeUserFields(game, { status: 'Finished' }, later, [
+        'status',
+      ]);
+
+      expect(game.status).toBe('Finished');
+      expect(merge).toEqual({ pulled: ['status'], conflicts: ['status'] });
+    });
+
+    it('resolves conflicts in favour of the local value when it was edited last', () => {
+      const game = makeGame({
+        notionUserFields: { status: 'Backlog' },
+        status: 'Playing',
+        userFieldsEditedAt: later,
+      });
+
+      const merge = mergeUserFields(game, { status: 'Finished' }, earlier, [
+        'status',
+      ]);
+
+      expect(game.status).toBe('Playing');
+      expect(merge).toEqual({ pulled: [], conflicts: ['status'] });
+    });
+
+    it('remembers the Notion values so the next pull only sees new edits', () => {
+      const game = makeGame({
+        notionUserFields: { status: 'Backlog' },
+        status: 'Playing',
+        userFieldsEditedAt: later,
+      });
+
+      mergeUserFields(game, { status: 'Finished' }, earlier, ['status']);
+      const next = mergeUserFields(game, { status: 'Finished' }, later, [
+        'status',
+      ]);
+
+      expect(game.notionUserFields).toEqual({ status: 'Finished' });
+      expect(game.status).toBe('Playing');
+      expect(next.conflicts).toEqual([]);
+    });
+
+    it('keeps a local value on the first pull when Notion is still empty', () => {
+      const game = makeGame({ interest: 'want-to-play' });
+
+      mergeUserFields(game, { interest: undefined }, later, ['interest']);
+
+      expect(game.interest).toBe('want-to-play');
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  NotionPullProperties,
+  UnifiedGame,
+  UserField,
+  UserFields,
+} from '../types/game';
+import { NOTION_PULL_FIELDS, NotionPropertyNames } from './notion.schema';
+
+/**
+ * Outcome of merging a game's user fields with its Notion page
+ */
+export type UserFieldsMerge = {
+  pulled: UserField[]; // Fields that took the Notion value
+  conflicts: UserField[]; // Changed on both sides, resolved by last edit
+};
+
+/**
+ * Enabled pulled fields, in table order
+ */
+export const getPullFields = (
+  pullProperties: Partial<NotionPullProperties>,
+): UserField[] => NOTION_PULL_FIELDS.filter(field => pullProperties[field]);
+
+/**
+ * Read user fields from a Notion page. Empty properties read as undefined,
+ * and an unchecked interest box means no interest was set.
+ */
+export const readUserFields = (
+  page: { properties: Record<string, any> },
+  names: NotionPropertyNames,
+  fields: UserField[],
+): UserFields => {
+  const properties = page.properties;
+  const values: UserFields = {};
+
+  for (const field of fields) {
+    const property = properties[names[field]];
+    switch (field) {
+      case 'status':
+        values.status = property?.select?.name ?? undefined;
+        break;
+      case 'rating':
+        values.rating = property?.number ?? undefined;
+        break;
+      case 'notes':
+        values.notes =
+          (property?.rich_text ?? [])
+            .map((text: any) => text.plain_text ?? text.text?.content ?? '')
+            .join('') || undefined;
+        break;
+      case 'interest':
+        values.interest = property?.checkbox ? 'want-to-play' : undefined;
+        break;
+    }
+  }
+
+  return values;
+};
+
+/**
+ * Merge user fields read from a Notion page into a game (mutates the game).
+ * A three-way merge against the values seen at the last pull: a field Notion
+ * didn't change keeps the local value, a field only Notion changed takes the
+ * Notion value, and a field changed on both sides goes to the side edited
+ * last (page last_edited_time vs the game's userFieldsEditedAt).
+ */
+export const mergeUserFields = (
+  game: UnifiedGame,
+  remote: UserFields,
+  remoteEditedAt: Date,
+  fields: UserField[],
+): UserFieldsMerge => {
+  const base = game.notionUserFields ?? {};
+  const merge: UserFieldsMerge = { pulled: [], conflicts: [] };
+
+  for (const field of fields) {
+    const theirs = remote[field];
+    const local = game[field];
+    if (theirs === base[field] || theirs === local) continue;
+
+    if (local !== base[field]) {
+      merge.conflicts.push(field);
+      const localEditedAt = game.userFieldsEditedAt;
+      if (localEditedAt && localEditedAt >= remoteEditedAt) continue;
+    }
+
+    Object.assign(game, { [field]: theirs });
+    merge.pulled.push(field);
+  }
+
+  game.notionUserFields = Object.fromEntries(
+    fields.map(field => [field, remote[field]]),
+  );
+  if (
+    merge.pulled.length > 0 &&
+    (!game.userFieldsEditedAt || game.userFieldsEditedAt < remoteEditedAt)
+  ) {
+    game.userFieldsEditedAt = remoteEditedAt;
+  }
+
+  return merge;
+};
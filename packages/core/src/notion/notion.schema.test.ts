@@ -0,0 +1,306 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  diffSchema,
+  ensureSchema,
+  getExpectedProperties,
+  resolvePropertyNames,
+} from './notion.schema';
+import type { NotionSyncProperties } from '../types/game';
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+const syncProperties: NotionSyncProperties = {
+  canonicalId: true,
+  primarySource: true,
+  ownedOn: false,
+  steamAppId: true,
+  playtime: false,
+  lastPlayed: false,
+  protonTier: true,
+  steamDeck: false,
+  coverImage: false,
+  libraryStatus: true,
+  installed: false,
+  installSize: false,
+  playtimeBySource: false,
+  franchise: false,
+  platform: false,
+};
+
+const selectProperty = (...options: string[]) => ({
+  type: 'select',
+  select: { options: options.map(name => ({ id: name, name, color: 'gray' })) },
+});
+
+/**
+ * Database matching syncProperties except for a missing "Proton Tier"
+ * and two missing "Primary Source" options
+ */
+const databaseProperties = () => ({
+  Name: { type: 'title', title: {} },
+  'Canonical ID': { type: 'rich_text', rich_text: {} },
+  'Primary Source': selectProperty(
+    'Steam',
+    'Xbox',
+    'Epic Games',
+    'GOG',
+    'Game Pass',
+  ),
+  'Steam App ID': { type: 'number', number: { format: 'number' } },
+  'Library Status': selectProperty('⚠️ Removed'),
+});
+
+const createFakeClient = (properties: Record<string, any>) => ({
+  databases: {
+    retrieve: vi.fn().mockResolvedValue({ properties }),
+    update: vi.fn().mockResolvedValue({}),
+  },
+});
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('notion.schema', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  describe('getExpectedProperties', () => {
+    it('includes the title and only enabled properties', () => {
+      const expected = getExpectedProperties(
+        resolvePropertyNames('Game'),
+        syncProperties,
+      );
+
+      expect(expected.map(p => p.name)).toEqual([
+        'Game',
+        'Canonical ID',
+        'Primary Source',
+        'Steam App ID',
+        'Proton Tier',
+        'Library Status',
+      ]);
+      expect(expected.find(p => p.name === 'Proton Tier')?.options).toEqual([
+        'Platinum',
+        'Gold',
+        'Silver',
+        'Bronze',
+        'Borked',
+      ]);
+    });
+
+    it('uses configured property names', () => {
+      const expected = getExpectedProperties(
+        resolvePropertyNames('Game', {
+          canonicalId: 'ID',
+          libraryStatus: 'Status',
+        }),
+        syncProperties,
+      );
+
+      expect(expected.map(p => p.name)).toEqual([
+        'Game',
+        'ID',
+        'Primary Source',
+        'Steam App ID',
+        'Proton Tier',
+        'Status',
+      ]);
+      expect(expected.find(p => p.name === 'Status')).toEqual({
+        name: 'Status',
+        type: 'select',
+        options: ['⚠️ Removed'],
+      });
+    });
+  });
+
+  describe('diffSchema', () => {
+    it('reports missing properties, missing options and type mismatches', () => {
+      const properties = {
+        ...databaseProperties(),
+        'Steam App ID': { type: 'rich_text', rich_text: {} },
+      };
+
+      const drift = diffSchema(
+        properties,
+        getExpectedProperties(resolvePropertyNames('Name'), syncProperties),
+      );
+
+      expect(drift.missingProperties.map(p => p.name)).toEqual(['Proton Tier']);
+      expect(drift.missingOptions).toEqual([
+        {
+          name: 'Primary Source',
+          type: 'select',
+          options: ['Amazon', 'Manual'],
+        },
+      ]);
+      expect(drift.typeMismatches).toEqual([
+        { name: 'Steam App ID', expected: 'number', actual: 'rich_text' },
+      ]);
+    });
+
+    it('reports a missing title property as a mismatch, not a missing property', () => {
+      const drift = diffSchema(
+        databaseProperties(),
+        getExpectedProperties(resolvePropertyNames('Title'), syncProperties),
+      );
+
+      expect(drift.typeMismatches).toContainEqual({
+        name: 'Title',
+        expected: 'title',
+        actual: 'missing',
+      });
+      expect(drift.missingProperties.map(p => p.name)).not.toContain('Title');
+    });
+
+    it('reports a relation to another database as a mismatch', () => {
+      const drift = diffSchema(
+        {
+          ...databaseProperties(),
+          Franchise: {
+            type: 'relation',
+            relation: { database_id: 'aaaa-bbbb' },
+          },
+          Platforms: {
+            type: 'relation',
+            relation: { database_id: 'cccc-dddd' },
+          },
+        },
+        getExpectedProperties(
+          resolvePropertyNames('Name'),
+          { ...syncProperties, franchise: true, platform: true },
+          {},
+          { franchise: 'aaaabbbb', platform: 'eeeeffff' },
+        ),
+      );
+
+      expect(drift.typeMismatches).toEqual([
+        {
+          name: 'Platforms',
+          expected: 'relation',
+          actual: 'relation to another database',
+        },
+      ]);
+    });
+  });
+
+  describe('ensureSchema', () => {
+    it('only reports drift without the fix option', async () => {
+      const client = createFakeClient(databaseProperties());
+
+      const result = await ensureSchema(
+        client as any,
+        'db',
+        resolvePropertyNames('Name'),
+        syncProperties,
+        {},
+      );
+
+      expect(result.fixed).toBe(false);
+      expect(result.missingProperties).toHaveLength(1);
+      expect(client.databases.update).not.toHaveBeenCalled();
+    });
+
+    it('creates missing properties and keeps existing select options', async () => {
+      const client = createFakeClient(databaseProperties());
+
+      const result = await ensureSchema(
+        client as any,
+        'db',
+        resolvePropertyNames('Name'),
+        syncProperties,
+        {},
+        { fix: true },
+      );
+
+      expect(result.fixed).toBe(true);
+      const { properties } = client.databases.update.mock.calls[0][0];
+      expect(properties['Proton Tier']).toEqual({
+        select: {
+          options: ['Platinum', 'Gold', 'Silver', 'Bronze', 'Borked'].map(
+            name => ({ name }),
+          ),
+        },
+      });
+      expect(properties['Primary Source'].select.options).toEqual([
+        ...databaseProperties()['Primary Source'].select.options,
+        { name: 'Amazon' },
+        { name: 'Manual' },
+      ]);
+    });
+
+    it('creates a missing relation pointing to its database', async () => {
+      const client = createFakeClient(databaseProperties());
+
+      await ensureSchema(
+        client as any,
+        'db',
+        resolvePropertyNames('Name'),
+        { ...syncProperties, franchise: true },
+        {},
+        { fix: true },
+        { franchise: 'db-franchises' },
+      );
+
+      expect(
+        client.databases.update.mock.calls[0][0].properties.Franchise,
+      ).toEqual({
+        relation: { database_id: 'db-franchises', single_property: {} },
+      });
+    });
+
+    it('does not modify the database in a dry run', async () => {
+      const client = createFakeClient(databaseProperties());
+
+      const result = await ensureSchema(
+        client as any,
+        'db',
+        resolvePropertyNames('Name'),
+        syncProperties,
+        {},
+        { fix: true, dryRun: true },
+      );
+
+      expect(result.fixed).toBe(false);
+      expect(client.databases.update).not.toHaveBeenCalled();
+    });
+
+    it('does nothing when the schema already matches', async () => {
+      const client = createFakeClient({
+        ...databaseProperties(),
+        'Primary Source': selectProperty(
+          'Steam',
+          'Xbox',
+          'Epic Games',
+          'GOG',
+          'Amazon',
+          'Game Pass',
+          'Manual',
+        ),
+        'Proton Tier': selectProperty(
+          'Platinum',
+          'Gold',
+          'Silver',
+          'Bronze',
+          'Borked',
+        ),
+      });
+
+      const result = await ensureSchema(
+        client as any,
+        'db',
+        resolvePropertyNames('Name'),
+        syncProperties,
+        {},
+        { fix: true },
+      );
+
+      expect(result).toEqual({
+        missingProperties: [],
+        missingOptions: [],
+        typeMismatches: [],
+        fixed: false,
+      });
+      expect(client.databases.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,404 @@
+import { Client } from '@notionhq/client';
+import {
+  NotionPullProperties,
+  NotionSyncProperties,
+  ProtonTierSchema,
+  Source,
+  SteamDeckStatusSchema,
+} from '../types/game';
+
+/**
+ * Notion property types written by the sync
+ */
+export type NotionPropertyType =
+  | 'title'
+  | 'rich_text'
+  | 'select'
+  | 'multi_select'
+  | 'number'
+  | 'date'
+  | 'url'
+  | 'checkbox'
+  | 'relation';
+
+/**
+ * A database property the enabled sync properties need
+ */
+export type ExpectedProperty = {
+  name: string;
+  type: NotionPropertyType;
+  options?: string[]; // select / multi_select options
+  databaseId?: string; // Database a relation points to
+};
+
+/**
+ * Differences between the database and the expected properties
+ */
+export type SchemaDrift = {
+  missingProperties: ExpectedProperty[];
+  missingOptions: Array<{
+    name: string;
+    type: 'select' | 'multi_select';
+    options: string[];
+  }>;
+  typeMismatches: Array<{
+    name: string;
+    expected: NotionPropertyType;
+    actual: string; // 'missing' for a missing title property
+  }>;
+};
+
+/**
+ * Result of ensureSchema. `fixed` is true when missing properties and
+ * options were created.
+ */
+export type SchemaCheckResult = SchemaDrift & { fixed: boolean };
+
+export type EnsureSchemaOptions = {
+  fix?: boolean; // Create missing properties and select options
+  dryRun?: boolean;
+};
+
+/**
+ * Display names for sources, used for "Primary Source" and "Owned On"
+ */
+export const SOURCE_LABELS: Record<Source, string> = {
+  steam: 'Steam',
+  xbox: 'Xbox',
+  epic: 'Epic Games',
+  gog: 'GOG',
+  amazon: 'Amazon',
+  gamepass: 'Game Pass',
+  manual: 'Manual',
+};
+
+/**
+ * "Library Status" option for games no longer in the library
+ */
+export const REMOVED_STATUS = '⚠️ Removed';
+
+const capitalizeFirst = (str: string): string =>
+  str.charAt(0).toUpperCase() + str.slice(1);
+
+/**
+ * Synced game fields, one per sync property toggle
+ */
+export type NotionField = keyof NotionSyncProperties;
+
+/**
+ * Fields written as relations to pages of another database
+ */
+export type RelationField = 'franchise' | 'platform';
+
+export const RELATION_FIELDS: RelationField[] = ['franchise', 'platform'];
+
+/**
+ * Database each relation points to
+ */
+export type RelationDatabases = Partial<Record<RelationField, string>>;
+
+/**
+ * Default Notion property name and type for each field. Names can be
+ * changed with `notion.propertyNames`; types are what the sync writes.
+ */
+export const NOTION_PROPERTIES: Record<
+  NotionField,
+  { name: string; type: NotionPropertyType }
+> = {
+  canonicalId: { name: 'Canonical ID', type: 'rich_text' },
+  primarySource: { name: 'Primary Source', type: 'select' },
+  ownedOn: { name: 'Owned On', type: 'multi_select' },
+  steamAppId: { name: 'Steam App ID', type: 'number' },
+  playtime: { name: 'Playtime (hours)', type: 'number' },
+  lastPlayed: { name: 'Last Played', type: 'date' },
+  protonTier: { name: 'Proton Tier', type: 'select' },
+  steamDeck: { name: 'Steam Deck', type: 'select' },
+  coverImage: { name: 'Cover Image', type: 'url' },
+  libraryStatus: { name: 'Library Status', type: 'select' },
+  installed: { name: 'Installed', type: 'checkbox' },
+  installSize: { name: 'Install Size (GB)', type: 'number' },
+  playtimeBySource: { name: 'Playtime by Store', type: 'rich_text' },
+  franchise: { name: 'Franchise', type: 'relation' },
+  platform: { name: 'Platforms', type: 'relation' },
+};
+
+export const NOTION_FIELDS = Object.keys(NOTION_PROPERTIES) as NotionField[];
+
+/**
+ * User-owned fields that are only pulled from Notion, never pushed
+ */
+export type NotionPullField = keyof NotionPullProperties;
+
+/**
+ * Default Notion property name and type for each pulled field
+ */
+export const NOTION_PULL_PROPERTIES: Record<
+  NotionPullField,
+  { name: string; type: NotionPropertyType }
+> = {
+  status: { name: 'Status', type: 'select' },
+  rating: { name: 'Rating', type: 'number' },
+  notes: { name: 'Notes', type: 'rich_text' },
+  interest: { name: 'Want to Play', type: 'checkbox' },
+};
+
+export const NOTION_PULL_FIELDS = Object.keys(
+  NOTION_PULL_PROPERTIES,
+) as NotionPullField[];
+
+/**
+ * Select options the sync writes, per field
+ */
+const PROPERTY_OPTIONS: Partial<Record<NotionField, string[]>> = {
+  primarySource: Object.values(SOURCE_LABELS),
+  ownedOn: Object.values(SOURCE_LABELS),
+  protonTier: ProtonTierSchema.options.map(capitalizeFirst),
+  steamDeck: SteamDeckStatusSchema.options.map(capitalizeFirst),
+  libraryStatus: [REMOVED_STATUS],
+};
+
+/**
+ * Notion property name for each pushed and pulled field, plus the title
+ * property
+ */
+export type NotionPropertyNames = Record<
+  NotionField | NotionPullField,
+  string
+> & {
+  title: string;
+};
+
+/**
+ * Apply configured names over the defaults
+ */
+export const resolvePropertyNames = (
+  titleProperty: string,
+  propertyNames: Partial<Record<NotionField | NotionPullField, string>> = {},
+): NotionPropertyNames => {
+  const names = { title: titleProperty } as NotionPropertyNames;
+  for (const field of NOTION_FIELDS) {
+    names[field] = propertyNames[field] || NOTION_PROPERTIES[field].name;
+  }
+  for (const field of NOTION_PULL_FIELDS) {
+    names[field] = propertyNames[field] || NOTION_PULL_PROPERTIES[field].name;
+  }
+  return names;
+};
+
+/**
+ * Pulled fields whose property name is also written by push (the title or
+ * an enabled sync property). Push would overwrite what the user edits.
+ */
+export const findPushedPullFields = (
+  names: NotionPropertyNames,
+  syncProperties: NotionSyncProperties,
+  pullProperties: Partial<NotionPullProperties>,
+): NotionPullField[] => {
+  const pushed = new Set([
+    names.title,
+    ...NOTION_FIELDS.filter(field => syncProperties[field]).map(
+      field => names[field],
+    ),
+  ]);
+  return NOTION_PULL_FIELDS.filter(
+    field => pullProperties[field] && pushed.has(names[field]),
+  );
+};
+
+/**
+ * Properties (and select options) needed for the enabled sync and pull
+ * properties. Options of pulled selects belong to the user, so none are
+ * required.
+ */
+export const getExpectedProperties = (
+  names: NotionPropertyNames,
+  syncProperties: NotionSyncProperties,
+  pullProperties: Partial<NotionPullProperties> = {},
+  relationDatabases: RelationDatabases = {},
+): ExpectedProperty[] => [
+  { name: names.title, type: 'title' },
+  ...NOTION_FIELDS.filter(field => syncProperties[field]).map(field => ({
+    name: names[field],
+    type: NOTION_PROPERTIES[field].type,
+    ...(PROPERTY_OPTIONS[field] && { options: PROPERTY_OPTIONS[field] }),
+    ...(RELATION_FIELDS.includes(field as RelationField) && {
+      databaseId: relationDatabases[field as RelationField],
+    }),
+  })),
+  ...NOTION_PULL_FIELDS.filter(field => pullProperties[field]).map(field => ({
+    name: names[field],
+    type: NOTION_PULL_PROPERTIES[field].type,
+  })),
+];
+
+/**
+ * Compare database properties (from databases.retrieve) with the expected ones
+ */
+export const diffSchema = (
+  databaseProperties: Record<string, any>,
+  expected: ExpectedProperty[],
+): SchemaDrift => {
+  const drift: SchemaDrift = {
+    missingProperties: [],
+    missingOptions: [],
+    typeMismatches: [],
+  };
+
+  for (const property of expected) {
+    const actual = databaseProperties[property.name];
+
+    if (!actual) {
+      // A database has exactly one title property; it can't be added
+      if (property.type === 'title') {
+        drift.typeMismatches.push({
+          name: property.name,
+          expected: 'title',
+          actual: 'missing',
+        });
+      } else {
+        drift.missingProperties.push(property);
+      }
+      continue;
+    }
+
+    if (actual.type !== property.type) {
+      drift.typeMismatches.push({
+        name: property.name,
+        expected: property.type,
+        actual: actual.type,
+      });
+      continue;
+    }
+
+    // Notion returns database IDs with dashes; configured ones may have none
+    if (
+      property.databaseId &&
+      actual.relation?.database_id?.replace(/-/g, '') !==
+        property.databaseId.replace(/-/g, '')
+    ) {
+      drift.typeMismatches.push({
+        name: property.name,
+        expected: 'relation',
+        actual: 'relation to another database',
+      });
+      continue;
+    }
+
+    if (
+      property.options &&
+      (property.type === 'select' || property.type === 'multi_select')
+    ) {
+      const existing = new Set(
+        (actual[property.type]?.options ?? []).map((o: any) => o.name),
+      );
+      const missing = property.options.filter(name => !existing.has(name));
+      if (missing.length > 0) {
+        drift.missingOptions.push({
+          name: property.name,
+          type: property.type,
+          options: missing,
+        });
+      }
+    }
+  }
+
+  return drift;
+};
+
+/**
+ * Notion property schema used to create a missing property
+ */
+const buildPropertySchema = (property: ExpectedProperty): any => {
+  switch (property.type) {
+    case 'select':
+    case 'multi_select':
+      return {
+        [property.type]: {
+          options: (property.options ?? []).map(name => ({ name })),
+        },
+      };
+    case 'number':
+      return { number: { format: 'number' } };
+    case 'relation':
+      return {
+        relation: { database_id: property.databaseId, single_property: {} },
+      };
+    default:
+      return { [property.type]: {} };
+  }
+};
+
+const logDrift = (drift: SchemaDrift) => {
+  for (const { name, type } of drift.missingProperties) {
+    console.log(`  ❌ Missing property "${name}" (${type})`);
+  }
+  for (const { name, expected, actual } of drift.typeMismatches) {
+    console.log(`  ❌ "${name}" is ${actual}, expected ${expected}`);
+  }
+  for (const { name, options } of drift.missingOptions) {
+    console.log(`  ⚠️  "${name}" is missing options: ${options.join(', ')}`);
+  }
+};
+
+/**
+ * Compare the database schema with the enabled sync and pull properties.
+ * With `fix`, missing properties and select options are created; type
+ * mismatches are only reported since changing a type can lose data.
+ */
+export const ensureSchema = async (
+  client: Pick<Client, 'databases'>,
+  databaseId: string,
+  names: NotionPropertyNames,
+  syncProperties: NotionSyncProperties,
+  pullProperties: Partial<NotionPullProperties>,
+  { fix = false, dryRun = false }: EnsureSchemaOptions = {},
+  relationDatabases: RelationDatabases = {},
+): Promise<SchemaCheckResult> => {
+  const database: any = await client.databases.retrieve({
+    database_id: databaseId,
+  });
+  const drift = diffSchema(
+    database.properties,
+    getExpectedProperties(
+      names,
+      syncProperties,
+      pullProperties,
+      relationDatabases,
+    ),
+  );
+  logDrift(drift);
+
+  const fixable =
+    drift.missingProperties.length > 0 || drift.missingOptions.length > 0;
+  if (!fix || !fixable) {
+    if (fixable) {
+      console.log(
+        '  💡 Run with --fix-schema to create missing properties and options',
+      );
+    }
+    return { ...drift, fixed: false };
+  }
+
+  if (dryRun) {
+    console.log('  [DRY RUN] Would create missing properties and options');
+    return { ...drift, fixed: false };
+  }
+
+  const properties: Record<string, any> = {};
+  for (const property of drift.missingProperties) {
+    properties[property.name] = buildPropertySchema(property);
+  }
+  // Select options are replaced as a whole, so keep the existing ones
+  for (const { name, type, options } of drift.missingOptions) {
+    const existing = database.properties[name][type].options ?? [];
+    properties[name] = {
+      [type]: { options: [...existing, ...options.map(o => ({ name: o }))] },
+    };
+  }
+
+  await client.databases.update({ database_id: databaseId, properties });
+  console.log(
+    `  🔧 Created ${drift.missingProperties.length} properties and updated options on ${drift.missingOptions.length}`,
+  );
+  return { ...drift, fixed: true };
+};
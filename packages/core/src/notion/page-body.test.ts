@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  createNotesMarker,
+  NOTES_MARKER,
+  renderPageBody,
+  writePageBody,
+} from './page-body';
+import type { UnifiedGame } from '../types/game';
+import type { PlaytimeHistoryEntry } from '../core/playtime-history';
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+const mockList = vi.fn();
+const mockAppend = vi.fn().mockResolvedValue({});
+const mockDelete = vi.fn().mockResolvedValue({});
+
+const client = {
+  blocks: {
+    children: { list: mockList, append: mockAppend },
+    delete: mockDelete,
+  },
+} as any;
+
+const makeGame = (overrides: Partial<UnifiedGame> = {}): UnifiedGame => ({
+  canonicalId: 'steam:1145360',
+  name: 'Hades',
+  primarySource: 'steam',
+  ownedSources: ['steam'],
+  steamAppId: 1145360,
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const plainText = (block: any) =>
+  block[block.type].rich_text?.map((item: any) => item.text.content).join('');
+
+const mockBlocks = (blocks: any[]) =>
+  mockList.mockResolvedValue({
+    results: blocks,
+    next_cursor: null,
+    has_more: false,
+  });
+
+const storedBlock = (id: string, content: string) => ({
+  id,
+  type: 'paragraph',
+  paragraph: { rich_text: [{ plain_text: content }] },
+});
+
+const storedMarker = () => storedBlock('marker', NOTES_MARKER);
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('page-body', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('renderPageBody', () => {
+    it('renders the sections in order', () => {
+      const blocks = renderPageBody(
+        makeGame({
+          coverImageUrl: 'https://example.com/hades.jpg',
+          proton: { tier: 'platinum', steamDeck: 'verified' },
+        }),
+        ['cover', 'links', 'proton'],
+      );
+
+      expect(blocks.map(block => block.type)).toEqual([
+        'image',
+        'heading_3',
+        'bulleted_list_item',
+        'heading_3',
+        'paragraph',
+      ]);
+      expect(blocks[2].bulleted_list_item.rich_text[0].text.link).toEqual({
+        url: 'https://store.steampowered.com/app/1145360',
+      });
+      expect(plainText(blocks[4])).toBe(
+        'Platinum · Steam Deck: Verified (reports)',
+      );
+    });
+
+    it('links to a store search for stores without an ID', () => {
+      const [, ...links] = renderPageBody(
+        makeGame({ steamAppId: undefined, ownedSources: ['gamepass', 'gog'] }),
+        ['links'],
+      );
+
+      expect(links.map(plainText)).toEqual(['Xbox Store', 'GOG']);
+      expect(links[1].bulleted_list_item.rich_text[0].text.link.url).toBe(
+        'https://www.gog.com/en/games?query=Hades',
+      );
+    });
+
+    it('lists playtime per store, most played first, with a total', () => {
+      const blocks = renderPageBody(
+        makeGame({
+          playtimeHours: 15.5,
+          playtimeBySource: { epic: 3, steam: 12.5 },
+        }),
+        ['playtime'],
+      );
+
+      expect(blocks.map(plainText)).toEqual([
+        '⏱️ Playtime',
+        'Steam: 12.5h',
+        'Epic Games: 3h',
+        'Total: 15.5h',
+      ]);
+    });
+
+    it('shows the latest sync history entries first', () => {
+      const entry = (
+        recordedAt: string,
+        totalHours: number,
+        deltaHours: number,
+      ): PlaytimeHistoryEntry => ({
+        recordedAt,
+        canonicalId: 'steam:1145360',
+        name: 'Hades',
+        source: 'steam',
+        totalHours,
+        deltaHours,
+      });
+
+      const blocks = renderPageBody(makeGame(), ['history'], [
+        entry('2026-03-01T10:00:00.000Z', 40, 0),
+        entry('2026-03-05T10:00:00.000Z', 42.5, 2.5),
+      ]);
+
+      expect(blocks.map(plainText)).toEqual([
+        '📜 Sync history',
+        '2026-03-05 · Steam: 42.5h (+2.5h)',
+        '2026-03-01 · Steam: 40h (first seen)',
+      ]);
+    });
+
+    it('renders a blank paragraph when no section has content', () => {
+      expect(renderPageBody(makeGame(), ['cover', 'proton'])).toEqual([
+        { object: 'block', type: 'paragraph', paragraph: { rich_text: [] } },
+      ]);
+    });
+  });
+
+  describe('writePageBody', () => {
+    const body = renderPageBody(makeGame(), ['links']);
+
+    it('writes the body and the notes marker to an empty page', async () => {
+      mockBlocks([]);
+
+      expect(await writePageBody(client, 'page-1', body)).toBe('written');
+      expect(mockAppend).toHaveBeenCalledWith({
+        block_id: 'page-1',
+        children: [...body, createNotesMarker()],
+      });
+    });
+
+    it('replaces the blocks above the marker and keeps the notes', async () => {
+      mockBlocks([
+        storedBlock('old-1', 'Old links'),
+        storedBlock('old-2', 'Old ProtonDB'),
+        storedMarker(),
+        storedBlock('note', 'Finished the main story'),
+      ]);
+
+      await writePageBody(client, 'page-1', body);
+
+      expect(mockAppend).toHaveBeenCalledWith({
+        block_id: 'page-1',
+        children: body,
+        after: 'old-1',
+      });
+      expect(mockDelete.mock.calls.map(([args]) => args.block_id)).toEqual([
+        'old-1',
+        'old-2',
+      ]);
+    });
+
+    it('leaves a page with content but no marker alone', async () => {
+      mockBlocks([storedBlock('note', 'My own page layout')]);
+
+      expect(await writePageBody(client, 'page-1', body)).toBe('no-marker');
+      expect(mockAppend).not.toHaveBeenCalled();
+      expect(mockDelete).not.toHaveBeenCalled();
+    });
+
+    it('reads every page of blocks', async () => {
+      mockList
+        .mockResolvedValueOnce({
+          results: [storedBlock('old-1', 'Old links')],
+          next_cursor: 'cursor',
+          has_more: true,
+        })
+        .mockResolvedValueOnce({
+          results: [storedMarker()],
+          next_cursor: null,
+          has_more: false,
+        });
+
+      expect(await writePageBody(client, 'page-1', body)).toBe('written');
+      expect(mockList).toHaveBeenLastCalledWith({
+        block_id: 'page-1',
+        start_cursor: 'cursor',
+      });
+    });
+  });
+});
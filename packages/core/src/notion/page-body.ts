@@ -0,0 +1,308 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Client } from '@notionhq/client';
+import { PageBodySection, Source, UnifiedGame } from '../types/game';
+import { steamAdapter } from '../adapters/steam.adapter';
+import type { PlaytimeHistoryEntry } from '../core/playtime-history';
+import { SOURCE_LABELS } from './notion.schema';
+
+/**
+ * A block as written to the Notion API
+ */
+export type NotionBlock = Record<string, any>;
+
+/**
+ * Page body hash by page ID, as last written by the sync
+ */
+export type PageBodyHashes = Record<string, string>;
+
+/**
+ * Paragraph separating the sync's content from the user's notes. Everything
+ * above it is rewritten by the sync, everything below is left alone.
+ */
+export const NOTES_MARKER =
+  '✍️ Your notes go below this line. The sync never changes them.';
+
+// Sync history lines shown per game, most recent first
+const HISTORY_LIMIT = 5;
+
+type Link = { label: string; url: string };
+
+const text = (content: string, url?: string) => ({
+  type: 'text',
+  text: { content, link: url ? { url } : null },
+});
+
+const paragraph = (...richText: object[]): NotionBlock => ({
+  object: 'block',
+  type: 'paragraph',
+  paragraph: { rich_text: richText },
+});
+
+const heading = (content: string): NotionBlock => ({
+  object: 'block',
+  type: 'heading_3',
+  heading_3: { rich_text: [text(content)] },
+});
+
+const bullet = (...richText: object[]): NotionBlock => ({
+  object: 'block',
+  type: 'bulleted_list_item',
+  bulleted_list_item: { rich_text: richText },
+});
+
+const formatHours = (hours: number) => `${Math.round(hours * 10) / 10}h`;
+
+const capitalizeFirst = (value: string) =>
+  value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * Store pages for each source the game is owned on. Steam links to the app;
+ * the other stores have no ID in the library, so they link to a search.
+ */
+const getStoreLinks = (game: UnifiedGame): Link[] => {
+  const query = encodeURIComponent(game.name);
+  const owned = new Set(game.ownedSources);
+  const links: Link[] = [];
+
+  if (game.steamAppId) {
+    links.push({
+      label: 'Steam',
+      url: steamAdapter.getStoreUrl(game.steamAppId),
+    });
+  }
+  if (owned.has('xbox') || owned.has('gamepass')) {
+    links.push({
+      label: 'Xbox Store',
+      url: `https://www.xbox.com/en-US/Search/Results?q=${query}`,
+    });
+  }
+  if (owned.has('gog')) {
+    links.push({
+      label: 'GOG',
+      url: `https://www.gog.com/en/games?query=${query}`,
+    });
+  }
+  if (owned.has('epic')) {
+    links.push({
+      label: 'Epic Games Store',
+      url: `https://store.epicgames.com/en-US/browse?q=${query}`,
+    });
+  }
+  return links;
+};
+
+const renderCover = (game: UnifiedGame): NotionBlock[] =>
+  game.coverImageUrl
+    ? [
+        {
+          object: 'block',
+          type: 'image',
+          image: { type: 'external', external: { url: game.coverImageUrl } },
+        },
+      ]
+    : [];
+
+const renderLinks = (game: UnifiedGame): NotionBlock[] => {
+  const links = getStoreLinks(game);
+  if (links.length === 0) return [];
+  return [
+    heading('🔗 Store links'),
+    ...links.map(({ label, url }) => bullet(text(label, url))),
+  ];
+};
+
+const renderProton = (game: UnifiedGame): NotionBlock[] => {
+  if (!game.proton) return [];
+  const { tier, steamDeck, trendingTier } = game.proton;
+  const summary = [
+    capitalizeFirst(tier),
+    trendingTier && trendingTier !== tier
+      ? `trending ${capitalizeFirst(trendingTier)}`
+      : undefined,
+    `Steam Deck: ${capitalizeFirst(steamDeck)}`,
+  ]
+    .filter(Boolean)
+    .join(' · ');
+
+  return [
+    heading('🐧 ProtonDB'),
+    paragraph(
+      text(`${summary} `),
+      ...(game.steamAppId
+        ? [
+            text(
+              '(reports)',
+              `https://www.protondb.com/app/${game.steamAppId}`,
+            ),
+          ]
+        : []),
+    ),
+  ];
+};
+
+const renderPlaytime = (game: UnifiedGame): NotionBlock[] => {
+  const bySource = Object.entries(game.playtimeBySource ?? {})
+    .filter(([, hours]) => hours > 0)
+    .sort(([, a], [, b]) => b - a);
+  if (bySource.length === 0) return [];
+
+  return [
+    heading('⏱️ Playtime'),
+    ...bySource.map(([source, hours]) =>
+      bullet(
+        text(
+          `${SOURCE_LABELS[source as Source] ?? source}: ${formatHours(hours)}`,
+        ),
+      ),
+    ),
+    ...(bySource.length > 1
+      ? [bullet(text(`Total: ${formatHours(game.playtimeHours ?? 0)}`))]
+      : []),
+  ];
+};
+
+const renderHistory = (history: PlaytimeHistoryEntry[]): NotionBlock[] => {
+  if (history.length === 0) return [];
+  const recent = [...history]
+    .sort((a, b) => b.recordedAt.localeCompare(a.recordedAt))
+    .slice(0, HISTORY_LIMIT);
+
+  return [
+    heading('📜 Sync history'),
+    ...recent.map(entry => {
+      const change =
+        entry.deltaHours > 0
+          ? `+${formatHours(entry.deltaHours)}`
+          : 'first seen';
+      return bullet(
+        text(
+          `${entry.recordedAt.slice(0, 10)} · ${SOURCE_LABELS[entry.source]}: ${formatHours(entry.totalHours)} (${change})`,
+        ),
+      );
+    }),
+  ];
+};
+
+/**
+ * Paragraph that marks where the user's notes start
+ */
+export const createNotesMarker = (): NotionBlock =>
+  paragraph({
+    ...text(NOTES_MARKER),
+    annotations: { italic: true, color: 'gray' },
+  });
+
+const isNotesMarker = (block: any): boolean =>
+  block.type === 'paragraph' &&
+  block.paragraph.rich_text.map((item: any) => item.plain_text).join('') ===
+    NOTES_MARKER;
+
+/**
+ * Render the template sections for a game. history holds the game's
+ * playtime history entries. An empty body is a blank paragraph, so the
+ * notes marker is never the first block (nothing can be inserted before it).
+ */
+export const renderPageBody = (
+  game: UnifiedGame,
+  sections: PageBodySection[],
+  history: PlaytimeHistoryEntry[] = [],
+): NotionBlock[] => {
+  const blocks = sections.flatMap(section => {
+    switch (section) {
+      case 'cover':
+        return renderCover(game);
+      case 'links':
+        return renderLinks(game);
+      case 'proton':
+        return renderProton(game);
+      case 'playtime':
+        return renderPlaytime(game);
+      case 'history':
+        return renderHistory(history);
+    }
+  });
+  return blocks.length > 0 ? blocks : [paragraph()];
+};
+
+/**
+ * Load the hashes of the bodies the sync wrote. A missing file means none.
+ */
+export const loadPageBodyHashes = async (
+  filePath: string,
+): Promise<PageBodyHashes> => {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+};
+
+export const savePageBodyHashes = async (
+  filePath: string,
+  hashes: PageBodyHashes,
+): Promise<void> => {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(hashes, null, 2), 'utf-8');
+};
+
+/**
+ * All top-level blocks of a page
+ */
+const listBlocks = async (
+  client: Pick<Client, 'blocks'>,
+  pageId: string,
+): Promise<any[]> => {
+  const blocks: any[] = [];
+  let cursor: string | undefined;
+  do {
+    const response = await client.blocks.children.list({
+      block_id: pageId,
+      start_cursor: cursor,
+    });
+    blocks.push(...response.results);
+    cursor = response.next_cursor ?? undefined;
+  } while (cursor);
+  return blocks;
+};
+
+/**
+ * Replace the part of a page above the notes marker with the given blocks.
+ *
+ * An empty page gets the blocks and the marker. A page with content but no
+ * marker (written by hand, or the marker was deleted) is left alone, as is
+ * one where the marker is the first block: the API can only insert after a
+ * block, so the new blocks go after the first old one and then the old ones
+ * are deleted. A failure in between leaves both copies above the marker,
+ * and the next write cleans them up.
+ */
+export const writePageBody = async (
+  client: Pick<Client, 'blocks'>,
+  pageId: string,
+  blocks: NotionBlock[],
+): Promise<'written' | 'no-marker'> => {
+  const existing = await listBlocks(client, pageId);
+
+  if (existing.length === 0) {
+    await client.blocks.children.append({
+      block_id: pageId,
+      children: [...blocks, createNotesMarker()] as any,
+    });
+    return 'written';
+  }
+
+  const markerIndex = existing.findIndex(isNotesMarker);
+  if (markerIndex <= 0) return 'no-marker';
+
+  const synced = existing.slice(0, markerIndex);
+  await client.blocks.children.append({
+    block_id: pageId,
+    children: blocks as any,
+    after: synced[0].id,
+  });
+  for (const block of synced) {
+    await client.blocks.delete({ block_id: block.id });
+  }
+  return 'written';
+};
@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  FULL_FETCH_DAYS,
+  getEditedSince,
+  hashValue,
+  loadPageIndex,
+  PageIndex,
+} from './page-index';
+
+// ── Hoisted mocks ──────────────────────────────────────────────────────────────
+
+const { mockReadFile } = vi.hoisted(() => ({
+  mockReadFile: vi.fn(),
+}));
+
+vi.mock('fs/promises', () => ({
+  default: { readFile: mockReadFile },
+}));
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+const syncedAt = new Date('2026-03-01T10:00:00.000Z');
+
+const makeIndex = (overrides: Partial<PageIndex> = {}): PageIndex => ({
+  key: 'setup-hash',
+  syncedAt: syncedAt.toISOString(),
+  pages: { 'page-1': { title: 'Hades', hash: 'abc' } },
+  ...overrides,
+});
+
+const daysAfter = (days: number) =>
+  new Date(syncedAt.getTime() + days * 86_400_000);
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('page-index', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('loadPageIndex', () => {
+    it('loads a recent index built for the same setup', async () => {
+      mockReadFile.mockResolvedValue(JSON.stringify(makeIndex()));
+
+      expect(
+        await loadPageIndex('index.json', 'setup-hash', daysAfter(1)),
+      ).toEqual(makeIndex());
+    });
+
+    it('needs a full fetch when there is no index', async () => {
+      mockReadFile.mockRejectedValue(
+        Object.assign(new Error('Not found'), { code: 'ENOENT' }),
+      );
+
+      expect(await loadPageIndex('index.json', 'setup-hash')).toBeNull();
+    });
+
+    it('needs a full fetch when the setup changed', async () => {
+      mockReadFile.mockResolvedValue(JSON.stringify(makeIndex()));
+
+      expect(
+        await loadPageIndex('index.json', 'other-hash', daysAfter(1)),
+      ).toBeNull();
+    });
+
+    it(`needs a full fetch after ${FULL_FETCH_DAYS} days`, async () => {
+      mockReadFile.mockResolvedValue(JSON.stringify(makeIndex()));
+
+      expect(
+        await loadPageIndex(
+          'index.json',
+          'setup-hash',
+          daysAfter(FULL_FETCH_DAYS),
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe('getEditedSince', () => {
+    it('starts a minute before the last sync', () => {
+      expect(getEditedSince(makeIndex())).toBe('2026-03-01T09:59:00.000Z');
+    });
+  });
+
+  describe('hashValue', () => {
+    it('is stable for equal values and differs otherwise', () => {
+      expect(hashValue([1, 'Steam'])).toBe(hashValue([1, 'Steam']));
+      expect(hashValue([1, 'Steam'])).not.toBe(hashValue([2, 'Steam']));
+    });
+  });
+});
@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * What a sync needs to know about a page it didn't fetch
+ */
+export type PageIndexEntry = {
+  title: string;
+  canonicalId?: string;
+  libraryStatus?: string;
+  cover?: string; // Page cover URL
+  icon?: string; // Page icon URL or emoji
+  hash: string; // Hash of the synced property values
+};
+
+/**
+ * Local index of the database pages, saved after each sync
+ */
+export type PageIndex = {
+  key: string; // Hash of the database and property setup the index was built for
+  syncedAt: string; // Start of the sync that saved the index
+  pages: Record<string, PageIndexEntry>; // By page ID
+};
+
+// The whole database is fetched again once a week, so an index that went
+// out of step with Notion is rebuilt
+export const FULL_FETCH_DAYS = 7;
+
+// last_edited_time is rounded down to the minute
+const EDIT_TIME_MARGIN_MS = 60_000;
+
+/**
+ * Stable hash of a JSON-serializable value
+ */
+export const hashValue = (value: unknown): string =>
+  crypto.createHash('sha1').update(JSON.stringify(value)).digest('hex');
+
+/**
+ * Load the page index saved by a previous sync. Returns null (full fetch
+ * needed) when there is none, it was built for another database or property
+ * setup, or it is older than FULL_FETCH_DAYS.
+ */
+export const loadPageIndex = async (
+  filePath: string,
+  key: string,
+  now: Date = new Date(),
+): Promise<PageIndex | null> => {
+  let index: PageIndex;
+  try {
+    index = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch {
+    return null;
+  }
+
+  const age = now.getTime() - new Date(index.syncedAt).getTime();
+  if (index.key !== key || !(age >= 0 && age < FULL_FETCH_DAYS * 86_400_000)) {
+    return null;
+  }
+  return index;
+};
+
+/**
+ * Save the page index for the next sync
+ */
+export const savePageIndex = async (
+  filePath: string,
+  index: PageIndex,
+): Promise<void> => {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(index), 'utf-8');
+};
+
+/**
+ * Start of the last_edited_time window to query after the given index
+ */
+export const getEditedSince = (index: PageIndex): string =>
+  new Date(
+    new Date(index.syncedAt).getTime() - EDIT_TIME_MARGIN_MS,
+  ).toISOString();
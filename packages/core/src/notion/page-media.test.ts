@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { getChangedMedia, getPageMedia, readPageFile } from './page-media';
+import type { UnifiedGame } from '../types/game';
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+const makeGame = (overrides: Partial<UnifiedGame> = {}): UnifiedGame => ({
+  canonicalId: 'steam:1145360',
+  name: 'Hades',
+  primarySource: 'steam',
+  ownedSources: ['steam'],
+  coverImageUrl: 'https://cdn.example.com/hades/header.jpg',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const external = (url: string) => ({ type: 'external', external: { url } });
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('page-media', () => {
+  describe('getPageMedia', () => {
+    it('uses the cover art and the primary store icon', () => {
+      expect(getPageMedia(makeGame(), { cover: true, icon: true })).toEqual({
+        cover: external('https://cdn.example.com/hades/header.jpg'),
+        icon: external('https://store.steampowered.com/favicon.ico'),
+      });
+    });
+
+    it('leaves out what is disabled or missing', () => {
+      expect(
+        getPageMedia(makeGame({ coverImageUrl: undefined }), {
+          cover: true,
+          icon: false,
+        }),
+      ).toEqual({});
+    });
+
+    it('uses an emoji for games without a store', () => {
+      expect(
+        getPageMedia(makeGame({ primarySource: 'manual' }), {
+          cover: false,
+          icon: true,
+        }).icon,
+      ).toEqual({ type: 'emoji', emoji: '🎮' });
+    });
+  });
+
+  describe('getChangedMedia', () => {
+    const media = getPageMedia(makeGame(), { cover: true, icon: true });
+
+    it('lists the fields that differ from the page', () => {
+      expect(
+        getChangedMedia(
+          {
+            cover: external('https://cdn.example.com/old.jpg'),
+            icon: media.icon,
+          },
+          media,
+        ),
+      ).toEqual(['cover']);
+      expect(getChangedMedia({ cover: null, icon: null }, media)).toEqual([
+        'cover',
+        'icon',
+      ]);
+    });
+
+    it('ignores fields the sync does not set', () => {
+      expect(
+        getChangedMedia({ cover: external('https://example.com/mine.jpg') }, {}),
+      ).toEqual([]);
+    });
+  });
+
+  describe('readPageFile', () => {
+    it('reads uploaded files, external URLs, emoji and index values', () => {
+      expect(
+        readPageFile({
+          type: 'file',
+          file: { url: 'https://s3.example.com/cover.png', expiry_time: '' },
+        }),
+      ).toBe('https://s3.example.com/cover.png');
+      expect(readPageFile(external('https://example.com/a.jpg'))).toBe(
+        'https://example.com/a.jpg',
+      );
+      expect(readPageFile({ type: 'emoji', emoji: '🎮' })).toBe('🎮');
+      expect(readPageFile('https://example.com/a.jpg')).toBe(
+        'https://example.com/a.jpg',
+      );
+      expect(readPageFile(null)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import { Client } from '@notionhq/client';
+import { Source, UnifiedGame } from '../types/game';
+
+/**
+ * Which of the page's own cover and icon the sync sets
+ */
+export type PageMediaOptions = {
+  cover: boolean; // From the game's cover art
+  icon: boolean; // Icon of the game's primary store
+};
+
+export const NO_PAGE_MEDIA: PageMediaOptions = { cover: false, icon: false };
+
+/**
+ * The cover and icon fields of a page create or update request. Fields the
+ * sync doesn't set, or has nothing for, are left out.
+ */
+export type PageMedia = Pick<
+  Parameters<Client['pages']['create']>[0],
+  'cover' | 'icon'
+>;
+
+const external = (url: string) => ({
+  type: 'external' as const,
+  external: { url },
+});
+
+// Store favicons; manual games have no store
+const SOURCE_ICONS: Record<Source, NonNullable<PageMedia['icon']>> = {
+  steam: external('https://store.steampowered.com/favicon.ico'),
+  xbox: external('https://www.xbox.com/favicon.ico'),
+  gamepass: external('https://www.xbox.com/favicon.ico'),
+  epic: external('https://store.epicgames.com/favicon.ico'),
+  gog: external('https://www.gog.com/favicon.ico'),
+  amazon: external('https://gaming.amazon.com/favicon.ico'),
+  manual: { type: 'emoji', emoji: '🎮' },
+};
+
+/**
+ * Comparable value of a page cover or icon: its URL, or the emoji. Page
+ * stubs from the page index already hold the value.
+ */
+export const readPageFile = (file: any): string | null => {
+  if (!file) return null;
+  if (typeof file === 'string') return file;
+  if (file.type === 'emoji') return file.emoji;
+  return file[file.type]?.url ?? null;
+};
+
+/**
+ * Cover and icon the sync wants on a game's page
+ */
+export const getPageMedia = (
+  game: UnifiedGame,
+  options: PageMediaOptions,
+): PageMedia => ({
+  ...(options.cover &&
+    game.coverImageUrl && { cover: external(game.coverImageUrl) }),
+  ...(options.icon && { icon: SOURCE_ICONS[game.primarySource] }),
+});
+
+/**
+ * Names of the page fields ('cover', 'icon') that differ from the wanted media
+ */
+export const getChangedMedia = (
+  page: { cover?: unknown; icon?: unknown },
+  media: PageMedia,
+): string[] =>
+  (['cover', 'icon'] as const).filter(
+    field =>
+      media[field] !== undefined &&
+      readPageFile(media[field]) !== readPageFile(page[field]),
+  );
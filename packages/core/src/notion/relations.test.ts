@@ -0,0 +1,140 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getRelatedPageIds, resolveRelatedPages } from './relations';
+import { createSyncPlan } from './sync-plan';
+import type { UnifiedGame } from '../types/game';
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+const mockRetrieve = vi.fn();
+const mockQuery = vi.fn();
+const mockCreate = vi.fn();
+
+const client = {
+  databases: { retrieve: mockRetrieve, query: mockQuery },
+  pages: { create: mockCreate },
+} as any;
+
+const makeGame = (overrides: Partial<UnifiedGame> = {}): UnifiedGame => ({
+  canonicalId: 'steam:1145360',
+  name: 'Hades',
+  primarySource: 'steam',
+  ownedSources: ['steam', 'gamepass'],
+  franchises: ['Hades'],
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+const storedPage = (id: string, title: string) => ({
+  id,
+  properties: { Series: { title: [{ plain_text: title }] } },
+});
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('relations', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    mockRetrieve.mockResolvedValue({
+      properties: { Series: { type: 'title' }, Notes: { type: 'rich_text' } },
+    });
+    mockCreate.mockImplementation(async ({ properties }) => ({
+      id: `new-${properties.Series.title[0].text.content}`,
+    }));
+  });
+
+  describe('resolveRelatedPages', () => {
+    it('reuses pages with the same title and creates the missing ones', async () => {
+      mockQuery
+        .mockResolvedValueOnce({
+          results: [storedPage('page-hades', 'HADES')],
+          next_cursor: 'cursor',
+        })
+        .mockResolvedValueOnce({
+          results: [storedPage('page-doom', 'Doom')],
+          next_cursor: null,
+        });
+
+      const related = await resolveRelatedPages(
+        client,
+        [makeGame(), makeGame({ franchises: ['Bastion', 'bastion'] })],
+        ['franchise'],
+        { franchise: 'db-franchises' },
+        false,
+      );
+
+      expect(mockCreate).toHaveBeenCalledTimes(1);
+      expect(mockCreate).toHaveBeenCalledWith({
+        parent: { database_id: 'db-franchises' },
+        properties: { Series: { title: [{ text: { content: 'Bastion' } }] } },
+      });
+      expect(Object.fromEntries(related.franchise!)).toEqual({
+        hades: 'page-hades',
+        doom: 'page-doom',
+        bastion: 'new-Bastion',
+      });
+    });
+
+    it('creates nothing in a dry run', async () => {
+      mockQuery.mockResolvedValue({ results: [], next_cursor: null });
+
+      const related = await resolveRelatedPages(
+        client,
+        [makeGame()],
+        ['franchise', 'platform'],
+        { franchise: 'db-franchises', platform: 'db-platforms' },
+        true,
+      );
+
+      expect(mockCreate).not.toHaveBeenCalled();
+      expect(related.franchise?.size).toBe(0);
+      expect(related.platform?.size).toBe(0);
+    });
+
+    it('plans the missing pages with planned IDs in a dry run with a plan', async () => {
+      mockQuery.mockResolvedValue({
+        results: [storedPage('page-hades', 'Hades')],
+        next_cursor: null,
+      });
+      const plan = createSyncPlan();
+
+      const related = await resolveRelatedPages(
+        client,
+        [makeGame({ franchises: ['Hades', 'Bastion'] })],
+        ['franchise'],
+        { franchise: 'db-franchises' },
+        true,
+        plan,
+      );
+
+      expect(mockCreate).not.toHaveBeenCalled();
+      expect(plan.operations).toEqual([
+        {
+          type: 'create-related',
+          databaseId: 'db-franchises',
+          title: 'Bastion',
+          plannedId: 'planned:db-franchises:bastion',
+          properties: { Series: { title: [{ text: { content: 'Bastion' } }] } },
+        },
+      ]);
+      expect(plan.databaseIds).toEqual(['db-franchises']);
+      expect(related.franchise!.get('bastion')).toBe(
+        'planned:db-franchises:bastion',
+      );
+    });
+  });
+
+  describe('getRelatedPageIds', () => {
+    it('links platforms by store label and leaves out unknown titles', () => {
+      const platform = new Map([['steam', 'page-steam']]);
+
+      expect(
+        getRelatedPageIds(makeGame(), 'platform', { platform }),
+      ).toEqual(['page-steam']);
+      expect(getRelatedPageIds(makeGame(), 'franchise', { platform })).toEqual(
+        [],
+      );
+    });
+  });
+});
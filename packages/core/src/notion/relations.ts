@@ -0,0 +1,154 @@
+import { Client } from '@notionhq/client';
+import { UnifiedGame } from '../types/game';
+import {
+  RelationDatabases,
+  RelationField,
+  SOURCE_LABELS,
+} from './notion.schema';
+import { PLANNED_ID_PREFIX, SyncPlan } from './sync-plan';
+
+/**
+ * Page ID by lowercased title, per related database
+ */
+export type RelatedPages = Partial<Record<RelationField, Map<string, string>>>;
+
+const titleKey = (title: string) => title.trim().toLowerCase();
+
+/**
+ * Titles of the related pages a game links to: its franchises, or the
+ * stores it is owned on
+ */
+export const getRelatedTitles = (
+  game: UnifiedGame,
+  field: RelationField,
+): string[] =>
+  field === 'franchise'
+    ? (game.franchises ?? [])
+    : game.ownedSources.map(source => SOURCE_LABELS[source]);
+
+/**
+ * IDs of the related pages a game links to. Titles without a page (not
+ * created in a dry run without a plan) are left out.
+ */
+export const getRelatedPageIds = (
+  game: UnifiedGame,
+  field: RelationField,
+  relatedPages: RelatedPages,
+): string[] => {
+  const pages = relatedPages[field];
+  if (!pages) return [];
+  const ids = getRelatedTitles(game, field)
+    .map(title => pages.get(titleKey(title)))
+    .filter((id): id is string => id !== undefined);
+  return Array.from(new Set(ids));
+};
+
+/**
+ * Find the page for each title in a related database, creating the missing
+ * ones. Pages are matched by title, ignoring case, so pages added by hand
+ * are reused. A plan records the creates instead, with planned IDs for the
+ * new pages.
+ */
+const resolveDatabasePages = async (
+  client: Pick<Client, 'databases' | 'pages'>,
+  databaseId: string,
+  titles: string[],
+  dryRun: boolean,
+  plan?: SyncPlan,
+): Promise<Map<string, string>> => {
+  const database: any = await client.databases.retrieve({
+    database_id: databaseId,
+  });
+  const titleProperty = Object.keys(database.properties).find(
+    name => database.properties[name].type === 'title',
+  );
+  if (!titleProperty) {
+    throw new Error(`Related database ${databaseId} has no title property`);
+  }
+
+  const pages = new Map<string, string>();
+  let cursor: string | undefined;
+  do {
+    const response: any = await client.databases.query({
+      database_id: databaseId,
+      start_cursor: cursor,
+    });
+    for (const page of response.results) {
+      const title = page.properties[titleProperty]?.title
+        ?.map((item: any) => item.plain_text ?? item.text?.content ?? '')
+        .join('');
+      if (title) pages.set(titleKey(title), page.id);
+    }
+    cursor = response.next_cursor ?? undefined;
+  } while (cursor);
+
+  for (const title of titles) {
+    const key = titleKey(title);
+    if (pages.has(key)) continue;
+    const properties = {
+      [titleProperty]: { title: [{ text: { content: title } }] },
+    };
+    if (dryRun) {
+      console.log(`  [CREATE] Related page "${title}"`);
+      if (plan) {
+        const plannedId = `${PLANNED_ID_PREFIX}${databaseId}:${key}`;
+        plan.operations.push({
+          type: 'create-related',
+          databaseId,
+          title,
+          plannedId,
+          properties,
+        });
+        pages.set(key, plannedId);
+        // A page made by hand before the plan is applied would be a duplicate
+        if (!plan.databaseIds.includes(databaseId)) {
+          plan.databaseIds.push(databaseId);
+        }
+      }
+      continue;
+    }
+    const page = await client.pages.create({
+      parent: { database_id: databaseId },
+      properties,
+    });
+    pages.set(key, page.id);
+  }
+  return pages;
+};
+
+/**
+ * Resolve the related pages of the enabled relation fields for a run
+ */
+export const resolveRelatedPages = async (
+  client: Pick<Client, 'databases' | 'pages'>,
+  games: UnifiedGame[],
+  fields: RelationField[],
+  relationDatabases: RelationDatabases,
+  dryRun: boolean,
+  plan?: SyncPlan,
+): Promise<RelatedPages> => {
+  const relatedPages: RelatedPages = {};
+  for (const field of fields) {
+    const databaseId = relationDatabases[field];
+    if (!databaseId) continue;
+
+    // First spelling wins for titles that only differ in case
+    const titles = new Map<string, string>();
+    for (const game of games) {
+      for (const title of getRelatedTitles(game, field)) {
+        if (!titles.has(titleKey(title))) titles.set(titleKey(title), title);
+      }
+    }
+    relatedPages[field] = await resolveDatabasePages(
+      client,
+      databaseId,
+      Array.from(titles.values()),
+      dryRun,
+      plan,
+    );
+    console.log(
+      `🔗 ${relatedPages[field]!.size} related ${field} pages ready`,
+    );
+  }
+  return relatedPages;
+};
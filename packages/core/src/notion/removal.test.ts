@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getRemovalAction, loadRemovalState, RemovedPage } from './removal';
+import type { NotionRemoval } from '../types/game';
+
+// ── Hoisted mocks ──────────────────────────────────────────────────────────────
+
+const { mockReadFile } = vi.hoisted(() => ({
+  mockReadFile: vi.fn(),
+}));
+
+vi.mock('fs/promises', () => ({
+  default: { readFile: mockReadFile },
+}));
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+const now = new Date('2026-03-31T10:00:00.000Z');
+
+const daysAgo = (days: number) =>
+  new Date(now.getTime() - days * 86_400_000).toISOString();
+
+const makeRemoval = (overrides: Partial<NotionRemoval> = {}): NotionRemoval => ({
+  strategy: 'archive',
+  graceDays: 3,
+  archiveAfterDays: 30,
+  ...overrides,
+});
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('removal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('getRemovalAction', () => {
+    it('waits while the game is within the grace period', () => {
+      const entry = { title: 'Hades', missingSince: daysAgo(2) };
+
+      expect(getRemovalAction(entry, false, makeRemoval(), now)).toBe('wait');
+    });
+
+    it('marks the page once the grace period is over', () => {
+      const entry = { title: 'Hades', missingSince: daysAgo(3) };
+
+      expect(getRemovalAction(entry, false, makeRemoval(), now)).toBe('mark');
+    });
+
+    it('archives a page flagged for archiveAfterDays', () => {
+      const entry = {
+        title: 'Hades',
+        missingSince: daysAgo(40),
+        removedAt: daysAgo(30),
+      };
+
+      expect(getRemovalAction(entry, true, makeRemoval(), now)).toBe(
+        'archive',
+      );
+      expect(
+        getRemovalAction(entry, true, makeRemoval({ strategy: 'status' }), now),
+      ).toBe('keep');
+    });
+
+    it('starts counting from now for pages flagged before the state existed', () => {
+      const entry: RemovedPage = { title: 'Hades', missingSince: daysAgo(0) };
+
+      expect(getRemovalAction(entry, true, makeRemoval(), now)).toBe('keep');
+      expect(entry.removedAt).toBe(now.toISOString());
+    });
+  });
+
+  describe('loadRemovalState', () => {
+    it('is empty when nothing was saved yet', async () => {
+      mockReadFile.mockRejectedValue(
+        Object.assign(new Error('Not found'), { code: 'ENOENT' }),
+      );
+
+      expect(await loadRemovalState('removed-games.json')).toEqual({});
+    });
+
+    it('fails on a broken state file', async () => {
+      mockReadFile.mockResolvedValue('{ not json');
+
+      await expect(loadRemovalState('removed-games.json')).rejects.toThrow();
+    });
+  });
+});
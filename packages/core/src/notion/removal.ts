@@ -0,0 +1,83 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { NotionRemoval } from '../types/game';
+
+/**
+ * Removal progress of a page whose game left the library
+ */
+export type RemovedPage = {
+  title: string;
+  missingSince: string; // First sync the game was missing from
+  removedAt?: string; // When the page was flagged removed
+};
+
+/**
+ * Removal progress by page ID, saved between syncs
+ */
+export type RemovalState = Record<string, RemovedPage>;
+
+/**
+ * - wait: still in the grace period
+ * - mark: flag the page removed
+ * - keep: flagged, nothing more to do yet
+ * - archive: flagged long enough to archive (or move to the graveyard)
+ */
+export type RemovalAction = 'wait' | 'mark' | 'keep' | 'archive';
+
+// Flags right away and never archives, as syncs did before removal strategies
+export const IMMEDIATE_REMOVAL: NotionRemoval = {
+  strategy: 'status',
+  graceDays: 0,
+  archiveAfterDays: 30,
+};
+
+const DAY_MS = 86_400_000;
+
+const daysSince = (iso: string, now: Date): number =>
+  (now.getTime() - new Date(iso).getTime()) / DAY_MS;
+
+/**
+ * Load the removal state. A missing file means nothing is being removed.
+ */
+export const loadRemovalState = async (
+  filePath: string,
+): Promise<RemovalState> => {
+  try {
+    return JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+};
+
+export const saveRemovalState = async (
+  filePath: string,
+  state: RemovalState,
+): Promise<void> => {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(state, null, 2), 'utf-8');
+};
+
+/**
+ * Next step for a page whose game is missing from the library. Records when
+ * the game went missing and when the page was flagged (mutates the entry).
+ */
+export const getRemovalAction = (
+  entry: RemovedPage,
+  flagged: boolean,
+  removal: NotionRemoval,
+  now: Date,
+): RemovalAction => {
+  if (!flagged) {
+    return daysSince(entry.missingSince, now) >= removal.graceDays
+      ? 'mark'
+      : 'wait';
+  }
+
+  // Flagged before the state was kept (or by hand): start counting now
+  entry.removedAt ??= now.toISOString();
+  if (removal.strategy === 'status') return 'keep';
+  return daysSince(entry.removedAt, now) >= removal.archiveAfterDays
+    ? 'archive'
+    : 'keep';
+};
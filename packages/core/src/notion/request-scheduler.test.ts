@@ -0,0 +1,199 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  APIErrorCode,
+  APIResponseError,
+  RequestTimeoutError,
+} from '@notionhq/client';
+import {
+  createRequestScheduler,
+  getRetryAfterMs,
+  isRateLimitError,
+  isRetryableError,
+} from './request-scheduler';
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+const apiError = (
+  status: number,
+  code: APIErrorCode,
+  headers: Record<string, string> = {},
+) =>
+  new APIResponseError({
+    code,
+    status,
+    message: `HTTP ${status}`,
+    headers: new Headers(headers),
+    rawBodyText: '{}',
+  });
+
+const rateLimited = (retryAfterSeconds?: number) =>
+  apiError(
+    429,
+    APIErrorCode.RateLimited,
+    retryAfterSeconds === undefined
+      ? {}
+      : { 'retry-after': String(retryAfterSeconds) },
+  );
+
+const badGateway = () => apiError(502, APIErrorCode.InternalServerError);
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('request-scheduler', () => {
+  describe('isRetryableError', () => {
+    it('retries rate limits, server errors, timeouts and dropped connections', () => {
+      expect(isRetryableError(rateLimited())).toBe(true);
+      expect(isRetryableError(badGateway())).toBe(true);
+      expect(isRetryableError(new RequestTimeoutError())).toBe(true);
+      const reset = Object.assign(new Error('reset'), { code: 'ECONNRESET' });
+      expect(isRetryableError(reset)).toBe(true);
+    });
+
+    it('does not retry problems with the request itself', () => {
+      expect(
+        isRetryableError(apiError(400, APIErrorCode.ValidationError)),
+      ).toBe(false);
+      expect(isRetryableError(new Error('boom'))).toBe(false);
+    });
+  });
+
+  describe('isRateLimitError', () => {
+    it('only counts a 429 as a request that was not run', () => {
+      expect(isRateLimitError(rateLimited())).toBe(true);
+      expect(isRateLimitError(badGateway())).toBe(false);
+      expect(isRateLimitError(new RequestTimeoutError())).toBe(false);
+    });
+  });
+
+  describe('getRetryAfterMs', () => {
+    it('reads the Retry-After header in milliseconds', () => {
+      expect(getRetryAfterMs(rateLimited(2))).toBe(2000);
+      expect(getRetryAfterMs(rateLimited())).toBeUndefined();
+    });
+  });
+
+  describe('createRequestScheduler', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.spyOn(Math, 'random').mockReturnValue(1);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+    });
+
+    it('lets a burst through and then paces requests', async () => {
+      const scheduler = createRequestScheduler({
+        requestsPerSecond: 2,
+        burst: 2,
+      });
+      const started: number[] = [];
+      const request = async () => {
+        started.push(Date.now());
+      };
+      const start = Date.now();
+
+      const all = Promise.all(
+        [1, 2, 3, 4].map(() => scheduler.schedule(request)),
+      );
+      await vi.advanceTimersByTimeAsync(1000);
+      await all;
+
+      expect(started.map(time => time - start)).toEqual([0, 0, 500, 1000]);
+    });
+
+    it('pauses every request for Retry-After on a 429', async () => {
+      const scheduler = createRequestScheduler({ burst: 10 });
+      const started: number[] = [];
+      const limited = vi
+        .fn()
+        .mockRejectedValueOnce(rateLimited(2))
+        .mockResolvedValue('ok');
+      const other = vi.fn(async () => {
+        started.push(Date.now());
+      });
+      const start = Date.now();
+
+      const first = scheduler.schedule(limited);
+      await vi.advanceTimersByTimeAsync(0);
+      const second = scheduler.schedule(other);
+      await vi.advanceTimersByTimeAsync(2000);
+
+      await expect(first).resolves.toBe('ok');
+      await second;
+      expect(started[0] - start).toBe(2000);
+      expect(scheduler.getStats()).toEqual({
+        requests: 3,
+        retries: 1,
+        rateLimited: 1,
+      });
+    });
+
+    it('backs off exponentially on server errors', async () => {
+      const scheduler = createRequestScheduler({
+        burst: 10,
+        baseDelayMs: 100,
+      });
+      const request = vi
+        .fn()
+        .mockRejectedValueOnce(badGateway())
+        .mockRejectedValueOnce(badGateway())
+        .mockResolvedValue('ok');
+
+      const result = scheduler.schedule(request);
+      await vi.advanceTimersByTimeAsync(100);
+      expect(request).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(200);
+
+      await expect(result).resolves.toBe('ok');
+      expect(request).toHaveBeenCalledTimes(3);
+    });
+
+    it('retries writes that are not idempotent only on a 429', async () => {
+      const scheduler = createRequestScheduler({
+        burst: 10,
+        baseDelayMs: 10,
+      });
+      const request = vi
+        .fn()
+        .mockRejectedValueOnce(rateLimited())
+        .mockRejectedValueOnce(badGateway())
+        .mockResolvedValue('ok');
+
+      const result = scheduler.schedule(request, { idempotent: false });
+      const rejection = expect(result).rejects.toThrow('HTTP 502');
+      await vi.advanceTimersByTimeAsync(100);
+      await rejection;
+      expect(request).toHaveBeenCalledTimes(2);
+    });
+
+    it('rethrows errors that are not worth retrying', async () => {
+      const scheduler = createRequestScheduler();
+      const error = apiError(400, APIErrorCode.ValidationError);
+      const request = vi.fn().mockRejectedValue(error);
+
+      await expect(scheduler.schedule(request)).rejects.toBe(error);
+      expect(request).toHaveBeenCalledTimes(1);
+    });
+
+    it('gives up once the retry budget is spent', async () => {
+      const scheduler = createRequestScheduler({
+        burst: 10,
+        baseDelayMs: 10,
+        retryBudget: 2,
+      });
+      const request = vi.fn().mockRejectedValue(badGateway());
+
+      const first = scheduler.schedule(request);
+      const rejection = expect(first).rejects.toThrow('HTTP 502');
+      await vi.advanceTimersByTimeAsync(100);
+      await rejection;
+      expect(request).toHaveBeenCalledTimes(3);
+
+      const second = scheduler.schedule(request);
+      await expect(second).rejects.toThrow('HTTP 502');
+      expect(request).toHaveBeenCalledTimes(4);
+    });
+  });
+});
@@ -0,0 +1,192 @@
+import { isNotionClientError } from '@notionhq/client';
+
+export type RequestSchedulerOptions = {
+  requestsPerSecond?: number; // Notion's average limit is 3
+  burst?: number; // Bucket size, requests that may go out back to back
+  maxAttempts?: number; // Per request, including the first
+  retryBudget?: number; // Retries shared by every request of the scheduler
+  baseDelayMs?: number; // First backoff delay, doubled per attempt
+  maxDelayMs?: number;
+};
+
+/**
+ * Request counts of a scheduler, for the sync summary
+ */
+export type RequestSchedulerStats = {
+  requests: number;
+  retries: number;
+  rateLimited: number; // 429 responses
+};
+
+const DEFAULT_OPTIONS: Required<RequestSchedulerOptions> = {
+  requestsPerSecond: 3,
+  burst: 3,
+  maxAttempts: 5,
+  retryBudget: 100,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+};
+
+const RETRYABLE_NETWORK_CODES = new Set([
+  'ECONNRESET',
+  'ETIMEDOUT',
+  'EAI_AGAIN',
+]);
+
+const sleep = (ms: number): Promise<void> =>
+  new Promise(resolve => setTimeout(resolve, ms));
+
+const getStatus = (error: unknown): number | undefined =>
+  isNotionClientError(error) && 'status' in error ? error.status : undefined;
+
+/**
+ * Rate limits (429), server errors (5xx), timeouts and dropped connections
+ * are worth retrying; anything else is a problem with the request itself
+ */
+export const isRetryableError = (error: unknown): boolean => {
+  const status = getStatus(error);
+  if (status !== undefined) return status === 429 || status >= 500;
+  if (isNotionClientError(error)) return true; // Request timeout
+  const code = (error as NodeJS.ErrnoException)?.code;
+  return code !== undefined && RETRYABLE_NETWORK_CODES.has(code);
+};
+
+/**
+ * A rate-limited request (429) is turned away before Notion runs it. After
+ * a timeout or server error a write may still have gone through.
+ */
+export const isRateLimitError = (error: unknown): boolean =>
+  getStatus(error) === 429;
+
+/**
+ * Retry-After header of a failed response, in milliseconds
+ */
+export const getRetryAfterMs = (error: unknown): number | undefined => {
+  if (!isNotionClientError(error) || !('headers' in error)) return undefined;
+  const headers: any = error.headers;
+  const value =
+    typeof headers?.get === 'function'
+      ? headers.get('retry-after')
+      : headers?.['retry-after'];
+  const seconds = Number(value);
+  return value != null && Number.isFinite(seconds) && seconds >= 0
+    ? seconds * 1000
+    : undefined;
+};
+
+/**
+ * Shared scheduler for Notion API requests.
+ * A token bucket keeps requests under the rate limit. Retryable failures
+ * are retried with exponential backoff and jitter, or after Retry-After on
+ * a 429, which also pauses every other request. Retries come out of a
+ * budget shared by the whole run, so an outage fails fast instead of
+ * retrying every request.
+ */
+export const createRequestScheduler = (
+  options: RequestSchedulerOptions = {},
+) => {
+  const {
+    requestsPerSecond,
+    burst,
+    maxAttempts,
+    retryBudget,
+    baseDelayMs,
+    maxDelayMs,
+  } = { ...DEFAULT_OPTIONS, ...options };
+
+  let tokens = burst;
+  let refilledAt = Date.now();
+  let pausedUntil = 0;
+  let budget = retryBudget;
+  let queue: Promise<void> = Promise.resolve();
+  const stats: RequestSchedulerStats = {
+    requests: 0,
+    retries: 0,
+    rateLimited: 0,
+  };
+
+  /**
+   * Wait for a token. Waiters are served in call order.
+   */
+  const acquire = (): Promise<void> => {
+    const turn = queue.then(async () => {
+      for (;;) {
+        const now = Date.now();
+        if (now < pausedUntil) {
+          await sleep(pausedUntil - now);
+          continue;
+        }
+
+        tokens = Math.min(
+          burst,
+          tokens + ((now - refilledAt) / 1000) * requestsPerSecond,
+        );
+        refilledAt = now;
+        if (tokens >= 1) {
+          tokens -= 1;
+          return;
+        }
+        await sleep(((1 - tokens) / requestsPerSecond) * 1000);
+      }
+    });
+    queue = turn;
+    return turn;
+  };
+
+  /**
+   * Backoff before the given retry (1-based): exponential, capped, with
+   * equal jitter so parallel retries don't line up
+   */
+  const backoffMs = (retry: number): number => {
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (retry - 1));
+    return delay / 2 + Math.random() * (delay / 2);
+  };
+
+  /**
+   * Run a request once a token is available, retrying retryable failures.
+   * Requests that aren't idempotent (creates, appends) are only retried on
+   * a 429, so a write that went through despite failing isn't made twice.
+   */
+  const schedule = async <T>(
+    request: () => Promise<T>,
+    { idempotent = true }: { idempotent?: boolean } = {},
+  ): Promise<T> => {
+    for (let attempt = 1; ; attempt++) {
+      await acquire();
+      stats.requests++;
+      try {
+        return await request();
+      } catch (error) {
+        const rateLimited = isRateLimitError(error);
+        if (rateLimited) stats.rateLimited++;
+        if (
+          !(idempotent ? isRetryableError(error) : rateLimited) ||
+          attempt >= maxAttempts ||
+          budget <= 0
+        ) {
+          throw error;
+        }
+
+        budget--;
+        stats.retries++;
+        const retryAfter = getRetryAfterMs(error);
+        if (rateLimited) {
+          // Everyone waits: the limit is per integration, not per request
+          pausedUntil = Math.max(
+            pausedUntil,
+            Date.now() + (retryAfter ?? backoffMs(attempt)),
+          );
+        } else {
+          await sleep(retryAfter ?? backoffMs(attempt));
+        }
+      }
+    }
+  };
+
+  return {
+    schedule,
+    getStats: (): RequestSchedulerStats => ({ ...stats }),
+  };
+};
+
+export type RequestScheduler = ReturnType<typeof createRequestScheduler>;
@@ -0,0 +1,416 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { APIErrorCode } from '@notionhq/client';
+import {
+  applySyncPlan,
+  createSyncPlan,
+  findPlanConflicts,
+  loadSyncPlan,
+  summarizeSyncPlan,
+  SyncPlan,
+} from './sync-plan';
+import { createNotesMarker, NOTES_MARKER } from './page-body';
+import { createFakeNotion, createNotionError } from '../testing/fake-notion';
+
+// ── Hoisted mocks ──────────────────────────────────────────────────────────────
+
+const { mockReadFile, mockWriteFile } = vi.hoisted(() => ({
+  mockReadFile: vi.fn(),
+  mockWriteFile: vi.fn(),
+}));
+
+vi.mock('fs/promises', () => ({
+  default: {
+    readFile: mockReadFile,
+    writeFile: mockWriteFile,
+    mkdir: vi.fn(),
+  },
+}));
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+let now: Date;
+
+const makeNotion = () =>
+  createFakeNotion({
+    now: () => now,
+    properties: [
+      { name: 'Name', type: 'title' },
+      { name: 'Hours', type: 'number' },
+      { name: 'Removed', type: 'checkbox' },
+    ],
+  });
+
+const page = (name: string, hours: number | null = null) => ({
+  Name: { title: [{ text: { content: name } }] },
+  Hours: { number: hours },
+});
+
+const external = (url: string) => ({
+  type: 'external' as const,
+  external: { url },
+});
+
+const makePlan = (operations: SyncPlan['operations']): SyncPlan => ({
+  ...createSyncPlan(now),
+  databaseIds: ['fake-db'],
+  operations,
+});
+
+const paragraph = (content: string) => ({
+  object: 'block',
+  type: 'paragraph',
+  paragraph: { rich_text: [{ text: { content } }] },
+});
+
+const savedFile = (filePath: string) =>
+  JSON.parse(
+    mockWriteFile.mock.calls.find(([path]) => path === filePath)![1],
+  );
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('sync-plan', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    now = new Date('2026-03-01T10:00:30Z');
+  });
+
+  describe('applySyncPlan', () => {
+    it('runs the operations in order', async () => {
+      const notion = makeNotion();
+      const hades = notion.addPage(page('Hades', 10));
+      const halo = notion.addPage(page('Halo'));
+      const doom = notion.addPage(page('Doom'));
+      now = new Date('2026-03-01T10:05:00Z');
+      const plan = makePlan([
+        {
+          type: 'create',
+          databaseId: 'fake-db',
+          title: 'Celeste',
+          properties: page('Celeste', 3),
+          media: { cover: external('https://example.com/celeste.jpg') },
+          children: [
+            {
+              object: 'block',
+              type: 'paragraph',
+              paragraph: { rich_text: [{ text: { content: 'Notes' } }] },
+            },
+          ],
+        },
+        {
+          type: 'update',
+          pageId: hades.id,
+          title: 'Hades',
+          changes: [{ property: 'Hours', before: 10, after: 12 }],
+          properties: { Hours: { number: 12 } },
+          media: {},
+        },
+        {
+          type: 'remove',
+          pageId: halo.id,
+          title: 'Halo',
+          properties: { Removed: { checkbox: true } },
+        },
+        {
+          type: 'archive',
+          pageId: doom.id,
+          title: 'Doom',
+          copy: { databaseId: 'fake-db', properties: page('Doom (copy)') },
+        },
+      ]);
+      now = new Date('2026-03-01T10:10:00Z');
+
+      const result = await applySyncPlan(notion as any, plan);
+
+      expect(result).toEqual({
+        'create-related': 0,
+        create: 1,
+        body: 0,
+        update: 1,
+        remove: 1,
+        restore: 0,
+        archive: 1,
+        errors: 0,
+      });
+      const celeste = notion.findPage('Celeste')!;
+      expect(celeste.cover).toEqual(
+        external('https://example.com/celeste.jpg'),
+      );
+      expect(notion.getBlocks(celeste.id)).toHaveLength(1);
+      expect(notion.findPage('Hades')!.properties.Hours.number).toBe(12);
+      expect(notion.findPage('Halo')!.properties.Removed.checkbox).toBe(true);
+      expect(notion.findPage('Doom')).toBeUndefined();
+      expect(notion.findPage('Doom (copy)')).toBeDefined();
+    });
+
+    it('counts failed operations and runs the rest', async () => {
+      const notion = makeNotion();
+      const hades = notion.addPage(page('Hades'));
+      now = new Date('2026-03-01T10:05:00Z');
+      const plan = makePlan([
+        {
+          type: 'restore',
+          pageId: 'missing-page',
+          title: 'Halo',
+          properties: { Removed: { checkbox: false } },
+        },
+        {
+          type: 'update',
+          pageId: hades.id,
+          title: 'Hades',
+          changes: [{ property: 'Hours', before: null, after: 1 }],
+          properties: { Hours: { number: 1 } },
+          media: {},
+        },
+      ]);
+
+      const result = await applySyncPlan(notion as any, plan);
+
+      expect(result).toMatchObject({ restore: 0, update: 1, errors: 1 });
+      expect(notion.findPage('Hades')!.properties.Hours.number).toBe(1);
+    });
+
+    it('links planned related pages by the IDs they get', async () => {
+      const mockCreate = vi
+        .fn()
+        .mockResolvedValueOnce({ id: 'page-bastion' })
+        .mockResolvedValueOnce({ id: 'page-celeste' });
+      const mockUpdate = vi.fn().mockResolvedValue({});
+      const client = {
+        databases: {
+          query: vi.fn().mockResolvedValue({ results: [], next_cursor: null }),
+        },
+        pages: { create: mockCreate, update: mockUpdate },
+      };
+      const franchise = (...ids: string[]) => ({
+        Franchise: { relation: ids.map(id => ({ id })) },
+      });
+      const plan = makePlan([
+        {
+          type: 'create-related',
+          databaseId: 'db-franchises',
+          title: 'Bastion',
+          plannedId: 'planned:db-franchises:bastion',
+          properties: page('Bastion'),
+        },
+        {
+          type: 'create',
+          databaseId: 'fake-db',
+          title: 'Celeste',
+          properties: franchise('planned:db-franchises:bastion', 'page-hades'),
+          media: {},
+        },
+        {
+          type: 'update',
+          pageId: 'page-doom',
+          title: 'Doom',
+          changes: [],
+          properties: franchise('planned:db-franchises:quake'),
+          media: {},
+        },
+      ]);
+
+      await applySyncPlan(client as any, plan);
+
+      expect(mockCreate.mock.calls[1][0].properties).toEqual(
+        franchise('page-bastion', 'page-hades'),
+      );
+      // Quake wasn't created, so the link to it is left out
+      expect(mockUpdate.mock.calls[0][0].properties).toEqual(franchise());
+    });
+
+    it('rewrites the page body above the notes marker', async () => {
+      const notion = makeNotion();
+      const hades = await notion.pages.create({
+        parent: { database_id: 'fake-db' },
+        properties: page('Hades'),
+        children: [paragraph('Old'), createNotesMarker(), paragraph('Mine')],
+      });
+      now = new Date('2026-03-01T10:05:00Z');
+      const plan = makePlan([
+        {
+          type: 'body',
+          pageId: hades.id,
+          title: 'Hades',
+          blocks: [paragraph('New')],
+        },
+      ]);
+
+      const result = await applySyncPlan(notion as any, plan);
+
+      expect(result.body).toBe(1);
+      expect(
+        notion
+          .getBlocks(hades.id)
+          .map((block: any) => block.paragraph.rich_text[0].plain_text),
+      ).toEqual(['New', NOTES_MARKER, 'Mine']);
+    });
+
+    it('saves the local state once every operation succeeded', async () => {
+      const notion = makeNotion();
+      now = new Date('2026-03-01T10:05:00Z');
+      const plan = makePlan([
+        {
+          type: 'create',
+          databaseId: 'fake-db',
+          title: 'Celeste',
+          properties: page('Celeste'),
+          media: {},
+          bodyHash: 'hash-celeste',
+        },
+      ]);
+      const index = { key: 'key', syncedAt: plan.createdAt, pages: {} };
+      plan.state['fake-db'] = {
+        pageIndex: { path: 'index.json', index },
+        removal: { path: 'removed.json', state: {} },
+        pageBody: { path: 'bodies.json', hashes: { 'page-hades': 'hash' } },
+      };
+
+      await applySyncPlan(notion as any, plan);
+
+      expect(savedFile('index.json')).toEqual(index);
+      expect(savedFile('removed.json')).toEqual({});
+      expect(savedFile('bodies.json')).toEqual({
+        'page-hades': 'hash',
+        [notion.findPage('Celeste')!.id]: 'hash-celeste',
+      });
+    });
+
+    it('leaves the local state alone when an operation failed', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const notion = makeNotion();
+      now = new Date('2026-03-01T10:05:00Z');
+      const plan = makePlan([
+        { type: 'archive', pageId: 'missing-page', title: 'Halo' },
+      ]);
+      plan.state['fake-db'] = { removal: { path: 'removed.json', state: {} } };
+
+      const result = await applySyncPlan(notion as any, plan);
+
+      expect(result.errors).toBe(1);
+      expect(mockWriteFile).not.toHaveBeenCalled();
+    });
+
+    it('refuses a plan when a planned page was edited since', async () => {
+      const notion = makeNotion();
+      const hades = notion.addPage(page('Hades'));
+      now = new Date('2026-03-01T10:05:00Z');
+      const plan = makePlan([
+        {
+          type: 'update',
+          pageId: hades.id,
+          title: 'Hades',
+          changes: [{ property: 'Hours', before: null, after: 1 }],
+          properties: { Hours: { number: 1 } },
+          media: {},
+        },
+      ]);
+      now = new Date('2026-03-01T10:06:00Z');
+      await notion.pages.update({
+        page_id: hades.id,
+        properties: { Hours: { number: 99 } },
+      });
+      notion.clearRequests();
+
+      await expect(applySyncPlan(notion as any, plan)).rejects.toThrow(
+        'Notion changed since the plan was made (Hades). Make a new plan.',
+      );
+      expect(notion.getRequests('pages.update')).toHaveLength(0);
+    });
+  });
+
+  describe('findPlanConflicts', () => {
+    it('counts edits made in the minute of the plan', async () => {
+      const notion = makeNotion();
+      const hades = notion.addPage(page('Hades'));
+      now = new Date('2026-03-01T10:05:10Z');
+      const plan = makePlan([
+        {
+          type: 'remove',
+          pageId: hades.id,
+          title: 'Hades',
+          properties: { Removed: { checkbox: true } },
+        },
+      ]);
+      now = new Date('2026-03-01T10:05:40Z');
+      await notion.pages.update({
+        page_id: hades.id,
+        properties: { Hours: { number: 2 } },
+      });
+
+      expect(await findPlanConflicts(notion as any, plan)).toEqual(['Hades']);
+    });
+
+    it('reports new pages but not edits to pages outside the plan', async () => {
+      const notion = makeNotion();
+      const hades = notion.addPage(page('Hades'));
+      now = new Date('2026-03-01T10:05:00Z');
+      const plan = makePlan([]);
+      now = new Date('2026-03-01T10:06:00Z');
+      await notion.pages.update({
+        page_id: hades.id,
+        properties: { Hours: { number: 2 } },
+      });
+      notion.addPage(page('Celeste'));
+
+      expect(await findPlanConflicts(notion as any, plan)).toEqual([
+        'Celeste',
+      ]);
+    });
+
+    it('fails when a plan database is gone', async () => {
+      const notion = makeNotion();
+      notion.failNext(
+        'databases.query',
+        createNotionError(404, APIErrorCode.ObjectNotFound, 'Not found'),
+      );
+
+      await expect(
+        findPlanConflicts(notion as any, makePlan([])),
+      ).rejects.toThrow('Not found');
+    });
+  });
+
+  describe('summarizeSyncPlan', () => {
+    it('counts the operations by type', () => {
+      const plan = makePlan([
+        { type: 'archive', pageId: 'a', title: 'A' },
+        { type: 'archive', pageId: 'b', title: 'B' },
+        {
+          type: 'restore',
+          pageId: 'c',
+          title: 'C',
+          properties: {},
+        },
+      ]);
+
+      expect(summarizeSyncPlan(plan)).toEqual({
+        'create-related': 0,
+        create: 0,
+        body: 0,
+        update: 0,
+        remove: 0,
+        restore: 1,
+        archive: 2,
+      });
+    });
+  });
+
+  describe('loadSyncPlan', () => {
+    it('loads a saved plan', async () => {
+      const plan = makePlan([]);
+      mockReadFile.mockResolvedValue(JSON.stringify(plan));
+
+      expect(await loadSyncPlan('plan.json')).toEqual(plan);
+    });
+
+    it('rejects files that are not a plan', async () => {
+      mockReadFile.mockResolvedValue(JSON.stringify({ pages: {} }));
+
+      await expect(loadSyncPlan('page-index.json')).rejects.toThrow(
+        'page-index.json is not a sync plan',
+      );
+    });
+  });
+});
@@ -0,0 +1,357 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { Client } from '@notionhq/client';
+import {
+  NotionBlock,
+  PageBodyHashes,
+  savePageBodyHashes,
+  writePageBody,
+} from './page-body';
+import { PageIndex, savePageIndex } from './page-index';
+import type { PageMedia } from './page-media';
+import { RemovalState, saveRemovalState } from './removal';
+
+/**
+ * A property (or the page cover or icon) an update changes, as comparable
+ * values
+ */
+export type PropertyChange = {
+  property: string;
+  before: unknown;
+  after: unknown;
+};
+
+/**
+ * One Notion write of a plan. properties hold the exact request values;
+ * updates only carry the properties that change.
+ * - create-related: a franchise or platform page; relations to it hold
+ *   plannedId until the page is created
+ * - body: rewrite the synced part of an existing page's body
+ * - remove: flag the page removed; restore: clear the flag
+ * - archive: archive the page, first copying it into a graveyard database
+ */
+export type SyncPlanOperation =
+  | {
+      type: 'create-related';
+      databaseId: string;
+      title: string;
+      plannedId: string;
+      properties: Record<string, unknown>;
+    }
+  | {
+      type: 'create';
+      databaseId: string;
+      title: string;
+      properties: Record<string, unknown>;
+      media: PageMedia;
+      children?: NotionBlock[];
+      bodyHash?: string; // Recorded for the new page once it is created
+    }
+  | {
+      type: 'body';
+      pageId: string;
+      title: string;
+      blocks: NotionBlock[];
+    }
+  | {
+      type: 'update';
+      pageId: string;
+      title: string;
+      changes: PropertyChange[];
+      properties: Record<string, unknown>;
+      media: PageMedia;
+    }
+  | {
+      type: 'remove' | 'restore';
+      pageId: string;
+      title: string;
+      properties: Record<string, unknown>;
+    }
+  | {
+      type: 'archive';
+      pageId: string;
+      title: string;
+      copy?: { databaseId: string; properties: Record<string, unknown> };
+    };
+
+export type SyncPlanOperationType = SyncPlanOperation['type'];
+
+/**
+ * Local state files of one database's sync, as the sync would have saved
+ * them. Files the client doesn't keep are left out.
+ */
+export type SyncPlanState = {
+  pageIndex?: { path: string; index: PageIndex };
+  removal?: { path: string; state: RemovalState };
+  pageBody?: { path: string; hashes: PageBodyHashes };
+};
+
+/**
+ * Notion writes a sync would make, recorded by a dry run for review and
+ * applied later. createdAt is taken before any page is read, so edits
+ * made after it mean the plan may be stale.
+ */
+export type SyncPlan = {
+  version: 1;
+  createdAt: string;
+  databaseIds: string[]; // Databases the plan was made against
+  operations: SyncPlanOperation[];
+  state: Record<string, SyncPlanState>; // By database ID
+};
+
+/**
+ * Outcome counts of applying a plan
+ */
+export type SyncPlanResult = Record<SyncPlanOperationType, number> & {
+  errors: number;
+};
+
+const OPERATION_TYPES: SyncPlanOperationType[] = [
+  'create-related',
+  'create',
+  'body',
+  'update',
+  'remove',
+  'restore',
+  'archive',
+];
+
+/**
+ * Prefix of the IDs standing in for related pages the plan creates
+ */
+export const PLANNED_ID_PREFIX = 'planned:';
+
+export const createSyncPlan = (now = new Date()): SyncPlan => ({
+  version: 1,
+  createdAt: now.toISOString(),
+  databaseIds: [],
+  operations: [],
+  state: {},
+});
+
+/**
+ * Number of operations by type
+ */
+export const summarizeSyncPlan = (
+  plan: SyncPlan,
+): Record<SyncPlanOperationType, number> => {
+  const summary = Object.fromEntries(
+    OPERATION_TYPES.map(type => [type, 0]),
+  ) as Record<SyncPlanOperationType, number>;
+  for (const operation of plan.operations) summary[operation.type]++;
+  return summary;
+};
+
+export const saveSyncPlan = async (
+  filePath: string,
+  plan: SyncPlan,
+): Promise<void> => {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  await fs.writeFile(filePath, JSON.stringify(plan, null, 2), 'utf-8');
+};
+
+export const loadSyncPlan = async (filePath: string): Promise<SyncPlan> => {
+  const plan = JSON.parse(await fs.readFile(filePath, 'utf-8'));
+  if (
+    plan?.version !== 1 ||
+    !Array.isArray(plan.operations) ||
+    typeof plan.state !== 'object'
+  ) {
+    throw new Error(`${filePath} is not a sync plan`);
+  }
+  return plan;
+};
+
+/**
+ * Titles of pages that changed since the plan was made: pages the plan
+ * writes to that were edited, and pages created in its databases (which
+ * may duplicate a planned create). Notion times are rounded down to the
+ * minute, so edits made in the minute of the plan count too.
+ */
+export const findPlanConflicts = async (
+  client: Pick<Client, 'databases'>,
+  plan: SyncPlan,
+): Promise<string[]> => {
+  const planned = new Set(
+    plan.operations.flatMap(operation =>
+      'pageId' in operation ? [operation.pageId] : [],
+    ),
+  );
+  const since = new Date(plan.createdAt);
+  since.setUTCSeconds(0, 0);
+  const conflicts: string[] = [];
+
+  for (const databaseId of plan.databaseIds) {
+    let cursor: string | undefined;
+    do {
+      const response: any = await client.databases.query({
+        database_id: databaseId,
+        start_cursor: cursor,
+        filter: {
+          timestamp: 'last_edited_time',
+          last_edited_time: { on_or_after: since.toISOString() },
+        },
+      });
+      for (const page of response.results) {
+        if (planned.has(page.id) || new Date(page.created_time) >= since) {
+          const title = Object.values<any>(page.properties)
+            .find(property => property.type === 'title')
+            ?.title?.map((item: any) => item.plain_text)
+            .join('');
+          conflicts.push(title || page.id);
+        }
+      }
+      cursor = response.next_cursor ?? undefined;
+    } while (cursor);
+  }
+  return conflicts;
+};
+
+/**
+ * Swap planned related page IDs in relation properties for the IDs of the
+ * created pages. Relations to planned pages that weren't created are
+ * dropped.
+ */
+const resolvePlannedIds = (
+  properties: Record<string, unknown>,
+  createdIds: Map<string, string>,
+): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(properties).map(([name, value]: [string, any]) => [
+      name,
+      Array.isArray(value?.relation)
+        ? {
+            ...value,
+            relation: value.relation.flatMap(({ id }: { id: string }) =>
+              id.startsWith(PLANNED_ID_PREFIX)
+                ? createdIds.has(id)
+                  ? [{ id: createdIds.get(id) }]
+                  : []
+                : [{ id }],
+            ),
+          }
+        : value,
+    ]),
+  );
+
+/**
+ * Run a single plan operation. createdIds collects the IDs of created
+ * related pages by planned ID.
+ */
+const applyOperation = async (
+  client: Pick<Client, 'pages' | 'blocks'>,
+  operation: SyncPlanOperation,
+  createdIds: Map<string, string>,
+  state: SyncPlan['state'],
+): Promise<void> => {
+  switch (operation.type) {
+    case 'create-related': {
+      const page = await client.pages.create({
+        parent: { database_id: operation.databaseId },
+        properties: operation.properties as any,
+      });
+      createdIds.set(operation.plannedId, page.id);
+      return;
+    }
+    case 'create': {
+      const page = await client.pages.create({
+        parent: { database_id: operation.databaseId },
+        properties: resolvePlannedIds(
+          operation.properties,
+          createdIds,
+        ) as any,
+        ...operation.media,
+        ...(operation.children && { children: operation.children as any }),
+      });
+      const hashes = state[operation.databaseId]?.pageBody?.hashes;
+      if (hashes && operation.bodyHash) hashes[page.id] = operation.bodyHash;
+      return;
+    }
+    case 'body':
+      await writePageBody(client, operation.pageId, operation.blocks);
+      return;
+    case 'update':
+      await client.pages.update({
+        page_id: operation.pageId,
+        properties: resolvePlannedIds(
+          operation.properties,
+          createdIds,
+        ) as any,
+        ...operation.media,
+      });
+      return;
+    case 'remove':
+    case 'restore':
+      await client.pages.update({
+        page_id: operation.pageId,
+        properties: operation.properties as any,
+      });
+      return;
+    case 'archive':
+      if (operation.copy) {
+        await client.pages.create({
+          parent: { database_id: operation.copy.databaseId },
+          properties: operation.copy.properties as any,
+        });
+      }
+      await client.pages.update({ page_id: operation.pageId, archived: true });
+      return;
+  }
+};
+
+/**
+ * Save the local state files of one database's sync
+ */
+const saveState = async ({
+  pageIndex,
+  removal,
+  pageBody,
+}: SyncPlanState): Promise<void> => {
+  if (pageIndex) await savePageIndex(pageIndex.path, pageIndex.index);
+  if (removal) await saveRemovalState(removal.path, removal.state);
+  if (pageBody) await savePageBodyHashes(pageBody.path, pageBody.hashes);
+};
+
+/**
+ * Carry out a plan, in order. Refuses to start when a page changed in
+ * Notion since the plan was made; a failed operation is logged and the
+ * rest still run. The local state files (page index, removal progress,
+ * page body hashes) are only saved when every operation succeeded, as the
+ * plan's state assumes all its writes were made.
+ */
+export const applySyncPlan = async (
+  client: Pick<Client, 'pages' | 'databases' | 'blocks'>,
+  plan: SyncPlan,
+): Promise<SyncPlanResult> => {
+  const conflicts = await findPlanConflicts(client, plan);
+  if (conflicts.length > 0) {
+    throw new Error(
+      `Notion changed since the plan was made (${conflicts.join(', ')}). Make a new plan.`,
+    );
+  }
+
+  const result: SyncPlanResult = {
+    ...summarizeSyncPlan(createSyncPlan()),
+    errors: 0,
+  };
+  const createdIds = new Map<string, string>();
+  for (const operation of plan.operations) {
+    try {
+      await applyOperation(client, operation, createdIds, plan.state);
+      result[operation.type]++;
+    } catch (error) {
+      console.error(
+        `Failed to ${operation.type} "${operation.title}":`,
+        error,
+      );
+      result.errors++;
+    }
+  }
+
+  if (result.errors > 0) {
+    console.warn('Local sync state not saved; the next sync catches up');
+  } else {
+    for (const state of Object.values(plan.state)) await saveState(state);
+  }
+  return result;
+};
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import { getTargetSlug, matchesTargetFilter } from './targets';
+import { NotionTargetsSchema, UnifiedGame } from '../types/game';
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+const makeGame = (overrides: Partial<UnifiedGame> = {}): UnifiedGame => ({
+  canonicalId: 'steam:1145360',
+  name: 'Hades',
+  primarySource: 'steam',
+  ownedSources: ['steam', 'gamepass'],
+  playtimeHours: 12,
+  proton: { tier: 'platinum', steamDeck: 'verified' },
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  ...overrides,
+});
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('targets', () => {
+  describe('matchesTargetFilter', () => {
+    it('matches every game with an empty filter', () => {
+      expect(matchesTargetFilter(makeGame(), {})).toBe(true);
+    });
+
+    it('matches any of the listed values', () => {
+      const game = makeGame();
+
+      expect(matchesTargetFilter(game, { sources: ['gog', 'gamepass'] })).toBe(
+        true,
+      );
+      expect(matchesTargetFilter(game, { sources: ['gog'] })).toBe(false);
+      expect(
+        matchesTargetFilter(game, { steamDeck: ['verified', 'playable'] }),
+      ).toBe(true);
+    });
+
+    it('needs every condition to match', () => {
+      expect(
+        matchesTargetFilter(makeGame(), {
+          protonTiers: ['platinum'],
+          maxPlaytimeHours: 10,
+        }),
+      ).toBe(false);
+    });
+
+    it('never matches Proton conditions for games without ProtonDB data', () => {
+      expect(
+        matchesTargetFilter(makeGame({ proton: undefined }), {
+          protonTiers: ['platinum', 'gold'],
+        }),
+      ).toBe(false);
+    });
+
+    it('treats missing interest and playtime as none and zero', () => {
+      const game = makeGame({ playtimeHours: undefined });
+
+      expect(matchesTargetFilter(game, { interest: 'none' })).toBe(true);
+      expect(matchesTargetFilter(game, { interest: 'want-to-play' })).toBe(
+        false,
+      );
+      expect(matchesTargetFilter(game, { maxPlaytimeHours: 0 })).toBe(true);
+      expect(matchesTargetFilter(game, { minPlaytimeHours: 1 })).toBe(false);
+    });
+  });
+
+  describe('getTargetSlug', () => {
+    it('makes a file-safe name', () => {
+      expect(getTargetSlug('Steam Deck ready!')).toBe('steam-deck-ready');
+      expect(getTargetSlug('🎮')).toBe('target');
+    });
+  });
+
+  describe('NotionTargetsSchema', () => {
+    const target = (name: string) => ({ name, databaseId: 'db' });
+
+    it('accepts targets with distinct slugs', () => {
+      expect(
+        NotionTargetsSchema.safeParse([target('Deck'), target('Backlog')])
+          .success,
+      ).toBe(true);
+    });
+
+    it('rejects names that share a slug', () => {
+      const result = NotionTargetsSchema.safeParse([
+        target('Steam Deck!'),
+        target('steam deck'),
+      ]);
+
+      expect(result.success).toBe(false);
+      expect(result.error?.issues[0].message).toContain('steam-deck');
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import type { NotionTargetFilter, UnifiedGame } from '../types/game';
+
+/**
+ * Whether a game belongs in a target database. Every condition that is set
+ * must match; a game without ProtonDB data matches no Proton condition.
+ */
+export const matchesTargetFilter = (
+  game: UnifiedGame,
+  filter: NotionTargetFilter,
+): boolean => {
+  const {
+    sources,
+    protonTiers,
+    steamDeck,
+    interest,
+    minPlaytimeHours,
+    maxPlaytimeHours,
+  } = filter;
+  const playtime = game.playtimeHours ?? 0;
+
+  if (sources && !sources.some(source => game.ownedSources.includes(source))) {
+    return false;
+  }
+  if (protonTiers && !(game.proton && protonTiers.includes(game.proton.tier))) {
+    return false;
+  }
+  if (steamDeck && !(game.proton && steamDeck.includes(game.proton.steamDeck))) {
+    return false;
+  }
+  if (interest && (game.interest ?? 'none') !== interest) return false;
+  if (minPlaytimeHours !== undefined && playtime < minPlaytimeHours) {
+    return false;
+  }
+  if (maxPlaytimeHours !== undefined && playtime > maxPlaytimeHours) {
+    return false;
+  }
+  return true;
+};
+
+/**
+ * File-safe form of a target name, e.g. 'Steam Deck ready' → 'steam-deck-ready'
+ */
+export const getTargetSlug = (name: string): string =>
+  name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '') || 'target';
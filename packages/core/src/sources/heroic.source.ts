@@ -0,0 +1,25 @@
+import fs from 'fs/promises';
+import { heroicAdapter } from '../adapters/heroic.adapter';
+import { LibrarySource } from './library-source';
+
+/**
+ * Heroic launcher library source (GOG, Epic, Amazon)
+ */
+export const heroicSource: LibrarySource = {
+  id: 'heroic',
+  name: 'Heroic',
+  isConfigured: config => !!config.heroic.storeCachePath,
+  fetch: ({ config }) =>
+    heroicAdapter.loadAllLibraries(config.heroic.storeCachePath),
+  healthCheck: async ({ config }) => {
+    try {
+      await fs.access(config.heroic.storeCachePath);
+      return { ok: true, message: config.heroic.storeCachePath };
+    } catch {
+      return {
+        ok: false,
+        message: `Store cache not found: ${config.heroic.storeCachePath}`,
+      };
+    }
+  },
+};
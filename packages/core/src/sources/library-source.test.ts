@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createSourceRegistry, LibrarySource } from './library-source';
+import type { Config, RawGameData } from '../types/game';
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+const makeConfig = (enabled: string[]): Config =>
+  ({
+    sources: { enabled },
+  }) as Config;
+
+const rawGame = (name: string): RawGameData => ({
+  source: 'manual',
+  externalId: name,
+  name,
+});
+
+const makeSource = (
+  id: string,
+  overrides: Partial<LibrarySource> = {},
+): LibrarySource => ({
+  id,
+  name: id.toUpperCase(),
+  isConfigured: () => true,
+  fetch: vi.fn().mockResolvedValue([rawGame(`${id}-game`)]),
+  healthCheck: vi.fn().mockResolvedValue({ ok: true, message: 'ok' }),
+  ...overrides,
+});
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('library-source registry', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  it('rejects registering the same source id twice', () => {
+    const registry = createSourceRegistry([makeSource('a')]);
+
+    expect(() => registry.register(makeSource('a'))).toThrow(
+      'Library source "a" is already registered',
+    );
+  });
+
+  it('only returns sources that are enabled in config and configured', () => {
+    const registry = createSourceRegistry([
+      makeSource('a'),
+      makeSource('b', { isConfigured: () => false }),
+      makeSource('c'),
+    ]);
+
+    const enabled = registry.getEnabled(makeConfig(['a', 'b']));
+
+    expect(enabled.map(s => s.id)).toEqual(['a']);
+  });
+
+  it('fetches every enabled source in registration order', async () => {
+    const registry = createSourceRegistry([makeSource('a'), makeSource('b')]);
+
+    const results = await registry.fetchAll({
+      config: makeConfig(['b', 'a']),
+      dataDir: './data',
+    });
+
+    expect(results.map(r => r.id)).toEqual(['a', 'b']);
+    expect(results.flatMap(r => r.games.map(g => g.name))).toEqual([
+      'a-game',
+      'b-game',
+    ]);
+  });
+
+  it('keeps going when one source fails', async () => {
+    const registry = createSourceRegistry([
+      makeSource('a', {
+        fetch: vi.fn().mockRejectedValue(new Error('offline')),
+      }),
+      makeSource('b'),
+    ]);
+
+    const results = await registry.fetchAll({
+      config: makeConfig(['a', 'b']),
+      dataDir: './data',
+    });
+
+    expect(results[0]).toMatchObject({ id: 'a', games: [] });
+    expect(results[0].error).toContain('offline');
+    expect(results[1].games).toHaveLength(1);
+  });
+
+  it('does not fetch disabled sources', async () => {
+    const disabled = makeSource('b');
+    const registry = createSourceRegistry([makeSource('a'), disabled]);
+
+    await registry.fetchAll({ config: makeConfig(['a']), dataDir: './data' });
+
+    expect(disabled.fetch).not.toHaveBeenCalled();
+  });
+
+  it('reports health for every registered source', async () => {
+    const registry = createSourceRegistry([
+      makeSource('a'),
+      makeSource('b', { isConfigured: () => false }),
+      makeSource('c', {
+        healthCheck: vi.fn().mockRejectedValue(new Error('boom')),
+      }),
+    ]);
+
+    const report = await registry.checkHealth({
+      config: makeConfig(['a']),
+      dataDir: './data',
+    });
+
+    expect(report).toEqual([
+      {
+        id: 'a',
+        name: 'A',
+        enabled: true,
+        configured: true,
+        ok: true,
+        message: 'ok',
+      },
+      {
+        id: 'b',
+        name: 'B',
+        enabled: false,
+        configured: false,
+        ok: false,
+        message: 'Not configured',
+      },
+      expect.objectContaining({ id: 'c', ok: false }),
+    ]);
+  });
+});
@@ -0,0 +1,154 @@
+import { Config, RawGameData } from '../types/game';
+import { GamePassGame } from '../adapters/gamepass.adapter';
+
+/**
+ * Shared inputs available to every library source during a sync
+ */
+export type LibrarySourceContext = {
+  config: Config;
+  dataDir: string;
+  gamePassCatalog?: GamePassGame[];
+  gamePassInterests?: string[];
+};
+
+/**
+ * Result of a source health check
+ */
+export type SourceHealth = {
+  ok: boolean;
+  message: string;
+};
+
+/**
+ * A library source contributes owned games to the sync.
+ * Sources are enabled by id through `config.sources.enabled`.
+ */
+export type LibrarySource = {
+  id: string;
+  name: string;
+  isConfigured: (config: Config) => boolean;
+  fetch: (context: LibrarySourceContext) => Promise<RawGameData[]>;
+  healthCheck: (context: LibrarySourceContext) => Promise<SourceHealth>;
+};
+
+/**
+ * Per-source outcome of a fetchAll run
+ */
+export type SourceFetchResult = {
+  id: string;
+  games: RawGameData[];
+  error?: string;
+};
+
+/**
+ * Health report entry for a registered source
+ */
+export type SourceHealthReport = SourceHealth & {
+  id: string;
+  name: string;
+  enabled: boolean;
+  configured: boolean;
+};
+
+/**
+ * Create a library source registry
+ * Sources are fetched in registration order; one failing source does not stop the others.
+ */
+export const createSourceRegistry = (initialSources: LibrarySource[] = []) => {
+  const sources = new Map<string, LibrarySource>();
+
+  const register = (source: LibrarySource): void => {
+    if (sources.has(source.id)) {
+      throw new Error(`Library source "${source.id}" is already registered`);
+    }
+    sources.set(source.id, source);
+  };
+
+  initialSources.forEach(register);
+
+  const unregister = (id: string): boolean => sources.delete(id);
+
+  const get = (id: string): LibrarySource | undefined => sources.get(id);
+
+  const list = (): LibrarySource[] => Array.from(sources.values());
+
+  const isEnabled = (source: LibrarySource, config: Config): boolean =>
+    config.sources.enabled.includes(source.id);
+
+  /**
+   * Sources that are both enabled in config and have what they need to run
+   */
+  const getEnabled = (config: Config): LibrarySource[] =>
+    list().filter(
+      source => isEnabled(source, config) && source.isConfigured(config),
+    );
+
+  /**
+   * Fetch games from every enabled source
+   */
+  const fetchAll = async (
+    context: LibrarySourceContext,
+    onSourceFetched?: (result: SourceFetchResult) => void,
+  ): Promise<SourceFetchResult[]> => {
+    const unknownIds = context.config.sources.enabled.filter(
+      id => !sources.has(id),
+    );
+    for (const id of unknownIds) {
+      console.warn(`⚠️  Unknown library source "${id}" in config, ignoring`);
+    }
+
+    const results: SourceFetchResult[] = [];
+
+    for (const source of getEnabled(context.config)) {
+      let result: SourceFetchResult;
+      try {
+        const games = await source.fetch(context);
+        result = { id: source.id, games };
+      } catch (error) {
+        console.error(`❌ Failed to fetch ${source.name} games:`, error);
+        console.log(`Continuing without ${source.name} data...\n`);
+        result = { id: source.id, games: [], error: String(error) };
+      }
+      results.push(result);
+      onSourceFetched?.(result);
+    }
+
+    return results;
+  };
+
+  /**
+   * Run the health check of every registered source
+   */
+  const checkHealth = async (
+    context: LibrarySourceContext,
+  ): Promise<SourceHealthReport[]> =>
+    Promise.all(
+      list().map(async source => {
+        const enabled = isEnabled(source, context.config);
+        const configured = source.isConfigured(context.config);
+        const base = { id: source.id, name: source.name, enabled, configured };
+
+        if (!configured) {
+          return { ...base, ok: false, message: 'Not configured' };
+        }
+
+        try {
+          return { ...base, ...(await source.healthCheck(context)) };
+        } catch (error) {
+          return { ...base, ok: false, message: String(error) };
+        }
+      }),
+    );
+
+  return {
+    register,
+    unregister,
+    get,
+    list,
+    getEnabled,
+    fetchAll,
+    checkHealth,
+  };
+};
+
+export type SourceRegistry = ReturnType<typeof createSourceRegistry>;
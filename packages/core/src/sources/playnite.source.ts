@@ -0,0 +1,53 @@
+import { playniteAdapter } from '../adapters/playnite.adapter';
+import { resolveXboxSource, shouldSyncToNotion } from '../core/xbox-gamepass';
+import { RawGameData } from '../types/game';
+import { LibrarySource } from './library-source';
+
+/**
+ * Playnite JSON export library source (legacy)
+ * Game Pass titles are only kept when they are in the interests list and
+ * still in the catalog; Xbox titles are re-tagged as owned or Game Pass.
+ */
+export const playniteSource: LibrarySource = {
+  id: 'playnite',
+  name: 'Playnite',
+  isConfigured: () => true,
+  fetch: async ({ dataDir, gamePassCatalog = [], gamePassInterests = [] }) => {
+    const gamePassFilter = async (gameTitle: string): Promise<boolean> => {
+      const title = gameTitle.toLowerCase().trim();
+      const isInterested = gamePassInterests.some(
+        interest => interest.toLowerCase().trim() === title,
+      );
+      if (!isInterested) return false;
+      return gamePassCatalog.some(
+        game => game.title.toLowerCase().trim() === title,
+      );
+    };
+
+    const playniteGames = await playniteAdapter.loadSnapshot(
+      `${dataDir}/playnite.json`,
+      gamePassFilter,
+    );
+
+    const filtered: RawGameData[] = [];
+    for (const game of playniteGames) {
+      if (game.source === 'xbox') {
+        game.source = await resolveXboxSource(game.name, gamePassCatalog);
+      }
+      if (await shouldSyncToNotion(game, gamePassCatalog)) {
+        filtered.push(game);
+      }
+    }
+
+    console.log(
+      `✅ Playnite: ${filtered.length} games (${
+        playniteGames.length - filtered.length
+      } filtered out)\n`,
+    );
+    return filtered;
+  },
+  healthCheck: async ({ dataDir }) =>
+    (await playniteAdapter.validateExport(`${dataDir}/playnite.json`))
+      ? { ok: true, message: `${dataDir}/playnite.json` }
+      : { ok: false, message: `Invalid or missing ${dataDir}/playnite.json` },
+};
@@ -0,0 +1,18 @@
+import { createSourceRegistry } from './library-source';
+import { steamSource } from './steam.source';
+import { steamLocalSource } from './steam-local.source';
+import { heroicSource } from './heroic.source';
+import { playniteSource } from './playnite.source';
+import { xboxOwnedSource } from './xbox-owned.source';
+
+/**
+ * Create a registry pre-populated with the built-in library sources
+ */
+export const createDefaultSourceRegistry = () =>
+  createSourceRegistry([
+    steamSource,
+    steamLocalSource,
+    heroicSource,
+    playniteSource,
+    xboxOwnedSource,
+  ]);
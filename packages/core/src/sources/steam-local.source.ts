@@ -0,0 +1,27 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { steamLocalAdapter } from '../adapters/steam-local.adapter';
+import { LibrarySource } from './library-source';
+
+/**
+ * Offline Steam library source (installed apps from local Steam files)
+ */
+export const steamLocalSource: LibrarySource = {
+  id: 'steam-local',
+  name: 'Steam (local)',
+  isConfigured: config => !!config.steam.installPath,
+  fetch: ({ config }) =>
+    steamLocalAdapter.loadLibrary(
+      config.steam.installPath,
+      config.steam.userId || undefined,
+    ),
+  healthCheck: async ({ config }) => {
+    const steamappsDir = path.join(config.steam.installPath, 'steamapps');
+    try {
+      await fs.access(steamappsDir);
+      return { ok: true, message: config.steam.installPath };
+    } catch {
+      return { ok: false, message: `Steam library not found: ${steamappsDir}` };
+    }
+  },
+};
@@ -0,0 +1,27 @@
+import { steamAdapter } from '../adapters/steam.adapter';
+import { LibrarySource } from './library-source';
+
+/**
+ * Steam Web API library source
+ */
+export const steamSource: LibrarySource = {
+  id: 'steam',
+  name: 'Steam',
+  isConfigured: config => !!config.steam.apiKey && !!config.steam.userId,
+  fetch: async ({ config }) => {
+    console.log('⚙️  Fetching from Steam...');
+    const games = await steamAdapter.fetchOwnedGames(
+      config.steam.apiKey,
+      config.steam.userId,
+    );
+    console.log(`✅ Steam: ${games.length} games\n`);
+    return games;
+  },
+  healthCheck: async ({ config }) =>
+    steamAdapter.isValidSteamId(config.steam.userId)
+      ? { ok: true, message: 'Steam API key and user ID set' }
+      : {
+          ok: false,
+          message: 'STEAM_USER_ID format looks incorrect (should be 17 digits)',
+        },
+};
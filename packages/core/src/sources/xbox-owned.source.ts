@@ -0,0 +1,42 @@
+import fs from 'fs/promises';
+import { OwnedXboxGames } from '../core/xbox-gamepass';
+import { RawGameData } from '../types/game';
+import { LibrarySource } from './library-source';
+
+const ownedXboxFile = (dataDir: string): string =>
+  `${dataDir}/owned-xbox-games.json`;
+
+/**
+ * Manually curated list of owned Xbox games (data/owned-xbox-games.json)
+ */
+export const xboxOwnedSource: LibrarySource = {
+  id: 'xbox-owned',
+  name: 'Owned Xbox',
+  isConfigured: () => true,
+  fetch: async ({ dataDir }) => {
+    let data: OwnedXboxGames;
+    try {
+      data = JSON.parse(await fs.readFile(ownedXboxFile(dataDir), 'utf-8'));
+    } catch {
+      console.warn('⚠️  No owned Xbox games file found');
+      return [];
+    }
+
+    const games: RawGameData[] = (data.ownedGames || []).map(gameName => ({
+      name: gameName,
+      source: 'xbox',
+      externalId: `xbox-owned-${gameName.toLowerCase().replace(/\s+/g, '-')}`,
+      playtimeHours: 0,
+    }));
+    console.log(`🎯 Owned Xbox: ${games.length} games`);
+    return games;
+  },
+  healthCheck: async ({ dataDir }) => {
+    try {
+      await fs.access(ownedXboxFile(dataDir));
+      return { ok: true, message: ownedXboxFile(dataDir) };
+    } catch {
+      return { ok: false, message: `${ownedXboxFile(dataDir)} not found` };
+    }
+  },
+};
@@ -0,0 +1,216 @@
+import { describe, it, expect } from 'vitest';
+import { APIErrorCode } from '@notionhq/client';
+import { createFakeNotion, createNotionError } from './fake-notion';
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+const makeNotion = (now = () => new Date('2026-03-01T10:00:30Z')) =>
+  createFakeNotion({
+    now,
+    properties: [
+      { name: 'Name', type: 'title' },
+      { name: 'Source', type: 'select', options: ['Steam'] },
+      { name: 'Hours', type: 'number' },
+    ],
+  });
+
+const page = (
+  name: string,
+  source = 'Steam',
+  hours: number | null = null,
+) => ({
+  Name: { title: [{ text: { content: name } }] },
+  Source: { select: { name: source } },
+  Hours: { number: hours },
+});
+
+const titles = (response: { results: any[] }) =>
+  response.results.map(result => result.properties.Name.title[0].plain_text);
+
+// ── Tests ──────────────────────────────────────────────────────────────────────
+
+describe('fake-notion', () => {
+  it('pages through query results with cursors', async () => {
+    const notion = makeNotion();
+    ['Hades', 'Celeste', 'Tunic'].forEach(name => notion.addPage(page(name)));
+
+    const first = await notion.databases.query({
+      database_id: 'fake-db',
+      page_size: 2,
+    });
+    const second = await notion.databases.query({
+      database_id: 'fake-db',
+      page_size: 2,
+      start_cursor: first.next_cursor!,
+    });
+
+    expect(titles(first)).toEqual(['Hades', 'Celeste']);
+    expect(first.has_more).toBe(true);
+    expect(titles(second)).toEqual(['Tunic']);
+    expect(second).toMatchObject({ next_cursor: null, has_more: false });
+  });
+
+  it('filters by property and by last edited time', async () => {
+    let now = new Date('2026-03-01T10:00:00Z');
+    const notion = makeNotion(() => now);
+    notion.addPage(page('Hades', 'Steam', 40));
+    now = new Date('2026-03-02T10:00:00Z');
+    notion.addPage(page('Halo', 'Xbox', 5));
+
+    const bySource = await notion.databases.query({
+      database_id: 'fake-db',
+      filter: { property: 'Source', select: { equals: 'Xbox' } },
+    });
+    const recent = await notion.databases.query({
+      database_id: 'fake-db',
+      filter: {
+        timestamp: 'last_edited_time',
+        last_edited_time: { on_or_after: '2026-03-02T00:00:00Z' },
+      },
+    });
+    const either = await notion.databases.query({
+      database_id: 'fake-db',
+      filter: {
+        or: [
+          { property: 'Hours', number: { greater_than: 10 } },
+          { property: 'Name', title: { contains: 'Hal' } },
+        ],
+      },
+    });
+
+    expect(titles(bySource)).toEqual(['Halo']);
+    expect(titles(recent)).toEqual(['Halo']);
+    expect(titles(either)).toEqual(['Hades', 'Halo']);
+  });
+
+  it('stores times to the minute and fills in unset properties', async () => {
+    const notion = makeNotion();
+
+    const created = await notion.pages.create({
+      parent: { database_id: 'fake-db' },
+      properties: { Name: { title: [{ text: { content: 'Hades' } }] } },
+    });
+
+    expect(created.last_edited_time).toBe('2026-03-01T10:00:00.000Z');
+    expect(created.properties.Source).toEqual({ type: 'select', select: null });
+    expect(created.properties.Hours).toEqual({ type: 'number', number: null });
+  });
+
+  it('rejects unknown properties and values of the wrong type', async () => {
+    const notion = makeNotion();
+    const { id } = notion.addPage(page('Hades'));
+
+    await expect(
+      notion.pages.update({
+        page_id: id,
+        properties: { Rating: { number: 5 } },
+      }),
+    ).rejects.toMatchObject({
+      code: APIErrorCode.ValidationError,
+      message: 'Rating is not a property that exists.',
+    });
+    await expect(
+      notion.pages.update({
+        page_id: id,
+        properties: { Hours: { rich_text: [] } },
+      }),
+    ).rejects.toThrow('Hours is expected to be number.');
+    expect(notion.findPage('Hades')!.properties.Hours.number).toBeNull();
+  });
+
+  it('creates select options on write, as Notion does', async () => {
+    const notion = makeNotion();
+    notion.addPage(page('Halo', 'Xbox'));
+
+    const database: any = await notion.databases.retrieve({
+      database_id: 'fake-db',
+    });
+
+    expect(database.properties.Source.select.options).toEqual([
+      { name: 'Steam' },
+      { name: 'Xbox' },
+    ]);
+  });
+
+  it('hides archived pages and refuses to edit them', async () => {
+    const notion = makeNotion();
+    const { id } = notion.addPage(page('Hades'));
+    await notion.pages.update({ page_id: id, archived: true });
+
+    const response = await notion.databases.query({ database_id: 'fake-db' });
+
+    expect(response.results).toEqual([]);
+    await expect(
+      notion.pages.update({
+        page_id: id,
+        properties: { Hours: { number: 1 } },
+      }),
+    ).rejects.toThrow('archived');
+  });
+
+  it('stores page blocks and inserts appended ones after a given block', async () => {
+    const notion = makeNotion();
+    const paragraph = (content: string) => ({
+      type: 'paragraph',
+      paragraph: { rich_text: [{ text: { content } }] },
+    });
+    const created = await notion.pages.create({
+      parent: { database_id: 'fake-db' },
+      properties: page('Hades'),
+      children: [paragraph('First'), paragraph('Last')],
+    });
+    const [first, last] = notion.getBlocks(created.id);
+
+    await notion.blocks.children.append({
+      block_id: created.id,
+      children: [paragraph('Middle')],
+      after: first.id,
+    });
+    await notion.blocks.delete({ block_id: last.id });
+    const response = await notion.blocks.children.list({
+      block_id: created.id,
+    });
+
+    expect(
+      response.results.map(
+        (block: any) => block.paragraph.rich_text[0].plain_text,
+      ),
+    ).toEqual(['First', 'Middle']);
+  });
+
+  it('fails the next calls of a method with injected errors', async () => {
+    const notion = makeNotion();
+    const error = createNotionError(
+      429,
+      APIErrorCode.RateLimited,
+      'Rate limited',
+    );
+    notion.failNext('databases.query', error);
+
+    await expect(
+      notion.databases.query({ database_id: 'fake-db' }),
+    ).rejects.toBe(error);
+    await expect(
+      notion.databases.query({ database_id: 'fake-db' }),
+    ).resolves.toMatchObject({ results: [] });
+    expect(notion.getRequests('databases.query')).toHaveLength(2);
+  });
+
+  it('makes a write and then fails it for a lost response', async () => {
+    const notion = makeNotion();
+    const error = createNotionError(
+      504,
+      APIErrorCode.InternalServerError,
+      'Gateway timeout',
+    );
+    notion.loseNextResponse('pages.create', error);
+
+    await expect(
+      notion.pages.create({
+        parent: { database_id: 'fake-db' },
+        properties: page('Hades'),
+      }),
+    ).rejects.toBe(error);
+    expect(notion.findPage('Hades')).toBeDefined();
+  });
+});
@@ -0,0 +1,708 @@
+import { APIErrorCode, APIResponseError } from '@notionhq/client';
+import { ExpectedProperty, NotionPropertyType } from '../notion/notion.schema';
+
+export type FakeNotionOptions = {
+  databaseId?: string;
+  properties: ExpectedProperty[]; // Initial database schema
+  now?: () => Date; // Clock for created/last edited times
+};
+
+export type FakeNotionMethod =
+  | 'databases.retrieve'
+  | 'databases.update'
+  | 'databases.query'
+  | 'pages.create'
+  | 'pages.update'
+  | 'blocks.children.list'
+  | 'blocks.children.append'
+  | 'blocks.delete';
+
+/**
+ * A stored page, as the API returns it
+ */
+export type FakeNotionPage = {
+  object: 'page';
+  id: string;
+  created_time: string;
+  last_edited_time: string;
+  archived: boolean;
+  cover: unknown;
+  icon: unknown;
+  parent: { type: 'database_id'; database_id: string };
+  properties: Record<string, any>;
+};
+
+/**
+ * A stored top-level block of a page, as the API returns it
+ */
+export type FakeNotionBlock = {
+  object: 'block';
+  id: string;
+  type: string;
+  has_children: false;
+  [type: string]: unknown;
+};
+
+type FakeProperty = {
+  type: NotionPropertyType;
+  options: string[]; // select / multi_select
+};
+
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Build an API error the way the SDK throws it
+ */
+export const createNotionError = (
+  status: number,
+  code: APIErrorCode,
+  message: string,
+  headers: Record<string, string> = {},
+): APIResponseError =>
+  new APIResponseError({
+    code,
+    status,
+    message,
+    headers: new Headers(headers),
+    rawBodyText: JSON.stringify({ object: 'error', status, code, message }),
+  });
+
+const validationError = (message: string) =>
+  createNotionError(400, APIErrorCode.ValidationError, message);
+
+// Notion only stores times to the minute
+const toNotionTime = (date: Date): string => {
+  const time = new Date(date);
+  time.setUTCSeconds(0, 0);
+  return time.toISOString();
+};
+
+const emptyValue = (type: NotionPropertyType): unknown => {
+  switch (type) {
+    case 'title':
+    case 'rich_text':
+    case 'multi_select':
+      return [];
+    case 'checkbox':
+      return false;
+    default:
+      return null;
+  }
+};
+
+const toRichText = (items: any[]) =>
+  items.map(item => {
+    const content = item?.text?.content;
+    if (typeof content !== 'string') {
+      throw validationError('Rich text items need text.content.');
+    }
+    return {
+      type: 'text',
+      text: { content, link: null },
+      plain_text: content,
+    };
+  });
+
+/**
+ * Comparable value of a stored property, for filters
+ */
+const filterValue = (property: any): unknown => {
+  switch (property.type as NotionPropertyType) {
+    case 'title':
+    case 'rich_text':
+      return property[property.type]
+        .map((item: any) => item.plain_text)
+        .join('');
+    case 'select':
+      return property.select?.name ?? null;
+    case 'multi_select':
+      return property.multi_select.map((option: any) => option.name);
+    case 'date':
+      return property.date?.start ?? null;
+    default:
+      return property[property.type];
+  }
+};
+
+const isEmpty = (value: unknown) =>
+  value === null || value === '' || (Array.isArray(value) && !value.length);
+
+const DATE_OPERATORS = ['before', 'after', 'on_or_before', 'on_or_after'];
+
+/**
+ * Check a value against a filter condition such as { equals: 'Steam' }
+ */
+const matchesCondition = (
+  value: unknown,
+  condition: Record<string, unknown>,
+): boolean =>
+  Object.entries(condition).every(([operator, argument]) => {
+    if (DATE_OPERATORS.includes(operator)) {
+      if (value === null) return false;
+      const time = Date.parse(String(value));
+      const other = Date.parse(String(argument));
+      switch (operator) {
+        case 'before':
+          return time < other;
+        case 'after':
+          return time > other;
+        case 'on_or_before':
+          return time <= other;
+        default:
+          return time >= other;
+      }
+    }
+
+    switch (operator) {
+      case 'equals':
+        return value === argument;
+      case 'does_not_equal':
+        return value !== argument;
+      case 'contains':
+        return Array.isArray(value)
+          ? value.includes(argument)
+          : String(value ?? '').includes(String(argument));
+      case 'does_not_contain':
+        return Array.isArray(value)
+          ? !value.includes(argument)
+          : !String(value ?? '').includes(String(argument));
+      case 'is_empty':
+        return isEmpty(value);
+      case 'is_not_empty':
+        return !isEmpty(value);
+      case 'greater_than':
+        return value !== null && Number(value) > Number(argument);
+      case 'less_than':
+        return value !== null && Number(value) < Number(argument);
+      default:
+        throw validationError(`Unsupported filter condition "${operator}".`);
+    }
+  });
+
+/**
+ * In-memory stand-in for a Notion database, for end-to-end sync tests.
+ * Implements the parts of the SDK client the sync uses (databases.retrieve,
+ * update and query, pages.create and update, top-level page blocks) with
+ * Notion's response shapes, pagination, filters and property validation. Return it from a mocked
+ * Client constructor.
+ */
+export const createFakeNotion = ({
+  databaseId = 'fake-db',
+  properties: initialProperties,
+  now = () => new Date(),
+}: FakeNotionOptions) => {
+  const schema = new Map<string, FakeProperty>(
+    initialProperties.map(({ name, type, options = [] }) => [
+      name,
+      { type, options: [...options] },
+    ]),
+  );
+  const pages = new Map<string, FakeNotionPage>();
+  const blocks = new Map<string, FakeNotionBlock[]>(); // By page ID
+  const failures: Array<{ method: FakeNotionMethod; error: unknown }> = [];
+  const lostResponses: Array<{ method: FakeNotionMethod; error: unknown }> =
+    [];
+  const requests: Array<{ method: FakeNotionMethod; args: any }> = [];
+  let nextId = 1;
+
+  /**
+   * Log a request and throw the next injected failure for its method
+   */
+  const handle = (method: FakeNotionMethod, args: any) => {
+    requests.push({ method, args });
+    const index = failures.findIndex(failure => failure.method === method);
+    if (index >= 0) {
+      const [{ error }] = failures.splice(index, 1);
+      throw error;
+    }
+  };
+
+  /**
+   * Throw the next injected failure for a write that was already made
+   */
+  const respond = (method: FakeNotionMethod) => {
+    const index = lostResponses.findIndex(lost => lost.method === method);
+    if (index >= 0) {
+      const [{ error }] = lostResponses.splice(index, 1);
+      throw error;
+    }
+  };
+
+  const checkDatabase = (id: string | undefined) => {
+    if (id !== databaseId) {
+      throw createNotionError(
+        404,
+        APIErrorCode.ObjectNotFound,
+        `Could not find database with ID: ${id}.`,
+      );
+    }
+  };
+
+  const getPage = (id: string): FakeNotionPage => {
+    const page = pages.get(id);
+    if (!page) {
+      throw createNotionError(
+        404,
+        APIErrorCode.ObjectNotFound,
+        `Could not find page with ID: ${id}.`,
+      );
+    }
+    return page;
+  };
+
+  /**
+   * Validate a written property value and convert it to the stored shape.
+   * New select options are created, as Notion does.
+   */
+  const toStoredValue = (name: string, value: any) => {
+    const property = schema.get(name);
+    if (!property) {
+      throw validationError(`${name} is not a property that exists.`);
+    }
+    const { type } = property;
+    if (!value || typeof value !== 'object' || !(type in value)) {
+      throw validationError(`${name} is expected to be ${type}.`);
+    }
+
+    const input = value[type];
+    const addOption = (option: any) => {
+      if (typeof option?.name !== 'string' || option.name.includes(',')) {
+        throw validationError(`Invalid option for ${name}.`);
+      }
+      if (!property.options.includes(option.name)) {
+        property.options.push(option.name);
+      }
+      return { name: option.name, color: 'default' };
+    };
+
+    switch (type) {
+      case 'title':
+      case 'rich_text':
+        if (!Array.isArray(input)) {
+          throw validationError(`${name} is expected to be ${type}.`);
+        }
+        return { type, [type]: toRichText(input) };
+      case 'select':
+        return { type, select: input === null ? null : addOption(input) };
+      case 'multi_select':
+        if (!Array.isArray(input)) {
+          throw validationError(`${name} is expected to be multi_select.`);
+        }
+        return { type, multi_select: input.map(addOption) };
+      case 'number':
+        if (input !== null && typeof input !== 'number') {
+          throw validationError(`${name} is expected to be number.`);
+        }
+        return { type, number: input };
+      case 'date':
+        if (input !== null && Number.isNaN(Date.parse(input?.start))) {
+          throw validationError(`${name} is expected to be a date.`);
+        }
+        return { type, date: input && { start: input.start, end: null } };
+      case 'url':
+        if (input !== null && typeof input !== 'string') {
+          throw validationError(`${name} is expected to be url.`);
+        }
+        return { type, url: input };
+      case 'checkbox':
+        if (typeof input !== 'boolean') {
+          throw validationError(`${name} is expected to be checkbox.`);
+        }
+        return { type, checkbox: input };
+    }
+  };
+
+  const writeProperties = (
+    page: FakeNotionPage,
+    properties: Record<string, any> = {},
+  ) => {
+    // Validate everything before changing anything
+    const values = Object.entries(properties).map(
+      ([name, value]) => [name, toStoredValue(name, value)] as const,
+    );
+    for (const [name, value] of values) {
+      page.properties[name] = value;
+    }
+  };
+
+  const insertPage = (properties: Record<string, any>): FakeNotionPage => {
+    const time = toNotionTime(now());
+    const page: FakeNotionPage = {
+      object: 'page',
+      id: `fake-page-${nextId++}`,
+      created_time: time,
+      last_edited_time: time,
+      archived: false,
+      cover: null,
+      icon: null,
+      parent: { type: 'database_id', database_id: databaseId },
+      properties: {},
+    };
+    writeProperties(page, properties);
+    pages.set(page.id, page);
+    blocks.set(page.id, []);
+    return page;
+  };
+
+  /**
+   * Store written blocks, with rich text in the shape the API returns
+   */
+  const toStoredBlocks = (children: any[] = []): FakeNotionBlock[] =>
+    children.map(({ object: _object, type, ...content }) => {
+      if (!type || !content[type]) {
+        throw validationError('Blocks need a type and its content.');
+      }
+      const { rich_text: items, ...rest } = content[type];
+      return {
+        object: 'block',
+        id: `fake-block-${nextId++}`,
+        type,
+        has_children: false,
+        [type]: items
+          ? {
+              ...rest,
+              rich_text: toRichText(items).map((item, i) => ({
+                ...item,
+                text: { ...item.text, link: items[i].text.link ?? null },
+                ...(items[i].annotations && {
+                  annotations: items[i].annotations,
+                }),
+              })),
+            }
+          : rest,
+      };
+    });
+
+  /**
+   * Blocks of a live page. Edits count as edits of the page.
+   */
+  const getBlocks = (id: string, edit: boolean): FakeNotionBlock[] => {
+    const page = getPage(id);
+    if (edit) {
+      if (page.archived) {
+        throw validationError(
+          "Can't edit block that is archived. You must unarchive the block before editing.",
+        );
+      }
+      page.last_edited_time = toNotionTime(now());
+    }
+    return blocks.get(id)!;
+  };
+
+  /**
+   * Fill in properties added to the schema after the page was created
+   */
+  const withAllProperties = (page: FakeNotionPage): FakeNotionPage => {
+    for (const [name, { type }] of schema) {
+      page.properties[name] ??= { type, [type]: emptyValue(type) };
+    }
+    return structuredClone(page);
+  };
+
+  const matchesFilter = (page: FakeNotionPage, filter: any): boolean => {
+    if (filter.and) return filter.and.every((f: any) => matchesFilter(page, f));
+    if (filter.or) return filter.or.some((f: any) => matchesFilter(page, f));
+
+    if (filter.timestamp) {
+      const condition = filter[filter.timestamp];
+      if (!condition) {
+        throw validationError(`Missing ${filter.timestamp} condition.`);
+      }
+      return matchesCondition(
+        page[filter.timestamp as 'created_time' | 'last_edited_time'],
+        condition,
+      );
+    }
+
+    const property = schema.get(filter.property);
+    if (!property) {
+      throw validationError(
+        `Could not find property with name or id: ${filter.property}`,
+      );
+    }
+    const condition = filter[property.type];
+    if (!condition) {
+      throw validationError(
+        `${filter.property} is a ${property.type} property.`,
+      );
+    }
+    return matchesCondition(
+      filterValue(withAllProperties(page).properties[filter.property]),
+      condition,
+    );
+  };
+
+  const databases = {
+    retrieve: async (args: { database_id: string }) => {
+      handle('databases.retrieve', args);
+      checkDatabase(args.database_id);
+      return {
+        object: 'database',
+        id: databaseId,
+        properties: Object.fromEntries(
+          [...schema].map(([name, { type, options }]) => [
+            name,
+            {
+              id: name,
+              name,
+              type,
+              [type]:
+                type === 'select' || type === 'multi_select'
+                  ? { options: options.map(option => ({ name: option })) }
+                  : {},
+            },
+          ]),
+        ),
+      };
+    },
+
+    update: async (args: {
+      database_id: string;
+      properties?: Record<string, any>;
+    }) => {
+      handle('databases.update', args);
+      checkDatabase(args.database_id);
+      for (const [name, definition] of Object.entries(args.properties ?? {})) {
+        const type = Object.keys(definition).find(
+          key => key !== 'name',
+        ) as NotionPropertyType;
+        const existing = schema.get(name);
+        if (existing && existing.type !== type) {
+          throw validationError(`Cannot change the type of ${name}.`);
+        }
+        schema.set(name, {
+          type,
+          options: (definition[type]?.options ?? []).map(
+            (option: { name: string }) => option.name,
+          ),
+        });
+      }
+      return databases.retrieve({ database_id: databaseId });
+    },
+
+    query: async (args: {
+      database_id: string;
+      start_cursor?: string;
+      page_size?: number;
+      filter?: any;
+      filter_properties?: string[];
+    }) => {
+      handle('databases.query', args);
+      checkDatabase(args.database_id);
+      const pageSize = args.page_size ?? MAX_PAGE_SIZE;
+      if (pageSize < 1 || pageSize > MAX_PAGE_SIZE) {
+        throw validationError(`page_size should be ≤ ${MAX_PAGE_SIZE}.`);
+      }
+
+      const matching = [...pages.values()].filter(
+        page =>
+          !page.archived && (!args.filter || matchesFilter(page, args.filter)),
+      );
+      const start = args.start_cursor
+        ? matching.findIndex(page => page.id === args.start_cursor)
+        : 0;
+      if (start < 0) {
+        throw validationError(`Invalid start_cursor: ${args.start_cursor}`);
+      }
+      const results = matching.slice(start, start + pageSize);
+      const next = matching[start + pageSize];
+
+      // Properties are listed by ID; the title property's ID is "title"
+      const only = args.filter_properties;
+      const select = (page: FakeNotionPage): FakeNotionPage =>
+        only
+          ? {
+              ...page,
+              properties: Object.fromEntries(
+                Object.entries(page.properties).filter(
+                  ([name, property]) =>
+                    only.includes(name) ||
+                    (property.type === 'title' && only.includes('title')),
+                ),
+              ),
+            }
+          : page;
+
+      return {
+        object: 'list',
+        results: results.map(withAllProperties).map(select),
+        next_cursor: next?.id ?? null,
+        has_more: next !== undefined,
+      };
+    },
+  };
+
+  const pagesApi = {
+    create: async (args: {
+      parent: { database_id: string };
+      properties: Record<string, any>;
+      cover?: unknown;
+      icon?: unknown;
+      children?: any[];
+    }) => {
+      handle('pages.create', args);
+      checkDatabase(args.parent?.database_id);
+      const children = toStoredBlocks(args.children);
+      const page = insertPage(args.properties);
+      page.cover = structuredClone(args.cover ?? null);
+      page.icon = structuredClone(args.icon ?? null);
+      blocks.set(page.id, children);
+      respond('pages.create');
+      return withAllProperties(page);
+    },
+
+    update: async (args: {
+      page_id: string;
+      properties?: Record<string, any>;
+      cover?: unknown;
+      icon?: unknown;
+      archived?: boolean;
+    }) => {
+      handle('pages.update', args);
+      const page = getPage(args.page_id);
+      if (page.archived && args.archived !== false) {
+        throw validationError(
+          "Can't edit block that is archived. You must unarchive the block before editing.",
+        );
+      }
+      writeProperties(page, args.properties);
+      if (args.cover !== undefined) page.cover = structuredClone(args.cover);
+      if (args.icon !== undefined) page.icon = structuredClone(args.icon);
+      if (args.archived !== undefined) page.archived = args.archived;
+      page.last_edited_time = toNotionTime(now());
+      return withAllProperties(page);
+    },
+  };
+
+  const blocksApi = {
+    children: {
+      list: async (args: {
+        block_id: string;
+        start_cursor?: string;
+        page_size?: number;
+      }) => {
+        handle('blocks.children.list', args);
+        const children = getBlocks(args.block_id, false);
+        const pageSize = args.page_size ?? MAX_PAGE_SIZE;
+        const start = args.start_cursor
+          ? children.findIndex(block => block.id === args.start_cursor)
+          : 0;
+        if (start < 0) {
+          throw validationError(`Invalid start_cursor: ${args.start_cursor}`);
+        }
+        const next = children[start + pageSize];
+
+        return {
+          object: 'list',
+          results: structuredClone(children.slice(start, start + pageSize)),
+          next_cursor: next?.id ?? null,
+          has_more: next !== undefined,
+        };
+      },
+
+      append: async (args: {
+        block_id: string;
+        children: any[];
+        after?: string;
+      }) => {
+        handle('blocks.children.append', args);
+        const children = getBlocks(args.block_id, true);
+        const index = args.after
+          ? children.findIndex(block => block.id === args.after) + 1
+          : children.length;
+        if (index === 0) {
+          throw validationError(`Could not find block with ID: ${args.after}`);
+        }
+        const appended = toStoredBlocks(args.children);
+        children.splice(index, 0, ...appended);
+        respond('blocks.children.append');
+        return { object: 'list', results: structuredClone(appended) };
+      },
+    },
+
+    delete: async (args: { block_id: string }) => {
+      handle('blocks.delete', args);
+      for (const [pageId, children] of blocks) {
+        const index = children.findIndex(block => block.id === args.block_id);
+        if (index >= 0) {
+          getBlocks(pageId, true);
+          const [block] = children.splice(index, 1);
+          return { ...structuredClone(block), archived: true };
+        }
+      }
+      throw createNotionError(
+        404,
+        APIErrorCode.ObjectNotFound,
+        `Could not find block with ID: ${args.block_id}.`,
+      );
+    },
+  };
+
+  return {
+    databases,
+    pages: pagesApi,
+    blocks: blocksApi,
+
+    /**
+     * Add a page directly, as if a user created it in Notion
+     */
+    addPage: (properties: Record<string, any>): FakeNotionPage =>
+      withAllProperties(insertPage(properties)),
+
+    /**
+     * Every page including archived ones, with all properties filled in
+     */
+    getPages: (): FakeNotionPage[] =>
+      [...pages.values()].map(withAllProperties),
+
+    /**
+     * Find a live page by its title text
+     */
+    findPage: (title: string): FakeNotionPage | undefined =>
+      [...pages.values()]
+        .filter(page => !page.archived)
+        .map(withAllProperties)
+        .find(page =>
+          Object.values(page.properties).some(
+            property =>
+              property.type === 'title' && filterValue(property) === title,
+          ),
+        ),
+
+    /**
+     * Top-level blocks of a page, in order
+     */
+    getBlocks: (pageId: string): FakeNotionBlock[] =>
+      structuredClone(blocks.get(pageId) ?? []),
+
+    /**
+     * Make the next call of a method fail with the given error
+     */
+    failNext: (method: FakeNotionMethod, error: unknown, times = 1): void => {
+      for (let i = 0; i < times; i++) failures.push({ method, error });
+    },
+
+    /**
+     * Make the next create or append go through but fail anyway, as when
+     * the response times out after Notion made the write
+     */
+    loseNextResponse: (
+      method: 'pages.create' | 'blocks.children.append',
+      error: unknown,
+    ): void => {
+      lostResponses.push({ method, error });
+    },
+
+    /**
+     * API requests received, in order
+     */
+    getRequests: (method?: FakeNotionMethod) =>
+      requests.filter(request => !method || request.method === method),
+
+    clearRequests: (): void => {
+      requests.length = 0;
+    },
+  };
+};
+
+export type FakeNotion = ReturnType<typeof createFakeNotion>;
@@ -1,4 +1,5 @@
 import { z } from 'zod';
+import { getTargetSlug } from '../notion/targets';
 
 /**
  * Source platforms for games
@@ -73,6 +74,21 @@ export const InterestSchema = z.enum(['want-to-play', 'none']);
 
 export type Interest = z.infer<typeof InterestSchema>;
 
+/**
+ * Fields owned by the user and edited by hand in Notion. Push never writes
+ * them; the pull phase of a Notion sync brings them back into the library.
+ */
+export const UserFieldsSchema = z.object({
+  status: z.string().optional(),
+  rating: z.number().optional(),
+  notes: z.string().optional(),
+  interest: InterestSchema.optional(),
+});
+
+export type UserFields = z.infer<typeof UserFieldsSchema>;
+
+export type UserField = keyof UserFields;
+
 /**
  * Unified game model - the canonical representation
  */
@@ -82,8 +98,10 @@ export const UnifiedGameSchema = z.object({
   primarySource: SourceSchema,
   ownedSources: z.array(SourceSchema),
   steamAppId: z.number().optional(),
-  playtimeHours: z.number().optional(),
-  lastPlayedAt: z.date().optional(),
+  playtimeHours: z.number().optional(), // Sum of playtimeBySource
+  lastPlayedAt: z.date().optional(), // Latest of lastPlayedBySource
+  playtimeBySource: z.record(SourceSchema, z.number()).optional(),
+  lastPlayedBySource: z.record(SourceSchema, z.date()).optional(),
   interest: InterestSchema.optional(),
   proton: ProtonInfoSchema.optional(),
 
@@ -91,6 +109,19 @@ export const UnifiedGameSchema = z.object({
   coverImageUrl: z.string().optional(),
   releaseDate: z.date().optional(),
   genres: z.array(z.string()).optional(),
+  franchises: z.array(z.string()).optional(), // IGDB franchises, else series
+
+  // User fields (interest above), pulled from Notion
+  status: z.string().optional(),
+  rating: z.number().optional(),
+  notes: z.string().optional(),
+  userFieldsEditedAt: z.date().optional(), // Last change to a user field
+  notionUserFields: UserFieldsSchema.optional(), // As last pulled from Notion
+
+  // Local install state
+  installed: z.boolean().optional(), // Installed on at least one source
+  installPath: z.string().optional(),
+  installSizeBytes: z.number().optional(), // Summed across installed sources
 
   // Tracking
   createdAt: z.date(),
@@ -112,6 +143,9 @@ export type RawGameData = {
   coverImageUrl?: string;
   releaseDate?: Date;
   genres?: string[];
+  installed?: boolean;
+  installPath?: string;
+  installSizeBytes?: number;
 };
 
 /**
@@ -128,10 +162,132 @@ export const NotionSyncPropertiesSchema = z.object({
   steamDeck: z.boolean().default(true),
   coverImage: z.boolean().default(true),
   libraryStatus: z.boolean().default(true),
+  installed: z.boolean().default(false),
+  installSize: z.boolean().default(false),
+  playtimeBySource: z.boolean().default(false),
+  // Relations to pages in notion.relationDatabases
+  franchise: z.boolean().default(false),
+  platform: z.boolean().default(false),
 });
 
 export type NotionSyncProperties = z.infer<typeof NotionSyncPropertiesSchema>;
 
+/**
+ * User fields to pull back from Notion (opt-in)
+ */
+export const NotionPullPropertiesSchema = z.object({
+  status: z.boolean().default(false),
+  rating: z.boolean().default(false),
+  notes: z.boolean().default(false),
+  interest: z.boolean().default(false),
+});
+
+export type NotionPullProperties = z.infer<typeof NotionPullPropertiesSchema>;
+
+/**
+ * What happens to pages of games that left the library. 'status' only flags
+ * them; 'archive' also archives them after archiveAfterDays flagged, and
+ * 'graveyard' copies them into graveyardDatabaseId before archiving.
+ */
+export const NotionRemovalSchema = z
+  .object({
+    strategy: z.enum(['status', 'archive', 'graveyard']).default('status'),
+    graceDays: z.number().int().min(0).default(3), // Missing this long before flagging
+    archiveAfterDays: z.number().int().min(0).default(30),
+    graveyardDatabaseId: z.string().min(1).optional(),
+  })
+  .refine(
+    removal =>
+      removal.strategy !== 'graveyard' || removal.graveyardDatabaseId,
+    {
+      message: 'The graveyard removal strategy needs a graveyard database ID',
+      path: ['graveyardDatabaseId'],
+    },
+  );
+
+export type NotionRemoval = z.infer<typeof NotionRemovalSchema>;
+
+/**
+ * Sections of the page body template, rendered in this order
+ */
+export const PageBodySectionSchema = z.enum([
+  'cover',
+  'links',
+  'proton',
+  'playtime',
+  'history',
+]);
+
+export type PageBodySection = z.infer<typeof PageBodySectionSchema>;
+
+/**
+ * Notion property name per field, for databases with renamed columns. Only
+ * the name is mapped; each field's property type is fixed (NOTION_PROPERTIES).
+ */
+export const NotionPropertyNamesSchema = z
+  .record(
+    z.enum([
+      ...NotionSyncPropertiesSchema.keyof().options,
+      ...NotionPullPropertiesSchema.keyof().options,
+    ]),
+    z.string().min(1),
+  )
+  .default({});
+
+/**
+ * Games a Notion target receives. Every condition that is set must match;
+ * list conditions match any of their values.
+ */
+export const NotionTargetFilterSchema = z.object({
+  sources: z.array(SourceSchema).optional(), // Owned on any of these
+  protonTiers: z.array(ProtonTierSchema).optional(),
+  steamDeck: z.array(SteamDeckStatusSchema).optional(),
+  interest: InterestSchema.optional(),
+  minPlaytimeHours: z.number().min(0).optional(),
+  maxPlaytimeHours: z.number().min(0).optional(),
+});
+
+export type NotionTargetFilter = z.infer<typeof NotionTargetFilterSchema>;
+
+/**
+ * Extra Notion database synced after the main one, with its own filter,
+ * properties and removal handling. User fields are only pulled from the
+ * main database.
+ */
+export const NotionTargetSchema = z.object({
+  name: z.string().min(1), // Shown in logs; names the target's state files
+  databaseId: z.string().min(1),
+  titleProperty: z.string().default('Name'),
+  syncProperties: NotionSyncPropertiesSchema.optional().default({}),
+  propertyNames: NotionPropertyNamesSchema,
+  removal: NotionRemovalSchema.optional().default({}),
+  filter: NotionTargetFilterSchema.optional().default({}),
+});
+
+export type NotionTarget = z.infer<typeof NotionTargetSchema>;
+
+/**
+ * Target list. Each target's state files are named by the slug of its name,
+ * so names must differ in more than case and punctuation.
+ */
+export const NotionTargetsSchema = z
+  .array(NotionTargetSchema)
+  .superRefine((targets, ctx) => {
+    const namesBySlug = new Map<string, string>();
+    targets.forEach(({ name }, index) => {
+      const slug = getTargetSlug(name);
+      const other = namesBySlug.get(slug);
+      if (other !== undefined) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [index, 'name'],
+          message: `Notion targets "${other}" and "${name}" would share state files (${slug}); use more distinct names`,
+        });
+      }
+      namesBySlug.set(slug, name);
+    });
+  });
+
 /**
  * Configuration for the application
  */
@@ -139,12 +295,28 @@ export const ConfigSchema = z.object({
   steam: z.object({
     apiKey: z.string(),
     userId: z.string(),
+    installPath: z.string(), // Local Steam root, used by the offline steam-local source
   }),
   notion: z.object({
     apiKey: z.string(),
     databaseId: z.string(),
     titleProperty: z.string().default('Name'),
     syncProperties: NotionSyncPropertiesSchema.optional().default({}),
+    pullProperties: NotionPullPropertiesSchema.optional().default({}),
+    propertyNames: NotionPropertyNamesSchema,
+    removal: NotionRemovalSchema.optional().default({}),
+    pageBody: z.array(PageBodySectionSchema).default([]), // Empty: no page body
+    pageCover: z.boolean().default(false), // Page cover from the game's cover art
+    pageIcon: z.boolean().default(false), // Page icon of the primary store
+    // Databases the franchise and platform relations point to
+    relationDatabases: z
+      .object({
+        franchise: z.string().min(1).optional(),
+        platform: z.string().min(1).optional(),
+      })
+      .default({}),
+    targets: NotionTargetsSchema.default([]),
+    fixSchema: z.boolean().default(false), // Create missing database properties
   }),
   protondb: z.object({
     cacheDays: z.number().default(30),
@@ -155,6 +327,22 @@ export const ConfigSchema = z.object({
   heroic: z.object({
     storeCachePath: z.string(),
   }),
+  sources: z.object({
+    enabled: z.array(z.string()), // Library source ids, see sources/registry.ts
+  }),
+  database: z
+    .object({
+      // Keep the library snapshot in SQLite instead of data/library.json
+      enabled: z.boolean().default(false),
+      path: z.string().default('./data/gamekeeper.db'), // SQLite file
+    })
+    .optional(),
+  suggestions: z
+    .object({
+      threshold: z.number().min(0).max(1).default(0.85), // Minimum name similarity
+      scorer: z.enum(['levenshtein', 'jaro-winkler']).default('levenshtein'),
+    })
+    .optional(),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
@@ -1,14 +1,117 @@
-export type ForceMergeRule = {
-  games: string[];
-  canonicalName?: string;
-};
+// zod/v4 (bundled with zod 3.25) for toJSONSchema, used to generate
+// overrides.schema.json
+import { z } from 'zod/v4';
+import { InterestSchema, SourceSchema } from './game';
 
-export type PropertyOverride = {
-  match: string;
-  properties: Record<string, any>;
+const isValidRegex = (pattern: string): boolean => {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
 };
 
-export type GameOverrides = {
-  forceMerge?: ForceMergeRule[];
-  propertyOverrides?: PropertyOverride[];
-};
+export const ForceMergeRuleSchema = z.object({
+  comment: z.string().optional(),
+  games: z.array(z.string()).min(2),
+  canonicalName: z.string().optional(),
+});
+
+export type ForceMergeRule = z.infer<typeof ForceMergeRuleSchema>;
+
+/**
+ * Keep games apart even when they would normally match.
+ * Each entry in `games` matches by name, by "source:externalId"
+ * (e.g. "epic:fn-123") or by Steam AppID (a number). Games matched by
+ * different entries of a rule are never merged.
+ */
+export const ForceSeparateRuleSchema = z.object({
+  comment: z.string().optional(),
+  games: z.array(z.union([z.string(), z.number().int().positive()])).min(2),
+});
+
+export type ForceSeparateRule = z.infer<typeof ForceSeparateRuleSchema>;
+
+/**
+ * Which games a property override applies to. A bare string is an exact
+ * (normalized) name match; regexes are case-insensitive and tested against
+ * the merged game name.
+ */
+export const PropertyOverrideMatchSchema = z.union([
+  z.string(),
+  z.strictObject({ name: z.string() }),
+  z.strictObject({ canonicalId: z.string() }),
+  z.strictObject({ steamAppId: z.number().int().positive() }),
+  z.strictObject({
+    regex: z.string().refine(isValidRegex, 'Invalid regular expression'),
+  }),
+]);
+
+export type PropertyOverrideMatch = z.infer<typeof PropertyOverrideMatchSchema>;
+
+/**
+ * UnifiedGame fields that can be overridden. Dates are ISO strings in the
+ * file and converted when applied.
+ */
+export const OverridablePropertiesSchema = z.strictObject({
+  name: z.string().optional(),
+  primarySource: z.enum(SourceSchema.options).optional(),
+  steamAppId: z.number().int().positive().optional(),
+  interest: z.enum(InterestSchema.options).optional(),
+  coverImageUrl: z.string().optional(),
+  releaseDate: z.union([z.iso.date(), z.iso.datetime()]).optional(),
+  genres: z.array(z.string()).optional(),
+});
+
+export type OverridableProperties = z.infer<typeof OverridablePropertiesSchema>;
+
+export const PropertyOverrideSchema = z.object({
+  comment: z.string().optional(),
+  match: PropertyOverrideMatchSchema,
+  properties: OverridablePropertiesSchema,
+});
+
+export type PropertyOverride = z.infer<typeof PropertyOverrideSchema>;
+
+/**
+ * Contents of data/overrides.json
+ */
+export const GameOverridesSchema = z
+  .object({
+    $schema: z.string().optional(),
+    forceMerge: z
+      .array(ForceMergeRuleSchema)
+      .optional()
+      .describe(
+        "Force these games to merge even if they wouldn't normally match",
+      ),
+    forceSeparate: z
+      .array(ForceSeparateRuleSchema)
+      .optional()
+      .describe(
+        'Force these games to remain separate even if they would normally match. Each entry is a game name, "source:externalId" or a Steam AppID number',
+      ),
+    propertyOverrides: z
+      .array(PropertyOverrideSchema)
+      .optional()
+      .describe(
+        'Override properties for specific games, matched by name, canonicalId, steamAppId or regex. Later rules win',
+      ),
+  })
+  .meta({
+    title: 'GameKeeper Overrides',
+    description: 'Manual overrides for game deduplication and properties',
+  });
+
+export type GameOverrides = Omit<
+  z.infer<typeof GameOverridesSchema>,
+  '$schema'
+>;
+
+/**
+ * JSON Schema for editor autocomplete, written to overrides.schema.json
+ * by `pnpm overrides:schema`
+ */
+export const buildOverridesJsonSchema = () =>
+  z.toJSONSchema(GameOverridesSchema, { target: 'draft-7' });